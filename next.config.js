@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Report PDFs are drawn on the server with jspdf's Node build
+    serverComponentsExternalPackages: ['jspdf'],
+  },
   images: {
     domains: ['localhost', 'images.unsplash.com', 'via.placeholder.com', 'example.com'],
   },
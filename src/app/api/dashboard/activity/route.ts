@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibrarianSession, listActivity } from '@/lib/library-data';
+import { ActivityType } from '@/types/tenant';
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    // `type` accepts a comma-separated list, e.g. ?type=borrow,return
+    const types = (params.get('type') || '').split(',').filter(Boolean) as ActivityType[];
+    const activity = await listActivity(session, {
+      libraryId: params.get('libraryId') || undefined,
+      types,
+      page: Number(params.get('page') || 1),
+      pageSize: Number(params.get('pageSize') || 20),
+    });
+    return NextResponse.json(activity);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to load activity.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibrarianSession, listAuditLog } from '@/lib/library-data';
+import { AuditAction, AuditEntityType } from '@/types/tenant';
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const entries = await listAuditLog(session, {
+      libraryId: params.get('libraryId') || undefined,
+      action: (params.get('action') as AuditAction) || undefined,
+      entityType: (params.get('entityType') as AuditEntityType) || undefined,
+      librarianId: params.get('librarianId') || undefined,
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to load the audit log.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportCatalog, getLibrarianSession } from '@/lib/library-data';
+import { CatalogExportFormat } from '@/types/tenant';
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const search = request.nextUrl.searchParams;
+    const file = await exportCatalog(session, 'books', (search.get('format') || 'csv') as CatalogExportFormat, {
+      libraryId: search.get('libraryId') || session.library_ids[0] || '',
+      columns: search.get('columns')?.split(',').filter(Boolean),
+      status: search.get('status') || undefined,
+      from: search.get('from') || undefined,
+      to: search.get('to') || undefined,
+    });
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to export books.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibrarianSession, importDashboardBooks } from '@/lib/library-data';
+import { parseBookImportOptions } from '@/lib/book-import';
+
+export async function POST(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const report = await importDashboardBooks(
+      session,
+      String(body.libraryId || ''),
+      String(body.csv || ''),
+      parseBookImportOptions(body)
+    );
+    return NextResponse.json({ report }, { status: report.dry_run ? 200 : 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to import books.' },
+      { status: 400 }
+    );
+  }
+}
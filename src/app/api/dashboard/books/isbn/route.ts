@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibrarianSession, lookupBookIsbn } from '@/lib/library-data';
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const metadata = await lookupBookIsbn(request.nextUrl.searchParams.get('isbn') || '');
+    return NextResponse.json({ metadata });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to look up ISBN.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportMarc, getLibrarianSession, importDashboardMarc } from '@/lib/library-data';
+import { parseBookImportOptions } from '@/lib/book-import';
+import { MarcFormat } from '@/types/tenant';
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const search = request.nextUrl.searchParams;
+    const file = await exportMarc(session, (search.get('format') || 'marcxml') as MarcFormat, {
+      libraryId: search.get('libraryId') || session.library_ids[0] || '',
+      status: search.get('status') || undefined,
+      from: search.get('from') || undefined,
+      to: search.get('to') || undefined,
+    });
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to export MARC records.' },
+      { status: 400 }
+    );
+  }
+}
+
+// The file is sent as base64 because ISO 2709 records are binary
+export async function POST(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const report = await importDashboardMarc(
+      session,
+      String(body.libraryId || ''),
+      new Uint8Array(Buffer.from(String(body.file || ''), 'base64')),
+      parseBookImportOptions(body)
+    );
+    return NextResponse.json({ report }, { status: report.dry_run ? 200 : 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to import MARC records.' },
+      { status: 400 }
+    );
+  }
+}
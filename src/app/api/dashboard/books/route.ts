@@ -33,8 +33,6 @@ export async function POST(request: NextRequest) {
       title: String(body.title || ''),
       author: String(body.author || ''),
       categories: Array.isArray(body.categories) ? body.categories.map(String) : [],
-      total_copies: Number(body.total_copies || 0),
-      available_copies: Number(body.available_copies || 0),
       book_code: body.book_code ? String(body.book_code) : undefined,
       editorial: body.editorial ? String(body.editorial) : undefined,
       edition: body.edition ? String(body.edition) : undefined,
@@ -46,7 +44,7 @@ export async function POST(request: NextRequest) {
       good_copies: Number(body.good_copies || 0),
       fair_copies: Number(body.fair_copies || 0),
       bad_copies: Number(body.bad_copies || 0),
-    });
+    }, { allowDuplicate: body.allow_duplicate === true });
     return NextResponse.json({ book }, { status: 201 });
   } catch (error) {
     return NextResponse.json(
@@ -70,8 +68,6 @@ export async function PATCH(request: NextRequest) {
       title: String(body.title || ''),
       author: String(body.author || ''),
       categories: Array.isArray(body.categories) ? body.categories.map(String) : [],
-      total_copies: Number(body.total_copies || 0),
-      available_copies: Number(body.available_copies || 0),
       book_code: body.book_code ? String(body.book_code) : undefined,
       editorial: body.editorial ? String(body.editorial) : undefined,
       edition: body.edition ? String(body.edition) : undefined,
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibrarianSession, previewCopyTransfer, transferBookCopies } from '@/lib/library-data';
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const destination = await previewCopyTransfer(
+      session,
+      request.nextUrl.searchParams.get('bookId') || '',
+      request.nextUrl.searchParams.get('toLibraryId') || ''
+    );
+    return NextResponse.json({ destination });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to preview the transfer.' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const result = await transferBookCopies(session, String(body.book_id || ''), {
+      to_library_id: String(body.to_library_id || ''),
+      count: body.count === undefined ? undefined : Number(body.count),
+      codes: Array.isArray(body.codes) ? body.codes.map(String) : undefined,
+      destination_book_id: body.destination_book_id ? String(body.destination_book_id) : undefined,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to transfer the copies.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addBookCopies, findCopyByCode, getLibrarianSession, listBookCopies, updateBookCopy } from '@/lib/library-data';
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const code = request.nextUrl.searchParams.get('code');
+
+    if (code) {
+      const copy = await findCopyByCode(session, request.nextUrl.searchParams.get('libraryId') || '', code);
+      return NextResponse.json({ copy });
+    }
+
+    const copies = await listBookCopies(session, request.nextUrl.searchParams.get('bookId') || '');
+    return NextResponse.json({ copies });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to load copies.' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const copies = await addBookCopies(
+      session,
+      String(body.book_id || ''),
+      Number(body.count || 0),
+      body.condition || 'good',
+      body.shelf_location ? String(body.shelf_location) : undefined,
+      Array.isArray(body.codes) ? body.codes.map(String) : undefined
+    );
+    return NextResponse.json({ copies }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to add copies.' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const copy = await updateBookCopy(session, String(body.id || ''), {
+      condition: body.condition || undefined,
+      status: body.status || undefined,
+      shelf_location: body.shelf_location === undefined ? undefined : String(body.shelf_location || ''),
+      note: body.note ? String(body.note) : undefined,
+    });
+    return NextResponse.json({ copy });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to update copy.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fulfillBookHold, getLibrarianSession, listBookHolds, updateBookHold } from '@/lib/library-data';
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const holds = await listBookHolds(session, request.nextUrl.searchParams.get('bookId') || '');
+    return NextResponse.json({ holds });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to load holds.' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const loan = await fulfillBookHold(session, String(body.id || ''), String(body.dueDate || ''));
+    return NextResponse.json({ loan }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to fulfill hold.' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const hold = await updateBookHold(session, String(body.id || ''), body.action);
+    return NextResponse.json({ hold });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to update hold.' },
+      { status: 400 }
+    );
+  }
+}
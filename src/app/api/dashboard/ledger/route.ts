@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibrarianSession, listPatronLedger, recordLedgerCredit } from '@/lib/library-data';
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const entries = await listPatronLedger(session, request.nextUrl.searchParams.get('libraryId') || undefined);
+    return NextResponse.json({ entries });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to load the ledger.' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const entry = await recordLedgerCredit(session, String(body.libraryId || ''), {
+      identifier: String(body.identifier || ''),
+      full_name: String(body.full_name || ''),
+      kind: body.kind === 'waiver' ? 'waiver' : 'payment',
+      amount: Number(body.amount || 0),
+      loan_id: body.loan_id ? String(body.loan_id) : undefined,
+      note: body.note ? String(body.note) : undefined,
+    });
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to record the movement.' },
+      { status: 400 }
+    );
+  }
+}
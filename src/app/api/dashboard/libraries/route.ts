@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getLibrarianSession,
+  listAccessibleLibraries,
+  updateLibraryCirculationPolicy,
+  updateLibraryCodeFormat,
+  updateLibraryFeeRules,
+  updateLibraryOpeningHours,
+} from '@/lib/library-data';
+
+export async function GET() {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return NextResponse.json({ libraries: await listAccessibleLibraries(session) });
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const libraryId = String(body.libraryId || '');
+
+    if (body.fee_rules) {
+      const rules = body.fee_rules;
+      const damage = rules.damage_fees || {};
+      const library = await updateLibraryFeeRules(session, libraryId, {
+        currency: String(rules.currency || ''),
+        daily_late_fee: Number(rules.daily_late_fee || 0),
+        max_late_fee: rules.max_late_fee === null || rules.max_late_fee === '' ? null : Number(rules.max_late_fee),
+        grace_days: Number(rules.grace_days || 0),
+        damage_fees: {
+          good_to_fair: Number(damage.good_to_fair || 0),
+          good_to_bad: Number(damage.good_to_bad || 0),
+          fair_to_bad: Number(damage.fair_to_bad || 0),
+        },
+      });
+      return NextResponse.json({ library });
+    }
+
+    if ('opening_hours' in body) {
+      const hours = body.opening_hours;
+      const library = await updateLibraryOpeningHours(
+        session,
+        libraryId,
+        hours
+          ? {
+              timezone: String(hours.timezone || ''),
+              weekly: Array.isArray(hours.weekly)
+                ? hours.weekly.map((day: { opens?: unknown; closes?: unknown } | null) =>
+                    day ? { opens: String(day.opens || ''), closes: String(day.closes || '') } : null
+                  )
+                : [],
+              closures: Array.isArray(hours.closures)
+                ? hours.closures.map((closure: { date?: unknown; label?: unknown }) => ({
+                    date: String(closure.date || ''),
+                    label: String(closure.label || ''),
+                  }))
+                : [],
+            }
+          : null
+      );
+      return NextResponse.json({ library });
+    }
+
+    if (body.circulation_policy) {
+      const policy = body.circulation_policy;
+      const limit = (value: unknown) => (value === null || value === '' || value === undefined ? null : Number(value));
+      const library = await updateLibraryCirculationPolicy(session, libraryId, {
+        max_loan_days: Number(policy.max_loan_days || 0),
+        default_loan_days: Number(policy.default_loan_days || 0),
+        max_copies_per_request: limit(policy.max_copies_per_request),
+        max_active_loans: limit(policy.max_active_loans),
+        duplicate_window_minutes: Number(policy.duplicate_window_minutes || 0),
+      });
+      return NextResponse.json({ library });
+    }
+
+    const format = body.code_format || {};
+    const library = await updateLibraryCodeFormat(session, libraryId, {
+      prefix: String(format.prefix || ''),
+      padding: Number(format.padding || 0),
+      include_year: Boolean(format.include_year),
+      check_digit: format.check_digit || 'none',
+    });
+    return NextResponse.json({ library });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to update library.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibrarianSession, updateLoanGroupStatus } from '@/lib/library-data';
+import { TenantLoan } from '@/types/tenant';
+
+interface GroupItemBody {
+  loanId?: unknown;
+  status?: TenantLoan['status'];
+  deliveryCondition?: { good: number; fair: number; bad: number };
+  returnNote?: string;
+  returnCondition?: { good: number; fair: number; bad: number };
+  copyCodes?: unknown;
+  returnedCodes?: unknown;
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const items: GroupItemBody[] = Array.isArray(body.items) ? body.items : [];
+    const loans = await updateLoanGroupStatus(
+      session,
+      String(body.groupId || ''),
+      items.map((item) => ({
+        loanId: String(item.loanId || ''),
+        status: item.status || body.status,
+        input: {
+          deliveryCondition: item.deliveryCondition,
+          returnNote: item.returnNote,
+          returnCondition: item.returnCondition,
+          copyCodes: Array.isArray(item.copyCodes) ? item.copyCodes : undefined,
+          returnedCodes: Array.isArray(item.returnedCodes) ? item.returnedCodes : undefined,
+        },
+      }))
+    );
+    return NextResponse.json({ loans });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to update the loan request.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { declineLoanRenewal, getLibrarianSession, renewLoan } from '@/lib/library-data';
+
+export async function POST(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const loan = await renewLoan(session, String(body.loanId || ''), String(body.dueDate || ''));
+    return NextResponse.json({ loan });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to renew loan.' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const loan = await declineLoanRenewal(session, request.nextUrl.searchParams.get('loanId') || '');
+    return NextResponse.json({ loan });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to decline renewal.' },
+      { status: 400 }
+    );
+  }
+}
@@ -29,7 +29,9 @@ export async function PATCH(request: NextRequest) {
       body.status, 
       body.deliveryCondition, 
       body.returnNote,
-      body.returnCondition
+      body.returnCondition,
+      Array.isArray(body.copyCodes) ? body.copyCodes : undefined,
+      Array.isArray(body.returnedCodes) ? body.returnedCodes : undefined
     );
     return NextResponse.json({ loan });
 
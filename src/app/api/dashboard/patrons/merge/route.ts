@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibrarianSession, mergePatrons } from '@/lib/library-data';
+
+export async function POST(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const patron = await mergePatrons(session, String(body.targetId || ''), String(body.sourceId || ''));
+    return NextResponse.json({ patron });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to merge the patrons.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPatron, getLibrarianSession, listPatrons, updatePatron } from '@/lib/library-data';
+import { PatronPayload } from '@/types/tenant';
+
+function readPatronPayload(body: Record<string, unknown>): PatronPayload {
+  return {
+    full_name: String(body.full_name || ''),
+    identifier: String(body.identifier || ''),
+    email: body.email ? String(body.email) : null,
+    phone: body.phone ? String(body.phone) : null,
+    notes: body.notes ? String(body.notes) : null,
+    status: body.status === 'blocked' ? 'blocked' : 'active',
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const patrons = await listPatrons(session, request.nextUrl.searchParams.get('libraryId') || undefined);
+    return NextResponse.json({ patrons });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to load patrons.' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const patron = await createPatron(session, String(body.libraryId || ''), readPatronPayload(body));
+    return NextResponse.json({ patron }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to create the patron.' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const patron = await updatePatron(session, String(body.patronId || ''), readPatronPayload(body));
+    return NextResponse.json({ patron });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to update the patron.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportReport, getLibrarianSession } from '@/lib/library-data';
+import { isReportDataset } from '@/lib/reports';
+import { ReportFormat } from '@/types/tenant';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ dataset: string }> }
+) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { dataset } = await params;
+
+  if (!isReportDataset(dataset)) {
+    return NextResponse.json({ error: 'Report not found.' }, { status: 404 });
+  }
+
+  try {
+    const search = request.nextUrl.searchParams;
+    const report = await exportReport(session, dataset, (search.get('format') || 'csv') as ReportFormat, {
+      libraryId: search.get('libraryId') || undefined,
+      dateRange: Number(search.get('dateRange') || 30),
+    });
+
+    return new NextResponse(new Uint8Array(report.body), {
+      headers: {
+        'Content-Type': report.contentType,
+        'Content-Disposition': `attachment; filename="${report.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to export report.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibrarianSession, getReportDataset } from '@/lib/library-data';
+import { isReportDataset } from '@/lib/reports';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ dataset: string }> }
+) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { dataset } = await params;
+
+  if (!isReportDataset(dataset)) {
+    return NextResponse.json({ error: 'Report not found.' }, { status: 404 });
+  }
+
+  try {
+    const search = request.nextUrl.searchParams;
+    const rows = await getReportDataset(session, dataset, {
+      libraryId: search.get('libraryId') || undefined,
+      dateRange: Number(search.get('dateRange') || 30),
+    });
+    return NextResponse.json({ rows });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to build report.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLibrarianSession, getReportStats } from '@/lib/library-data';
+
+export async function GET(request: NextRequest) {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const stats = await getReportStats(session, {
+      libraryId: params.get('libraryId') || undefined,
+      dateRange: Number(params.get('dateRange') || 30),
+    });
+    return NextResponse.json({ stats });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to build report.' },
+      { status: 400 }
+    );
+  }
+}
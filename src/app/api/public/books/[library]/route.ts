@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { listAvailableBooks, resolveLibrary } from '@/lib/library-data';
+import { listCatalogBooks, resolveLibrary } from '@/lib/library-data';
 
 export async function GET(
   request: NextRequest,
@@ -13,7 +13,7 @@ export async function GET(
   }
 
   const query = request.nextUrl.searchParams.get('q') || undefined;
-  const books = await listAvailableBooks(library.id, query);
+  const books = await listCatalogBooks(library.id, query);
 
   return NextResponse.json({
     library,
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHoldRequest, resolveLibrary } from '@/lib/library-data';
+import { getClientIp } from '@/lib/request';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ library: string }> }
+) {
+  try {
+    const { library: librarySlug } = await params;
+    const library = await resolveLibrary(librarySlug);
+
+    if (!library) {
+      return NextResponse.json({ error: 'Library not found.' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const hold = await createHoldRequest(
+      library.id,
+      {
+        full_name: String(body.full_name || ''),
+        identifier: String(body.identifier || ''),
+        book_id: String(body.book_id || ''),
+      },
+      getClientIp(request)
+    );
+
+    return NextResponse.json({ hold }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to join the waitlist.' },
+      { status: 400 }
+    );
+  }
+}
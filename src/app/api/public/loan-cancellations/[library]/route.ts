@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelLoanRequest, resolveLibrary } from '@/lib/library-data';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ library: string }> }
+) {
+  try {
+    const { library: librarySlug } = await params;
+    const library = await resolveLibrary(librarySlug);
+
+    if (!library) {
+      return NextResponse.json({ error: 'Library not found.' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const loan = await cancelLoanRequest(
+      library.id,
+      String(body.loan_id || ''),
+      String(body.identifier || ''),
+      String(body.cancel_code || '')
+    );
+
+    return NextResponse.json({ loan });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to cancel the request.' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLoanCartRequest, resolveLibrary } from '@/lib/library-data';
+import { getClientIp } from '@/lib/request';
+import { getRequestSubdomain } from '@/lib/tenant';
+
+export async function POST(request: NextRequest) {
+  try {
+    const subdomain = await getRequestSubdomain();
+    const library = await resolveLibrary(subdomain);
+
+    if (!library) {
+      return NextResponse.json({ error: 'Library not found.' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { group, loans } = await createLoanCartRequest(
+      library.id,
+      {
+        full_name: String(body.full_name || ''),
+        identifier: String(body.identifier || ''),
+        due_date: String(body.due_date || ''),
+        items: (Array.isArray(body.items) ? body.items : []).map((item: { book_id?: unknown; requested_copies?: unknown }) => ({
+          book_id: String(item.book_id || ''),
+          requested_copies: Number(item.requested_copies || 1),
+        })),
+      },
+      getClientIp(request)
+    );
+
+    return NextResponse.json({ group, loans }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unable to submit the loan request.' },
+      { status: 400 }
+    );
+  }
+}
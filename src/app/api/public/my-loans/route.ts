@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { lookupLoans, resolveLibrary } from '@/lib/library-data';
+import { lookupHolds, lookupLedger, lookupLoans, resolveLibrary } from '@/lib/library-data';
 import { getRequestSubdomain } from '@/lib/tenant';
 
 export async function GET(request: NextRequest) {
@@ -11,7 +11,11 @@ export async function GET(request: NextRequest) {
   }
 
   const identifier = request.nextUrl.searchParams.get('identifier') || '';
-  const loans = await lookupLoans(library.id, identifier);
+  const [loans, holds, ledger] = await Promise.all([
+    lookupLoans(library.id, identifier),
+    lookupHolds(library.id, identifier),
+    lookupLedger(library.id, identifier),
+  ]);
 
-  return NextResponse.json({ library, loans });
+  return NextResponse.json({ library, loans, holds, ledger });
 }
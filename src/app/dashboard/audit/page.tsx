@@ -0,0 +1,25 @@
+import AuditLogClient from '@/components/tenant/AuditLogClient';
+import { getLibrarianSession, listAccessibleLibraries } from '@/lib/library-data';
+
+export default async function DashboardAuditPage() {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return null;
+  }
+
+  const libraries = await listAccessibleLibraries(session);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Auditoría</p>
+        <h1 className="mt-2 text-4xl font-semibold text-slate-900">Quién cambió qué, y cuándo.</h1>
+        <p className="mt-3 max-w-3xl text-base leading-8 text-slate-600">
+          Cada aprobación, entrega, devolución y cambio en el catálogo queda registrado con el bibliotecario que lo hizo y el estado antes y después. El registro no se puede editar ni borrar.
+        </p>
+      </div>
+      <AuditLogClient libraries={libraries} />
+    </div>
+  );
+}
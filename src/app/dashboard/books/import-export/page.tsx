@@ -1,214 +1,243 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   ArrowDownTrayIcon, 
   ArrowUpTrayIcon, 
   DocumentArrowDownIcon,
   DocumentTextIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  CheckCircleIcon
 } from '@heroicons/react/24/outline';
 import { Card, CardHeader, CardBody } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Badge } from '@/components/ui/Badge';
-import { api } from '@/lib/api';
-import { useAuth } from '@/hooks/useAuth';
 import { getErrorMessage, getSuccessMessage } from '@/lib/errorMessages';
 import toast from 'react-hot-toast';
-import { Skeleton } from '@/components/ui/Skeleton';
 import { useI18n } from '@/context/I18nContext';
+import { bookImportTemplate } from '@/lib/book-import';
+import {
+  BOOK_EXPORT_STATUSES,
+  CATALOG_EXPORT_COLUMNS,
+  CATALOG_EXPORT_FORMATS,
+  LOAN_EXPORT_STATUSES,
+} from '@/lib/catalog-export';
+import { BookImportReport, CatalogExportFormat, CatalogExportKind, LibraryTenant, MarcFormat } from '@/types/tenant';
+
+const REQUIRED_COLUMNS = ['title', 'author', 'categories'];
+const OPTIONAL_COLUMNS = ['book_code', 'editorial', 'edition', 'cover_type', 'shelf_location', 'cost', 'acquired_at', 'image_url', 'good_copies'];
+const IMPORT_NOTES = ['dryRun', 'duplicates', 'codes', 'separators', 'marc'];
+const MARC_FORMATS = ['marc21', 'marcxml'];
+
+type ImportUpload = { kind: 'csv' | 'marc'; content: string };
+
+// Browsers report CSV and MARC files under several MIME types (or none), so the extension decides
+function importFileKind(file: File): ImportUpload['kind'] | null {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.csv') || ['text/csv', 'application/csv'].includes(file.type)) {
+    return 'csv';
+  }
+
+  return /\.(mrc|marc|xml)$/.test(name) ? 'marc' : null;
+}
+
+// MARC files can be binary, so they travel as base64
+async function readUpload(file: File, kind: ImportUpload['kind']): Promise<ImportUpload> {
+  if (kind === 'csv') {
+    return { kind, content: await file.text() };
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(index, index + 0x8000)));
+  }
+
+  return { kind, content: window.btoa(binary) };
+}
+
+async function postImport(upload: ImportUpload, body: Record<string, unknown>): Promise<BookImportReport> {
+  const response = await fetch(upload.kind === 'csv' ? '/api/dashboard/books/import' : '/api/dashboard/books/marc', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...body, [upload.kind === 'csv' ? 'csv' : 'file']: upload.content }),
+  });
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload.error || 'Unable to import books.');
+  }
+
+  return payload.report;
+}
 
 export default function ImportExportPage() {
   const { t } = useI18n();
-  const { user } = useAuth();
+  const [libraries, setLibraries] = useState<LibraryTenant[]>([]);
+  const [libraryId, setLibraryId] = useState('');
   const [importFile, setImportFile] = useState<File | null>(null);
+  const [upload, setUpload] = useState<ImportUpload | null>(null);
+  const [report, setReport] = useState<BookImportReport | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [validating, setValidating] = useState(false);
   const [importing, setImporting] = useState(false);
   const [exporting, setExporting] = useState(false);
-  const [downloadTemplate, setDownloadTemplate] = useState(false);
-  const [validationErrors, setValidationErrors] = useState<string[]>([]);
-  const [showValidationModal, setShowValidationModal] = useState(false);
-
-  const canManage = user?.role === 'admin' || user?.role === 'superadmin';
-
-  // Show loading state during hydration to prevent mismatch
-  if (!user) {
-    return (
-      <div className="space-y-6">
-        <div className="space-y-4">
-          <Skeleton className="h-8 w-64" />
-          <Skeleton className="h-4 w-96" />
-        </div>
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <div className="space-y-4">
-            <Skeleton className="h-48 w-full" />
-          </div>
-          <div className="space-y-4">
-            <Skeleton className="h-48 w-full" />
-          </div>
-        </div>
-      </div>
-    );
-  }
+  const [exportKind, setExportKind] = useState<CatalogExportKind>('books');
+  const [exportFormat, setExportFormat] = useState<CatalogExportFormat | MarcFormat>('csv');
+  const [exportColumns, setExportColumns] = useState<string[]>(CATALOG_EXPORT_COLUMNS.books);
+  const [exportStatus, setExportStatus] = useState('');
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+
+  useEffect(() => {
+    fetch('/api/dashboard/libraries')
+      .then((response) => (response.ok ? response.json() : { libraries: [] }))
+      .then((payload) => {
+        setLibraries(payload.libraries || []);
+        setLibraryId((current) => current || payload.libraries?.[0]?.id || '');
+      })
+      .catch(() => setLibraries([]));
+  }, []);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      if (file.type !== 'text/csv') {
-        toast.error('Please select a CSV file');
-        return;
-      }
-      setImportFile(file);
+    setReport(null);
+
+    if (!file) {
+      return;
+    }
+
+    const kind = importFileKind(file);
+    if (!kind) {
+      toast.error(t('books.import.invalidFile'));
+      event.target.value = '';
+      return;
+    }
+
+    setImportFile(file);
+    setUpload(await readUpload(file, kind));
+  };
+
+  const handleValidate = async () => {
+    if (!upload) {
+      toast.error(t('books.import.invalidFile'));
+      return;
+    }
+
+    setValidating(true);
+    try {
+      setReport(await postImport(upload, { libraryId, dryRun: true }));
+    } catch (error) {
+      setReport(null);
+      toast.error(getErrorMessage(error));
+    } finally {
+      setValidating(false);
     }
   };
 
   const handleImport = async () => {
-    if (!importFile) {
-      toast.error('Please select a file to import');
+    if (!upload) {
       return;
     }
 
     setImporting(true);
     try {
-      const formData = new FormData();
-      formData.append('csvFile', importFile);
-
-      const response = await api.post('/csv/import', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-
-      const results = response.data;
-      
-      if (results) {
-        const totalTitlesCreated = results.titlesCreated || 0;
-        const totalCopiesCreated = results.copiesCreated || 0;
-        
-        let message = `Import completed: ${totalCopiesCreated} copies created`;
-        if (totalTitlesCreated > 0) {
-          message += `, ${totalTitlesCreated} titles created`;
-        }
-        
-        toast.success(message);
-        
-        // Show errors if any (as warnings, not errors)
-        if (results.errors && results.errors.length > 0) {
-          console.warn('Import warnings:', results.errors);
-          // Show warnings as info instead of error to not override success message
-          setTimeout(() => {
-            toast(`${results.errors.length} warnings during import`, {
-              icon: '⚠️',
-              duration: 5000
-            });
-          }, 1000); // Delay the warning message
-        }
-      } else {
-        toast.success(t('books.import.success', { count: 0 }));
-      }
-      
+      const result = await postImport(upload, { libraryId, dryRun: false, includeDuplicates });
+      setReport(result);
+      toast.success(t('books.import.done', { count: result.imported, copies: result.copies_created }));
+
       setImportFile(null);
+      setUpload(null);
       // Reset file input
       const fileInput = document.getElementById('csv-file') as HTMLInputElement;
       if (fileInput) fileInput.value = '';
-    } catch (error: any) {
-      console.error('Error importing CSV:', error);
-      
-      // Check if it's a CSV validation error with details
-      if (error.response?.data?.error?.includes('CSV validation failed') && error.response?.data?.details) {
-        const details = error.response.data.details;
-        setValidationErrors(details);
-        setShowValidationModal(true);
-      } else {
-        toast.error(getErrorMessage(error));
-      }
+    } catch (error) {
+      toast.error(getErrorMessage(error));
     } finally {
       setImporting(false);
     }
   };
 
-  const handleExport = async () => {
-    setExporting(true);
-    try {
-      // Use axios directly for blob responses to avoid API client wrapper
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api/v1'}/csv/export`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
-        },
-      });
+  const importCount = report ? report.ready + (includeDuplicates ? report.duplicates : 0) : 0;
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  const handleExportKindChange = (kind: CatalogExportKind) => {
+    setExportKind(kind);
+    setExportColumns(CATALOG_EXPORT_COLUMNS[kind]);
+    setExportStatus('');
+    // MARC only describes the catalog
+    if (kind === 'loans' && MARC_FORMATS.includes(exportFormat)) {
+      setExportFormat('csv');
+    }
+  };
 
-      const blob = await response.blob();
-      
-      // Create download link
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.setAttribute('download', `library-catalog-${new Date().toISOString().split('T')[0]}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-      window.URL.revokeObjectURL(url);
+  const exportMarc = MARC_FORMATS.includes(exportFormat);
 
-      toast.success(getSuccessMessage('csv_exported'));
-    } catch (error: any) {
-      console.error('Error exporting CSV:', error);
-      toast.error(getErrorMessage(error));
-    } finally {
-      setExporting(false);
-    }
+  const toggleExportColumn = (column: string) => {
+    setExportColumns((current) =>
+      current.includes(column) ? current.filter((item) => item !== column) : [...current, column]
+    );
   };
 
-  const handleDownloadTemplate = async () => {
-    setDownloadTemplate(true);
+  const handleExport = async () => {
+    setExporting(true);
     try {
-      // Use fetch directly for blob responses
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api/v1'}/csv/template`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
-        },
-      });
+      const params = new URLSearchParams({ libraryId, format: exportFormat });
+      // Leaving the column list out exports every column, which keeps the URL short
+      if (!exportMarc && exportColumns.length < CATALOG_EXPORT_COLUMNS[exportKind].length) {
+        params.set('columns', exportColumns.join(','));
+      }
+      if (exportStatus) params.set('status', exportStatus);
+      if (exportFrom) params.set('from', exportFrom);
+      if (exportTo) params.set('to', exportTo);
+
+      const response = await fetch(
+        exportMarc ? `/api/dashboard/books/marc?${params.toString()}` : `/api/dashboard/${exportKind}/export?${params.toString()}`
+      );
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const payload = await response.json().catch(() => ({}));
+        throw new Error(payload.error || `HTTP error! status: ${response.status}`);
       }
 
       const blob = await response.blob();
+      const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1];
 
       // Create download link
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.setAttribute('download', 'copies-import-template.csv');
+      link.setAttribute('download', filename || `${exportKind}-${new Date().toISOString().split('T')[0]}.${exportFormat}`);
       document.body.appendChild(link);
       link.click();
       link.remove();
       window.URL.revokeObjectURL(url);
 
-      toast.success(getSuccessMessage('template_downloaded'));
+      toast.success(getSuccessMessage('csv_exported'));
     } catch (error: any) {
-      console.error('Error downloading template:', error);
+      console.error('Error exporting catalog:', error);
       toast.error(getErrorMessage(error));
     } finally {
-      setDownloadTemplate(false);
+      setExporting(false);
     }
   };
 
-  if (!canManage) {
-    return (
-      <div className="text-center py-12">
-        <div className="text-gray-400 dark:text-gray-500 text-6xl mb-4">🚫</div>
-        <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">{t('common.accessDenied.title')}</h2>
-        <p className="text-gray-600 dark:text-gray-400">{t('common.accessDenied.description')}</p>
-      </div>
-    );
-  }
+  const handleDownloadTemplate = () => {
+    const url = window.URL.createObjectURL(new Blob([`\uFEFF${bookImportTemplate()}\r\n`], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', 'books-import-template.csv');
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.URL.revokeObjectURL(url);
+
+    toast.success(getSuccessMessage('template_downloaded'));
+  };
 
   return (
     <div className="space-y-6">
@@ -241,7 +270,6 @@ export default function ImportExportPage() {
                       size="sm"
                       leftIcon={<DocumentArrowDownIcon className="w-4 h-4" />}
                       onClick={handleDownloadTemplate}
-                      loading={downloadTemplate}
                     >
                       {t('books.import.template.download')}
                     </Button>
@@ -249,6 +277,29 @@ export default function ImportExportPage() {
                 </div>
               </div>
 
+              {libraries.length > 1 && (
+                <div>
+                  <label htmlFor="import-library" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('books.import.library')}
+                  </label>
+                  <select
+                    id="import-library"
+                    value={libraryId}
+                    onChange={(event) => {
+                      setLibraryId(event.target.value);
+                      setReport(null);
+                    }}
+                    className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+                  >
+                    {libraries.map((library) => (
+                      <option key={library.id} value={library.id}>
+                        {library.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* File Upload */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -257,7 +308,7 @@ export default function ImportExportPage() {
                 <Input
                   id="csv-file"
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.mrc,.marc,.xml"
                   onChange={handleFileSelect}
                   className="file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100"
                 />
@@ -290,16 +341,139 @@ export default function ImportExportPage() {
                 </div>
               </div>
 
-              {/* Import Button */}
-              <Button
-                fullWidth
-                leftIcon={<ArrowUpTrayIcon className="w-5 h-5" />}
-                onClick={handleImport}
-                loading={importing}
-                disabled={!importFile}
-              >
-                {t('books.import.action')}
-              </Button>
+              {/* Validation Report */}
+              {report && !report.dry_run && (
+                <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800 flex items-center gap-3">
+                  <CheckCircleIcon className="w-6 h-6 text-green-600 dark:text-green-400" />
+                  <p className="text-sm text-green-800 dark:text-green-200">
+                    {t('books.import.done', { count: report.imported, copies: report.copies_created })}
+                  </p>
+                </div>
+              )}
+
+              {report && report.dry_run && (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {t('books.import.summary', { ready: report.ready, duplicates: report.duplicates, errors: report.errors })}
+                  </p>
+
+                  {report.mapping && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">{t('books.import.marc.mapping')}</h3>
+                      <div className="max-h-60 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                        <table className="w-full text-sm">
+                          <thead className="bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-400">
+                            <tr>
+                              <th className="px-3 py-2 font-medium">{t('books.import.marc.tag')}</th>
+                              <th className="px-3 py-2 font-medium">{t('books.import.marc.field')}</th>
+                              <th className="px-3 py-2 font-medium">{t('books.import.marc.records')}</th>
+                              <th className="px-3 py-2 font-medium">{t('books.import.marc.sample')}</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {report.mapping.mapped.map((entry) => (
+                              <tr key={`${entry.tag}-${entry.field}`}>
+                                <td className="px-3 py-2 font-mono text-gray-700 dark:text-gray-300">{entry.tag}</td>
+                                <td className="px-3 py-2 font-mono text-gray-700 dark:text-gray-300">{entry.field}</td>
+                                <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{entry.records}</td>
+                                <td className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400 break-all">{entry.sample}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      {report.mapping.unmapped.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                          <span>{t('books.import.marc.unmapped')}</span>
+                          {report.mapping.unmapped.map((entry) => (
+                            <Badge key={entry.tag} variant="secondary" size="sm">
+                              {entry.tag} × {entry.records}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="max-h-80 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-400">
+                        <tr>
+                          <th className="px-3 py-2 font-medium">{t('books.import.row.line')}</th>
+                          <th className="px-3 py-2 font-medium">{t('books.import.row.book')}</th>
+                          <th className="px-3 py-2 font-medium">{t('books.import.row.copies')}</th>
+                          <th className="px-3 py-2 font-medium">{t('books.import.row.status')}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {report.rows.map((row) => (
+                          <tr key={row.line} className="align-top">
+                            <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{row.line}</td>
+                            <td className="px-3 py-2">
+                              <p className="font-medium text-gray-900 dark:text-gray-100">{row.title || '—'}</p>
+                              <p className="text-gray-500 dark:text-gray-400">{row.author}</p>
+                            </td>
+                            <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{row.copies}</td>
+                            <td className="px-3 py-2">
+                              {row.status === 'ready' && (
+                                <Badge variant="success" size="sm">{t('books.import.status.ready')}</Badge>
+                              )}
+                              {row.status === 'duplicate' && (
+                                <Badge variant="warning" size="sm">
+                                  {t('books.import.status.duplicate', { title: row.duplicate_of || row.title })}
+                                </Badge>
+                              )}
+                              {row.status === 'error' && (
+                                <div className="space-y-1">
+                                  <Badge variant="error" size="sm">{t('books.import.status.error')}</Badge>
+                                  {row.errors.map((error) => (
+                                    <p key={error} className="text-xs text-red-600 dark:text-red-400">{error}</p>
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {report.duplicates > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={includeDuplicates}
+                        onChange={(event) => setIncludeDuplicates(event.target.checked)}
+                        className="rounded border-gray-300 text-primary-600"
+                      />
+                      {t('books.import.includeDuplicates')}
+                    </label>
+                  )}
+                </div>
+              )}
+
+              {/* Import Buttons */}
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button
+                  fullWidth
+                  variant="outline"
+                  leftIcon={<DocumentTextIcon className="w-5 h-5" />}
+                  onClick={handleValidate}
+                  loading={validating}
+                  disabled={!importFile || !libraryId}
+                >
+                  {t('books.import.validate')}
+                </Button>
+                <Button
+                  fullWidth
+                  leftIcon={<ArrowUpTrayIcon className="w-5 h-5" />}
+                  onClick={handleImport}
+                  loading={importing}
+                  disabled={!report?.dry_run || report.errors > 0 || importCount === 0}
+                >
+                  {t('books.import.commit', { count: importCount })}
+                </Button>
+              </div>
             </div>
           </CardBody>
         </Card>
@@ -325,28 +499,127 @@ export default function ImportExportPage() {
                 </div>
               </div>
 
-              {/* Export Features */}
-              <div className="space-y-3">
-                <h3 className="font-medium text-gray-900 dark:text-gray-100">{t('books.export.includes.title')}</h3>
-                <ul className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
-                  <li className="flex items-center gap-2">
-                    <div className="w-1.5 h-1.5 bg-primary-500 rounded-full"></div>
-                    {t('books.export.includes.item.titles')}
-                  </li>
-                  <li className="flex items-center gap-2">
-                    <div className="w-1.5 h-1.5 bg-primary-500 rounded-full"></div>
-                    {t('books.export.includes.item.authorsPublishers')}
-                  </li>
-                  <li className="flex items-center gap-2">
-                    <div className="w-1.5 h-1.5 bg-primary-500 rounded-full"></div>
-                    {t('books.export.includes.item.isbnCategories')}
-                  </li>
-                  <li className="flex items-center gap-2">
-                    <div className="w-1.5 h-1.5 bg-primary-500 rounded-full"></div>
-                    {t('books.export.includes.item.inventoryCopies')}
-                  </li>
-                </ul>
+              {/* Export Options */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="export-kind" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('books.export.kind')}
+                  </label>
+                  <select
+                    id="export-kind"
+                    value={exportKind}
+                    onChange={(event) => handleExportKindChange(event.target.value as CatalogExportKind)}
+                    className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+                  >
+                    <option value="books">{t('books.export.kind.books')}</option>
+                    <option value="loans">{t('books.export.kind.loans')}</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="export-format" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('books.export.fileFormat')}
+                  </label>
+                  <select
+                    id="export-format"
+                    value={exportFormat}
+                    onChange={(event) => setExportFormat(event.target.value as CatalogExportFormat | MarcFormat)}
+                    className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+                  >
+                    {CATALOG_EXPORT_FORMATS.map((format) => (
+                      <option key={format} value={format}>
+                        {format.toUpperCase()}
+                      </option>
+                    ))}
+                    {exportKind === 'books' &&
+                      MARC_FORMATS.map((format) => (
+                        <option key={format} value={format}>
+                          {t(`books.export.format.${format}`)}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                {libraries.length > 1 && (
+                  <div>
+                    <label htmlFor="export-library" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      {t('books.export.library')}
+                    </label>
+                    <select
+                      id="export-library"
+                      value={libraryId}
+                      onChange={(event) => setLibraryId(event.target.value)}
+                      className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+                    >
+                      {libraries.map((library) => (
+                        <option key={library.id} value={library.id}>
+                          {library.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="export-status" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('books.export.status')}
+                  </label>
+                  <select
+                    id="export-status"
+                    value={exportStatus}
+                    onChange={(event) => setExportStatus(event.target.value)}
+                    className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+                  >
+                    <option value="">{t('books.export.status.all')}</option>
+                    {exportKind === 'books'
+                      ? BOOK_EXPORT_STATUSES.map((status) => (
+                          <option key={status} value={status}>
+                            {t(`books.export.status.${status}`)}
+                          </option>
+                        ))
+                      : LOAN_EXPORT_STATUSES.map((status) => (
+                          <option key={status} value={status}>
+                            {t(`books.export.loanStatus.${status}`)}
+                          </option>
+                        ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="export-from" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('books.export.from')}
+                  </label>
+                  <Input id="export-from" type="date" value={exportFrom} onChange={(event) => setExportFrom(event.target.value)} />
+                </div>
+                <div>
+                  <label htmlFor="export-to" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    {t('books.export.to')}
+                  </label>
+                  <Input id="export-to" type="date" value={exportTo} onChange={(event) => setExportTo(event.target.value)} />
+                </div>
               </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t(`books.export.dateHint.${exportKind}`)}</p>
+
+              {/* Export Columns */}
+              {exportMarc ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">{t('books.export.marcHint')}</p>
+              ) : (
+                <div className="space-y-3">
+                  <h3 className="font-medium text-gray-900 dark:text-gray-100">{t('books.export.columns')}</h3>
+                  <div className="grid grid-cols-2 gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    {CATALOG_EXPORT_COLUMNS[exportKind].map((column) => (
+                      <label key={column} className="flex items-center gap-2 font-mono text-xs">
+                        <input
+                          type="checkbox"
+                          checked={exportColumns.includes(column)}
+                          onChange={() => toggleExportColumn(column)}
+                          className="rounded border-gray-300 text-primary-600"
+                        />
+                        {column}
+                      </label>
+                    ))}
+                  </div>
+                  {!exportColumns.length && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{t('books.export.noColumns')}</p>
+                  )}
+                </div>
+              )}
 
               {/* Export Button */}
               <Button
@@ -354,6 +627,7 @@ export default function ImportExportPage() {
                 leftIcon={<ArrowDownTrayIcon className="w-5 h-5" />}
                 onClick={handleExport}
                 loading={exporting}
+                disabled={!libraryId || (!exportMarc && !exportColumns.length)}
               >
                 {t('books.export.action')}
               </Button>
@@ -369,101 +643,28 @@ export default function ImportExportPage() {
           <div className="prose prose-sm max-w-none">
             <h3>{t('books.importExport.instructions.required.title')}</h3>
             <ul>
-              <li>{t('books.importExport.instructions.required.isbn13')}</li>
-              <li>{t('books.importExport.instructions.required.titleField')}</li>
-              <li>{t('books.importExport.instructions.required.authors')}</li>
-              <li>{t('books.importExport.instructions.required.publisher')}</li>
-              <li>{t('books.importExport.instructions.required.publishedYear')}</li>
-              <li>{t('books.importExport.instructions.required.language')}</li>
-              <li>{t('books.importExport.instructions.required.categories')}</li>
-              <li>{t('books.importExport.instructions.required.libraryCode')}</li>
-              <li>{t('books.importExport.instructions.required.barcode')}</li>
-              <li>{t('books.importExport.instructions.required.status')}</li>
-              <li>{t('books.importExport.instructions.required.condition')}</li>
-              <li>{t('books.importExport.instructions.required.totalCopies')}</li>
+              {REQUIRED_COLUMNS.map((column) => (
+                <li key={column}>{t(`books.importExport.columns.${column}`)}</li>
+              ))}
             </ul>
-            
+
             <h3>{t('books.importExport.instructions.optional.title')}</h3>
             <ul>
-              <li>{t('books.importExport.instructions.optional.isbn10')}</li>
-              <li>{t('books.importExport.instructions.optional.subtitle')}</li>
-              <li>{t('books.importExport.instructions.optional.description')}</li>
-              <li>{t('books.importExport.instructions.optional.coverUrl')}</li>
-              <li>{t('books.importExport.instructions.optional.shelfLocation')}</li>
-              <li>{t('books.importExport.instructions.optional.acquiredAt')}</li>
-              <li>{t('books.importExport.instructions.optional.inventoryNotes')}</li>
+              {OPTIONAL_COLUMNS.map((column) => (
+                <li key={column}>{t(`books.importExport.columns.${column}`)}</li>
+              ))}
             </ul>
 
             <h3>{t('books.importExport.instructions.notes.title')}</h3>
             <ul>
-              <li>{t('books.importExport.instructions.notes.validation')}</li>
-              <li>{t('books.importExport.instructions.notes.isbnUnique')}</li>
-              <li>{t('books.importExport.instructions.notes.separators')}</li>
-              <li>{t('books.importExport.instructions.notes.year')}</li>
-              <li>{t('books.importExport.instructions.notes.copies')}</li>
-              <li>{t('books.importExport.instructions.notes.barcodeUnique')}</li>
-              <li>{t('books.importExport.instructions.notes.libraryCode')}</li>
-              <li>{t('books.importExport.instructions.notes.statusValues')}</li>
-              <li>{t('books.importExport.instructions.notes.conditionValues')}</li>
+              {IMPORT_NOTES.map((note) => (
+                <li key={note}>{t(`books.importExport.notes.${note}`)}</li>
+              ))}
             </ul>
           </div>
         </CardBody>
       </Card>
 
-      {/* Validation Error Modal */}
-      {showValidationModal && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-strong max-w-2xl w-full max-h-[80vh] overflow-y-auto">
-            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-                CSV Validation Errors
-              </h3>
-              <button
-                onClick={() => setShowValidationModal(false)}
-                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-                title="Close validation errors"
-                aria-label="Close validation errors"
-              >
-                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
-            </div>
-            <div className="px-6 py-4">
-              <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
-                <div className="flex items-start gap-3">
-                  <ExclamationTriangleIcon className="w-6 h-6 text-red-600 dark:text-red-400 mt-0.5" />
-                  <div>
-                    <h4 className="font-medium text-red-900 dark:text-red-100 mb-2">
-                      CSV Import Failed
-                    </h4>
-                    <p className="text-sm text-red-700 dark:text-red-300">
-                      Please fix the following errors in your CSV file and try again:
-                    </p>
-                  </div>
-                </div>
-              </div>
-              <div className="space-y-2">
-                {validationErrors.map((error, index) => (
-                  <div key={index} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                    <p className="text-sm text-gray-700 dark:text-gray-300 font-mono">
-                      {error}
-                    </p>
-                  </div>
-                ))}
-              </div>
-            </div>
-            <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
-              <Button
-                onClick={() => setShowValidationModal(false)}
-                variant="primary"
-              >
-                Close
-              </Button>
-            </div>
-          </div>
-        </div>
-      )}
     </div>
   );
 }
@@ -1,4 +1,5 @@
 import BookManagementClient from '@/components/tenant/BookManagementClient';
+import LibraryCodeFormatPanel from '@/components/tenant/LibraryCodeFormatPanel';
 import { getLibrarianSession, listAccessibleLibraries } from '@/lib/library-data';
 
 export default async function DashboardBooksPage() {
@@ -19,6 +20,7 @@ export default async function DashboardBooksPage() {
           Agrega, actualiza y elimina libros de tus bibliotecas. Los valores del inventario siempre estarán protegidos y organizados por ubicación.
         </p>
       </div>
+      <LibraryCodeFormatPanel libraries={libraries} />
       <BookManagementClient libraries={libraries} />
     </div>
   );
@@ -0,0 +1,27 @@
+import LibraryFeeRulesPanel from '@/components/tenant/LibraryFeeRulesPanel';
+import PatronLedgerClient from '@/components/tenant/PatronLedgerClient';
+import { getLibrarianSession, listAccessibleLibraries } from '@/lib/library-data';
+
+export default async function DashboardFeesPage() {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return null;
+  }
+
+  const libraries = await listAccessibleLibraries(session);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Multas y Cargos</p>
+        <h1 className="mt-2 text-4xl font-semibold text-slate-900">Controla los saldos pendientes de cada lector.</h1>
+        <p className="mt-3 max-w-3xl text-base leading-8 text-slate-600">
+          Las multas por atraso y los cargos por daños se calculan al registrar cada devolución. Aquí puedes ajustar las reglas y registrar pagos o condonaciones.
+        </p>
+      </div>
+      <LibraryFeeRulesPanel libraries={libraries} />
+      <PatronLedgerClient libraries={libraries} />
+    </div>
+  );
+}
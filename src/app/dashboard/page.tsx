@@ -1,4 +1,7 @@
+import ActivityFeedClient from '@/components/tenant/ActivityFeedClient';
 import DashboardClient from '@/components/tenant/DashboardClient';
+import LibraryCirculationPolicyPanel from '@/components/tenant/LibraryCirculationPolicyPanel';
+import LibraryOpeningHoursPanel from '@/components/tenant/LibraryOpeningHoursPanel';
 import { getLibrarianSession, listAccessibleLibraries } from '@/lib/library-data';
 
 export default async function DashboardPage() {
@@ -20,6 +23,9 @@ export default async function DashboardPage() {
         </p>
       </div>
       <DashboardClient libraries={libraries} />
+      <ActivityFeedClient libraries={libraries} />
+      <LibraryCirculationPolicyPanel libraries={libraries} />
+      <LibraryOpeningHoursPanel libraries={libraries} />
     </div>
   );
 }
@@ -0,0 +1,25 @@
+import PatronDirectoryClient from '@/components/tenant/PatronDirectoryClient';
+import { getLibrarianSession, listAccessibleLibraries } from '@/lib/library-data';
+
+export default async function DashboardPatronsPage() {
+  const session = await getLibrarianSession();
+
+  if (!session) {
+    return null;
+  }
+
+  const libraries = await listAccessibleLibraries(session);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Lectores</p>
+        <h1 className="mt-2 text-4xl font-semibold text-slate-900">Un registro por persona en cada biblioteca.</h1>
+        <p className="mt-3 max-w-3xl text-base leading-8 text-slate-600">
+          Cada solicitud queda vinculada al lector por su identificador. Aquí puedes completar sus datos de contacto, bloquear lectores y fusionar registros duplicados.
+        </p>
+      </div>
+      <PatronDirectoryClient libraries={libraries} />
+    </div>
+  );
+}
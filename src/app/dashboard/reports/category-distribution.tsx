@@ -0,0 +1,53 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { Card, CardHeader, CardBody } from '@/components/ui/Card';
+import { useI18n } from '@/context/I18nContext';
+import { useLocaleFormat } from '@/hooks/useLocaleFormat';
+import { ReportStats } from '@/types/tenant';
+
+export default function CategoryDistribution({ stats }: { stats: ReportStats }) {
+  const { t } = useI18n();
+  const { formatNumber } = useLocaleFormat();
+  const categories = stats.categoryDistribution ?? [];
+  const maxBorrows = Math.max(1, ...categories.map((category) => category.borrowCount));
+
+  if (!categories.length) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader 
+        title={t('reports.categories.title')} 
+        subtitle={t('reports.categories.subtitle')}
+      />
+      <CardBody>
+        <div className="space-y-3">
+          {categories.map((category, index) => (
+            <motion.div
+              key={category.category}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: Math.min(index, 10) * 0.05 }}
+            >
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900 dark:text-gray-100">{category.category}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {t('reports.categories.books', { books: formatNumber(category.books) })} •{' '}
+                  {t('reports.categories.borrows', { count: formatNumber(category.borrowCount) })}
+                </span>
+              </div>
+              <div className="mt-1 h-2 rounded-full bg-gray-100 dark:bg-gray-800">
+                <div
+                  className="h-2 rounded-full bg-primary-600"
+                  style={{ width: `${(category.borrowCount / maxBorrows) * 100}%` }}
+                />
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -16,161 +16,110 @@ import { Card, CardHeader, CardBody } from '@/components/ui/Card';
 import dynamic from 'next/dynamic';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
-import { api } from '@/lib/api';
-import { useAuth } from '@/hooks/useAuth';
 import { getErrorMessage, getSuccessMessage, getInfoMessage } from '@/lib/errorMessages';
 import toast from 'react-hot-toast';
 import { Skeleton, SkeletonText } from '@/components/ui/Skeleton';
 import AppLoader from '@/components/ui/AppLoader';
 import { useI18n } from '@/context/I18nContext';
 import { useLocaleFormat } from '@/hooks/useLocaleFormat';
+import { LibraryTenant, ReportDataset, ReportFormat, ReportStats } from '@/types/tenant';
 
-interface ReportStats {
-  summary: {
-    totalBooks: number;
-    totalUsers: number;
-    totalLibraries: number;
-    totalInventories: number;
-    totalCopies: number;
-    activeLoans: number;
-    overdueBooks: number;
-    pendingRequests: number;
-    totalBorrows: number;
-    dateRange: number;
-  };
-  popularBooks: Array<{
-    title: string;
-    borrowCount: number;
-  }>;
-  recentActivity: Array<{
-    type: string;
-    message: string;
-    timestamp: string;
-    user?: string;
-    book?: string;
-    library?: string;
-  }>;
-  borrowTrends: Array<{
-    _id: string;
-    count: number;
-  }>;
-  userActivityStats: Array<{
-    name: string;
-    email: string;
-    role: string;
-    borrowCount: number;
-    lastActivity: string;
-  }>;
-  libraryStats: Array<{
-    name: string;
-    code: string;
-    totalBorrows: number;
-    activeLoans: number;
-    overdueCount: number;
-    overdueRate: number;
-  }>;
-  systemHealth: {
-    overdueRate: number;
-    requestProcessingRate: string;
-    systemStatus: string;
-    lastUpdated: string;
-  };
+function reportQuery(dateRange: string, libraryId: string, extra: Record<string, string> = {}) {
+  return new URLSearchParams({ dateRange, ...(libraryId ? { libraryId } : {}), ...extra }).toString();
+}
+
+async function fetchReport<T>(path: string, query: string): Promise<T> {
+  const response = await fetch(`/api/dashboard/reports${path}?${query}`);
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload.error || 'Failed to fetch reports data');
+  }
+
+  return payload;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
 }
 
 const RecentActivity = dynamic(() => import('./recent-activity').then(m => m.default), { ssr: false, loading: () => null });
+const CategoryDistribution = dynamic(() => import('./category-distribution').then(m => m.default), { ssr: false, loading: () => null });
 const PopularBooks = dynamic(() => import('./popular-books').then(m => m.default), { ssr: false, loading: () => null });
 const QuickActions = dynamic(() => import('./quick-actions').then(m => m.default), { ssr: false, loading: () => null });
 
 export default function ReportsPage() {
-  const { user } = useAuth();
   const { t } = useI18n();
   const { formatNumber, formatPercentage } = useLocaleFormat();
   const [stats, setStats] = useState<ReportStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState('30'); // days
+  const [libraryId, setLibraryId] = useState('');
+  const [libraries, setLibraries] = useState<LibraryTenant[]>([]);
+
+  useEffect(() => {
+    fetch('/api/dashboard/libraries')
+      .then((response) => (response.ok ? response.json() : { libraries: [] }))
+      .then((payload) => setLibraries(payload.libraries || []))
+      .catch(() => setLibraries([]));
+  }, []);
 
   const fetchReportData = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await api.getReportsData(dateRange);
-      
-      if (response.success && response.data) {
-        setStats(response.data);
-      } else {
-        throw new Error('Failed to fetch reports data');
-      }
+      const payload = await fetchReport<{ stats: ReportStats }>('', reportQuery(dateRange, libraryId));
+      setStats(payload.stats);
     } catch (error) {
       console.error('Error fetching report data:', error);
       toast.error(getErrorMessage(error));
     } finally {
       setLoading(false);
     }
-  }, [dateRange]);
+  }, [dateRange, libraryId]);
 
   useEffect(() => {
     fetchReportData();
   }, [fetchReportData]);
 
 
-  const handleExportReport = async (type: string) => {
+  // Dataset files are rendered by the server; only the full JSON snapshot is built here
+  const handleExportReport = async (type: 'Full' | ReportDataset, exportFormat: ReportFormat = 'csv') => {
     try {
-      let data: any = null;
-      let filename = '';
-
-      switch (type) {
-        case 'Full':
-          data = stats;
-          filename = `full-report-${dateRange}days-${new Date().toISOString().split('T')[0]}.json`;
-          break;
-        case 'Books':
-          const booksResponse = await api.getReportData('books', dateRange);
-          data = booksResponse.data;
-          filename = `books-report-${dateRange}days-${new Date().toISOString().split('T')[0]}.json`;
-          break;
-        case 'Users':
-          const usersResponse = await api.getReportData('users', dateRange);
-          data = usersResponse.data;
-          filename = `users-report-${dateRange}days-${new Date().toISOString().split('T')[0]}.json`;
-          break;
-        case 'Loans':
-          const loansResponse = await api.getReportData('loans', dateRange);
-          data = loansResponse.data;
-          filename = `loans-report-${dateRange}days-${new Date().toISOString().split('T')[0]}.json`;
-          break;
-        default:
-          throw new Error('Invalid report type');
+      const today = new Date().toISOString().split('T')[0];
+
+      if (type === 'Full') {
+        downloadBlob(
+          new Blob([JSON.stringify(stats, null, 2)], { type: 'application/json' }),
+          `full-report-${dateRange}days-${today}.json`
+        );
+      } else {
+        const response = await fetch(
+          `/api/dashboard/reports/${type}/export?${reportQuery(dateRange, libraryId, { format: exportFormat })}`
+        );
+
+        if (!response.ok) {
+          const payload = await response.json();
+          throw new Error(payload.error || 'Failed to export report');
+        }
+
+        const disposition = response.headers.get('Content-Disposition') || '';
+        downloadBlob(await response.blob(), /filename="([^"]+)"/.exec(disposition)?.[1] || `${type}-${today}.${exportFormat}`);
       }
 
-      // Create and download the file
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-
-      toast.success(`${type} report exported successfully!`);
+      toast.success(t('reports.exported'));
     } catch (error) {
       console.error('Error exporting report:', error);
       toast.error(getErrorMessage(error));
     }
   };
 
-  const canViewReports = user?.role === 'admin' || user?.role === 'superadmin';
-
-  if (!canViewReports) {
-    return (
-      <div className="text-center py-12">
-        <div className="text-gray-400 text-6xl mb-4">🚫</div>
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
-        <p className="text-gray-600">You don&apos;t have permission to view reports.</p>
-      </div>
-    );
-  }
-
   if (loading) {
     return (
       <div className="space-y-6">
@@ -278,6 +227,21 @@ export default function ReportsPage() {
           <p className="text-gray-600 dark:text-gray-400 mt-1">{t('reports.subtitle')}</p>
         </div>
         <div className="flex items-center gap-3">
+          {libraries.length > 1 && (
+            <select
+              value={libraryId}
+              onChange={(e) => setLibraryId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              aria-label={t('reports.library')}
+            >
+              <option value="">{t('reports.allLibraries')}</option>
+              {libraries.map((library) => (
+                <option key={library.id} value={library.id}>
+                  {library.name}
+                </option>
+              ))}
+            </select>
+          )}
           <select
             value={dateRange}
             onChange={(e) => setDateRange(e.target.value)}
@@ -389,10 +353,13 @@ export default function ReportsPage() {
         {/* Popular Books (lazy) */}
         <PopularBooks stats={stats} />
 
-        {/* Recent Activity (lazy) */}
-        <RecentActivity stats={stats} />
+        {/* Recent Activity (lazy, served by /api/dashboard/activity) */}
+        <RecentActivity />
       </div>
 
+      {/* Category Distribution (lazy) */}
+      <CategoryDistribution stats={stats} />
+
       {/* Additional Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {stats.systemHealth && (
@@ -1,45 +1,64 @@
 'use client';
 
+import { useState } from 'react';
 import { Card, CardHeader, CardBody } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
 import { useI18n } from '@/context/I18nContext';
+import { ReportDataset, ReportFormat } from '@/types/tenant';
 
-export default function QuickActions({ onExport }: { onExport: (type: string) => void }) {
+const EXPORTS: Array<{ dataset: ReportDataset; label: string }> = [
+  { dataset: 'books', label: 'reports.quickActions.exportBooks' },
+  { dataset: 'loans', label: 'reports.quickActions.exportLoans' },
+  { dataset: 'overdue', label: 'reports.quickActions.exportOverdue' },
+  { dataset: 'popular', label: 'reports.quickActions.exportPopular' },
+  { dataset: 'users', label: 'reports.quickActions.exportUsers' },
+];
+
+export default function QuickActions({ onExport }: { onExport: (dataset: ReportDataset, format: ReportFormat) => Promise<void> }) {
   const { t } = useI18n();
+  const [format, setFormat] = useState<ReportFormat>('csv');
+  const [exporting, setExporting] = useState<ReportDataset | null>(null);
+
+  const handleExport = async (dataset: ReportDataset) => {
+    setExporting(dataset);
+    try {
+      await onExport(dataset, format);
+    } finally {
+      setExporting(null);
+    }
+  };
+
   return (
     <Card>
       <CardHeader title={t('reports.quickActions.title')} />
       <CardBody>
         <div className="space-y-3">
-          <Button
-            fullWidth
-            variant="outline"
-            leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />}
-            onClick={() => onExport('Books')}
-          >
-            {t('reports.quickActions.exportBooks')}
-          </Button>
-          <Button
-            fullWidth
-            variant="outline"
-            leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />}
-            onClick={() => onExport('Users')}
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ReportFormat)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            aria-label={t('reports.quickActions.format')}
           >
-            {t('reports.quickActions.exportUsers')}
-          </Button>
-          <Button
-            fullWidth
-            variant="outline"
-            leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />}
-            onClick={() => onExport('Loans')}
-          >
-            {t('reports.quickActions.exportLoans')}
-          </Button>
+            <option value="csv">CSV</option>
+            <option value="xlsx">Excel (XLSX)</option>
+            <option value="pdf">PDF</option>
+          </select>
+          {EXPORTS.map((item) => (
+            <Button
+              key={item.dataset}
+              fullWidth
+              variant="outline"
+              leftIcon={<ArrowDownTrayIcon className="w-4 h-4" />}
+              loading={exporting === item.dataset}
+              disabled={Boolean(exporting)}
+              onClick={() => handleExport(item.dataset)}
+            >
+              {t(item.label)}
+            </Button>
+          ))}
         </div>
       </CardBody>
     </Card>
   );
 }
-
-
@@ -2,11 +2,22 @@
 
 import { motion } from 'framer-motion';
 import { Card, CardHeader, CardBody } from '@/components/ui/Card';
-import { BookOpenIcon, UsersIcon, ClockIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import {
+  BookOpenIcon,
+  UsersIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  XCircleIcon,
+  PencilSquareIcon,
+} from '@heroicons/react/24/outline';
 import { useI18n } from '@/context/I18nContext';
+import { useActivityFeed } from '@/hooks/useActivityFeed';
 
-export default function RecentActivity({ stats }: { stats: any }) {
+export default function RecentActivity() {
   const { t } = useI18n();
+  const { events, hasMore, loading, error, loadMore } = useActivityFeed();
+
   return (
     <Card>
       <CardHeader 
@@ -15,12 +26,16 @@ export default function RecentActivity({ stats }: { stats: any }) {
       />
       <CardBody>
         <div className="space-y-4">
-          {(stats.recentActivity ?? []).map((activity: any, index: number) => (
+          {error && <p className="text-sm text-error-600">{error}</p>}
+          {!loading && !error && events.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('reports.activity.empty')}</p>
+          )}
+          {events.map((activity, index) => (
             <motion.div
-              key={index}
+              key={activity.id}
               initial={{ opacity: 0, x: 20 }}
               animate={{ opacity: 1, x: 0 }}
-              transition={{ delay: index * 0.1 }}
+              transition={{ delay: (index % 10) * 0.1 }}
               className="flex items-start gap-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
             >
               <div className="flex-shrink-0 mt-1">
@@ -29,19 +44,26 @@ export default function RecentActivity({ stats }: { stats: any }) {
                 {activity.type === 'request' && <ClockIcon className="w-4 h-4 text-warning-600" />}
                 {activity.type === 'overdue' && <ExclamationTriangleIcon className="w-4 h-4 text-error-600" />}
                 {activity.type === 'approval' && <UsersIcon className="w-4 h-4 text-success-600" />}
+                {activity.type === 'rejection' && <XCircleIcon className="w-4 h-4 text-error-600" />}
+                {activity.type === 'cancellation' && <XCircleIcon className="w-4 h-4 text-gray-500" />}
+                {activity.type === 'book' && <PencilSquareIcon className="w-4 h-4 text-primary-600" />}
               </div>
               <div className="flex-1 min-w-0">
                 <p className="text-sm text-gray-900 dark:text-gray-100">{activity.message}</p>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                   {t('reports.activity.timestamp', { date: new Date(activity.timestamp).toLocaleString() })}
+                  {activity.library && ` · ${activity.library}`}
                 </p>
               </div>
             </motion.div>
           ))}
+          {hasMore && (
+            <Button variant="outline" size="sm" onClick={loadMore} loading={loading}>
+              {t('reports.activity.loadMore')}
+            </Button>
+          )}
         </div>
       </CardBody>
     </Card>
   );
 }
-
-
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { ActivityType, LibraryTenant } from '@/types/tenant';
+import { cn, formatDateTime } from '@/lib/utils';
+import { ACTIVITY_TYPE_LABELS, ACTIVITY_TYPES } from '@/lib/activity-feed';
+import { useActivityFeed } from '@/hooks/useActivityFeed';
+
+interface ActivityFeedClientProps {
+  libraries: LibraryTenant[];
+}
+
+const typeStyles: Record<ActivityType, string> = {
+  request: 'bg-amber-100 text-amber-700',
+  approval: 'bg-emerald-100 text-emerald-700',
+  rejection: 'bg-rose-100 text-rose-700',
+  borrow: 'bg-sky-100 text-sky-700',
+  return: 'bg-emerald-100 text-emerald-700',
+  cancellation: 'bg-slate-200 text-slate-600',
+  overdue: 'bg-rose-100 text-rose-700',
+  book: 'bg-violet-100 text-violet-700',
+};
+
+export default function ActivityFeedClient({ libraries }: ActivityFeedClientProps) {
+  const [libraryId, setLibraryId] = useState('');
+  const [types, setTypes] = useState<ActivityType[]>([]);
+  const { events, hasMore, loading, error, loadMore } = useActivityFeed({ libraryId, types });
+
+  function toggleType(type: ActivityType) {
+    setTypes((current) => (current.includes(type) ? current.filter((item) => item !== type) : [...current, type]));
+  }
+
+  if (!libraries.length) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-[2rem] border border-slate-200 bg-white p-6 shadow-sm space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Actividad reciente</p>
+        {libraries.length > 1 && (
+          <select
+            value={libraryId}
+            onChange={(event) => setLibraryId(event.target.value)}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          >
+            <option value="">Todas las bibliotecas</option>
+            {libraries.map((library) => (
+              <option key={library.id} value={library.id}>
+                {library.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {ACTIVITY_TYPES.map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => toggleType(type)}
+            className={cn(
+              'rounded-full border px-3 py-1 text-xs font-semibold transition',
+              types.includes(type) ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+            )}
+          >
+            {ACTIVITY_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+      {!loading && !events.length && !error && <p className="text-sm text-slate-400">Todavía no hay actividad.</p>}
+
+      <ul className="space-y-2">
+        {events.map((event) => (
+          <li key={event.id} className="flex flex-wrap items-center gap-3 rounded-2xl bg-slate-50 px-4 py-3 text-sm">
+            <span className={cn('rounded-full px-3 py-1 text-[10px] font-bold uppercase', typeStyles[event.type])}>
+              {ACTIVITY_TYPE_LABELS[event.type]}
+            </span>
+            <span className="min-w-0 flex-1 text-slate-800">{event.message}</span>
+            {libraries.length > 1 && <span className="text-xs text-slate-400">{event.library}</span>}
+            <span className="text-xs text-slate-400">{formatDateTime(event.timestamp)}</span>
+          </li>
+        ))}
+      </ul>
+
+      {loading && <p className="text-sm text-slate-500">Cargando actividad...</p>}
+      {hasMore && !loading && (
+        <button
+          type="button"
+          onClick={loadMore}
+          className="rounded-xl border border-slate-200 px-4 py-2 text-xs font-bold text-slate-600 hover:bg-slate-50 transition"
+        >
+          Ver más
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AuditAction, AuditEntry, LibraryTenant } from '@/types/tenant';
+import { cn, formatDateTime } from '@/lib/utils';
+
+interface AuditLogClientProps {
+  libraries: LibraryTenant[];
+}
+
+const actionLabels: Partial<Record<AuditAction, string>> = {
+  'loan.approved': 'Préstamo aprobado',
+  'loan.rejected': 'Préstamo rechazado',
+  'loan.handled': 'Préstamo entregado',
+  'loan.returned': 'Préstamo devuelto',
+  'loan.cancelled': 'Préstamo cancelado',
+  'loan.renewed': 'Préstamo renovado',
+  'loan.renewal_declined': 'Renovación rechazada',
+  'book.created': 'Libro creado',
+  'book.updated': 'Libro editado',
+  'book.archived': 'Libro archivado',
+  'book.merged': 'Libros fusionados',
+  'book.transferred': 'Copias transferidas',
+  'copy.added': 'Copia agregada',
+  'copy.updated': 'Copia editada',
+};
+
+const entityStyles: Record<AuditEntry['entity_type'], string> = {
+  loan: 'bg-amber-100 text-amber-700',
+  book: 'bg-sky-100 text-sky-700',
+  copy: 'bg-violet-100 text-violet-700',
+};
+
+// Timestamps change on every write and would drown out the fields that matter
+const IGNORED_FIELDS = ['updated_at'];
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function changedFields(entry: AuditEntry) {
+  const keys = new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})]);
+
+  return Array.from(keys)
+    .filter((key) => !IGNORED_FIELDS.includes(key))
+    .filter((key) => JSON.stringify(entry.before?.[key]) !== JSON.stringify(entry.after?.[key]))
+    .map((key) => ({ key, before: entry.before?.[key], after: entry.after?.[key] }));
+}
+
+function entityName(entry: AuditEntry) {
+  const record = entry.after || entry.before || {};
+  const name = { loan: record.full_name, book: record.title, copy: record.code }[entry.entity_type];
+  return String(name || entry.entity_id);
+}
+
+export default function AuditLogClient({ libraries }: AuditLogClientProps) {
+  const [libraryId, setLibraryId] = useState(libraries[0]?.id || '');
+  const [action, setAction] = useState('');
+  const [librarianId, setLibrarianId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [librarians, setLibrarians] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openEntryId, setOpenEntryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!libraryId) {
+      return;
+    }
+
+    async function loadEntries() {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams({ libraryId });
+      if (action) params.set('action', action);
+      if (librarianId) params.set('librarianId', librarianId);
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+
+      const response = await fetch(`/api/dashboard/audit?${params.toString()}`);
+      const payload = await response.json();
+
+      if (!response.ok) {
+        setError(payload.error || 'No se pudo cargar el registro de auditoría.');
+      } else {
+        setEntries(payload.entries || []);
+        // Librarians seen so far stay selectable even after filtering them out
+        setLibrarians((current) => ({
+          ...current,
+          ...Object.fromEntries(
+            (payload.entries || [])
+              .filter((entry: AuditEntry) => entry.librarian_id)
+              .map((entry: AuditEntry) => [entry.librarian_id, entry.librarian_name])
+          ),
+        }));
+      }
+      setLoading(false);
+    }
+
+    loadEntries().catch(() => {
+      setError('No se pudo cargar el registro de auditoría.');
+      setLoading(false);
+    });
+  }, [libraryId, action, librarianId, from, to]);
+
+  return (
+    <div className="rounded-[2rem] border border-slate-200 bg-white p-6 shadow-sm space-y-5">
+      <div className="flex flex-wrap items-end gap-3">
+        {libraries.length > 1 && (
+          <label className="block">
+            <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Biblioteca</span>
+            <select
+              value={libraryId}
+              onChange={(event) => setLibraryId(event.target.value)}
+              className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+            >
+              {libraries.map((library) => (
+                <option key={library.id} value={library.id}>
+                  {library.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Acción</span>
+          <select
+            value={action}
+            onChange={(event) => setAction(event.target.value)}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          >
+            <option value="">Todas</option>
+            {Object.entries(actionLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Bibliotecario</span>
+          <select
+            value={librarianId}
+            onChange={(event) => setLibrarianId(event.target.value)}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          >
+            <option value="">Todos</option>
+            {Object.entries(librarians).map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Desde</span>
+          <input
+            type="date"
+            value={from}
+            onChange={(event) => setFrom(event.target.value)}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Hasta</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(event) => setTo(event.target.value)}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          />
+        </label>
+      </div>
+
+      {error && <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+      {loading && <p className="text-sm text-slate-500">Cargando registro...</p>}
+      {!loading && !entries.length && <p className="text-sm text-slate-400">No hay cambios registrados con estos filtros.</p>}
+
+      <ul className="space-y-2">
+        {entries.map((entry) => (
+          <li key={entry.id} className="rounded-[1.5rem] border border-slate-100 bg-slate-50 px-4 py-3">
+            <button
+              type="button"
+              onClick={() => setOpenEntryId(openEntryId === entry.id ? null : entry.id)}
+              className="flex w-full flex-wrap items-center gap-3 text-left text-sm"
+            >
+              <span
+                className={cn('rounded-full px-3 py-1 text-xs font-bold', entityStyles[entry.entity_type])}
+              >
+                {actionLabels[entry.action] || entry.action}
+              </span>
+              <span className="font-semibold text-slate-900">{entityName(entry)}</span>
+              <span className="text-slate-500">por {entry.librarian_name}</span>
+              <span className="ml-auto text-xs text-slate-400">{formatDateTime(entry.created_at)}</span>
+            </button>
+
+            {openEntryId === entry.id && (
+              <table className="mt-3 w-full table-fixed text-left text-xs">
+                <thead>
+                  <tr className="text-[10px] font-bold uppercase tracking-tight text-slate-400">
+                    <th className="w-1/4 py-1">Campo</th>
+                    <th className="py-1">Antes</th>
+                    <th className="py-1">Después</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changedFields(entry).map((field) => (
+                    <tr key={field.key} className="border-t border-slate-200 align-top">
+                      <td className="py-1 font-semibold text-slate-600">{field.key}</td>
+                      <td className="break-words py-1 text-slate-500">{formatValue(field.before)}</td>
+                      <td className="break-words py-1 text-slate-900">{formatValue(field.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BookCopy, CopyCondition, CopyStatus, CopyUpdatePayload } from '@/types/tenant';
+import { cn, formatDateTime } from '@/lib/utils';
+
+interface BookCopiesPanelProps {
+  bookId: string;
+  onCopiesChange: (copies: BookCopy[]) => void;
+}
+
+export const conditionLabels: Record<CopyCondition, string> = {
+  good: 'Bueno',
+  fair: 'Regular',
+  bad: 'Malo',
+};
+
+export const copyStatusLabels: Record<CopyStatus, string> = {
+  available: 'Disponible',
+  on_loan: 'Prestada',
+  on_hold: 'Reservada',
+  lost: 'Perdida',
+  in_repair: 'En reparación',
+  withdrawn: 'Retirada',
+};
+
+const eventLabels: Record<BookCopy['history'][number]['action'], string> = {
+  created: 'Registrada',
+  updated: 'Actualizada',
+  loaned: 'Prestada',
+  returned: 'Devuelta',
+  reserved: 'Reservada',
+  transferred: 'Transferida',
+};
+
+export default function BookCopiesPanel({ bookId, onCopiesChange }: BookCopiesPanelProps) {
+  const [copies, setCopies] = useState<BookCopy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedCopyId, setExpandedCopyId] = useState<string | null>(null);
+  const [shelfDrafts, setShelfDrafts] = useState<Record<string, string>>({});
+  const [addForm, setAddForm] = useState<{ count: number; condition: CopyCondition; shelf_location: string; codes: string }>({
+    count: 1,
+    condition: 'good',
+    shelf_location: '',
+    codes: '',
+  });
+
+  useEffect(() => {
+    async function loadCopies() {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/dashboard/copies?bookId=${encodeURIComponent(bookId)}`);
+      const payload = await response.json();
+
+      if (!response.ok) {
+        setError(payload.error || 'No se pudieron cargar las copias.');
+        setLoading(false);
+        return;
+      }
+
+      setCopies(payload.copies || []);
+      setLoading(false);
+    }
+
+    loadCopies().catch(() => {
+      setError('No se pudieron cargar las copias.');
+      setLoading(false);
+    });
+  }, [bookId]);
+
+  function applyCopies(next: BookCopy[]) {
+    setCopies(next);
+    onCopiesChange(next);
+  }
+
+  async function updateCopy(copy: BookCopy, changes: CopyUpdatePayload) {
+    setError(null);
+    const response = await fetch('/api/dashboard/copies', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ id: copy.id, ...changes }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudo actualizar la copia.');
+      return;
+    }
+
+    applyCopies(copies.map((item) => (item.id === copy.id ? payload.copy : item)));
+  }
+
+  async function addCopies() {
+    setError(null);
+    const response = await fetch('/api/dashboard/copies', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        book_id: bookId,
+        ...addForm,
+        // Manually entered codes (an existing barcode series) replace the generated ones
+        codes: addForm.codes.trim() ? addForm.codes.split(/[\s,]+/).filter(Boolean) : undefined,
+      }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudieron agregar las copias.');
+      return;
+    }
+
+    applyCopies([...copies, ...(payload.copies || [])].sort((a, b) => a.code.localeCompare(b.code)));
+    setAddForm((current) => ({ ...current, count: 1, codes: '' }));
+  }
+
+  return (
+    <div className="space-y-4 rounded-[1.75rem] border border-slate-100 bg-slate-50 p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-700">Copias físicas</span>
+        <span className="text-[10px] font-bold uppercase tracking-tight text-slate-400">{copies.length} registradas</span>
+      </div>
+
+      {loading && <p className="text-xs text-slate-400">Cargando copias...</p>}
+      {error && <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+
+      <div className="max-h-[360px] space-y-2 overflow-y-auto pr-1">
+        {copies.map((copy) => (
+          <div key={copy.id} className="rounded-2xl border border-slate-100 bg-white p-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setExpandedCopyId(expandedCopyId === copy.id ? null : copy.id)}
+                className="font-mono text-xs font-bold text-slate-700 hover:text-slate-900"
+              >
+                {copy.code}
+              </button>
+              <select
+                value={copy.condition}
+                onChange={(event) => updateCopy(copy, { condition: event.target.value as CopyCondition })}
+                className="rounded-lg border border-slate-200 px-2 py-1 text-xs"
+              >
+                {Object.entries(conditionLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={copy.status}
+                disabled={copy.status === 'on_loan' || copy.status === 'on_hold'}
+                onChange={(event) => updateCopy(copy, { status: event.target.value as CopyUpdatePayload['status'] })}
+                className={cn(
+                  'rounded-lg border border-slate-200 px-2 py-1 text-xs',
+                  copy.status === 'on_loan' && 'bg-sky-50 text-sky-700',
+                  copy.status === 'on_hold' && 'bg-violet-50 text-violet-700'
+                )}
+              >
+                {Object.entries(copyStatusLabels)
+                  .filter(([value]) => (value !== 'on_loan' && value !== 'on_hold') || value === copy.status)
+                  .map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+              </select>
+              <input
+                value={shelfDrafts[copy.id] ?? copy.shelf_location ?? ''}
+                onChange={(event) => setShelfDrafts((prev) => ({ ...prev, [copy.id]: event.target.value }))}
+                onBlur={() => {
+                  const draft = shelfDrafts[copy.id];
+                  if (draft !== undefined && draft !== (copy.shelf_location ?? '')) {
+                    updateCopy(copy, { shelf_location: draft });
+                  }
+                }}
+                placeholder="Estante"
+                className="w-24 rounded-lg border border-slate-200 px-2 py-1 text-xs"
+              />
+            </div>
+
+            {expandedCopyId === copy.id && (
+              <ul className="mt-3 space-y-1 border-t border-slate-100 pt-2 text-[11px] text-slate-500">
+                {[...copy.history].reverse().map((event, index) => (
+                  <li key={`${event.at}-${index}`}>
+                    <span className="font-semibold text-slate-600">{eventLabels[event.action]}</span> · {formatDateTime(event.at)}
+                    {event.changes?.condition && ` · estado: ${conditionLabels[event.changes.condition]}`}
+                    {event.changes?.status && ` · ${copyStatusLabels[event.changes.status]}`}
+                    {event.changes?.shelf_location !== undefined && ` · estante: ${event.changes.shelf_location || '—'}`}
+                    {event.note && <span className="italic"> · &quot;{event.note}&quot;</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2 border-t border-slate-100 pt-3">
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Cantidad</span>
+          <input
+            type="number"
+            min={1}
+            disabled={!!addForm.codes.trim()}
+            value={addForm.count}
+            onChange={(event) => setAddForm((current) => ({ ...current, count: Number(event.target.value || 1) }))}
+            className="w-20 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Estado</span>
+          <select
+            value={addForm.condition}
+            onChange={(event) => setAddForm((current) => ({ ...current, condition: event.target.value as CopyCondition }))}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          >
+            {Object.entries(conditionLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block flex-1">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Estante</span>
+          <input
+            value={addForm.shelf_location}
+            onChange={(event) => setAddForm((current) => ({ ...current, shelf_location: event.target.value }))}
+            placeholder="Igual que el libro"
+            className="w-full rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+        <label className="block w-full">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Códigos manuales</span>
+          <input
+            value={addForm.codes}
+            onChange={(event) => setAddForm((current) => ({ ...current, codes: event.target.value }))}
+            placeholder="Opcional: códigos existentes separados por coma"
+            className="w-full rounded-xl border border-slate-200 px-3 py-2 font-mono text-xs"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={addCopies}
+          className="rounded-xl bg-slate-900 px-4 py-2 text-xs font-bold text-white hover:bg-slate-700 transition"
+        >
+          Agregar copias
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { BookHold } from '@/types/tenant';
+import { cn, formatDateTime } from '@/lib/utils';
+import { HoldAction } from '@/lib/data-store/types';
+
+interface BookHoldsPanelProps {
+  bookId: string;
+  onHoldsChange: () => void;
+}
+
+export default function BookHoldsPanel({ bookId, onHoldsChange }: BookHoldsPanelProps) {
+  const [holds, setHolds] = useState<BookHold[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [dueDate, setDueDate] = useState(format(addDays(new Date(), 14), 'yyyy-MM-dd'));
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    async function loadHolds() {
+      const response = await fetch(`/api/dashboard/holds?bookId=${encodeURIComponent(bookId)}`);
+      const payload = await response.json();
+
+      if (!response.ok) {
+        setError(payload.error || 'No se pudo cargar la lista de espera.');
+        return;
+      }
+
+      setHolds(payload.holds || []);
+    }
+
+    loadHolds().catch(() => setError('No se pudo cargar la lista de espera.'));
+  }, [bookId, version]);
+
+  async function send(method: 'PATCH' | 'POST', body: Record<string, string>) {
+    setError(null);
+    const response = await fetch('/api/dashboard/holds', {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudo actualizar la reserva.');
+      return;
+    }
+
+    // Cancelling or picking up a hold can move copies, so reload both lists
+    setVersion((current) => current + 1);
+    onHoldsChange();
+  }
+
+  return (
+    <div className="space-y-3 rounded-[1.75rem] border border-slate-100 bg-slate-50 p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-700">Lista de espera</span>
+        <span className="text-[10px] font-bold uppercase tracking-tight text-slate-400">{holds.length} en cola</span>
+      </div>
+
+      {error && <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+
+      {!holds.length && <p className="text-xs text-slate-400">Nadie está esperando este título.</p>}
+
+      <ol className="space-y-2">
+        {holds.map((hold, index) => (
+          <li key={hold.id} className="rounded-2xl border border-slate-100 bg-white p-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-bold text-slate-400">#{index + 1}</span>
+              <span className="text-sm font-semibold text-slate-900">{hold.full_name}</span>
+              <span className="text-xs text-slate-500">{hold.identifier}</span>
+              <span
+                className={cn(
+                  'rounded-full px-2 py-0.5 text-[10px] font-bold uppercase',
+                  hold.status === 'ready' ? 'bg-violet-100 text-violet-700' : 'bg-amber-100 text-amber-700'
+                )}
+              >
+                {hold.status === 'ready' ? `Lista · ${hold.copy_code}` : 'En espera'}
+              </span>
+              <div className="ml-auto flex gap-1">
+                <button
+                  type="button"
+                  disabled={index === 0}
+                  onClick={() => send('PATCH', { id: hold.id, action: 'move_up' satisfies HoldAction })}
+                  className="rounded-lg border border-slate-200 px-2 py-1 text-xs disabled:opacity-40"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  disabled={index === holds.length - 1}
+                  onClick={() => send('PATCH', { id: hold.id, action: 'move_down' satisfies HoldAction })}
+                  className="rounded-lg border border-slate-200 px-2 py-1 text-xs disabled:opacity-40"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => send('PATCH', { id: hold.id, action: 'cancel' satisfies HoldAction })}
+                  className="rounded-lg border border-rose-200 px-2 py-1 text-xs font-bold text-rose-600 hover:bg-rose-50"
+                >
+                  Cancelar
+                </button>
+              </div>
+            </div>
+
+            {hold.status === 'ready' && (
+              <div className="mt-2 flex flex-wrap items-center gap-2 border-t border-slate-100 pt-2 text-xs text-slate-500">
+                <span>
+                  Retirar antes de {hold.expires_at ? formatDateTime(hold.expires_at) : '—'}
+                  {hold.expires_at && new Date(hold.expires_at) < new Date() && (
+                    <span className="ml-1 font-bold text-rose-600">(vencida)</span>
+                  )}
+                </span>
+                <input
+                  type="date"
+                  value={dueDate}
+                  onChange={(event) => setDueDate(event.target.value)}
+                  className="ml-auto rounded-lg border border-slate-200 px-2 py-1 text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={() => send('POST', { id: hold.id, dueDate })}
+                  className="rounded-lg bg-violet-600 px-3 py-1 text-xs font-bold text-white hover:bg-violet-700"
+                >
+                  Entregar
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -5,7 +5,14 @@ import Link from 'next/link';
 import Image from 'next/image';
 
 import { cn } from '@/lib/utils';
-import { BookMutationPayload, LibraryTenant, TenantBook } from '@/types/tenant';
+import { summarizeCopies } from '@/lib/data-store/helpers';
+import { findBookDuplicates } from '@/lib/book-duplicates';
+import { BookCopy, BookMutationPayload, CopyTransferResult, LibraryTenant, TenantBook } from '@/types/tenant';
+import BookCopiesPanel from '@/components/tenant/BookCopiesPanel';
+import BookHoldsPanel from '@/components/tenant/BookHoldsPanel';
+import IsbnLookupPanel from '@/components/tenant/IsbnLookupPanel';
+import BookMergePanel from '@/components/tenant/BookMergePanel';
+import BookTransferPanel from '@/components/tenant/BookTransferPanel';
 
 interface BookManagementClientProps {
   libraries: LibraryTenant[];
@@ -19,8 +26,6 @@ const emptyForm = (libraryId: string): BookMutationPayload => ({
   good_copies: 1,
   fair_copies: 0,
   bad_copies: 0,
-  total_copies: 1,
-  available_copies: 1,
   book_code: '',
   editorial: '',
   edition: '',
@@ -37,11 +42,13 @@ export default function BookManagementClient({ libraries }: BookManagementClient
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editingBookId, setEditingBookId] = useState<string | null>(null);
+  const [copiesVersion, setCopiesVersion] = useState(0);
   const [form, setForm] = useState<BookMutationPayload>(emptyForm(libraries[0]?.id || ''));
   const [searchQuery, setSearchQuery] = useState('');
   const [categoryInput, setCategoryInput] = useState('');
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [brokenImages, setBrokenImages] = useState<Set<string>>(new Set());
+  const [merging, setMerging] = useState<{ source: TenantBook; targetId?: string } | null>(null);
 
   useEffect(() => {
     if (!selectedLibraryId && libraries[0]?.id) {
@@ -97,6 +104,17 @@ export default function BookManagementClient({ libraries }: BookManagementClient
     });
   }, [books, searchQuery]);
 
+  const editingBook = books.find((book) => book.id === editingBookId);
+
+  // Checked as the librarian types, against the books already loaded for the form's library
+  const duplicates = useMemo(() => {
+    if (form.library_id !== selectedLibraryId || (!form.title.trim() && !form.book_code?.trim())) {
+      return [];
+    }
+
+    return findBookDuplicates(form, books, editingBookId || undefined);
+  }, [books, editingBookId, form, selectedLibraryId]);
+
   function resetForm(libraryId = selectedLibraryId) {
     setEditingBookId(null);
     setForm(emptyForm(libraryId));
@@ -113,8 +131,6 @@ export default function BookManagementClient({ libraries }: BookManagementClient
       good_copies: book.good_copies,
       fair_copies: book.fair_copies,
       bad_copies: book.bad_copies,
-      total_copies: book.total_copies,
-      available_copies: book.available_copies,
       book_code: book.book_code || '',
       editorial: book.editorial || '',
       edition: book.edition || '',
@@ -136,7 +152,8 @@ export default function BookManagementClient({ libraries }: BookManagementClient
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(editingBookId ? { id: editingBookId, ...form } : form),
+      // The duplicate warning is on screen by now, so saving anyway is a deliberate choice
+      body: JSON.stringify(editingBookId ? { id: editingBookId, ...form } : { ...form, allow_duplicate: duplicates.length > 0 }),
     });
 
     const payload = await response.json();
@@ -184,6 +201,35 @@ export default function BookManagementClient({ libraries }: BookManagementClient
     }
   }
 
+  function handleCopiesChange(bookId: string, copies: BookCopy[]) {
+    setBooks((current) => current.map((book) => (book.id === bookId ? { ...book, ...summarizeCopies(copies) } : book)));
+  }
+
+  // While editing, the record being edited is the one merged away; otherwise the match is opened instead
+  function openDuplicate(book: TenantBook) {
+    if (editingBook) {
+      setMerging({ source: editingBook, targetId: book.id });
+    } else {
+      startEdit(book);
+    }
+  }
+
+  function handleMerged(book: TenantBook, sourceId: string) {
+    setBooks((current) => current.filter((item) => item.id !== sourceId).map((item) => (item.id === book.id ? book : item)));
+    setMerging(null);
+
+    if (editingBookId === sourceId || editingBookId === book.id) {
+      startEdit(book);
+      setCopiesVersion((current) => current + 1);
+    }
+  }
+
+  // Only the source stays in this list; the destination belongs to another library
+  function handleTransferred(result: CopyTransferResult) {
+    setBooks((current) => current.map((book) => (book.id === result.source.id ? result.source : book)));
+    setCopiesVersion((current) => current + 1);
+  }
+
   function addCategory() {
     if (!categoryInput.trim()) return;
     const cat = categoryInput.trim().toLowerCase();
@@ -294,6 +340,8 @@ export default function BookManagementClient({ libraries }: BookManagementClient
               </label>
             </div>
 
+            <IsbnLookupPanel form={form} onApply={(changes) => setForm((current) => ({ ...current, ...changes }))} />
+
             <div className="grid gap-4 md:grid-cols-2">
               <label className="block">
                 <span className="mb-2 block text-sm font-medium text-slate-700">Editorial</span>
@@ -382,93 +430,66 @@ export default function BookManagementClient({ libraries }: BookManagementClient
               </label>
             </div>
 
-            <div className="grid gap-4 md:grid-cols-2">
-              <div className="grid gap-4 grid-cols-3">
-                <label className="block">
-                  <span className="mb-2 block text-[10px] font-bold uppercase tracking-tight text-emerald-600">Bueno</span>
-                  <input
-                    type="number"
-                    min={0}
-                    value={form.good_copies}
-                    onChange={(event) => {
-                      const val = Number(event.target.value || 0);
-                      const newTotal = val + form.fair_copies + form.bad_copies;
-                      setForm((current) => ({
-                        ...current,
-                        good_copies: val,
-                        total_copies: newTotal,
-                        available_copies: editingBookId ? current.available_copies : newTotal
-                      }));
-                    }}
-                    className="w-full rounded-2xl border border-slate-200 px-4 py-3 text-sm focus:outline-none transition"
-                  />
-                </label>
-                <label className="block">
-                  <span className="mb-2 block text-[10px] font-bold uppercase tracking-tight text-amber-600">Regular</span>
-                  <input
-                    type="number"
-                    min={0}
-                    value={form.fair_copies}
-                    onChange={(event) => {
-                      const val = Number(event.target.value || 0);
-                      const newTotal = form.good_copies + val + form.bad_copies;
-                      setForm((current) => ({
-                        ...current,
-                        fair_copies: val,
-                        total_copies: newTotal,
-                        available_copies: editingBookId ? current.available_copies : newTotal
-                      }));
-                    }}
-                    className="w-full rounded-2xl border border-slate-200 px-4 py-3 text-sm focus:outline-none transition"
-                  />
-                </label>
-                <label className="block">
-                  <span className="mb-2 block text-[10px] font-bold uppercase tracking-tight text-rose-600">Malo</span>
-                  <input
-                    type="number"
-                    min={0}
-                    value={form.bad_copies}
-                    onChange={(event) => {
-                      const val = Number(event.target.value || 0);
-                      const newTotal = form.good_copies + form.fair_copies + val;
-                      setForm((current) => ({
-                        ...current,
-                        bad_copies: val,
-                        total_copies: newTotal,
-                        available_copies: editingBookId ? current.available_copies : newTotal
-                      }));
-                    }}
-                    className="w-full rounded-2xl border border-slate-200 px-4 py-3 text-sm focus:outline-none transition"
+            {editingBookId ? (
+              <div className="space-y-4">
+                <BookCopiesPanel
+                  key={`${editingBookId}-${copiesVersion}`}
+                  bookId={editingBookId}
+                  onCopiesChange={(copies) => handleCopiesChange(editingBookId, copies)}
+                />
+                <BookHoldsPanel bookId={editingBookId} onHoldsChange={() => setCopiesVersion((current) => current + 1)} />
+                {editingBook && (
+                  <BookTransferPanel
+                    book={editingBook}
+                    libraries={libraries}
+                    version={copiesVersion}
+                    onTransferred={handleTransferred}
                   />
-                </label>
+                )}
               </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="grid gap-4 grid-cols-3">
+                  <label className="block">
+                    <span className="mb-2 block text-[10px] font-bold uppercase tracking-tight text-emerald-600">Bueno</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={form.good_copies}
+                      onChange={(event) => setForm((current) => ({ ...current, good_copies: Number(event.target.value || 0) }))}
+                      className="w-full rounded-2xl border border-slate-200 px-4 py-3 text-sm focus:outline-none transition"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="mb-2 block text-[10px] font-bold uppercase tracking-tight text-amber-600">Regular</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={form.fair_copies}
+                      onChange={(event) => setForm((current) => ({ ...current, fair_copies: Number(event.target.value || 0) }))}
+                      className="w-full rounded-2xl border border-slate-200 px-4 py-3 text-sm focus:outline-none transition"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="mb-2 block text-[10px] font-bold uppercase tracking-tight text-rose-600">Malo</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={form.bad_copies}
+                      onChange={(event) => setForm((current) => ({ ...current, bad_copies: Number(event.target.value || 0) }))}
+                      className="w-full rounded-2xl border border-slate-200 px-4 py-3 text-sm focus:outline-none transition"
+                    />
+                  </label>
+                </div>
 
-              <div className="grid gap-4 grid-cols-2">
                 <label className="block">
-                  <span className="mb-2 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Total</span>
+                  <span className="mb-2 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Copias iniciales</span>
                   <div className="w-full rounded-2xl bg-slate-50 border border-slate-100 px-4 py-3 text-sm font-bold text-slate-500">
                     {form.good_copies + form.fair_copies + form.bad_copies}
                   </div>
                 </label>
-
-                <label className="block">
-                  <span className="mb-2 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Disponibles</span>
-                  <input
-                    type="number"
-                    min={0}
-                    max={form.good_copies + form.fair_copies + form.bad_copies}
-                    value={form.available_copies}
-                    onChange={(event) =>
-                      setForm((current) => ({
-                        ...current,
-                        available_copies: Number(event.target.value || 0),
-                      }))
-                    }
-                    className="w-full rounded-2xl border border-slate-200 px-4 py-3 text-sm focus:outline-none transition"
-                  />
-                </label>
               </div>
-            </div>
+            )}
 
             <div className="grid gap-4 md:grid-cols-2">
               <label className="block">
@@ -505,10 +526,43 @@ export default function BookManagementClient({ libraries }: BookManagementClient
               />
             </label>
 
+            {duplicates.length > 0 && (
+              <div className="space-y-3 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                <p className="font-semibold">
+                  {duplicates.length === 1 ? 'Este libro parece estar ya en el catálogo:' : 'Este libro se parece a otros del catálogo:'}
+                </p>
+                <ul className="space-y-2">
+                  {duplicates.map((match) => {
+                    const book = books.find((item) => item.id === match.book_id);
+
+                    return (
+                      <li key={match.book_id} className="flex flex-wrap items-center justify-between gap-2">
+                        <span className="min-w-0">
+                          <span className="font-medium">{match.title}</span> · {match.author}{' '}
+                          <span className="text-amber-600">
+                            ({match.reason === 'book_code' ? 'mismo código' : `${Math.round(match.score * 100)}% similar`})
+                          </span>
+                        </span>
+                        {book && (
+                          <button
+                            type="button"
+                            onClick={() => openDuplicate(book)}
+                            className="rounded-full border border-amber-300 px-3 py-1 text-xs font-semibold hover:bg-white transition"
+                          >
+                            {editingBookId ? 'Fusionar en este' : 'Editar ese libro'}
+                          </button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
             {error && <p className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</p>}
 
             <button className="w-full rounded-2xl bg-slate-900 px-4 py-3 text-sm font-semibold text-white transition hover:bg-slate-700 shadow-lg active:scale-[0.98]">
-              {editingBookId ? 'Guardar cambios' : 'Guardar libro'}
+              {editingBookId ? 'Guardar cambios' : duplicates.length ? 'Guardar de todos modos' : 'Guardar libro'}
             </button>
           </form>
         </section>
@@ -606,6 +660,13 @@ export default function BookManagementClient({ libraries }: BookManagementClient
                     >
                       Editar
                     </button>
+                    <button
+                      type="button"
+                      onClick={() => setMerging({ source: book })}
+                      className="rounded-xl bg-white border border-slate-200 px-4 py-2 text-xs font-bold text-slate-600 hover:bg-slate-50 transition"
+                    >
+                      Fusionar
+                    </button>
                     <button
                       type="button"
                       onClick={() => handleDelete(book)}
@@ -627,6 +688,16 @@ export default function BookManagementClient({ libraries }: BookManagementClient
         </section>
       </div>
 
+      {merging && (
+        <BookMergePanel
+          source={merging.source}
+          books={books}
+          initialTargetId={merging.targetId}
+          onClose={() => setMerging(null)}
+          onMerged={handleMerged}
+        />
+      )}
+
       {previewImage && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 p-6 backdrop-blur-sm animate-in fade-in duration-200">
           <div className="relative max-w-sm w-full bg-white rounded-[2.5rem] p-4 shadow-2xl overflow-hidden animate-in zoom-in-95 duration-200">
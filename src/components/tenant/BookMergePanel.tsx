@@ -0,0 +1,174 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { TenantBook } from '@/types/tenant';
+import { cn } from '@/lib/utils';
+import { findBookDuplicates } from '@/lib/book-duplicates';
+
+interface BookMergePanelProps {
+  source: TenantBook;
+  books: TenantBook[];
+  initialTargetId?: string;
+  onClose: () => void;
+  onMerged: (book: TenantBook, sourceId: string) => void;
+}
+
+function codeRange(codes: string[]) {
+  return codes.length > 1 ? `${codes[0]} — ${codes[codes.length - 1]}` : codes[0] || 'sin copias';
+}
+
+export default function BookMergePanel({ source, books, initialTargetId, onClose, onMerged }: BookMergePanelProps) {
+  const [targetId, setTargetId] = useState(initialTargetId || '');
+  const [query, setQuery] = useState('');
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const others = useMemo(
+    () => books.filter((book) => book.id !== source.id && book.library_id === source.library_id),
+    [books, source]
+  );
+  const suggestions = useMemo(() => findBookDuplicates(source, others), [source, others]);
+  const candidates = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const suggested = new Set(suggestions.map((match) => match.book_id));
+    const matching = needle
+      ? others.filter((book) => [book.title, book.author, book.book_code || ''].some((value) => value.toLowerCase().includes(needle)))
+      : others.filter((book) => suggested.has(book.id));
+
+    // Likely duplicates first, in match order
+    return matching.sort(
+      (a, b) =>
+        (suggested.has(b.id) ? 1 : 0) - (suggested.has(a.id) ? 1 : 0) ||
+        suggestions.findIndex((match) => match.book_id === a.id) - suggestions.findIndex((match) => match.book_id === b.id)
+    );
+  }, [others, query, suggestions]);
+
+  const target = others.find((book) => book.id === targetId);
+
+  async function handleMerge() {
+    if (!target) return;
+
+    setMerging(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/dashboard/books/merge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ targetId: target.id, sourceId: source.id }),
+      });
+      const payload = await response.json();
+
+      if (!response.ok) {
+        setError(payload.error || 'No se pudieron fusionar los libros.');
+        return;
+      }
+
+      onMerged(payload.book, source.id);
+    } catch {
+      setError('No se pudieron fusionar los libros.');
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 p-6 backdrop-blur-sm">
+      <div className="max-h-full w-full max-w-2xl space-y-5 overflow-y-auto rounded-[2rem] bg-white p-6 shadow-2xl">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Fusionar duplicado</p>
+          <h2 className="mt-2 text-2xl font-semibold text-slate-900">{source.title}</h2>
+          <p className="text-sm text-slate-500">
+            {source.author} · {source.total_copies} {source.total_copies === 1 ? 'copia' : 'copias'} · {codeRange(source.library_codes)}
+          </p>
+          <p className="mt-3 text-sm text-slate-600">
+            Elige el registro que se conserva. Las copias, los préstamos y las reservas de este libro pasan a él y este
+            registro se archiva.
+          </p>
+        </div>
+
+        <input
+          type="text"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Buscar otro libro por título, autor o código..."
+          className="w-full rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm focus:bg-white focus:outline-none focus:ring-2 focus:ring-slate-900/5 transition"
+        />
+
+        <ul className="space-y-2">
+          {candidates.map((book) => {
+            const match = suggestions.find((item) => item.book_id === book.id);
+
+            return (
+              <li key={book.id}>
+                <button
+                  type="button"
+                  onClick={() => setTargetId(book.id)}
+                  className={cn(
+                    'w-full rounded-2xl border px-4 py-3 text-left text-sm transition',
+                    book.id === targetId ? 'border-slate-900 bg-white' : 'border-slate-200 bg-slate-50 hover:bg-white'
+                  )}
+                >
+                  <span className="flex items-center justify-between gap-3">
+                    <span className="truncate font-semibold text-slate-900">{book.title}</span>
+                    {match && (
+                      <span className="shrink-0 rounded-full bg-amber-100 px-3 py-1 text-xs font-bold text-amber-700">
+                        {match.reason === 'book_code' ? 'Mismo código' : `${Math.round(match.score * 100)}% similar`}
+                      </span>
+                    )}
+                  </span>
+                  <span className="block text-slate-500">
+                    {book.author} · {book.book_code || 'sin código'} · {book.total_copies}{' '}
+                    {book.total_copies === 1 ? 'copia' : 'copias'}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        {!candidates.length && (
+          <p className="text-sm italic text-slate-400">
+            {query.trim() ? 'Ningún libro coincide con la búsqueda.' : 'No encontramos duplicados probables; busca el libro a conservar.'}
+          </p>
+        )}
+
+        {target && (
+          <div className="rounded-[1.75rem] border border-slate-100 bg-slate-50 p-4 text-sm text-slate-600">
+            <p className="font-semibold text-slate-900">Resultado: {target.title}</p>
+            <p>
+              {target.total_copies + source.total_copies} copias ({target.good_copies + source.good_copies} buenas,{' '}
+              {target.fair_copies + source.fair_copies} regulares, {target.bad_copies + source.bad_copies} malas) ·{' '}
+              {codeRange([...target.library_codes, ...source.library_codes].sort())}
+            </p>
+            <p>
+              Categorías: {Array.from(new Set([...target.categories, ...source.categories])).join(', ')}
+            </p>
+          </div>
+        )}
+
+        {error && <p className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50 transition"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={!target || merging}
+            className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            {merging ? 'Fusionando…' : 'Fusionar libros'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BookCopy, BookDuplicate, CopyTransferResult, LibraryTenant, TenantBook } from '@/types/tenant';
+import { cn } from '@/lib/utils';
+import { copyStatusLabels } from '@/components/tenant/BookCopiesPanel';
+
+interface BookTransferPanelProps {
+  book: TenantBook;
+  libraries: LibraryTenant[];
+  version: number;
+  onTransferred: (result: CopyTransferResult) => void;
+}
+
+// Copies out on loan or set aside for a hold stay put until they are back on the shelf
+function isMovable(copy: BookCopy) {
+  return copy.status === 'available' || copy.status === 'in_repair';
+}
+
+export default function BookTransferPanel({ book, libraries, version, onTransferred }: BookTransferPanelProps) {
+  const destinations = libraries.filter((library) => library.id !== book.library_id);
+  const [toLibraryId, setToLibraryId] = useState(destinations[0]?.id || '');
+  const [mode, setMode] = useState<'count' | 'codes'>('count');
+  const [count, setCount] = useState(1);
+  const [codes, setCodes] = useState<Set<string>>(new Set());
+  const [copies, setCopies] = useState<BookCopy[]>([]);
+  const [match, setMatch] = useState<BookDuplicate | null>(null);
+  const [transferring, setTransferring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CopyTransferResult | null>(null);
+
+  const movable = copies.filter(isMovable);
+  const destination = destinations.find((library) => library.id === toLibraryId);
+
+  useEffect(() => {
+    fetch(`/api/dashboard/copies?bookId=${encodeURIComponent(book.id)}`)
+      .then((response) => response.json())
+      .then((payload) => setCopies(payload.copies || []))
+      .catch(() => setCopies([]));
+    setCodes(new Set());
+  }, [book.id, version]);
+
+  useEffect(() => {
+    if (!toLibraryId) return;
+
+    setMatch(null);
+    fetch(`/api/dashboard/books/transfer?bookId=${encodeURIComponent(book.id)}&toLibraryId=${encodeURIComponent(toLibraryId)}`)
+      .then((response) => response.json())
+      .then((payload) => setMatch(payload.destination || null))
+      .catch(() => setMatch(null));
+  }, [book.id, toLibraryId, version]);
+
+  function toggleCode(code: string) {
+    setCodes((current) => {
+      const next = new Set(current);
+      if (next.has(code)) {
+        next.delete(code);
+      } else {
+        next.add(code);
+      }
+      return next;
+    });
+  }
+
+  async function handleTransfer() {
+    setTransferring(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/dashboard/books/transfer', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          book_id: book.id,
+          to_library_id: toLibraryId,
+          ...(mode === 'codes' ? { codes: Array.from(codes) } : { count }),
+        }),
+      });
+      const payload = await response.json();
+
+      if (!response.ok) {
+        setError(payload.error || 'No se pudieron transferir las copias.');
+        return;
+      }
+
+      setResult(payload);
+      setCount(1);
+      onTransferred(payload);
+    } catch {
+      setError('No se pudieron transferir las copias.');
+    } finally {
+      setTransferring(false);
+    }
+  }
+
+  if (!destinations.length) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 rounded-[1.75rem] border border-slate-100 bg-slate-50 p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-700">Transferir a otra biblioteca</span>
+        <span className="text-[10px] font-bold uppercase tracking-tight text-slate-400">{movable.length} transferibles</span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="block flex-1">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Destino</span>
+          <select
+            value={toLibraryId}
+            onChange={(event) => setToLibraryId(event.target.value)}
+            className="w-full rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          >
+            {destinations.map((library) => (
+              <option key={library.id} value={library.id}>
+                {library.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex rounded-xl border border-slate-200 bg-white p-1 text-xs font-semibold">
+          {(['count', 'codes'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={cn('rounded-lg px-3 py-1 transition', mode === option ? 'bg-slate-900 text-white' : 'text-slate-500')}
+            >
+              {option === 'count' ? 'Cantidad' : 'Por código'}
+            </button>
+          ))}
+        </div>
+        {mode === 'count' && (
+          <input
+            type="number"
+            min={1}
+            max={movable.length || 1}
+            value={count}
+            onChange={(event) => setCount(Number(event.target.value || 1))}
+            className="w-20 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        )}
+      </div>
+
+      {mode === 'codes' && (
+        <div className="flex max-h-40 flex-wrap gap-2 overflow-y-auto">
+          {copies.map((copy) => (
+            <label
+              key={copy.id}
+              className={cn(
+                'flex items-center gap-2 rounded-xl border bg-white px-3 py-1 font-mono text-xs',
+                isMovable(copy) ? 'cursor-pointer border-slate-200 text-slate-700' : 'border-slate-100 text-slate-300'
+              )}
+              title={isMovable(copy) ? undefined : copyStatusLabels[copy.status]}
+            >
+              <input
+                type="checkbox"
+                disabled={!isMovable(copy)}
+                checked={codes.has(copy.code)}
+                onChange={() => toggleCode(copy.code)}
+              />
+              {copy.code}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500">
+        {match
+          ? `Se sumarán a «${match.title}» de ${match.author} en ${destination?.name}.`
+          : `Se creará «${book.title}» en ${destination?.name}.`}{' '}
+        Las copias prestadas o reservadas no se pueden transferir.
+      </p>
+
+      {error && <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+
+      {result && (
+        <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs text-emerald-800">
+          <p className="font-semibold">
+            {result.moved.length} {result.moved.length === 1 ? 'copia transferida' : 'copias transferidas'} a «
+            {result.destination.title}»{result.created ? ' (registro nuevo)' : ''}.
+          </p>
+          {result.moved.some((item) => item.from_code !== item.to_code) && (
+            <ul className="mt-1 font-mono">
+              {result.moved
+                .filter((item) => item.from_code !== item.to_code)
+                .map((item) => (
+                  <li key={item.from_code}>
+                    {item.from_code} → {item.to_code}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleTransfer}
+        disabled={transferring || !toLibraryId || (mode === 'codes' ? !codes.size : count < 1 || count > movable.length)}
+        className="rounded-xl bg-slate-900 px-4 py-2 text-xs font-bold text-white hover:bg-slate-700 transition disabled:cursor-not-allowed disabled:opacity-40"
+      >
+        {transferring ? 'Transfiriendo…' : 'Transferir copias'}
+      </button>
+    </div>
+  );
+}
@@ -2,8 +2,41 @@
 
 import Link from 'next/link';
 import { useEffect, useMemo, useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
 import { LibraryTenant, TenantBook, TenantLoan } from '@/types/tenant';
 import { cn, formatDateTime, groupBy } from '@/lib/utils';
+import LoanCopyScanner from '@/components/tenant/LoanCopyScanner';
+import { maxRenewalsFor } from '@/lib/data-store/helpers';
+import { formatFee } from '@/lib/loan-fees';
+import { isLoanOverdue, resolveOpeningHours } from '@/lib/library-hours';
+
+const GROUP_DEFAULTS: Partial<Record<TenantLoan['status'], TenantLoan['status']>> = {
+  pending: 'approved',
+  approved: 'handled',
+  handled: 'returned',
+};
+
+const GROUP_OPTIONS: Partial<Record<TenantLoan['status'], { value: TenantLoan['status'] | 'skip'; label: string }[]>> = {
+  pending: [
+    { value: 'approved', label: 'Aprobar' },
+    { value: 'rejected', label: 'Rechazar' },
+    { value: 'skip', label: 'Dejar pendiente' },
+  ],
+  approved: [
+    { value: 'handled', label: 'Entregar' },
+    { value: 'cancelled', label: 'Cancelar' },
+    { value: 'skip', label: 'Dejar aprobado' },
+  ],
+  handled: [
+    { value: 'returned', label: 'Recibir' },
+    { value: 'skip', label: 'Sigue prestado' },
+  ],
+};
+
+// Closed days do not count, so a loan due before a holiday is not late until the library reopens
+function isOverdue(loan: TenantLoan, libraries: LibraryTenant[]) {
+  return isLoanOverdue(loan, resolveOpeningHours(libraries.find((library) => library.id === loan.library_id)));
+}
 
 interface DashboardClientProps {
   libraries: LibraryTenant[];
@@ -17,9 +50,11 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'pending' | 'active' | 'overdue' | 'history'>('pending');
   const [searchQuery, setSearchQuery] = useState('');
-  const [deliveryConditions, setDeliveryConditions] = useState<Record<string, { good: number; fair: number; bad: number }>>({});
+  const [scannedCodes, setScannedCodes] = useState<Record<string, string[]>>({});
   const [returnConditions, setReturnConditions] = useState<Record<string, { good: number; fair: number; bad: number }>>({});
   const [returnNotes, setReturnNotes] = useState<Record<string, string>>({});
+  const [renewalDates, setRenewalDates] = useState<Record<string, string>>({});
+  const [groupOverrides, setGroupOverrides] = useState<Record<string, TenantLoan['status'] | 'skip'>>({});
 
   useEffect(() => {
     const params = activeLibraryId ? `?libraryId=${encodeURIComponent(activeLibraryId)}` : '';
@@ -68,13 +103,12 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
 
       if (activeTab === 'pending') return loan.status === 'pending';
       if (activeTab === 'active') {
-        const isOverdue = loan.status === 'handled' && loan.due_date && new Date(loan.due_date) < new Date();
-        return (loan.status === 'approved' || loan.status === 'handled') && !isOverdue;
+        return (loan.status === 'approved' || loan.status === 'handled') && !isOverdue(loan, libraries);
       }
       if (activeTab === 'overdue') {
-        return loan.status === 'handled' && loan.due_date && new Date(loan.due_date) < new Date();
+        return isOverdue(loan, libraries);
       }
-      if (activeTab === 'history') return loan.status === 'returned' || loan.status === 'rejected';
+      if (activeTab === 'history') return loan.status === 'returned' || loan.status === 'rejected' || loan.status === 'cancelled';
 
       return true;
     });
@@ -85,7 +119,7 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
     );
 
     return Object.entries(grouped);
-  }, [loans, activeTab, searchQuery]);
+  }, [loans, libraries, activeTab, searchQuery]);
 
   const lowStockBooks = useMemo(() => {
     return books.filter((book) => book.available_copies <= 2).slice(0, 10);
@@ -96,7 +130,9 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
     status: TenantLoan['status'], 
     deliveryCondition?: { good: number; fair: number; bad: number }, 
     returnNote?: string,
-    returnCondition?: { good: number; fair: number; bad: number }
+    returnCondition?: { good: number; fair: number; bad: number },
+    copyCodes?: string[],
+    returnedCodes?: string[]
   ) {
     setError(null);
     const response = await fetch('/api/dashboard/loans', {
@@ -104,7 +140,7 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ loanId, status, deliveryCondition, returnNote, returnCondition }),
+      body: JSON.stringify({ loanId, status, deliveryCondition, returnNote, returnCondition, copyCodes, returnedCodes }),
     });
 
     const payload = await response.json();
@@ -122,16 +158,22 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
     }
 
     setLoans((current) => current.map((loan) => (loan.id === loanId ? payload.loan : loan)));
+    adjustStock(payload.loan, status);
+  }
+
+  function adjustStock(loan: TenantLoan, status: TenantLoan['status']) {
     setBooks((current) =>
       current.map((book) =>
-        book.id === payload.loan.book_id
+        book.id === loan.book_id
           ? {
             ...book,
             available_copies:
               status === 'handled'
-                ? book.available_copies - payload.loan.requested_copies
+                ? book.available_copies - loan.requested_copies
                 : status === 'returned'
-                  ? book.available_copies + payload.loan.requested_copies
+                  ? book.available_copies +
+                    loan.requested_copies -
+                    (loan.return_discrepancy?.missing.length || 0)
                   : book.available_copies,
           }
           : book
@@ -139,6 +181,83 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
     );
   }
 
+  // What each open line of a cart request does when the request moves as a group
+  function groupChoice(loan: TenantLoan): TenantLoan['status'] | 'skip' {
+    return groupOverrides[loan.id] || GROUP_DEFAULTS[loan.status] || 'skip';
+  }
+
+  async function updateGroup(groupId: string, groupLoans: TenantLoan[]) {
+    setError(null);
+    const items = groupLoans
+      .filter((loan) => groupChoice(loan) !== 'skip')
+      .map((loan) => {
+        const status = groupChoice(loan) as TenantLoan['status'];
+        return {
+          loanId: loan.id,
+          status,
+          copyCodes: status === 'handled' ? scannedCodes[loan.id] : undefined,
+          returnNote: status === 'returned' ? returnNotes[loan.id] : undefined,
+          returnCondition:
+            status === 'returned' ? returnConditions[loan.id] || { good: loan.requested_copies, fair: 0, bad: 0 } : undefined,
+          returnedCodes:
+            status === 'returned' && loan.copy_codes?.length ? scannedCodes[loan.id] ?? loan.copy_codes : undefined,
+        };
+      });
+
+    const response = await fetch('/api/dashboard/loans/groups', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ groupId, items }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudo actualizar la solicitud.');
+      return;
+    }
+
+    const updated: TenantLoan[] = payload.loans;
+    setLoans((current) => current.map((loan) => updated.find((item) => item.id === loan.id) || loan));
+    items.forEach((item) => {
+      const loan = updated.find((entry) => entry.id === item.loanId);
+      if (loan) adjustStock(loan, item.status);
+    });
+    setGroupOverrides((current) => {
+      const next = { ...current };
+      items.forEach((item) => delete next[item.loanId]);
+      return next;
+    });
+  }
+
+  function suggestedRenewalDate(loan: TenantLoan) {
+    if (loan.renewal_request) return loan.renewal_request.due_date;
+    const base = loan.due_date && loan.due_date > format(new Date(), 'yyyy-MM-dd') ? parseISO(loan.due_date) : new Date();
+    return format(addDays(base, 14), 'yyyy-MM-dd');
+  }
+
+  async function renewLoan(loan: TenantLoan, decline = false) {
+    setError(null);
+    const response = decline
+      ? await fetch(`/api/dashboard/loans/renewals?loanId=${encodeURIComponent(loan.id)}`, { method: 'DELETE' })
+      : await fetch('/api/dashboard/loans/renewals', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ loanId: loan.id, dueDate: renewalDates[loan.id] || suggestedRenewalDate(loan) }),
+      });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudo renovar el préstamo.');
+      return;
+    }
+
+    setLoans((current) => current.map((item) => (item.id === loan.id ? payload.loan : item)));
+  }
+
   return (
     <div className="space-y-8">
       <section className="grid gap-4 lg:grid-cols-3">
@@ -242,6 +361,51 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
                   </span>
                 </div>
 
+                {Array.from(new Set(items.map((loan) => loan.group_id).filter(Boolean) as string[])).map((groupId) => {
+                  const groupLoans = items.filter((loan) => loan.group_id === groupId && GROUP_OPTIONS[loan.status]);
+
+                  if (!groupLoans.length) {
+                    return null;
+                  }
+
+                  return (
+                    <div key={groupId} className="mb-4 rounded-2xl border border-amber-200 bg-amber-50/50 p-4 space-y-3">
+                      <p className="text-[10px] font-bold uppercase tracking-tight text-amber-700">
+                        Solicitud de {groupLoans.length} {groupLoans.length === 1 ? 'título' : 'títulos'}
+                      </p>
+                      <ul className="space-y-2">
+                        {groupLoans.map((loan) => (
+                          <li key={loan.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                            <span className="min-w-0 flex-1 truncate font-medium text-slate-800">
+                              {loan.book?.title || 'Título desconocido'} · {loan.requested_copies} {loan.requested_copies === 1 ? 'copia' : 'copias'}
+                            </span>
+                            <select
+                              value={groupChoice(loan)}
+                              onChange={(e) => setGroupOverrides(prev => ({ ...prev, [loan.id]: e.target.value as TenantLoan['status'] | 'skip' }))}
+                              className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs"
+                            >
+                              {(GROUP_OPTIONS[loan.status] || []).map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </li>
+                        ))}
+                      </ul>
+                      <p className="text-[11px] text-slate-500">
+                        Las copias escaneadas, los estados y las notas de cada título se toman de su tarjeta.
+                      </p>
+                      <button
+                        onClick={() => updateGroup(groupId, groupLoans)}
+                        className="h-10 rounded-xl bg-slate-900 px-4 text-xs font-bold text-white shadow-sm hover:bg-slate-700 transition"
+                      >
+                        Aplicar a toda la solicitud
+                      </button>
+                    </div>
+                  );
+                })}
+
                 <div className="space-y-4">
                   {items.map((loan) => (
                     <div key={loan.id} className="rounded-2xl bg-white p-5 shadow-sm border border-slate-100">
@@ -259,13 +423,39 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
                                 <span className="text-slate-300">•</span>
                                 <span className={cn(
                                   "font-bold",
-                                  new Date(loan.due_date) < new Date() && loan.status === 'handled' ? "text-rose-600" : "text-slate-500"
+                                  isOverdue(loan, libraries) ? "text-rose-600" : "text-slate-500"
                                 )}>
                                   Devolución: {loan.due_date}
                                 </span>
                               </>
                             )}
                           </div>
+                          {loan.status === 'handled' && (
+                            <div className="mt-3 flex flex-wrap items-center gap-2">
+                              <span className="text-[10px] font-bold uppercase tracking-tight text-slate-400">
+                                Renovaciones {(loan.renewals || []).length}/{maxRenewalsFor(libraries.find((l) => l.id === loan.library_id))}
+                              </span>
+                              {loan.renewal_request && (
+                                <span className="rounded-full bg-violet-100 px-2 py-0.5 text-[10px] font-bold uppercase text-violet-700">
+                                  Solicitó renovación
+                                </span>
+                              )}
+                              <input
+                                type="date"
+                                value={renewalDates[loan.id] || suggestedRenewalDate(loan)}
+                                onChange={(e) => setRenewalDates(prev => ({ ...prev, [loan.id]: e.target.value }))}
+                                className="rounded-lg border border-slate-200 px-2 py-1 text-xs"
+                              />
+                              <button onClick={() => renewLoan(loan)} className="rounded-lg bg-violet-600 px-3 py-1 text-xs font-bold text-white hover:bg-violet-700 transition">
+                                Renovar
+                              </button>
+                              {loan.renewal_request && (
+                                <button onClick={() => renewLoan(loan, true)} className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-bold text-slate-500 hover:bg-slate-50 transition">
+                                  Rechazar
+                                </button>
+                              )}
+                            </div>
+                          )}
                         </div>
 
 
@@ -277,14 +467,15 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
                               loan.status === 'pending' ? 'bg-amber-100 text-amber-700' :
                                 loan.status === 'approved' ? 'bg-emerald-100 text-emerald-700' :
                                   loan.status === 'handled' ? 'bg-sky-100 text-sky-700' :
-                                    loan.status === 'returned' ? 'bg-slate-100 text-slate-500' :
+                                    loan.status === 'returned' || loan.status === 'cancelled' ? 'bg-slate-100 text-slate-500' :
                                       'bg-rose-100 text-rose-700'
                             )}>
                               {loan.status === 'pending' ? 'espera' :
                                 loan.status === 'approved' ? 'aprobado' :
                                   loan.status === 'handled' ? 'entregado' :
                                     loan.status === 'returned' ? 'devuelto' :
-                                      loan.status === 'rejected' ? 'rechazado' : loan.status}
+                                      loan.status === 'rejected' ? 'rechazado' :
+                                        loan.status === 'cancelled' ? 'cancelado' : loan.status}
                             </span>
                           </div>
 
@@ -301,47 +492,22 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
                             )}
                             {loan.status === 'approved' && (
                               <div className="w-full flex flex-col items-end gap-3">
-                                <div className="flex gap-2">
-                                  <div className="flex flex-col items-center gap-1">
-                                    <span className="text-[10px] font-bold uppercase text-emerald-600">Bueno</span>
-                                    <input 
-                                      type="number" 
-                                      min={0} 
-                                      max={loan.requested_copies}
-                                      value={deliveryConditions[loan.id]?.good ?? loan.requested_copies}
-                                      onChange={(e) => setDeliveryConditions(prev => ({ ...prev, [loan.id]: { ...(prev[loan.id] || { good: loan.requested_copies, fair: 0, bad: 0 }), good: Number(e.target.value) } }))}
-                                      className="w-16 rounded-lg border border-slate-200 p-2 text-center text-sm font-semibold focus:border-amber-400 outline-none transition"
-                                    />
-                                  </div>
-                                  <div className="flex flex-col items-center gap-1">
-                                    <span className="text-[10px] font-bold uppercase text-amber-600">Reg.</span>
-                                    <input 
-                                      type="number" 
-                                      min={0} 
-                                      max={loan.requested_copies}
-                                      value={deliveryConditions[loan.id]?.fair ?? 0}
-                                      onChange={(e) => setDeliveryConditions(prev => ({ ...prev, [loan.id]: { ...(prev[loan.id] || { good: loan.requested_copies, fair: 0, bad: 0 }), fair: Number(e.target.value) } }))}
-                                      className="w-16 rounded-lg border border-slate-200 p-2 text-center text-sm font-semibold focus:border-amber-400 outline-none transition"
-                                    />
-                                  </div>
-                                  <div className="flex flex-col items-center gap-1">
-                                    <span className="text-[10px] font-bold uppercase text-rose-600">Malo</span>
-                                    <input 
-                                      type="number" 
-                                      min={0} 
-                                      max={loan.requested_copies}
-                                      value={deliveryConditions[loan.id]?.bad ?? 0}
-                                      onChange={(e) => setDeliveryConditions(prev => ({ ...prev, [loan.id]: { ...(prev[loan.id] || { good: loan.requested_copies, fair: 0, bad: 0 }), bad: Number(e.target.value) } }))}
-                                      className="w-16 rounded-lg border border-slate-200 p-2 text-center text-sm font-semibold focus:border-amber-400 outline-none transition"
-                                    />
-                                  </div>
-                                </div>
+                                <LoanCopyScanner
+                                  loan={loan}
+                                  mode="handover"
+                                  selected={scannedCodes[loan.id] || []}
+                                  onChange={(codes) => setScannedCodes(prev => ({ ...prev, [loan.id]: codes }))}
+                                />
                                 <button 
-                                  onClick={() => updateStatus(loan.id, 'handled', deliveryConditions[loan.id] || { good: loan.requested_copies, fair: 0, bad: 0 })} 
-                                  className="h-10 rounded-xl bg-amber-500 px-4 text-xs font-bold text-white shadow-sm hover:bg-amber-600 transition"
+                                  onClick={() => updateStatus(loan.id, 'handled', undefined, undefined, undefined, scannedCodes[loan.id])} 
+                                  disabled={(scannedCodes[loan.id] || []).length !== loan.requested_copies}
+                                  className="h-10 rounded-xl bg-amber-500 px-4 text-xs font-bold text-white shadow-sm hover:bg-amber-600 transition disabled:opacity-50"
                                 >
                                   Marcar entrega
                                 </button>
+                                <button onClick={() => updateStatus(loan.id, 'cancelled')} className="h-10 rounded-xl bg-white border border-slate-200 px-4 text-xs font-bold text-slate-600 hover:bg-slate-50 transition">
+                                  Cancelar
+                                </button>
                               </div>
                             )}
                             {loan.status === 'handled' && (
@@ -381,6 +547,14 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
                                     />
                                   </div>
                                 </div>
+                                {!!loan.copy_codes?.length && (
+                                  <LoanCopyScanner
+                                    loan={loan}
+                                    mode="return"
+                                    selected={scannedCodes[loan.id] ?? loan.copy_codes}
+                                    onChange={(codes) => setScannedCodes(prev => ({ ...prev, [loan.id]: codes }))}
+                                  />
+                                )}
                                 <textarea 
                                   placeholder="Nota de devolución (ej. Manchas en portada, hojas sueltas...)" 
                                   value={returnNotes[loan.id] || ''}
@@ -389,15 +563,22 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
                                   className="w-full lg:w-[400px] rounded-xl border border-slate-200 px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-sky-900/5 transition resize-none"
                                 />
                                 <button 
-                                  onClick={() => updateStatus(loan.id, 'returned', undefined, returnNotes[loan.id], returnConditions[loan.id] || { good: loan.requested_copies, fair: 0, bad: 0 })} 
+                                  onClick={() => updateStatus(loan.id, 'returned', undefined, returnNotes[loan.id], returnConditions[loan.id] || { good: loan.requested_copies, fair: 0, bad: 0 }, undefined, loan.copy_codes?.length ? scannedCodes[loan.id] ?? loan.copy_codes : undefined)} 
                                   className="h-10 rounded-xl bg-sky-600 px-4 text-xs font-bold text-white shadow-sm hover:bg-sky-700 transition"
                                 >
                                   Recibir devolución
                                 </button>
                               </div>
                             )}
-                            {(loan.status === 'returned' || loan.status === 'rejected') && (
+                            {(loan.status === 'returned' || loan.status === 'rejected' || loan.status === 'cancelled') && (
                               <div className="text-right space-y-2">
+                                {loan.status === 'cancelled' && loan.cancelled_at && (
+                                  <div className="text-[10px] font-medium text-slate-400">
+                                    <span className="font-bold text-slate-500 uppercase mr-1">Cancelado:</span>
+                                    {formatDateTime(loan.cancelled_at)}
+                                    {loan.cancelled_by === 'patron' ? ' por el lector' : ' por la biblioteca'}
+                                  </div>
+                                )}
                                 {loan.delivery_condition && (
                                   <div className="text-[10px] font-medium text-slate-400">
                                     <span className="font-bold text-slate-500 uppercase mr-1">Entregado:</span>
@@ -410,6 +591,43 @@ export default function DashboardClient({ libraries, activeLibraryId }: Dashboar
                                     {loan.return_condition.good} B, {loan.return_condition.fair} R, {loan.return_condition.bad} M
                                   </div>
                                 )}
+                                {(loan.renewals || []).map((renewal) => (
+                                  <div key={renewal.at} className="text-[10px] font-medium text-slate-400">
+                                    <span className="font-bold text-slate-500 uppercase mr-1">Renovado:</span>
+                                    {renewal.previous_due_date || '—'} → {renewal.new_due_date}
+                                    {renewal.requested_by === 'patron' && ' (a solicitud del lector)'}
+                                  </div>
+                                ))}
+                                {!!loan.copy_codes?.length && (
+                                  <div className="text-[10px] font-medium text-slate-400">
+                                    <span className="font-bold text-slate-500 uppercase mr-1">Copias:</span>
+                                    <span className="font-mono">{loan.copy_codes.join(', ')}</span>
+                                  </div>
+                                )}
+                                {loan.return_discrepancy && (
+                                  <div className="rounded-lg border border-rose-200 bg-rose-50 p-2 text-[10px] font-medium text-rose-700">
+                                    {!!loan.return_discrepancy.missing.length && (
+                                      <p>
+                                        <span className="font-bold uppercase mr-1">No devueltas:</span>
+                                        <span className="font-mono">{loan.return_discrepancy.missing.join(', ')}</span>
+                                      </p>
+                                    )}
+                                    {!!loan.return_discrepancy.unexpected.length && (
+                                      <p>
+                                        <span className="font-bold uppercase mr-1">Ajenas al préstamo:</span>
+                                        <span className="font-mono">{loan.return_discrepancy.unexpected.join(', ')}</span>
+                                      </p>
+                                    )}
+                                  </div>
+                                )}
+                                {loan.fees && loan.fees.late_fee + loan.fees.damage_fee > 0 && (
+                                  <div className="text-[10px] font-medium text-rose-600">
+                                    <span className="font-bold uppercase mr-1">Cargos:</span>
+                                    {loan.fees.late_fee > 0 && `${formatFee(loan.fees.late_fee, loan.fees.currency)} por ${loan.fees.days_late} días de atraso`}
+                                    {loan.fees.late_fee > 0 && loan.fees.damage_fee > 0 && ' · '}
+                                    {loan.fees.damage_fee > 0 && `${formatFee(loan.fees.damage_fee, loan.fees.currency)} por daños`}
+                                  </div>
+                                )}
                                 {loan.return_note && (
                                   <div className="rounded-lg bg-slate-50 p-2 text-[11px] text-slate-600 italic border border-slate-100 max-w-[200px] inline-block">
                                     &quot;{loan.return_note}&quot;
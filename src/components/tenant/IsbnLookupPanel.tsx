@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import { BookMutationPayload, IsbnMetadata } from '@/types/tenant';
+import { cn } from '@/lib/utils';
+import { normalizeIsbn, parseIsbn } from '@/lib/isbn';
+
+interface IsbnLookupPanelProps {
+  form: BookMutationPayload;
+  onApply: (changes: Partial<BookMutationPayload>) => void;
+}
+
+type PreviewField = 'book_code' | 'title' | 'author' | 'editorial' | 'edition' | 'image_url' | 'categories';
+
+const FIELD_LABELS: Record<PreviewField, string> = {
+  book_code: 'Código (ISBN-13)',
+  title: 'Título',
+  author: 'Autor',
+  editorial: 'Editorial',
+  edition: 'Edición',
+  image_url: 'Portada',
+  categories: 'Categorías',
+};
+
+interface PreviewRow {
+  field: PreviewField;
+  current: string;
+  next: string;
+}
+
+function previewRows(form: BookMutationPayload, metadata: IsbnMetadata): PreviewRow[] {
+  const rows: PreviewRow[] = [
+    { field: 'book_code', current: form.book_code || '', next: metadata.isbn13 },
+    { field: 'title', current: form.title, next: metadata.title || '' },
+    { field: 'author', current: form.author, next: metadata.author || '' },
+    { field: 'editorial', current: form.editorial || '', next: metadata.editorial || '' },
+    { field: 'edition', current: form.edition || '', next: metadata.edition || '' },
+    { field: 'image_url', current: form.image_url || '', next: metadata.image_url || '' },
+    {
+      field: 'categories',
+      current: form.categories.join(', '),
+      // Categories are added to the ones already chosen, never replace them
+      next: Array.from(new Set([...form.categories, ...(metadata.categories || [])])).join(', '),
+    },
+  ];
+
+  return rows.filter((row) => row.next && row.next !== row.current);
+}
+
+export default function IsbnLookupPanel({ form, onApply }: IsbnLookupPanelProps) {
+  const [metadata, setMetadata] = useState<IsbnMetadata | null>(null);
+  const [selected, setSelected] = useState<Set<PreviewField>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const code = form.book_code || '';
+  const isbn = parseIsbn(code);
+  const rows = metadata ? previewRows(form, metadata) : [];
+
+  async function handleLookup() {
+    setLoading(true);
+    setMessage(null);
+    setMetadata(null);
+
+    try {
+      const response = await fetch(`/api/dashboard/books/isbn?isbn=${encodeURIComponent(code)}`);
+      const payload = await response.json();
+
+      if (!response.ok) {
+        setMessage(payload.error || 'No se pudo consultar el ISBN.');
+        return;
+      }
+
+      if (!payload.metadata) {
+        setMessage('No encontramos información para este ISBN.');
+        return;
+      }
+
+      const found = previewRows(form, payload.metadata);
+      setMetadata(payload.metadata);
+      // Empty form fields are filled by default; anything the librarian typed stays unless ticked
+      setSelected(new Set(found.filter((row) => !row.current || row.field === 'categories').map((row) => row.field)));
+      if (!found.length) {
+        setMessage('El formulario ya coincide con los datos de este ISBN.');
+      }
+    } catch {
+      setMessage('No se pudo consultar el ISBN.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggle(field: PreviewField) {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(field)) {
+        next.delete(field);
+      } else {
+        next.add(field);
+      }
+      return next;
+    });
+  }
+
+  function handleApply() {
+    if (!metadata) return;
+
+    const changes: Partial<BookMutationPayload> = {};
+    rows
+      .filter((row) => selected.has(row.field))
+      .forEach((row) => {
+        if (row.field === 'categories') {
+          changes.categories = Array.from(new Set([...form.categories, ...(metadata.categories || [])]));
+        } else {
+          changes[row.field] = row.next;
+        }
+      });
+
+    onApply(changes);
+    setMetadata(null);
+  }
+
+  if (!code.trim()) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 rounded-[1.75rem] border border-slate-100 bg-slate-50 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm">
+          {isbn ? (
+            <span className="text-slate-600">
+              ISBN-13 <span className="font-mono text-slate-900">{isbn.isbn13}</span>
+              {isbn.isbn10 && (
+                <>
+                  {' · '}ISBN-10 <span className="font-mono text-slate-900">{isbn.isbn10}</span>
+                </>
+              )}
+            </span>
+          ) : (
+            <span className="text-slate-400">
+              {/^[\dX]{10}$|^\d{13}$/.test(normalizeIsbn(code))
+                ? 'El dígito de control no coincide: revisa el ISBN.'
+                : 'El código no es un ISBN; escribe un ISBN-10 o ISBN-13 para completar los datos.'}
+            </span>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={handleLookup}
+          disabled={!isbn || loading}
+          className="rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {loading ? 'Consultando…' : 'Completar desde ISBN'}
+        </button>
+      </div>
+
+      {message && <p className="text-sm text-slate-500">{message}</p>}
+
+      {metadata && rows.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-500">
+            Datos de {metadata.source}. Marca los campos que quieres usar en el formulario.
+          </p>
+          <ul className="space-y-2">
+            {rows.map((row) => (
+              <li key={row.field}>
+                <label
+                  className={cn(
+                    'flex cursor-pointer items-start gap-3 rounded-2xl border bg-white px-4 py-3 text-sm transition',
+                    selected.has(row.field) ? 'border-slate-900' : 'border-slate-200'
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(row.field)}
+                    onChange={() => toggle(row.field)}
+                    className="mt-1"
+                  />
+                  <span className="min-w-0 flex-1">
+                    <span className="block font-medium text-slate-700">{FIELD_LABELS[row.field]}</span>
+                    {row.current && <span className="block truncate text-slate-400 line-through">{row.current}</span>}
+                    <span className="block truncate text-slate-900">{row.next}</span>
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={!selected.size}
+              className="rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Usar {selected.size} {selected.size === 1 ? 'campo' : 'campos'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setMetadata(null)}
+              className="rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600 transition hover:bg-white"
+            >
+              Descartar
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { LibraryCirculationPolicy, LibraryTenant } from '@/types/tenant';
+import { resolveCirculationPolicy } from '@/lib/circulation-policy';
+
+interface LibraryCirculationPolicyPanelProps {
+  libraries: LibraryTenant[];
+}
+
+type LimitKey = 'max_copies_per_request' | 'max_active_loans';
+
+const limitLabels: Record<LimitKey, string> = {
+  max_copies_per_request: 'Copias por título',
+  max_active_loans: 'Préstamos abiertos por lector',
+};
+
+export default function LibraryCirculationPolicyPanel({ libraries }: LibraryCirculationPolicyPanelProps) {
+  const [items, setItems] = useState(libraries);
+  const [libraryId, setLibraryId] = useState(libraries[0]?.id || '');
+  const [form, setForm] = useState<LibraryCirculationPolicy>(resolveCirculationPolicy(libraries[0]));
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  if (!items.length) {
+    return null;
+  }
+
+  function selectLibrary(id: string) {
+    setLibraryId(id);
+    setForm(resolveCirculationPolicy(items.find((library) => library.id === id)));
+    setSaved(false);
+    setError(null);
+  }
+
+  function updateForm(changes: Partial<LibraryCirculationPolicy>) {
+    setForm((current) => ({ ...current, ...changes }));
+    setSaved(false);
+  }
+
+  async function save() {
+    setError(null);
+    const response = await fetch('/api/dashboard/libraries', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ libraryId, circulation_policy: form }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudo guardar la política de préstamos.');
+      return;
+    }
+
+    setItems((current) => current.map((library) => (library.id === libraryId ? payload.library : library)));
+    setSaved(true);
+  }
+
+  return (
+    <div className="rounded-[2rem] border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Política de préstamos</p>
+          <p className="mt-1 text-sm text-slate-600">
+            Sin fecha elegida, el préstamo vence a los{' '}
+            <span className="font-bold text-slate-900">{form.default_loan_days} días</span>.
+          </p>
+        </div>
+        {items.length > 1 && (
+          <select
+            value={libraryId}
+            onChange={(event) => selectLibrary(event.target.value)}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          >
+            {items.map((library) => (
+              <option key={library.id} value={library.id}>
+                {library.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Plazo máximo (días)</span>
+          <input
+            type="number"
+            min={1}
+            value={form.max_loan_days}
+            onChange={(event) => updateForm({ max_loan_days: Number(event.target.value || 0) })}
+            className="w-24 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Plazo por defecto (días)</span>
+          <input
+            type="number"
+            min={1}
+            value={form.default_loan_days}
+            onChange={(event) => updateForm({ default_loan_days: Number(event.target.value || 0) })}
+            className="w-24 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+        {(Object.keys(limitLabels) as LimitKey[]).map((key) => (
+          <label key={key} className="block">
+            <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">{limitLabels[key]}</span>
+            <input
+              type="number"
+              min={1}
+              value={form[key] ?? ''}
+              placeholder="Sin límite"
+              onChange={(event) => updateForm({ [key]: event.target.value === '' ? null : Number(event.target.value) })}
+              className="w-28 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+            />
+          </label>
+        ))}
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Duplicados (minutos)</span>
+          <input
+            type="number"
+            min={0}
+            value={form.duplicate_window_minutes}
+            onChange={(event) => updateForm({ duplicate_window_minutes: Number(event.target.value || 0) })}
+            className="w-24 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={save}
+          className="rounded-xl bg-slate-900 px-4 py-2 text-xs font-bold text-white hover:bg-slate-700 transition"
+        >
+          {saved ? 'Guardada' : 'Guardar política'}
+        </button>
+      </div>
+
+      {error && <p className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import { CodeCheckDigit, LibraryCodeFormat, LibraryTenant } from '@/types/tenant';
+import { formatLibraryCode, resolveCodeFormat, validateLibraryCode } from '@/lib/library-codes';
+
+interface LibraryCodeFormatPanelProps {
+  libraries: LibraryTenant[];
+}
+
+const checkDigitLabels: Record<CodeCheckDigit, string> = {
+  none: 'Sin dígito',
+  mod10: 'Mod-10 (Luhn)',
+  mod11: 'Mod-11',
+};
+
+export default function LibraryCodeFormatPanel({ libraries }: LibraryCodeFormatPanelProps) {
+  const [items, setItems] = useState(libraries);
+  const [libraryId, setLibraryId] = useState(libraries[0]?.id || '');
+  const [form, setForm] = useState<LibraryCodeFormat>(resolveCodeFormat(libraries[0]));
+  const [sample, setSample] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  if (!items.length) {
+    return null;
+  }
+
+  function selectLibrary(id: string) {
+    setLibraryId(id);
+    setForm(resolveCodeFormat(items.find((library) => library.id === id)));
+    setSaved(false);
+    setError(null);
+  }
+
+  function updateForm(changes: Partial<LibraryCodeFormat>) {
+    setForm((current) => ({ ...current, ...changes }));
+    setSaved(false);
+  }
+
+  async function save() {
+    setError(null);
+    const response = await fetch('/api/dashboard/libraries', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ libraryId, code_format: form }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudo guardar el formato.');
+      return;
+    }
+
+    setItems((current) => current.map((library) => (library.id === libraryId ? payload.library : library)));
+    setSaved(true);
+  }
+
+  const sampleError = sample.trim() ? validateLibraryCode(form, sample) : null;
+
+  return (
+    <div className="rounded-[2rem] border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Códigos de biblioteca</p>
+          <p className="mt-1 text-sm text-slate-600">
+            Próximo código: <span className="font-mono font-bold text-slate-900">{formatLibraryCode(form, 1)}</span>
+          </p>
+        </div>
+        {items.length > 1 && (
+          <select
+            value={libraryId}
+            onChange={(event) => selectLibrary(event.target.value)}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          >
+            {items.map((library) => (
+              <option key={library.id} value={library.id}>
+                {library.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Prefijo</span>
+          <input
+            value={form.prefix}
+            onChange={(event) => updateForm({ prefix: event.target.value })}
+            className="w-32 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Dígitos</span>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={form.padding}
+            onChange={(event) => updateForm({ padding: Number(event.target.value || 1) })}
+            className="w-20 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Verificador</span>
+          <select
+            value={form.check_digit}
+            onChange={(event) => updateForm({ check_digit: event.target.value as CodeCheckDigit })}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          >
+            {Object.entries(checkDigitLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 pb-2 text-xs font-medium text-slate-600">
+          <input
+            type="checkbox"
+            checked={form.include_year}
+            onChange={(event) => updateForm({ include_year: event.target.checked })}
+          />
+          Incluir año
+        </label>
+        <button
+          type="button"
+          onClick={save}
+          className="rounded-xl bg-slate-900 px-4 py-2 text-xs font-bold text-white hover:bg-slate-700 transition"
+        >
+          {saved ? 'Guardado' : 'Guardar formato'}
+        </button>
+      </div>
+
+      <div className="mt-4 border-t border-slate-100 pt-4">
+        <input
+          value={sample}
+          onChange={(event) => setSample(event.target.value)}
+          placeholder="Probar un código existente"
+          className="w-full rounded-xl border border-slate-200 px-3 py-2 font-mono text-xs md:w-72"
+        />
+        {sample.trim() && (
+          <p className={sampleError ? 'mt-2 text-xs text-rose-600' : 'mt-2 text-xs text-emerald-600'}>
+            {sampleError || 'El código sigue el formato.'}
+          </p>
+        )}
+      </div>
+
+      {error && <p className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { LibraryFeeRules, LibraryTenant } from '@/types/tenant';
+import { formatFee, resolveFeeRules } from '@/lib/loan-fees';
+
+interface LibraryFeeRulesPanelProps {
+  libraries: LibraryTenant[];
+}
+
+const damageLabels: Record<keyof LibraryFeeRules['damage_fees'], string> = {
+  good_to_fair: 'Bueno → Regular',
+  good_to_bad: 'Bueno → Malo',
+  fair_to_bad: 'Regular → Malo',
+};
+
+export default function LibraryFeeRulesPanel({ libraries }: LibraryFeeRulesPanelProps) {
+  const [items, setItems] = useState(libraries);
+  const [libraryId, setLibraryId] = useState(libraries[0]?.id || '');
+  const [form, setForm] = useState<LibraryFeeRules>(resolveFeeRules(libraries[0]));
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  if (!items.length) {
+    return null;
+  }
+
+  function selectLibrary(id: string) {
+    setLibraryId(id);
+    setForm(resolveFeeRules(items.find((library) => library.id === id)));
+    setSaved(false);
+    setError(null);
+  }
+
+  function updateForm(changes: Partial<LibraryFeeRules>) {
+    setForm((current) => ({ ...current, ...changes }));
+    setSaved(false);
+  }
+
+  function updateDamage(key: keyof LibraryFeeRules['damage_fees'], value: number) {
+    updateForm({ damage_fees: { ...form.damage_fees, [key]: value } });
+  }
+
+  async function save() {
+    setError(null);
+    const response = await fetch('/api/dashboard/libraries', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ libraryId, fee_rules: form }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudieron guardar las multas.');
+      return;
+    }
+
+    setItems((current) => current.map((library) => (library.id === libraryId ? payload.library : library)));
+    setSaved(true);
+  }
+
+  // Ten days late with the current rules, as a quick sanity check
+  const tenDayFee =
+    10 > form.grace_days
+      ? Math.min(10 * form.daily_late_fee, form.max_late_fee ?? Number.POSITIVE_INFINITY)
+      : 0;
+
+  return (
+    <div className="rounded-[2rem] border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Reglas de multas</p>
+          <p className="mt-1 text-sm text-slate-600">
+            10 días de atraso: <span className="font-bold text-slate-900">{formatFee(tenDayFee, form.currency)}</span>
+          </p>
+        </div>
+        {items.length > 1 && (
+          <select
+            value={libraryId}
+            onChange={(event) => selectLibrary(event.target.value)}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          >
+            {items.map((library) => (
+              <option key={library.id} value={library.id}>
+                {library.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Moneda</span>
+          <input
+            value={form.currency}
+            maxLength={3}
+            onChange={(event) => updateForm({ currency: event.target.value.toUpperCase() })}
+            className="w-20 rounded-xl border border-slate-200 px-3 py-2 text-xs uppercase"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Multa diaria</span>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={form.daily_late_fee}
+            onChange={(event) => updateForm({ daily_late_fee: Number(event.target.value || 0) })}
+            className="w-28 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Tope por préstamo</span>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={form.max_late_fee ?? ''}
+            placeholder="Sin tope"
+            onChange={(event) => updateForm({ max_late_fee: event.target.value === '' ? null : Number(event.target.value) })}
+            className="w-28 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Días de gracia</span>
+          <input
+            type="number"
+            min={0}
+            value={form.grace_days}
+            onChange={(event) => updateForm({ grace_days: Number(event.target.value || 0) })}
+            className="w-20 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3 border-t border-slate-100 pt-4">
+        {(Object.keys(damageLabels) as (keyof LibraryFeeRules['damage_fees'])[]).map((key) => (
+          <label key={key} className="block">
+            <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">{damageLabels[key]}</span>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={form.damage_fees[key]}
+              onChange={(event) => updateDamage(key, Number(event.target.value || 0))}
+              className="w-28 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+            />
+          </label>
+        ))}
+        <button
+          type="button"
+          onClick={save}
+          className="rounded-xl bg-slate-900 px-4 py-2 text-xs font-bold text-white hover:bg-slate-700 transition"
+        >
+          {saved ? 'Guardado' : 'Guardar reglas'}
+        </button>
+      </div>
+
+      {error && <p className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+    </div>
+  );
+}
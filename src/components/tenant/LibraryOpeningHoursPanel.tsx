@@ -0,0 +1,218 @@
+'use client';
+
+import { useState } from 'react';
+import { LibraryDayHours, LibraryOpeningHours, LibraryTenant } from '@/types/tenant';
+import { resolveOpeningHours, WEEKDAY_LABELS } from '@/lib/library-hours';
+
+interface LibraryOpeningHoursPanelProps {
+  libraries: LibraryTenant[];
+}
+
+// Monday first, the way the week reads on a door sign
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function startingHours(library: LibraryTenant | undefined): LibraryOpeningHours {
+  return (
+    resolveOpeningHours(library) || {
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      weekly: [
+        null,
+        { opens: '08:00', closes: '17:00' },
+        { opens: '08:00', closes: '17:00' },
+        { opens: '08:00', closes: '17:00' },
+        { opens: '08:00', closes: '17:00' },
+        { opens: '08:00', closes: '17:00' },
+        { opens: '08:00', closes: '12:00' },
+      ],
+      closures: [],
+    }
+  );
+}
+
+export default function LibraryOpeningHoursPanel({ libraries }: LibraryOpeningHoursPanelProps) {
+  const [items, setItems] = useState(libraries);
+  const [libraryId, setLibraryId] = useState(libraries[0]?.id || '');
+  const [form, setForm] = useState<LibraryOpeningHours>(startingHours(libraries[0]));
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  if (!items.length) {
+    return null;
+  }
+
+  const library = items.find((item) => item.id === libraryId);
+
+  function selectLibrary(id: string) {
+    setLibraryId(id);
+    setForm(startingHours(items.find((item) => item.id === id)));
+    setSaved(false);
+    setError(null);
+  }
+
+  function updateForm(changes: Partial<LibraryOpeningHours>) {
+    setForm((current) => ({ ...current, ...changes }));
+    setSaved(false);
+  }
+
+  function updateDay(weekday: number, day: LibraryDayHours | null) {
+    updateForm({ weekly: form.weekly.map((current, index) => (index === weekday ? day : current)) });
+  }
+
+  async function save(hours: LibraryOpeningHours | null) {
+    setError(null);
+    const response = await fetch('/api/dashboard/libraries', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ libraryId, opening_hours: hours }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudo guardar el horario.');
+      return;
+    }
+
+    setItems((current) => current.map((item) => (item.id === libraryId ? payload.library : item)));
+    setForm(startingHours(payload.library));
+    setSaved(true);
+  }
+
+  return (
+    <div className="rounded-[2rem] border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Horario y días festivos</p>
+          <p className="mt-1 text-sm text-slate-600">
+            {library?.opening_hours
+              ? 'Las fechas de devolución saltan los días cerrados, y esos días no cuentan como atraso.'
+              : 'Sin horario configurado: la biblioteca se considera abierta todos los días.'}
+          </p>
+        </div>
+        {items.length > 1 && (
+          <select
+            value={libraryId}
+            onChange={(event) => selectLibrary(event.target.value)}
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          >
+            {items.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="mt-4 grid gap-2 md:grid-cols-2">
+        {WEEKDAY_ORDER.map((weekday) => {
+          const day = form.weekly[weekday];
+
+          return (
+            <div key={weekday} className="flex items-center gap-3 rounded-2xl bg-slate-50 px-4 py-2 text-xs">
+              <label className="flex w-28 items-center gap-2 font-semibold text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={Boolean(day)}
+                  onChange={(event) => updateDay(weekday, event.target.checked ? { opens: '08:00', closes: '17:00' } : null)}
+                />
+                {WEEKDAY_LABELS[weekday]}
+              </label>
+              {day ? (
+                <>
+                  <input
+                    type="time"
+                    value={day.opens}
+                    onChange={(event) => updateDay(weekday, { ...day, opens: event.target.value })}
+                    className="rounded-xl border border-slate-200 px-2 py-1"
+                  />
+                  <span className="text-slate-400">a</span>
+                  <input
+                    type="time"
+                    value={day.closes}
+                    onChange={(event) => updateDay(weekday, { ...day, closes: event.target.value })}
+                    className="rounded-xl border border-slate-200 px-2 py-1"
+                  />
+                </>
+              ) : (
+                <span className="text-slate-400">Cerrado</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 space-y-2 border-t border-slate-100 pt-4">
+        <span className="block text-[10px] font-bold uppercase tracking-tight text-slate-400">Cierres y feriados</span>
+        {form.closures.map((closure, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              value={closure.date}
+              onChange={(event) =>
+                updateForm({
+                  closures: form.closures.map((item, position) => (position === index ? { ...item, date: event.target.value } : item)),
+                })
+              }
+              className="rounded-xl border border-slate-200 px-3 py-2 text-xs"
+            />
+            <input
+              value={closure.label || ''}
+              placeholder="Motivo (opcional)"
+              onChange={(event) =>
+                updateForm({
+                  closures: form.closures.map((item, position) => (position === index ? { ...item, label: event.target.value } : item)),
+                })
+              }
+              className="w-56 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+            />
+            <button
+              type="button"
+              onClick={() => updateForm({ closures: form.closures.filter((_, position) => position !== index) })}
+              className="text-xs font-semibold text-rose-600 hover:text-rose-700"
+            >
+              Quitar
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => updateForm({ closures: [...form.closures, { date: '', label: '' }] })}
+          className="text-xs font-semibold text-slate-600 hover:text-slate-900"
+        >
+          + Agregar cierre
+        </button>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-end gap-3 border-t border-slate-100 pt-4">
+        <label className="block">
+          <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Zona horaria</span>
+          <input
+            value={form.timezone}
+            onChange={(event) => updateForm({ timezone: event.target.value })}
+            className="w-56 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => save(form)}
+          className="rounded-xl bg-slate-900 px-4 py-2 text-xs font-bold text-white hover:bg-slate-700 transition"
+        >
+          {saved ? 'Guardado' : 'Guardar horario'}
+        </button>
+        {library?.opening_hours && (
+          <button
+            type="button"
+            onClick={() => save(null)}
+            className="rounded-xl border border-slate-200 px-4 py-2 text-xs font-bold text-slate-600 hover:bg-slate-50 transition"
+          >
+            Quitar horario
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+    </div>
+  );
+}
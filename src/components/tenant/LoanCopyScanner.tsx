@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BookCopy, TenantLoan } from '@/types/tenant';
+import { cn } from '@/lib/utils';
+import { conditionLabels } from '@/components/tenant/BookCopiesPanel';
+
+interface LoanCopyScannerProps {
+  loan: TenantLoan;
+  mode: 'handover' | 'return';
+  selected: string[];
+  onChange: (codes: string[]) => void;
+}
+
+export default function LoanCopyScanner({ loan, mode, selected, onChange }: LoanCopyScannerProps) {
+  const [copies, setCopies] = useState<BookCopy[]>([]);
+  const [scan, setScan] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (mode !== 'handover') {
+      return;
+    }
+
+    async function loadCopies() {
+      const response = await fetch(`/api/dashboard/copies?bookId=${encodeURIComponent(loan.book_id)}`);
+      const payload = await response.json();
+
+      if (!response.ok) {
+        setError(payload.error || 'No se pudieron cargar las copias.');
+        return;
+      }
+
+      setCopies((payload.copies || []).filter((copy: BookCopy) => copy.status === 'available'));
+    }
+
+    loadCopies().catch(() => setError('No se pudieron cargar las copias.'));
+  }, [loan.book_id, mode]);
+
+  // Handover picks from the shelf; return checks against the codes that went out
+  const options =
+    mode === 'handover'
+      ? copies.map((copy) => ({ code: copy.code, hint: conditionLabels[copy.condition] }))
+      : (loan.copy_codes || []).map((code) => ({ code, hint: null }));
+  const extras = selected.filter((code) => !options.some((option) => option.code === code));
+
+  function toggle(code: string) {
+    setError(null);
+    onChange(selected.includes(code) ? selected.filter((item) => item !== code) : [...selected, code]);
+  }
+
+  function submitScan() {
+    const code = scan.trim();
+    setScan('');
+
+    if (!code || selected.includes(code)) {
+      return;
+    }
+
+    if (mode === 'handover' && !options.some((option) => option.code === code)) {
+      setError(`La copia ${code} no está disponible.`);
+      return;
+    }
+
+    setError(null);
+    onChange([...selected, code]);
+  }
+
+  return (
+    <div className="w-full lg:w-[400px] space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-tight text-slate-400">
+          {mode === 'handover' ? 'Copias a entregar' : 'Copias recibidas'}
+        </span>
+        <span className="text-[10px] font-bold text-slate-500">
+          {selected.length}/{mode === 'handover' ? loan.requested_copies : options.length}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {options.map((option) => (
+          <button
+            key={option.code}
+            type="button"
+            onClick={() => toggle(option.code)}
+            className={cn(
+              'rounded-lg border px-2 py-1 font-mono text-[11px] font-bold transition',
+              selected.includes(option.code)
+                ? 'border-slate-900 bg-slate-900 text-white'
+                : 'border-slate-200 bg-white text-slate-600 hover:bg-slate-50'
+            )}
+          >
+            {option.code}
+            {option.hint && <span className="ml-1 font-sans font-medium opacity-70">{option.hint}</span>}
+          </button>
+        ))}
+        {extras.map((code) => (
+          <button
+            key={code}
+            type="button"
+            onClick={() => toggle(code)}
+            title="No pertenece a este préstamo"
+            className="rounded-lg border border-amber-300 bg-amber-50 px-2 py-1 font-mono text-[11px] font-bold text-amber-700"
+          >
+            {code} ×
+          </button>
+        ))}
+      </div>
+
+      <input
+        value={scan}
+        onChange={(event) => setScan(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') {
+            event.preventDefault();
+            submitScan();
+          }
+        }}
+        placeholder="Escanear código y presionar Enter"
+        className="w-full rounded-xl border border-slate-200 px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-slate-900/5 transition"
+      />
+
+      {error && <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+    </div>
+  );
+}
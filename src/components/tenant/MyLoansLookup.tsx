@@ -2,9 +2,15 @@
 
 import { FormEvent, useState } from 'react';
 import Link from 'next/link';
-import { TenantLoan } from '@/types/tenant';
-import { cn, formatDateTime } from '@/lib/utils';
+import { addDays, format, parseISO } from 'date-fns';
+import { BookHold, LibraryOpeningHours, PatronLedgerEntry, TenantLoan } from '@/types/tenant';
+import { cn, formatDateTime, getFromStorage } from '@/lib/utils';
+import { formatFee, isLedgerCharge, ledgerBalance } from '@/lib/loan-fees';
+import { isLoanOverdue, resolveOpeningHours } from '@/lib/library-hours';
+import { ledgerKindLabels } from '@/components/tenant/PatronLedgerClient';
 
+// Cancellation codes of requests made from this browser, by loan id
+export const CANCEL_CODES_STORAGE_KEY = 'loan-cancel-codes';
 
 interface MyLoansLookupProps {
   librarySlug?: string;
@@ -13,9 +19,20 @@ interface MyLoansLookupProps {
 export default function MyLoansLookup({ librarySlug }: MyLoansLookupProps) {
   const [identifier, setIdentifier] = useState('');
   const [loans, setLoans] = useState<TenantLoan[]>([]);
+  const [holds, setHolds] = useState<BookHold[]>([]);
+  const [ledger, setLedger] = useState<PatronLedgerEntry[]>([]);
+  const [currency, setCurrency] = useState('USD');
+  const [openingHours, setOpeningHours] = useState<LibraryOpeningHours | null>(null);
   const [message, setMessage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'pending' | 'active' | 'overdue' | 'finished'>('pending');
+  // Identifier the current results belong to; it proves ownership for renewal requests
+  const [lookedUpIdentifier, setLookedUpIdentifier] = useState('');
+  const [renewalDates, setRenewalDates] = useState<Record<string, string>>({});
+  const [renewalErrors, setRenewalErrors] = useState<Record<string, string>>({});
+  const [cancellingLoanId, setCancellingLoanId] = useState<string | null>(null);
+  const [cancelCode, setCancelCode] = useState('');
+  const [cancelError, setCancelError] = useState<string | null>(null);
 
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
@@ -31,18 +48,30 @@ export default function MyLoansLookup({ librarySlug }: MyLoansLookupProps) {
     if (!response.ok) {
       setMessage(payload.error || 'No se pudieron encontrar préstamos.');
       setLoans([]);
+      setHolds([]);
+      setLedger([]);
       setLoading(false);
       return;
     }
 
     setLoans(payload.loans || []);
-    setMessage(payload.loans?.length ? null : 'No se encontraron préstamos para ese identificador en esta biblioteca.');
+    setHolds((payload.holds || []).filter((hold: BookHold) => hold.status === 'waiting' || hold.status === 'ready'));
+    setLedger(payload.ledger || []);
+    setCurrency(payload.library?.fee_rules?.currency || 'USD');
+    setOpeningHours(resolveOpeningHours(payload.library));
+    setLookedUpIdentifier(identifier);
+    setMessage(
+      payload.loans?.length || payload.holds?.length
+        ? null
+        : 'No se encontraron préstamos para ese identificador en esta biblioteca.'
+    );
     
     // Auto-switch to first tab that has content if current is empty
     if (payload.loans?.length) {
       const hasPending = payload.loans.some((l: TenantLoan) => l.status === 'pending');
-      const hasActive = payload.loans.some((l: TenantLoan) => (l.status === 'approved' || l.status === 'handled') && !(l.status === 'handled' && l.due_date && new Date(l.due_date) < new Date()));
-      const hasOverdue = payload.loans.some((l: TenantLoan) => l.status === 'handled' && l.due_date && new Date(l.due_date) < new Date());
+      const hours = resolveOpeningHours(payload.library);
+      const hasActive = payload.loans.some((l: TenantLoan) => (l.status === 'approved' || l.status === 'handled') && !isLoanOverdue(l, hours));
+      const hasOverdue = payload.loans.some((l: TenantLoan) => isLoanOverdue(l, hours));
       
       if (hasOverdue) setActiveTab('overdue');
       else if (hasActive) setActiveTab('active');
@@ -53,16 +82,82 @@ export default function MyLoansLookup({ librarySlug }: MyLoansLookupProps) {
     setLoading(false);
   }
 
+  function suggestedRenewalDate(loan: TenantLoan) {
+    const base = loan.due_date && loan.due_date > format(new Date(), 'yyyy-MM-dd') ? parseISO(loan.due_date) : new Date();
+    return format(addDays(base, 14), 'yyyy-MM-dd');
+  }
+
+  async function requestRenewal(loan: TenantLoan) {
+    setRenewalErrors((current) => ({ ...current, [loan.id]: '' }));
+
+    const endpoint = librarySlug
+      ? `/api/public/loan-renewals/${encodeURIComponent(librarySlug)}`
+      : '/api/public/loan-renewals';
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        loan_id: loan.id,
+        identifier: lookedUpIdentifier,
+        due_date: renewalDates[loan.id] || suggestedRenewalDate(loan),
+      }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setRenewalErrors((current) => ({ ...current, [loan.id]: payload.error || 'No se pudo solicitar la renovación.' }));
+      return;
+    }
+
+    setLoans((current) => current.map((item) => (item.id === loan.id ? payload.loan : item)));
+  }
+
+  function startCancellation(loan: TenantLoan) {
+    setCancellingLoanId(loan.id);
+    setCancelCode(getFromStorage<Record<string, string>>(CANCEL_CODES_STORAGE_KEY, {})[loan.id] || '');
+    setCancelError(null);
+  }
+
+  async function cancelRequest(event: FormEvent<HTMLFormElement>, loan: TenantLoan) {
+    event.preventDefault();
+    setCancelError(null);
+
+    const endpoint = librarySlug
+      ? `/api/public/loan-cancellations/${encodeURIComponent(librarySlug)}`
+      : '/api/public/loan-cancellations';
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        loan_id: loan.id,
+        identifier: lookedUpIdentifier,
+        cancel_code: cancelCode,
+      }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setCancelError(payload.error || 'No se pudo cancelar la solicitud.');
+      return;
+    }
+
+    setLoans((current) => current.map((item) => (item.id === loan.id ? payload.loan : item)));
+    setCancellingLoanId(null);
+  }
+
   const filteredLoans = loans.filter((loan) => {
     if (activeTab === 'pending') return loan.status === 'pending';
     if (activeTab === 'active') {
-      const isOverdue = loan.status === 'handled' && loan.due_date && new Date(loan.due_date) < new Date();
-      return (loan.status === 'approved' || loan.status === 'handled') && !isOverdue;
+      return (loan.status === 'approved' || loan.status === 'handled') && !isLoanOverdue(loan, openingHours);
     }
     if (activeTab === 'overdue') {
-      return loan.status === 'handled' && loan.due_date && new Date(loan.due_date) < new Date();
+      return isLoanOverdue(loan, openingHours);
     }
-    if (activeTab === 'finished') return loan.status === 'returned' || loan.status === 'rejected';
+    if (activeTab === 'finished') return loan.status === 'returned' || loan.status === 'rejected' || loan.status === 'cancelled';
     return true;
   });
 
@@ -100,6 +195,65 @@ export default function MyLoansLookup({ librarySlug }: MyLoansLookupProps) {
 
         {message && <div className="rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm text-slate-700">{message}</div>}
 
+        {ledger.length > 0 && (
+          <div className="rounded-[2rem] border border-slate-200 bg-white p-6 shadow-sm space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Multas y pagos</p>
+              <span
+                className={cn(
+                  'rounded-full px-4 py-2 text-xs font-bold',
+                  ledgerBalance(ledger) > 0 ? 'bg-rose-100 text-rose-700' : 'bg-emerald-100 text-emerald-700'
+                )}
+              >
+                {ledgerBalance(ledger) > 0 ? `Saldo pendiente: ${formatFee(ledgerBalance(ledger), currency)}` : 'Sin saldo pendiente'}
+              </span>
+            </div>
+            {ledger.map((entry) => (
+              <div key={entry.id} className="flex flex-wrap items-center justify-between gap-2 rounded-2xl bg-slate-50 px-4 py-3 text-sm">
+                <div>
+                  <p className="font-semibold text-slate-900">{ledgerKindLabels[entry.kind]}</p>
+                  <p className="text-xs text-slate-500">
+                    {formatDateTime(entry.created_at)}
+                    {entry.note && ` · ${entry.note}`}
+                  </p>
+                </div>
+                <span
+                  className={cn(
+                    'font-bold',
+                    isLedgerCharge(entry) ? 'text-rose-600' : 'text-emerald-600'
+                  )}
+                >
+                  {isLedgerCharge(entry) ? '+' : '−'}
+                  {formatFee(entry.amount, currency)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {holds.length > 0 && (
+          <div className="rounded-[2rem] border border-slate-200 bg-white p-6 shadow-sm space-y-3">
+            <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Lista de espera</p>
+            {holds.map((hold) => (
+              <div key={hold.id} className="flex flex-col gap-2 rounded-2xl bg-slate-50 px-4 py-3 md:flex-row md:items-center md:justify-between">
+                <div>
+                  <p className="font-semibold text-slate-900">{hold.book?.title || 'Título desconocido'}</p>
+                  <p className="text-xs text-slate-500">Te uniste el {formatDateTime(hold.created_at)}</p>
+                </div>
+                {hold.status === 'ready' ? (
+                  <span className="rounded-full bg-violet-100 px-4 py-2 text-xs font-bold text-violet-700">
+                    Lista para retirar{hold.expires_at ? ` antes de ${formatDateTime(hold.expires_at)}` : ''}
+                  </span>
+                ) : (
+                  <span className="rounded-full bg-amber-100 px-4 py-2 text-xs font-bold uppercase tracking-wider text-amber-700">
+                    En espera
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {loans.length > 0 && (
           <div className="flex bg-slate-100 p-1 rounded-2xl w-fit mx-auto md:mx-0">
             <button onClick={() => setActiveTab('pending')} className={cn('px-4 py-2 text-sm font-semibold rounded-xl transition', activeTab === 'pending' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-700')}>Pendientes</button>
@@ -123,13 +277,14 @@ export default function MyLoansLookup({ librarySlug }: MyLoansLookupProps) {
                   loan.status === 'pending' ? "bg-amber-100 text-amber-700" :
                     loan.status === 'approved' ? "bg-emerald-100 text-emerald-700" :
                       loan.status === 'handled' ? "bg-sky-100 text-sky-700" :
-                        loan.status === 'returned' ? "bg-slate-100 text-slate-500" :
+                        loan.status === 'returned' || loan.status === 'cancelled' ? "bg-slate-100 text-slate-500" :
                           "bg-rose-100 text-rose-700"
                 )}>
                   {loan.status === 'pending' ? 'En espera' : 
                    loan.status === 'approved' ? 'Aprobado' :
                    loan.status === 'handled' ? 'En tu poder' :
-                   loan.status === 'returned' ? 'Devuelto' : 'Rechazado'}
+                   loan.status === 'returned' ? 'Devuelto' :
+                   loan.status === 'cancelled' ? 'Cancelado' : 'Rechazado'}
                 </span>
               </div>
 
@@ -146,6 +301,19 @@ export default function MyLoansLookup({ librarySlug }: MyLoansLookupProps) {
                   <p className="text-[10px] uppercase font-bold text-slate-400">Fecha de pedido</p>
                   <p className="mt-1 font-semibold text-slate-900">{formatDateTime(loan.created_at)}</p>
                 </div>
+                {loan.fees && loan.fees.late_fee + loan.fees.damage_fee > 0 && (
+                  <div>
+                    <p className="text-[10px] uppercase font-bold text-slate-400">Cargos</p>
+                    <p className="mt-1 font-bold text-rose-600">
+                      {formatFee(loan.fees.late_fee + loan.fees.damage_fee, loan.fees.currency)}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {loan.fees.late_fee > 0 && `${loan.fees.days_late} días de atraso`}
+                      {loan.fees.late_fee > 0 && loan.fees.damage_fee > 0 && ' · '}
+                      {loan.fees.damage_fee > 0 && 'Daños'}
+                    </p>
+                  </div>
+                )}
                 {loan.due_date && (
                    <div>
                     <p className="text-[10px] uppercase font-bold text-slate-400">Fecha de retorno</p>
@@ -157,6 +325,75 @@ export default function MyLoansLookup({ librarySlug }: MyLoansLookupProps) {
                 )}
               </div>
 
+              {loan.status === 'pending' && (
+                <div className="mt-5 border-t border-slate-50 pt-5 space-y-2">
+                  {cancellingLoanId === loan.id ? (
+                    <form onSubmit={(event) => cancelRequest(event, loan)} className="flex flex-wrap items-center gap-2">
+                      <input
+                        value={cancelCode}
+                        onChange={(event) => setCancelCode(event.target.value)}
+                        placeholder="Código de cancelación"
+                        className="rounded-xl border border-slate-200 px-3 py-2 font-mono text-sm uppercase"
+                      />
+                      <button className="rounded-xl bg-rose-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-rose-700">
+                        Confirmar cancelación
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setCancellingLoanId(null)}
+                        className="rounded-xl border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 transition hover:bg-slate-50"
+                      >
+                        Volver
+                      </button>
+                    </form>
+                  ) : (
+                    <button
+                      onClick={() => startCancellation(loan)}
+                      className="rounded-xl border border-rose-200 bg-white px-4 py-2 text-sm font-semibold text-rose-600 transition hover:bg-rose-50"
+                    >
+                      Cancelar solicitud
+                    </button>
+                  )}
+                  {cancellingLoanId === loan.id && (
+                    <p className="text-xs text-slate-500">Usa el código que recibiste al enviar la solicitud.</p>
+                  )}
+                  {cancellingLoanId === loan.id && cancelError && (
+                    <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{cancelError}</p>
+                  )}
+                </div>
+              )}
+
+              {loan.status === 'handled' && (
+                <div className="mt-5 border-t border-slate-50 pt-5 space-y-2">
+                  <p className="text-[10px] uppercase font-bold text-slate-400">
+                    Renovaciones: {(loan.renewals || []).length}
+                  </p>
+                  {loan.renewal_request ? (
+                    <p className="text-sm font-semibold text-violet-700">
+                      Solicitaste renovar hasta el {loan.renewal_request.due_date}. La biblioteca revisará tu solicitud.
+                    </p>
+                  ) : (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="date"
+                        value={renewalDates[loan.id] || suggestedRenewalDate(loan)}
+                        onChange={(event) => setRenewalDates((current) => ({ ...current, [loan.id]: event.target.value }))}
+                        className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                      />
+                      <button
+                        onClick={() => requestRenewal(loan)}
+                        className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700"
+                      >
+                        Solicitar renovación
+                      </button>
+                    </div>
+                  )}
+                  {renewalErrors[loan.id] && (
+                    <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{renewalErrors[loan.id]}</p>
+                  )}
+                </div>
+              )}
+
               {(loan.delivery_condition || loan.return_note) && (
                 <div className="mt-5 border-t border-slate-50 pt-5 flex flex-col md:flex-row gap-6">
                   {loan.delivery_condition && (
@@ -0,0 +1,356 @@
+'use client';
+
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { LibraryTenant, PatronPayload, TenantLoan, TenantPatron } from '@/types/tenant';
+import { cn, formatDateTime } from '@/lib/utils';
+
+interface PatronDirectoryClientProps {
+  libraries: LibraryTenant[];
+}
+
+const loanStatusLabels: Record<TenantLoan['status'], string> = {
+  pending: 'En espera',
+  approved: 'Aprobado',
+  handled: 'Entregado',
+  returned: 'Devuelto',
+  rejected: 'Rechazado',
+  cancelled: 'Cancelado',
+};
+
+const emptyForm: PatronPayload = { full_name: '', identifier: '', email: '', phone: '', notes: '', status: 'active' };
+
+function toForm(patron: TenantPatron): PatronPayload {
+  return {
+    full_name: patron.full_name,
+    identifier: patron.identifier,
+    email: patron.email || '',
+    phone: patron.phone || '',
+    notes: patron.notes || '',
+    status: patron.status,
+  };
+}
+
+export default function PatronDirectoryClient({ libraries }: PatronDirectoryClientProps) {
+  const [libraryId, setLibraryId] = useState(libraries[0]?.id || '');
+  const [patrons, setPatrons] = useState<TenantPatron[]>([]);
+  const [loans, setLoans] = useState<TenantLoan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [openPatronId, setOpenPatronId] = useState<string | null>(null);
+  const [form, setForm] = useState<PatronPayload>(emptyForm);
+  const [creating, setCreating] = useState(false);
+  const [mergeSourceId, setMergeSourceId] = useState('');
+
+  useEffect(() => {
+    if (!libraryId) {
+      return;
+    }
+
+    async function loadPatrons() {
+      setLoading(true);
+      const params = `?libraryId=${encodeURIComponent(libraryId)}`;
+      const [patronResponse, loanResponse] = await Promise.all([
+        fetch(`/api/dashboard/patrons${params}`),
+        fetch(`/api/dashboard/loans${params}`),
+      ]);
+      const patronPayload = await patronResponse.json();
+      const loanPayload = await loanResponse.json();
+
+      if (!patronResponse.ok || !loanResponse.ok) {
+        setError(patronPayload.error || loanPayload.error || 'No se pudo cargar el directorio de lectores.');
+      } else {
+        setPatrons(patronPayload.patrons || []);
+        setLoans(loanPayload.loans || []);
+      }
+      setLoading(false);
+    }
+
+    loadPatrons().catch(() => {
+      setError('No se pudo cargar el directorio de lectores.');
+      setLoading(false);
+    });
+  }, [libraryId]);
+
+  const filteredPatrons = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return patrons.filter(
+      (patron) =>
+        !query ||
+        patron.full_name.toLowerCase().includes(query) ||
+        patron.identifier.toLowerCase().includes(query) ||
+        patron.email?.toLowerCase().includes(query)
+    );
+  }, [patrons, searchQuery]);
+
+  function loansOf(patron: TenantPatron) {
+    return loans.filter((loan) => loan.patron_id === patron.id);
+  }
+
+  function openPatron(patron: TenantPatron | null) {
+    setError(null);
+    setCreating(false);
+    setMergeSourceId('');
+    setOpenPatronId(patron && openPatronId !== patron.id ? patron.id : null);
+    setForm(patron ? toForm(patron) : emptyForm);
+  }
+
+  async function savePatron(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+
+    const response = await fetch('/api/dashboard/patrons', {
+      method: creating ? 'POST' : 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(creating ? { ...form, libraryId } : { ...form, patronId: openPatronId }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudo guardar el lector.');
+      return;
+    }
+
+    setPatrons((current) =>
+      creating
+        ? [...current, payload.patron]
+        : current.map((patron) => (patron.id === payload.patron.id ? payload.patron : patron))
+    );
+    setCreating(false);
+    setOpenPatronId(payload.patron.id);
+  }
+
+  async function mergeInto(target: TenantPatron) {
+    const source = patrons.find((patron) => patron.id === mergeSourceId);
+
+    if (!source || !window.confirm(`¿Fusionar ${source.full_name} (${source.identifier}) en ${target.full_name}? No se puede deshacer.`)) {
+      return;
+    }
+
+    setError(null);
+    const response = await fetch('/api/dashboard/patrons/merge', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ targetId: target.id, sourceId: source.id }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudieron fusionar los lectores.');
+      return;
+    }
+
+    setPatrons((current) =>
+      current.filter((patron) => patron.id !== source.id).map((patron) => (patron.id === target.id ? payload.patron : patron))
+    );
+    setLoans((current) =>
+      current.map((loan) =>
+        loan.patron_id === source.id
+          ? { ...loan, patron_id: target.id, identifier: target.identifier, full_name: target.full_name }
+          : loan
+      )
+    );
+    setForm(toForm(payload.patron));
+    setMergeSourceId('');
+  }
+
+  const patronForm = (
+    <form onSubmit={savePatron} className="grid gap-3 md:grid-cols-2">
+      <label className="block">
+        <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Nombre completo</span>
+        <input
+          value={form.full_name}
+          onChange={(event) => setForm((current) => ({ ...current, full_name: event.target.value }))}
+          className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+        />
+      </label>
+      <label className="block">
+        <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Identificador</span>
+        <input
+          value={form.identifier}
+          onChange={(event) => setForm((current) => ({ ...current, identifier: event.target.value }))}
+          className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+        />
+      </label>
+      <label className="block">
+        <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Email</span>
+        <input
+          type="email"
+          value={form.email || ''}
+          onChange={(event) => setForm((current) => ({ ...current, email: event.target.value }))}
+          className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+        />
+      </label>
+      <label className="block">
+        <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Teléfono</span>
+        <input
+          value={form.phone || ''}
+          onChange={(event) => setForm((current) => ({ ...current, phone: event.target.value }))}
+          className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+        />
+      </label>
+      <label className="block md:col-span-2">
+        <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">Notas</span>
+        <textarea
+          rows={2}
+          value={form.notes || ''}
+          onChange={(event) => setForm((current) => ({ ...current, notes: event.target.value }))}
+          className="w-full resize-none rounded-xl border border-slate-200 px-3 py-2 text-sm"
+        />
+      </label>
+      <div className="flex flex-wrap items-center gap-3 md:col-span-2">
+        <select
+          value={form.status}
+          onChange={(event) => setForm((current) => ({ ...current, status: event.target.value as PatronPayload['status'] }))}
+          className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+        >
+          <option value="active">Activo</option>
+          <option value="blocked">Bloqueado</option>
+        </select>
+        <button className="rounded-xl bg-slate-900 px-4 py-2 text-xs font-bold text-white hover:bg-slate-700 transition">
+          {creating ? 'Registrar lector' : 'Guardar cambios'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="rounded-[2rem] border border-slate-200 bg-white p-6 shadow-sm space-y-5">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Directorio de lectores</p>
+        <div className="flex flex-wrap gap-2">
+          <input
+            value={searchQuery}
+            onChange={(event) => setSearchQuery(event.target.value)}
+            placeholder="Buscar por nombre, identificador o email"
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          />
+          {libraries.length > 1 && (
+            <select
+              value={libraryId}
+              onChange={(event) => {
+                setLibraryId(event.target.value);
+                openPatron(null);
+              }}
+              className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+            >
+              {libraries.map((library) => (
+                <option key={library.id} value={library.id}>
+                  {library.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            type="button"
+            onClick={() => {
+              openPatron(null);
+              setCreating(true);
+            }}
+            className="rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white hover:bg-slate-700 transition"
+          >
+            Nuevo lector
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+
+      {creating && <div className="rounded-[1.5rem] border border-slate-100 bg-slate-50 p-4">{patronForm}</div>}
+
+      {loading && <p className="text-sm text-slate-500">Cargando lectores...</p>}
+      {!loading && !filteredPatrons.length && <p className="text-sm text-slate-400">No hay lectores registrados.</p>}
+
+      <div className="space-y-3">
+        {filteredPatrons.map((patron) => {
+          const patronLoans = loansOf(patron);
+          const activeLoans = patronLoans.filter((loan) => loan.status === 'approved' || loan.status === 'handled');
+
+          return (
+            <div key={patron.id} className="rounded-[1.5rem] border border-slate-100 bg-slate-50 p-4">
+              <button
+                type="button"
+                onClick={() => openPatron(patron)}
+                className="flex w-full items-center justify-between gap-4 text-left"
+              >
+                <div>
+                  <p className="font-semibold text-slate-900">{patron.full_name}</p>
+                  <p className="text-xs text-slate-500">
+                    {patron.identifier}
+                    {patron.email && ` · ${patron.email}`}
+                    {patron.phone && ` · ${patron.phone}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-slate-500">
+                    {patronLoans.length} {patronLoans.length === 1 ? 'préstamo' : 'préstamos'} · {activeLoans.length} activos
+                  </span>
+                  <span
+                    className={cn(
+                      'rounded-full px-3 py-1 text-xs font-bold',
+                      patron.status === 'blocked' ? 'bg-rose-100 text-rose-700' : 'bg-emerald-100 text-emerald-700'
+                    )}
+                  >
+                    {patron.status === 'blocked' ? 'Bloqueado' : 'Activo'}
+                  </span>
+                </div>
+              </button>
+
+              {openPatronId === patron.id && (
+                <div className="mt-4 space-y-4 border-t border-slate-200 pt-4">
+                  {patronForm}
+
+                  {!!patronLoans.length && (
+                    <ul className="space-y-1 text-xs">
+                      {patronLoans.map((loan) => (
+                        <li key={loan.id} className="flex flex-wrap items-center justify-between gap-2 rounded-xl bg-white px-3 py-2">
+                          <span className="font-semibold text-slate-700">{loan.book?.title || 'Título desconocido'}</span>
+                          <span className="text-slate-400">{formatDateTime(loan.created_at)}</span>
+                          <span className="ml-auto font-bold uppercase text-slate-500">{loanStatusLabels[loan.status]}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="flex flex-wrap items-end gap-2 border-t border-slate-200 pt-4">
+                    <label className="block flex-1">
+                      <span className="mb-1 block text-[10px] font-bold uppercase tracking-tight text-slate-400">
+                        Fusionar un registro duplicado en este lector
+                      </span>
+                      <select
+                        value={mergeSourceId}
+                        onChange={(event) => setMergeSourceId(event.target.value)}
+                        className="w-full rounded-xl border border-slate-200 px-3 py-2 text-xs"
+                      >
+                        <option value="">Selecciona un lector</option>
+                        {patrons
+                          .filter((item) => item.id !== patron.id)
+                          .map((item) => (
+                            <option key={item.id} value={item.id}>
+                              {item.full_name} ({item.identifier})
+                            </option>
+                          ))}
+                      </select>
+                    </label>
+                    <button
+                      type="button"
+                      disabled={!mergeSourceId}
+                      onClick={() => mergeInto(patron)}
+                      className="rounded-xl border border-rose-200 bg-white px-4 py-2 text-xs font-bold text-rose-600 hover:bg-rose-50 transition disabled:opacity-50"
+                    >
+                      Fusionar
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
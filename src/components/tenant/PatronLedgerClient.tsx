@@ -0,0 +1,221 @@
+'use client';
+
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { LedgerEntryKind, LibraryTenant, PatronLedgerEntry } from '@/types/tenant';
+import { formatFee, isLedgerCharge, ledgerBalance, resolveFeeRules } from '@/lib/loan-fees';
+import { cn, formatDateTime } from '@/lib/utils';
+
+interface PatronLedgerClientProps {
+  libraries: LibraryTenant[];
+}
+
+export const ledgerKindLabels: Record<LedgerEntryKind, string> = {
+  late_fee: 'Multa por atraso',
+  damage_fee: 'Cargo por daños',
+  payment: 'Pago',
+  waiver: 'Condonación',
+};
+
+export default function PatronLedgerClient({ libraries }: PatronLedgerClientProps) {
+  const [libraryId, setLibraryId] = useState(libraries[0]?.id || '');
+  const [entries, setEntries] = useState<PatronLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [openPatron, setOpenPatron] = useState<string | null>(null);
+  const [creditForm, setCreditForm] = useState({ kind: 'payment' as 'payment' | 'waiver', amount: '', note: '' });
+
+  const currency = resolveFeeRules(libraries.find((library) => library.id === libraryId)).currency;
+
+  useEffect(() => {
+    if (!libraryId) {
+      return;
+    }
+
+    async function loadLedger() {
+      setLoading(true);
+      const response = await fetch(`/api/dashboard/ledger?libraryId=${encodeURIComponent(libraryId)}`);
+      const payload = await response.json();
+
+      if (!response.ok) {
+        setError(payload.error || 'No se pudo cargar el registro de multas.');
+      } else {
+        setEntries(payload.entries || []);
+      }
+      setLoading(false);
+    }
+
+    loadLedger().catch(() => {
+      setError('No se pudo cargar el registro de multas.');
+      setLoading(false);
+    });
+  }, [libraryId]);
+
+  // One row per patron, with the largest outstanding balance first
+  const patrons = useMemo(() => {
+    const grouped = new Map<string, PatronLedgerEntry[]>();
+    entries.forEach((entry) => {
+      const key = entry.identifier.toLowerCase();
+      grouped.set(key, [...(grouped.get(key) || []), entry]);
+    });
+
+    const query = searchQuery.trim().toLowerCase();
+    return Array.from(grouped.entries())
+      .map(([key, items]) => ({
+        key,
+        identifier: items[0].identifier,
+        full_name: items[0].full_name,
+        balance: ledgerBalance(items),
+        entries: items.sort((a, b) => +new Date(b.created_at) - +new Date(a.created_at)),
+      }))
+      .filter(
+        (patron) =>
+          !query || patron.full_name.toLowerCase().includes(query) || patron.identifier.toLowerCase().includes(query)
+      )
+      .sort((a, b) => b.balance - a.balance);
+  }, [entries, searchQuery]);
+
+  async function submitCredit(event: FormEvent<HTMLFormElement>, patron: { identifier: string; full_name: string }) {
+    event.preventDefault();
+    setError(null);
+
+    const response = await fetch('/api/dashboard/ledger', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        libraryId,
+        identifier: patron.identifier,
+        full_name: patron.full_name,
+        kind: creditForm.kind,
+        amount: Number(creditForm.amount || 0),
+        note: creditForm.note,
+      }),
+    });
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setError(payload.error || 'No se pudo registrar el movimiento.');
+      return;
+    }
+
+    setEntries((current) => [payload.entry, ...current]);
+    setCreditForm({ kind: 'payment', amount: '', note: '' });
+  }
+
+  return (
+    <div className="rounded-[2rem] border border-slate-200 bg-white p-6 shadow-sm space-y-5">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <p className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">Saldos de lectores</p>
+        <div className="flex flex-wrap gap-2">
+          <input
+            value={searchQuery}
+            onChange={(event) => setSearchQuery(event.target.value)}
+            placeholder="Buscar por nombre o identificador"
+            className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          />
+          {libraries.length > 1 && (
+            <select
+              value={libraryId}
+              onChange={(event) => {
+                setLibraryId(event.target.value);
+                setOpenPatron(null);
+              }}
+              className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+            >
+              {libraries.map((library) => (
+                <option key={library.id} value={library.id}>
+                  {library.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+
+      {loading && <p className="text-sm text-slate-500">Cargando movimientos...</p>}
+      {!loading && !patrons.length && <p className="text-sm text-slate-400">No hay multas registradas.</p>}
+
+      <div className="space-y-3">
+        {patrons.map((patron) => (
+          <div key={patron.key} className="rounded-[1.5rem] border border-slate-100 bg-slate-50 p-4">
+            <button
+              type="button"
+              onClick={() => setOpenPatron(openPatron === patron.key ? null : patron.key)}
+              className="flex w-full items-center justify-between gap-4 text-left"
+            >
+              <div>
+                <p className="font-semibold text-slate-900">{patron.full_name}</p>
+                <p className="text-xs text-slate-500">{patron.identifier}</p>
+              </div>
+              <span
+                className={cn(
+                  'rounded-full px-3 py-1 text-xs font-bold',
+                  patron.balance > 0 ? 'bg-rose-100 text-rose-700' : 'bg-emerald-100 text-emerald-700'
+                )}
+              >
+                {patron.balance > 0 ? formatFee(patron.balance, currency) : 'Al día'}
+              </span>
+            </button>
+
+            {openPatron === patron.key && (
+              <div className="mt-4 space-y-3 border-t border-slate-200 pt-4">
+                <ul className="space-y-1 text-xs">
+                  {patron.entries.map((entry) => (
+                    <li key={entry.id} className="flex flex-wrap items-center justify-between gap-2 rounded-xl bg-white px-3 py-2">
+                      <span className="font-semibold text-slate-700">{ledgerKindLabels[entry.kind]}</span>
+                      <span className="text-slate-400">{formatDateTime(entry.created_at)}</span>
+                      {entry.note && <span className="text-slate-500 italic">{entry.note}</span>}
+                      <span className={cn('ml-auto font-bold', isLedgerCharge(entry) ? 'text-rose-600' : 'text-emerald-600')}>
+                        {isLedgerCharge(entry) ? '+' : '−'}
+                        {formatFee(entry.amount, currency)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                {patron.balance > 0 && (
+                  <form onSubmit={(event) => submitCredit(event, patron)} className="flex flex-wrap items-end gap-2">
+                    <select
+                      value={creditForm.kind}
+                      onChange={(event) =>
+                        setCreditForm((current) => ({ ...current, kind: event.target.value as 'payment' | 'waiver' }))
+                      }
+                      className="rounded-xl border border-slate-200 px-3 py-2 text-xs"
+                    >
+                      <option value="payment">{ledgerKindLabels.payment}</option>
+                      <option value="waiver">{ledgerKindLabels.waiver}</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={0.01}
+                      step="0.01"
+                      max={patron.balance}
+                      required
+                      value={creditForm.amount}
+                      onChange={(event) => setCreditForm((current) => ({ ...current, amount: event.target.value }))}
+                      placeholder={String(patron.balance)}
+                      className="w-28 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+                    />
+                    <input
+                      value={creditForm.note}
+                      onChange={(event) => setCreditForm((current) => ({ ...current, note: event.target.value }))}
+                      placeholder="Nota (opcional)"
+                      className="flex-1 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+                    />
+                    <button className="rounded-xl bg-slate-900 px-4 py-2 text-xs font-bold text-white hover:bg-slate-700 transition">
+                      Registrar
+                    </button>
+                  </form>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,11 +3,15 @@
 import Link from 'next/link';
 import Image from 'next/image';
 import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
 
-import { LibraryTenant, TenantBook } from '@/types/tenant';
-import { cn, formatDateTime } from '@/lib/utils';
+import { LibraryTenant, TenantBook, TenantLoan } from '@/types/tenant';
+import { cn, formatDateTime, getFromStorage, setToStorage } from '@/lib/utils';
 import LanguageSwitcher from '@/components/ui/LanguageSwitcher';
 import { useI18n } from '@/context/I18nContext';
+import { CANCEL_CODES_STORAGE_KEY } from '@/components/tenant/MyLoansLookup';
+import { latestDueDate, resolveCirculationPolicy } from '@/lib/circulation-policy';
+import { libraryClock, openingStatus, resolveOpeningHours, WEEKDAY_LABELS } from '@/lib/library-hours';
 
 interface CatalogResponse {
   library: LibraryTenant;
@@ -30,7 +34,24 @@ export default function PublicCatalog({ librarySlug }: PublicCatalogProps) {
     requested_copies: 1,
     due_date: '',
   });
+  const [cart, setCart] = useState<{ book: TenantBook; requested_copies: number }[]>([]);
   const { t } = useI18n();
+  const policy = resolveCirculationPolicy(data?.library);
+  const hours = resolveOpeningHours(data?.library);
+  const opening = hours ? openingStatus(hours) : null;
+  const dueDateLabel =
+    t('publicCatalog.fields.dueDate', { max: policy.max_loan_days, default: policy.default_loan_days }) ||
+    `Fecha de retorno (Máx. ${policy.max_loan_days} días; vacía = ${policy.default_loan_days} días)`;
+
+  function closedUntilLabel(next: { date: string; opens: string }) {
+    const weekday = `${WEEKDAY_LABELS[parseISO(next.date).getDay()].toLowerCase()} ${format(parseISO(next.date), 'dd/MM')}`;
+    const day =
+      next.date === libraryClock(hours).date
+        ? t('publicCatalog.opening.today') || 'hoy'
+        : t('publicCatalog.opening.onDay', { day: weekday }) || `el ${weekday}`;
+
+    return t('publicCatalog.opening.closedUntil', { day, time: next.opens }) || `Cerrado · abre ${day} a las ${next.opens}`;
+  }
 
   useEffect(() => {
     const controller = new AbortController();
@@ -85,11 +106,20 @@ export default function PublicCatalog({ librarySlug }: PublicCatalogProps) {
     const payload = await response.json();
 
     if (!response.ok) {
-      setStatusMessage(payload.error || 'No se pudo enviar la solicitud.');
+      setStatusMessage(payload.error || t('publicCatalog.requestFailed') || 'No se pudo enviar la solicitud.');
       return;
     }
 
-    setStatusMessage(t('borrowRequest.success.created') || `Solicitud enviada para ${payload.loan.book?.title || 'el libro seleccionado'}`);
+    // Remembered on this device so the patron can cancel from the loan lookup without retyping it
+    setToStorage(CANCEL_CODES_STORAGE_KEY, {
+      ...getFromStorage<Record<string, string>>(CANCEL_CODES_STORAGE_KEY, {}),
+      [payload.loan.id]: payload.loan.cancel_code,
+    });
+    setStatusMessage(
+      `${t('borrowRequest.success.created') || `Solicitud enviada para ${payload.loan.book?.title || 'el libro seleccionado'}`}. ` +
+        (t('publicCatalog.cancelCode', { code: payload.loan.cancel_code }) ||
+          `Tu código de cancelación es ${payload.loan.cancel_code}; guárdalo si necesitas retirar la solicitud.`)
+    );
     setRequestingBookId(null);
     setRequestForm({
       full_name: '',
@@ -100,6 +130,99 @@ export default function PublicCatalog({ librarySlug }: PublicCatalogProps) {
     setQuery('');
   }
 
+  function toggleCartItem(book: TenantBook) {
+    setCart((current) =>
+      current.some((item) => item.book.id === book.id)
+        ? current.filter((item) => item.book.id !== book.id)
+        : [...current, { book, requested_copies: 1 }]
+    );
+  }
+
+  async function submitCartRequest(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setStatusMessage(null);
+
+    const cartEndpoint = librarySlug
+      ? `/api/public/loan-carts/${encodeURIComponent(librarySlug)}`
+      : '/api/public/loan-carts';
+
+    const response = await fetch(cartEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        full_name: requestForm.full_name,
+        identifier: requestForm.identifier,
+        due_date: requestForm.due_date,
+        items: cart.map((item) => ({ book_id: item.book.id, requested_copies: item.requested_copies })),
+      }),
+    });
+
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setStatusMessage(payload.error || t('publicCatalog.requestFailed') || 'No se pudo enviar la solicitud.');
+      return;
+    }
+
+    const loans: TenantLoan[] = payload.loans;
+    setToStorage(CANCEL_CODES_STORAGE_KEY, {
+      ...getFromStorage<Record<string, string>>(CANCEL_CODES_STORAGE_KEY, {}),
+      ...Object.fromEntries(loans.map((loan) => [loan.id, loan.cancel_code])),
+    });
+    setStatusMessage(
+      `${t('publicCatalog.cart.sent', { count: loans.length }) || `Solicitud enviada para ${loans.length} títulos.`} ` +
+        (t('publicCatalog.cart.cancelCode', { code: loans[0]?.cancel_code ?? '' }) ||
+          `Tu código de cancelación es ${loans[0]?.cancel_code}; sirve para retirar cualquiera de ellos.`)
+    );
+    setCart([]);
+    setRequestForm({
+      full_name: '',
+      identifier: '',
+      requested_copies: 1,
+      due_date: '',
+    });
+  }
+
+  async function submitHoldRequest(event: FormEvent<HTMLFormElement>, bookId: string) {
+    event.preventDefault();
+    setStatusMessage(null);
+
+    const holdEndpoint = librarySlug
+      ? `/api/public/holds/${encodeURIComponent(librarySlug)}`
+      : '/api/public/holds';
+
+    const response = await fetch(holdEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        full_name: requestForm.full_name,
+        identifier: requestForm.identifier,
+        book_id: bookId,
+      }),
+    });
+
+    const payload = await response.json();
+
+    if (!response.ok) {
+      setStatusMessage(payload.error || t('publicCatalog.hold.failed') || 'No se pudo unir a la lista de espera.');
+      return;
+    }
+
+    const title = payload.hold.book?.title || t('publicCatalog.selectedBook') || 'el libro seleccionado';
+    setStatusMessage(t('publicCatalog.hold.joined', { title }) || `Te uniste a la lista de espera para ${title}.`);
+    setRequestingBookId(null);
+    setRequestForm({
+      full_name: '',
+      identifier: '',
+      requested_copies: 1,
+      due_date: '',
+    });
+  }
+
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [brokenImages, setBrokenImages] = useState<Set<string>>(new Set());
 
@@ -133,6 +256,20 @@ export default function PublicCatalog({ librarySlug }: PublicCatalogProps) {
                 <p className="max-w-2xl text-lg leading-8 text-slate-600">
                   {t('common.publicDocs') || 'Explora los libros disponibles, solicita un préstamo sin cuenta y mantén todo organizado por biblioteca.'}
                 </p>
+                {opening && (
+                  <span
+                    className={cn(
+                      'inline-flex rounded-full px-4 py-1 text-xs font-semibold',
+                      opening.open ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-600'
+                    )}
+                  >
+                    {opening.open
+                      ? t('publicCatalog.opening.open', { time: opening.closes_at ?? '' }) || `Abierto ahora · cierra a las ${opening.closes_at}`
+                      : opening.next_opening
+                        ? closedUntilLabel(opening.next_opening)
+                        : t('publicCatalog.opening.closed') || 'Cerrado'}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -151,7 +288,7 @@ export default function PublicCatalog({ librarySlug }: PublicCatalogProps) {
               </div>
 
               <div className="mt-6 grid gap-4 md:grid-cols-2 xl:grid-cols-3">
-                {loading && <div className="text-sm text-slate-500">Cargando libros...</div>}
+                {loading && <div className="text-sm text-slate-500">{t('publicCatalog.loading') || 'Cargando libros...'}</div>}
                 {!loading &&
                   data?.books.map((book) => (
                     <article key={book.id} className="rounded-[1.75rem] border border-slate-200 bg-white p-5 transition hover:-translate-y-0.5 hover:bg-slate-50 flex flex-col justify-between">
@@ -185,40 +322,89 @@ export default function PublicCatalog({ librarySlug }: PublicCatalogProps) {
                             </div>
                             <p className="mt-1 text-sm text-slate-600">{book.author}</p>
                           </div>
-                          <span className="whitespace-nowrap flex items-center gap-1 rounded-full bg-emerald-100 px-3 py-1 text-[10px] font-semibold text-emerald-700">
+                          <span
+                            className={cn(
+                              'whitespace-nowrap flex items-center gap-1 rounded-full px-3 py-1 text-[10px] font-semibold',
+                              book.available_copies > 0 ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'
+                            )}
+                          >
                             {book.available_copies} {t('books.table.available') || 'disponibles'}
                           </span>
                         </div>
 
                         <div className="flex items-center justify-between text-xs text-slate-500">
                           <span>{t('books.table.total') || 'Total'}: {book.total_copies}</span>
-                          <button
-                            type="button"
-                            onClick={() => setRequestingBookId(requestingBookId === book.id ? null : book.id)}
-                            className="rounded-full bg-slate-900 px-4 py-2 font-medium text-white transition hover:bg-slate-700"
-                          >
-                            {t('borrowRequest.actions.submit') || 'Solicitar'}
-                          </button>
+                          <div className="flex gap-2">
+                            {book.available_copies > 0 && (
+                              <button
+                                type="button"
+                                onClick={() => toggleCartItem(book)}
+                                className={cn(
+                                  'rounded-full border px-4 py-2 font-medium transition',
+                                  cart.some((item) => item.book.id === book.id)
+                                    ? 'border-amber-300 bg-amber-50 text-amber-700'
+                                    : 'border-slate-200 bg-white text-slate-700 hover:bg-slate-50'
+                                )}
+                              >
+                                {cart.some((item) => item.book.id === book.id)
+                                  ? t('publicCatalog.cart.inList') || 'En la lista'
+                                  : t('publicCatalog.cart.add') || 'Añadir'}
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => setRequestingBookId(requestingBookId === book.id ? null : book.id)}
+                              className="rounded-full bg-slate-900 px-4 py-2 font-medium text-white transition hover:bg-slate-700"
+                            >
+                              {book.available_copies > 0
+                                ? t('borrowRequest.actions.submit') || 'Solicitar'
+                                : t('publicCatalog.hold.action') || 'Lista de espera'}
+                            </button>
+                          </div>
                         </div>
 
-                        {requestingBookId === book.id && (
+                        {requestingBookId === book.id && book.available_copies === 0 && (
+                          <form onSubmit={(event) => submitHoldRequest(event, book.id)} className="space-y-3 rounded-[1.5rem] border border-slate-200 bg-white p-4">
+                            <p className="text-xs text-slate-500">
+                              {t('publicCatalog.hold.hint') ||
+                                'No hay copias disponibles. Te avisaremos en la consulta de préstamos cuando una copia quede reservada para ti.'}
+                            </p>
+                            <input
+                              value={requestForm.full_name}
+                              onChange={(event) => setRequestForm((current) => ({ ...current, full_name: event.target.value }))}
+                              placeholder={t('publicCatalog.fields.fullName') || 'Nombre completo'}
+                              className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                            />
+                            <input
+                              value={requestForm.identifier}
+                              onChange={(event) => setRequestForm((current) => ({ ...current, identifier: event.target.value }))}
+                              placeholder={t('publicCatalog.fields.identifier') || 'Email, ID nacional o carnet'}
+                              className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                            />
+                            <button className="w-full rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white transition hover:bg-slate-700">
+                              {t('publicCatalog.hold.submit') || 'Unirse a la lista de espera'}
+                            </button>
+                          </form>
+                        )}
+
+                        {requestingBookId === book.id && book.available_copies > 0 && (
                           <form onSubmit={(event) => submitLoanRequest(event, book.id)} className="space-y-3 rounded-[1.5rem] border border-slate-200 bg-white p-4">
                             <input
                               value={requestForm.full_name}
                               onChange={(event) => setRequestForm((current) => ({ ...current, full_name: event.target.value }))}
-                              placeholder="Nombre completo"
+                              placeholder={t('publicCatalog.fields.fullName') || 'Nombre completo'}
                               className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
                             />
                             <input
                               value={requestForm.identifier}
                               onChange={(event) => setRequestForm((current) => ({ ...current, identifier: event.target.value }))}
-                              placeholder="Email, ID nacional o carnet"
+                              placeholder={t('publicCatalog.fields.identifier') || 'Email, ID nacional o carnet'}
                               className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
                             />
                             <input
                               type="number"
                               min={1}
-                              max={book.available_copies}
+                              max={Math.min(book.available_copies, policy.max_copies_per_request ?? book.available_copies)}
                               value={requestForm.requested_copies}
                               onChange={(event) =>
                                 setRequestForm((current) => ({
@@ -229,12 +415,11 @@ export default function PublicCatalog({ librarySlug }: PublicCatalogProps) {
                               className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
                             />
                             <div className="space-y-1">
-                               <label className="text-[10px] font-bold uppercase tracking-tight text-slate-400 px-1">Fecha de retorno (Máx. 3 meses)</label>
+                               <label className="text-[10px] font-bold uppercase tracking-tight text-slate-400 px-1">{dueDateLabel}</label>
                                <input
                                 type="date"
-                                required
                                 min={new Date().toISOString().split('T')[0]}
-                                max={new Date(new Date().setMonth(new Date().getMonth() + 3)).toISOString().split('T')[0]}
+                                max={latestDueDate(policy, hours)}
                                 value={requestForm.due_date}
                                 onChange={(event) => setRequestForm((current) => ({ ...current, due_date: event.target.value }))}
                                 className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
@@ -259,6 +444,74 @@ export default function PublicCatalog({ librarySlug }: PublicCatalogProps) {
           </div>
 
           <aside className="space-y-5">
+            {cart.length > 0 && (
+              <form onSubmit={submitCartRequest} className="rounded-[2rem] border border-amber-200 bg-white p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">{t('publicCatalog.cart.title') || 'Tu solicitud'}</p>
+                  <span className="rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-700">
+                    {cart.length}{' '}
+                    {cart.length === 1 ? t('publicCatalog.cart.titleOne') || 'título' : t('publicCatalog.cart.titleMany') || 'títulos'}
+                  </span>
+                </div>
+                <ul className="space-y-2">
+                  {cart.map((item) => (
+                    <li key={item.book.id} className="flex items-center gap-3 rounded-2xl bg-slate-50 px-4 py-3 text-sm">
+                      <span className="min-w-0 flex-1 truncate font-medium text-slate-800">{item.book.title}</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={Math.min(item.book.available_copies, policy.max_copies_per_request ?? item.book.available_copies)}
+                        value={item.requested_copies}
+                        onChange={(event) =>
+                          setCart((current) =>
+                            current.map((entry) =>
+                              entry.book.id === item.book.id
+                                ? { ...entry, requested_copies: Number(event.target.value || 1) }
+                                : entry
+                            )
+                          )
+                        }
+                        className="w-16 rounded-xl border border-slate-200 px-2 py-1 text-center text-sm"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => toggleCartItem(item.book)}
+                        className="text-xs font-semibold text-rose-600 hover:text-rose-700"
+                      >
+                        {t('publicCatalog.cart.remove') || 'Quitar'}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <input
+                  value={requestForm.full_name}
+                  onChange={(event) => setRequestForm((current) => ({ ...current, full_name: event.target.value }))}
+                  placeholder={t('publicCatalog.fields.fullName') || 'Nombre completo'}
+                  className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                />
+                <input
+                  value={requestForm.identifier}
+                  onChange={(event) => setRequestForm((current) => ({ ...current, identifier: event.target.value }))}
+                  placeholder={t('publicCatalog.fields.identifier') || 'Email, ID nacional o carnet'}
+                  className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                />
+                <div className="space-y-1">
+                  <label className="text-[10px] font-bold uppercase tracking-tight text-slate-400 px-1">{dueDateLabel}</label>
+                  <input
+                    type="date"
+                    min={new Date().toISOString().split('T')[0]}
+                    max={latestDueDate(policy, hours)}
+                    value={requestForm.due_date}
+                    onChange={(event) => setRequestForm((current) => ({ ...current, due_date: event.target.value }))}
+                    className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                  />
+                </div>
+                <button className="w-full rounded-xl bg-amber-500 px-3 py-2 text-sm font-semibold text-slate-950 transition hover:bg-amber-400">
+                  {t('publicCatalog.cart.submit', { count: cart.length }) || `Enviar solicitud (${cart.length})`}
+                </button>
+              </form>
+            )}
+
             <div className="rounded-[2rem] border border-slate-200 bg-white p-6">
               <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">{t('dashboard.stats.desc.inCatalog') || 'Categorías'}</p>
               <div className="mt-4 space-y-3">
@@ -19,6 +19,10 @@ export default function ResponsiveSidebar({ session, libraries }: ResponsiveSide
   const links = [
     { name: 'Préstamos', href: '/dashboard' },
     { name: 'Inventario', href: '/dashboard/books' },
+    { name: 'Lectores', href: '/dashboard/patrons' },
+    { name: 'Multas', href: '/dashboard/fees' },
+    { name: 'Reportes', href: '/dashboard/reports' },
+    { name: 'Auditoría', href: '/dashboard/audit' },
   ];
 
   return (
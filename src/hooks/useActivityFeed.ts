@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityEvent, ActivityPage, ActivityType } from '@/types/tenant';
+
+export interface UseActivityFeedOptions {
+  libraryId?: string;
+  types?: ActivityType[];
+  pageSize?: number;
+}
+
+// Pages through /api/dashboard/activity; changing a filter starts again from the first page
+export const useActivityFeed = ({ libraryId, types = [], pageSize = 10 }: UseActivityFeedOptions = {}) => {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const typeKey = types.join(',');
+
+  const fetchPage = useCallback(
+    async (pageNumber: number) => {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ page: String(pageNumber), pageSize: String(pageSize) });
+      if (libraryId) params.set('libraryId', libraryId);
+      if (typeKey) params.set('type', typeKey);
+
+      try {
+        const response = await fetch(`/api/dashboard/activity?${params.toString()}`);
+        const payload = await response.json();
+
+        if (!response.ok) {
+          throw new Error(payload.error || 'No se pudo cargar la actividad reciente.');
+        }
+
+        const result = payload as ActivityPage;
+        setEvents((current) => (pageNumber === 1 ? result.events : [...current, ...result.events]));
+        setPage(result.page);
+        setHasMore(result.has_more);
+      } catch (fetchError) {
+        setError(fetchError instanceof Error ? fetchError.message : 'No se pudo cargar la actividad reciente.');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [libraryId, typeKey, pageSize]
+  );
+
+  useEffect(() => {
+    fetchPage(1);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => fetchPage(page + 1), [fetchPage, page]);
+
+  return { events, hasMore, loading, error, loadMore };
+};
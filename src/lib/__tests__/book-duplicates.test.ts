@@ -0,0 +1,61 @@
+import {
+  createBookDuplicateIndex,
+  findBookDuplicates,
+  normalizeBookAuthor,
+  normalizeBookCode,
+  normalizeBookTitle,
+} from '../book-duplicates'
+
+const catalog = [
+  { id: 'book-1', title: 'The House on Mango Street', author: 'Sandra Cisneros', book_code: 'MC-001' },
+  { id: 'book-2', title: 'Cien años de soledad', author: 'Gabriel García Márquez', book_code: '0-306-40615-2' },
+  { id: 'book-3', title: 'Poemas', author: 'Gabriela Mistral', book_code: null },
+]
+
+describe('book duplicates', () => {
+  it('normalizes titles, authors and codes', () => {
+    expect(normalizeBookTitle('  The House on Mango-Street ')).toBe('house on mango street')
+    expect(normalizeBookTitle('El')).toBe('el')
+    expect(normalizeBookAuthor('Cisneros, Sandra')).toEqual(normalizeBookAuthor('Sandra Cisneros'))
+    expect(normalizeBookCode('978-0-306-40615-7')).toBe(normalizeBookCode('0306406152'))
+    expect(normalizeBookCode(' mc 001 ')).toBe('MC001')
+    expect(normalizeBookCode('')).toBe('')
+  })
+
+  it('treats a shared book code as a duplicate whatever the title', () => {
+    expect(findBookDuplicates({ title: 'Otro título', author: 'Otro autor', book_code: '9780306406157' }, catalog)).toEqual([
+      {
+        book_id: 'book-2',
+        title: 'Cien años de soledad',
+        author: 'Gabriel García Márquez',
+        book_code: '0-306-40615-2',
+        reason: 'book_code',
+        score: 1,
+      },
+    ])
+  })
+
+  it('matches near-identical titles by the same author', () => {
+    const [match] = findBookDuplicates({ title: 'Cien anos de soledad.', author: 'García Márquez', book_code: null }, catalog)
+
+    expect(match).toMatchObject({ book_id: 'book-2', reason: 'title', score: 1 })
+    expect(findBookDuplicates({ title: 'House on Mango St', author: 'Cisneros, Sandra', book_code: '' }, catalog)).toEqual([
+      expect.objectContaining({ book_id: 'book-1', reason: 'title' }),
+    ])
+  })
+
+  it('leaves the same title by a different author alone', () => {
+    expect(findBookDuplicates({ title: 'Poemas', author: 'Pablo Neruda', book_code: null }, catalog)).toEqual([])
+  })
+
+  it('skips the record being edited and checks rows added along the way', () => {
+    expect(findBookDuplicates(catalog[2], catalog, 'book-3')).toEqual([])
+
+    const index = createBookDuplicateIndex([])
+    index.add({ id: 'row-2', title: 'Rayuela', author: 'Julio Cortázar', book_code: null })
+
+    expect(index.find({ title: 'Rayuela', author: 'Cortázar, Julio', book_code: null })).toEqual([
+      expect.objectContaining({ book_id: 'row-2', score: 1 }),
+    ])
+  })
+})
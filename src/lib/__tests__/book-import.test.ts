@@ -0,0 +1,62 @@
+import { bookImportTemplate, MAX_IMPORT_ROWS, parseBookImport, parseBookImportOptions } from '../book-import'
+
+describe('book import', () => {
+  it('reads the template into payloads for the library', () => {
+    const [row] = parseBookImport(bookImportTemplate(), 'lib-honduras')
+
+    expect(row.errors).toEqual([])
+    expect(row.line).toBe(2)
+    expect(row.payload).toMatchObject({
+      library_id: 'lib-honduras',
+      title: 'Cien años de soledad',
+      categories: ['novela', 'clásicos'],
+      book_code: undefined,
+      cover_type: 'softcover',
+      cost: 350,
+      acquired_at: '2024-02-01',
+      good_copies: 3,
+      fair_copies: 1,
+      bad_copies: 0,
+    })
+  })
+
+  it('accepts semicolon files with headers in any case and order', () => {
+    const [row] = parseBookImport('Author;TITLE;Categories\nBorges;Ficciones;cuento|clásicos', 'lib-honduras')
+
+    expect(row.payload).toMatchObject({ title: 'Ficciones', author: 'Borges', categories: ['cuento', 'clásicos'] })
+  })
+
+  it('reports problems per row', () => {
+    const [row] = parseBookImport(
+      'title,author,categories,cover_type,cost,acquired_at,good_copies\nX,Y,z,paperback,-1,01/02/2024,1.5,extra',
+      'lib-honduras'
+    )
+
+    expect(row.errors).toEqual([
+      'cover_type debe ser hardcover o softcover.',
+      'cost debe ser un número positivo.',
+      'acquired_at debe tener el formato AAAA-MM-DD.',
+      'La fila tiene más valores que columnas; revisa las comas sin comillas.',
+      'good_copies debe ser un número entero mayor o igual a 0.',
+    ])
+  })
+
+  it('rejects files without the required columns or with too many rows', () => {
+    expect(() => parseBookImport('', 'lib-honduras')).toThrow('vacío')
+    expect(() => parseBookImport('title,author\nX,Y', 'lib-honduras')).toThrow('categories')
+
+    const rows = Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, index) => `Libro ${index},Autor,cat`)
+    expect(() => parseBookImport(['title,author,categories', ...rows].join('\n'), 'lib-honduras')).toThrow(
+      `máximo por importación es ${MAX_IMPORT_ROWS}`
+    )
+  })
+
+  it('treats anything but an explicit false as a dry run', () => {
+    expect(parseBookImportOptions({ dryRun: false, includeDuplicates: true })).toEqual({
+      dryRun: false,
+      includeDuplicates: true,
+    })
+    expect(parseBookImportOptions({ dryRun: 'false' }).dryRun).toBe(true)
+    expect(parseBookImportOptions({})).toEqual({ dryRun: true, includeDuplicates: false })
+  })
+})
@@ -0,0 +1,93 @@
+/** @jest-environment node */
+import { bookToMarc, parseBookMarc, previewMarcMapping } from '../book-marc'
+import { MarcRecord } from '../marc'
+import { mockBooks, mockCopies, mockLibraries } from '@/lib/mock-tenant-data'
+
+const book = mockBooks[0]
+const copies = mockCopies.filter((copy) => copy.book_id === book.id).slice(0, 3)
+const library = mockLibraries.find((item) => item.id === book.library_id)
+
+describe('book marc', () => {
+  it('exports a book that imports back into the same fields', () => {
+    const record = bookToMarc(book, copies, library, new Date(2026, 9, 19))
+    const [row] = parseBookMarc([record], 'lib-newyork')
+
+    expect(row.errors).toEqual([])
+    expect(row.payload).toMatchObject({
+      library_id: 'lib-newyork',
+      title: book.title,
+      author: book.author,
+      categories: book.categories,
+      book_code: book.book_code,
+      editorial: book.editorial,
+      edition: book.edition,
+      shelf_location: book.shelf_location,
+      cost: book.cost,
+      acquired_at: book.acquired_at,
+      image_url: book.image_url,
+      good_copies: 3,
+      fair_copies: 0,
+      bad_copies: 0,
+    })
+    expect(record.fields.filter((field) => field.tag === '952')).toHaveLength(3)
+  })
+
+  it('strips ISBD punctuation and reads Koha items', () => {
+    const record: MarcRecord = {
+      leader: '00000nam a2200000 i 4500',
+      fields: [
+        { tag: '245', ind1: '1', ind2: '0', subfields: [{ code: 'a', value: 'Rayuela :' }, { code: 'b', value: 'novela /' }] },
+        { tag: '700', ind1: '1', ind2: ' ', subfields: [{ code: 'a', value: 'Cortázar, Julio,' }] },
+        { tag: '260', ind1: ' ', ind2: ' ', subfields: [{ code: 'b', value: 'Sudamericana,' }] },
+        { tag: '650', ind1: ' ', ind2: '4', subfields: [{ code: 'a', value: 'Novela.' }] },
+        { tag: '655', ind1: ' ', ind2: '7', subfields: [{ code: 'a', value: 'Novela' }] },
+        { tag: '952', ind1: ' ', ind2: ' ', subfields: [{ code: 'g', value: 'L 350.00' }, { code: 'x', value: 'Fair' }] },
+        { tag: '952', ind1: ' ', ind2: ' ', subfields: [{ code: 'x', value: 'dañado' }] },
+      ],
+    }
+    const [row] = parseBookMarc([record], 'lib-honduras')
+
+    expect(row.payload).toMatchObject({
+      title: 'Rayuela: novela',
+      author: 'Cortázar, Julio',
+      editorial: 'Sudamericana',
+      categories: ['Novela'],
+      cost: 350,
+      good_copies: 1,
+      fair_copies: 1,
+    })
+  })
+
+  it('reports item values the catalog cannot store', () => {
+    const [row] = parseBookMarc(
+      [
+        {
+          leader: '',
+          fields: [{ tag: '952', ind1: ' ', ind2: ' ', subfields: [{ code: 'g', value: 'gratis' }, { code: 'd', value: '2024/02/01' }] }],
+        },
+      ],
+      'lib-honduras'
+    )
+
+    expect(row.errors).toEqual([
+      'El costo del ejemplar (952 $g) no es un número.',
+      'La fecha de adquisición (952 $d) debe tener el formato AAAA-MM-DD.',
+    ])
+    expect(() => parseBookMarc([], 'lib-honduras')).toThrow('no contiene registros')
+  })
+
+  it('previews which tags the import reads', () => {
+    const record = bookToMarc(book, copies, library, new Date(2026, 9, 19))
+    const preview = previewMarcMapping([record])
+
+    expect(preview.mapped).toContainEqual({ tag: '245', field: 'title', records: 1, sample: `$a ${book.title}` })
+    expect(preview.mapped.filter((rule) => rule.tag === '952').map((rule) => rule.field)).toEqual([
+      'copies',
+      'book_code',
+      'shelf_location',
+      'acquired_at',
+      'cost',
+    ])
+    expect(preview.unmapped.map((entry) => entry.tag)).toEqual(['001', '005', '008'])
+  })
+})
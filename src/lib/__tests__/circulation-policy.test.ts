@@ -0,0 +1,60 @@
+import {
+  assertActiveLoansAllowed,
+  assertCopiesAllowed,
+  assertDueDateAllowed,
+  defaultDueDate,
+  latestDueDate,
+  resolveCirculationPolicy,
+} from '../circulation-policy'
+import { LibraryCirculationPolicy, LibraryOpeningHours } from '@/types/tenant'
+
+const policy: LibraryCirculationPolicy = {
+  max_loan_days: 12,
+  default_loan_days: 7,
+  max_copies_per_request: 2,
+  max_active_loans: 3,
+  duplicate_window_minutes: 10,
+}
+
+// Monday to Friday, 9 to 5
+const weekdays: LibraryOpeningHours = {
+  timezone: 'UTC',
+  weekly: [null, ...Array(5).fill({ opens: '09:00', closes: '17:00' }), null],
+  closures: [],
+}
+
+// Monday 19 October 2026
+const today = new Date(2026, 9, 19)
+
+describe('circulation policy', () => {
+  it('keeps the original limits for libraries without a policy', () => {
+    const fallback = resolveCirculationPolicy(undefined)
+
+    expect(fallback.max_loan_days).toBe(90)
+    expect(fallback.max_copies_per_request).toBeNull()
+    expect(() => assertCopiesAllowed(fallback, 50)).not.toThrow()
+    expect(() => assertActiveLoansAllowed(fallback, 50, 1)).not.toThrow()
+  })
+
+  it('counts due dates from today', () => {
+    expect(defaultDueDate(policy, today)).toBe('2026-10-26')
+    expect(latestDueDate(policy, null, today)).toBe('2026-10-31')
+  })
+
+  it('moves the latest due date off a closed day', () => {
+    // The twelfth day is a Saturday, so the following Monday is allowed too
+    expect(latestDueDate(policy, weekdays, today)).toBe('2026-11-02')
+    expect(() => assertDueDateAllowed(policy, '2026-11-02', weekdays, today)).not.toThrow()
+    expect(() => assertDueDateAllowed(policy, '2026-11-02', null, today)).toThrow(/máximo de 12 días/)
+  })
+
+  it('caps copies per title', () => {
+    expect(() => assertCopiesAllowed(policy, 2)).not.toThrow()
+    expect(() => assertCopiesAllowed(policy, 3)).toThrow(/2 copia\(s\)/)
+  })
+
+  it('caps open loans per patron, counting the ones being added', () => {
+    expect(() => assertActiveLoansAllowed(policy, 1, 2)).not.toThrow()
+    expect(() => assertActiveLoansAllowed(policy, 2, 2)).toThrow(/el máximo es 3/)
+  })
+})
@@ -0,0 +1,44 @@
+import { detectDelimiter, formatCsv, parseCsv, unguardCsvValue } from '../csv'
+
+describe('csv', () => {
+  it('parses quoted fields with commas, quotes and line breaks', () => {
+    const records = parseCsv('title,note\r\n"Rayuela, 1963","Dijo ""hola""\nen dos líneas"\r\nFicciones,\n')
+
+    expect(records).toEqual([
+      { line: 1, values: ['title', 'note'] },
+      { line: 2, values: ['Rayuela, 1963', 'Dijo "hola"\nen dos líneas'] },
+      { line: 4, values: ['Ficciones', ''] },
+    ])
+  })
+
+  it('drops the byte order mark and skips blank lines', () => {
+    expect(parseCsv('\uFEFFa;b\n\n1;2', ';')).toEqual([
+      { line: 1, values: ['a', 'b'] },
+      { line: 3, values: ['1', '2'] },
+    ])
+  })
+
+  it('reports unclosed quotes with the line they started on', () => {
+    expect(() => parseCsv('a,b\n1,"sin cerrar\n2,3')).toThrow('línea 2')
+  })
+
+  it('picks the separator the header uses', () => {
+    expect(detectDelimiter('title;author;categories')).toBe(';')
+    expect(detectDelimiter('\uFEFFtitle,author;x')).toBe(',')
+  })
+
+  it('formats rows Excel opens as UTF-8 and quotes what needs it', () => {
+    expect(formatCsv(['title', 'copies', 'note'], [{ title: 'Pedro Páramo', copies: 2, note: 'a, "b"' }])).toBe(
+      '\uFEFFtitle,copies,note\r\nPedro Páramo,2,"a, ""b"""\r\n'
+    )
+  })
+
+  it('guards formula-like text and undoes the guard on import', () => {
+    const csv = formatCsv(['value'], [{ value: '=SUM(A1)' }, { value: -3 }])
+
+    expect(csv).toContain("'=SUM(A1)")
+    expect(csv).toContain('\r\n-3\r\n')
+    expect(unguardCsvValue("'=SUM(A1)")).toBe('=SUM(A1)')
+    expect(unguardCsvValue("'apóstrofo")).toBe("'apóstrofo")
+  })
+})
@@ -0,0 +1,31 @@
+import { isbn10To13, isbn13To10, isValidIsbn10, isValidIsbn13, normalizeIsbn, parseIsbn } from '../isbn'
+
+describe('isbn', () => {
+  it('drops hyphens, spaces and the ISBN prefix', () => {
+    expect(normalizeIsbn(' ISBN-13: 978-0-306-40615-7 ')).toBe('9780306406157')
+    expect(normalizeIsbn('isbn 0 8044 2957 x')).toBe('080442957X')
+  })
+
+  it('checks ISBN-10 and ISBN-13 check digits', () => {
+    expect(isValidIsbn10('0-306-40615-2')).toBe(true)
+    expect(isValidIsbn10('0-306-40615-3')).toBe(false)
+    expect(isValidIsbn10('080442957X')).toBe(true)
+    expect(isValidIsbn13('978-0-306-40615-7')).toBe(true)
+    expect(isValidIsbn13('978-0-306-40615-8')).toBe(false)
+    // Only the 978 and 979 prefixes are ISBNs
+    expect(isValidIsbn13('4006381333931')).toBe(false)
+  })
+
+  it('converts between ISBN-10 and ISBN-13', () => {
+    expect(isbn10To13('0-306-40615-2')).toBe('9780306406157')
+    expect(isbn13To10('9780804429573')).toBe('080442957X')
+    expect(isbn13To10('9791090636071')).toBeNull()
+    expect(() => isbn10To13('0306406153')).toThrow('ISBN-10 no válido.')
+  })
+
+  it('parses either form into both', () => {
+    expect(parseIsbn('0306406152')).toEqual({ isbn13: '9780306406157', isbn10: '0306406152' })
+    expect(parseIsbn('979-10-90636-07-1')).toEqual({ isbn13: '9791090636071', isbn10: null })
+    expect(parseIsbn('no es un ISBN')).toBeNull()
+  })
+})
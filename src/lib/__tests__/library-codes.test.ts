@@ -0,0 +1,59 @@
+import {
+  computeCheckDigit,
+  formatLibraryCode,
+  parseLibraryCode,
+  resolveCodeFormat,
+  validateLibraryCode,
+} from '../library-codes'
+import { LibraryCodeFormat } from '@/types/tenant'
+
+const format = (changes: Partial<LibraryCodeFormat> = {}): LibraryCodeFormat => ({
+  prefix: 'bib',
+  padding: 4,
+  include_year: false,
+  check_digit: 'none',
+  ...changes,
+})
+
+describe('library codes', () => {
+  it('falls back to the subdomain series for libraries without a format', () => {
+    expect(resolveCodeFormat({ subdomain: 'Honduras', code_format: null })).toEqual({
+      prefix: 'honduras',
+      padding: 4,
+      include_year: false,
+      check_digit: 'none',
+    })
+  })
+
+  it('computes Luhn (mod10) check digits', () => {
+    expect(computeCheckDigit('7992739871', 'mod10')).toBe('3')
+    expect(computeCheckDigit('0001', 'mod10')).toBe('8')
+  })
+
+  it('computes mod11 check digits and writes 10 as X', () => {
+    // Weights 2, 3, 4... from the right, as in ISBN-10
+    expect(computeCheckDigit('030640615', 'mod11')).toBe('2')
+    expect(computeCheckDigit('080442957', 'mod11')).toBe('X')
+  })
+
+  it('formats codes with padding, year and check digit', () => {
+    expect(formatLibraryCode(format(), 7)).toBe('bib0007')
+    expect(formatLibraryCode(format(), 123456)).toBe('bib123456')
+    expect(formatLibraryCode(format({ include_year: true }), 7, 2026)).toBe('bib20260007')
+    expect(formatLibraryCode(format({ check_digit: 'mod10' }), 1)).toBe('bib00018')
+  })
+
+  it('parses codes back into year and sequence', () => {
+    const yearly = format({ include_year: true, check_digit: 'mod11' })
+    const code = formatLibraryCode(yearly, 42, 2025)
+
+    expect(parseLibraryCode(yearly, code)).toEqual({ year: 2025, sequence: 42 })
+    expect(parseLibraryCode(format(), ' BIB0003 ')).toEqual({ year: null, sequence: 3 })
+  })
+
+  it('explains why a code does not follow the format', () => {
+    expect(validateLibraryCode(format(), 'lib0001')).toMatch(/no sigue el formato bib0001/)
+    expect(validateLibraryCode(format({ check_digit: 'mod10' }), 'bib00011')).toMatch(/dígito verificador/)
+    expect(validateLibraryCode(format({ check_digit: 'mod10' }), 'bib00018')).toBeNull()
+  })
+})
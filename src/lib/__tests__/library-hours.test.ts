@@ -0,0 +1,69 @@
+import { isLoanOverdue, isOpenOn, libraryClock, nextOpenDate, openDaysLate, openingStatus } from '../library-hours'
+import { LibraryOpeningHours } from '@/types/tenant'
+
+// Monday to Friday, 9 to 5, closed on Friday 23 October 2026
+const hours: LibraryOpeningHours = {
+  timezone: 'America/Tegucigalpa',
+  weekly: [null, ...Array(5).fill({ opens: '09:00', closes: '17:00' }), null],
+  closures: [{ date: '2026-10-23', label: 'Feriado' }],
+}
+
+describe('library hours', () => {
+  it('treats libraries without hours as always open', () => {
+    expect(isOpenOn(null, '2026-10-18')).toBe(true)
+    expect(nextOpenDate(null, '2026-10-18')).toBe('2026-10-18')
+    expect(openDaysLate(null, '2026-10-16', '2026-10-19')).toBe(3)
+  })
+
+  it('closes on weekends and listed closures', () => {
+    expect(isOpenOn(hours, '2026-10-19')).toBe(true)
+    expect(isOpenOn(hours, '2026-10-18')).toBe(false)
+    expect(isOpenOn(hours, '2026-10-23')).toBe(false)
+  })
+
+  it('moves a due date on a closed day to the next open day', () => {
+    expect(nextOpenDate(hours, '2026-10-21')).toBe('2026-10-21')
+    // Friday is a closure, so the loan is due the following Monday
+    expect(nextOpenDate(hours, '2026-10-23')).toBe('2026-10-26')
+  })
+
+  it('leaves a date alone when the calendar has no open day', () => {
+    const closed = { ...hours, weekly: Array(7).fill(null) }
+
+    expect(nextOpenDate(closed, '2026-10-23')).toBe('2026-10-23')
+  })
+
+  it('counts only open days as late', () => {
+    expect(openDaysLate(hours, '2026-10-22', '2026-10-22')).toBe(0)
+    // Friday closure and the weekend do not count; Monday does
+    expect(openDaysLate(hours, '2026-10-22', '2026-10-26')).toBe(1)
+    expect(openDaysLate(hours, '2026-10-22', '2026-10-27')).toBe(2)
+  })
+
+  it('marks handed-over loans overdue on the library clock', () => {
+    // 03:00 UTC on Tuesday is still Monday evening in Tegucigalpa
+    const now = new Date('2026-10-20T03:00:00Z')
+
+    expect(libraryClock(hours, now)).toEqual({ date: '2026-10-19', weekday: 1, time: '21:00' })
+    expect(isLoanOverdue({ status: 'handled', due_date: '2026-10-19' }, hours, now)).toBe(false)
+    expect(isLoanOverdue({ status: 'handled', due_date: '2026-10-16' }, hours, now)).toBe(true)
+    expect(isLoanOverdue({ status: 'returned', due_date: '2026-10-16' }, hours, now)).toBe(false)
+  })
+
+  it('reports when the library opens or closes next', () => {
+    expect(openingStatus(hours, new Date('2026-10-19T16:00:00Z'))).toEqual({
+      open: true,
+      closes_at: '17:00',
+      next_opening: null,
+    })
+    expect(openingStatus(hours, new Date('2026-10-19T14:00:00Z')).next_opening).toEqual({
+      date: '2026-10-19',
+      opens: '09:00',
+    })
+    // Thursday evening: Friday is a closure, so the next opening is Monday
+    expect(openingStatus(hours, new Date('2026-10-23T01:00:00Z')).next_opening).toEqual({
+      date: '2026-10-26',
+      opens: '09:00',
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import {
+  assessLoanFees,
+  computeDamageFee,
+  computeLateFee,
+  countDowngrades,
+  ledgerBalance,
+  resolveFeeRules,
+} from '../loan-fees'
+import { LibraryFeeRules, LibraryOpeningHours } from '@/types/tenant'
+
+const rules: LibraryFeeRules = {
+  currency: 'HNL',
+  daily_late_fee: 5,
+  max_late_fee: 40,
+  grace_days: 2,
+  damage_fees: { good_to_fair: 10, good_to_bad: 50, fair_to_bad: 30 },
+}
+
+// Monday to Friday, 9 to 5
+const weekdays: LibraryOpeningHours = {
+  timezone: 'UTC',
+  weekly: [null, ...Array(5).fill({ opens: '09:00', closes: '17:00' }), null],
+  closures: [],
+}
+
+describe('loan fees', () => {
+  it('charges nothing for libraries without fee rules', () => {
+    const free = resolveFeeRules(null)
+
+    expect(computeLateFee(free, '2026-10-01', '2026-10-19T12:00:00Z')).toEqual({ days_late: 18, late_fee: 0 })
+  })
+
+  it('waives returns inside the grace period and charges every late day after it', () => {
+    expect(computeLateFee(rules, '2026-10-19', '2026-10-21T12:00:00Z')).toEqual({ days_late: 2, late_fee: 0 })
+    expect(computeLateFee(rules, '2026-10-19', '2026-10-22T12:00:00Z')).toEqual({ days_late: 3, late_fee: 15 })
+  })
+
+  it('caps the late fee per loan', () => {
+    expect(computeLateFee(rules, '2026-10-01', '2026-10-19T12:00:00Z').late_fee).toBe(40)
+    expect(computeLateFee({ ...rules, max_late_fee: null }, '2026-10-01', '2026-10-19T12:00:00Z').late_fee).toBe(90)
+  })
+
+  it('counts only open days when the library has opening hours', () => {
+    // Due Friday, returned the next Tuesday: the weekend is not late
+    expect(computeLateFee(rules, '2026-10-16', '2026-10-20T12:00:00Z', weekdays)).toEqual({ days_late: 2, late_fee: 0 })
+  })
+
+  it('pairs delivered and returned conditions best with best', () => {
+    expect(countDowngrades({ good: 2, fair: 1, bad: 0 }, { good: 1, fair: 1, bad: 1 })).toEqual({
+      good_to_fair: 1,
+      good_to_bad: 0,
+      fair_to_bad: 1,
+    })
+    expect(computeDamageFee(rules, { good: 2, fair: 1, bad: 0 }, { good: 1, fair: 1, bad: 1 })).toBe(40)
+    expect(computeDamageFee(rules, null, { good: 0, fair: 0, bad: 1 })).toBe(0)
+  })
+
+  it('assesses late and damage fees together', () => {
+    expect(
+      assessLoanFees(
+        rules,
+        { due_date: '2026-10-14', delivery_condition: { good: 1, fair: 0, bad: 0 } },
+        { good: 0, fair: 0, bad: 1 },
+        '2026-10-19T12:00:00Z'
+      )
+    ).toEqual({ currency: 'HNL', days_late: 5, late_fee: 25, damage_fee: 50 })
+  })
+
+  it('subtracts payments and waivers from charges', () => {
+    expect(
+      ledgerBalance([
+        { kind: 'late_fee', amount: 12.5 },
+        { kind: 'damage_fee', amount: 10 },
+        { kind: 'payment', amount: 7.25 },
+        { kind: 'waiver', amount: 5 },
+      ])
+    ).toBe(10.25)
+  })
+})
@@ -0,0 +1,78 @@
+/** @jest-environment node */
+import { MarcRecord, parseMarc, parseMarc21, parseMarcXml, subfieldValues, writeMarc21, writeMarcXml } from '../marc'
+
+const record: MarcRecord = {
+  leader: '00000nam a2200000 i 4500',
+  fields: [
+    { tag: '001', value: 'book-1' },
+    { tag: '100', ind1: '1', ind2: ' ', subfields: [{ code: 'a', value: 'García Márquez, Gabriel' }] },
+    {
+      tag: '245',
+      ind1: '1',
+      ind2: '0',
+      subfields: [
+        { code: 'a', value: 'Cien años de soledad /' },
+        { code: 'c', value: 'Gabriel García Márquez <& otros>' },
+      ],
+    },
+  ],
+}
+
+describe('marc', () => {
+  it('writes ISO 2709 with byte lengths and reads it back', () => {
+    const bytes = writeMarc21([record, record])
+    const leader = new TextDecoder().decode(bytes.subarray(0, 24))
+    const [first, second] = parseMarc21(bytes)
+
+    // Accented letters take two bytes, so the record is longer than its text
+    expect(Number(leader.slice(0, 5))).toBe(bytes.length / 2)
+    expect(leader[9]).toBe('a')
+    expect(Number(leader.slice(12, 17))).toBe(24 + 3 * 12 + 1)
+    expect(first.fields).toEqual(record.fields)
+    expect(second.fields).toEqual(record.fields)
+    expect(subfieldValues(first, '245', 'a')).toEqual(['Cien años de soledad /'])
+  })
+
+  it('skips line breaks between records and rejects broken headers', () => {
+    const bytes = writeMarc21([record])
+    const spaced = new Uint8Array([...Array.from(bytes), 0x0a, ...Array.from(bytes)])
+
+    expect(parseMarc21(spaced)).toHaveLength(2)
+    expect(() => parseMarc21(new TextEncoder().encode('no es un registro MARC válido'))).toThrow('cabecera no válida')
+    expect(() => parseMarc21(bytes.subarray(0, bytes.length - 1))).toThrow('cabecera no válida')
+  })
+
+  it('writes MARCXML and reads it back, escaping markup', () => {
+    const xml = writeMarcXml([record])
+
+    expect(xml).toContain('<collection xmlns="http://www.loc.gov/MARC21/slim">')
+    expect(xml).toContain('Gabriel García Márquez &lt;&amp; otros&gt;')
+    expect(parseMarcXml(xml)).toEqual([record])
+  })
+
+  it('reads namespace-prefixed MARCXML', () => {
+    const [parsed] = parseMarcXml(`
+      <marc:collection xmlns:marc="http://www.loc.gov/MARC21/slim">
+        <marc:record>
+          <marc:leader>00000nam a2200000 i 4500</marc:leader>
+          <marc:controlfield tag="001">42</marc:controlfield>
+          <marc:datafield tag='650' ind1=' ' ind2='4'>
+            <marc:subfield code="a">Novela &#x41;</marc:subfield>
+          </marc:datafield>
+        </marc:record>
+      </marc:collection>`)
+
+    expect(parsed.fields).toEqual([
+      { tag: '001', value: '42' },
+      { tag: '650', ind1: ' ', ind2: '4', subfields: [{ code: 'a', value: 'Novela A' }] },
+    ])
+    expect(() => parseMarcXml('<collection/>')).toThrow('no contiene registros')
+  })
+
+  it('tells MARCXML from ISO 2709 by the first characters', () => {
+    const xml = new TextEncoder().encode(`\uFEFF  ${writeMarcXml([record])}`)
+
+    expect(parseMarc(xml)[0].fields).toEqual(record.fields)
+    expect(parseMarc(writeMarc21([record]))[0].fields).toEqual(record.fields)
+  })
+})
@@ -0,0 +1,66 @@
+/** @jest-environment node */
+import { inflateRawSync } from 'zlib'
+import { buildXlsx } from '../xlsx-writer'
+
+// Reads the parts back out of the zip through the local file headers
+function unzip(buffer: Buffer) {
+  const parts: Record<string, string> = {}
+  let offset = 0
+
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18)
+    const nameLength = buffer.readUInt16LE(offset + 26)
+    const name = buffer.toString('utf8', offset + 30, offset + 30 + nameLength)
+    const start = offset + 30 + nameLength
+
+    parts[name] = inflateRawSync(buffer.subarray(start, start + compressedSize)).toString('utf8')
+    offset = start + compressedSize
+  }
+
+  return parts
+}
+
+describe('xlsx writer', () => {
+  it('packages a workbook with one sheet and its styles', () => {
+    const parts = unzip(buildXlsx('Inventario', ['title'], [{ title: 'Rayuela' }]))
+
+    expect(Object.keys(parts)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ])
+    expect(parts['xl/workbook.xml']).toContain('<sheet name="Inventario" sheetId="1" r:id="rId1"/>')
+  })
+
+  it('writes a bold header row and typed cells', () => {
+    const sheet = unzip(
+      buildXlsx('Préstamos', ['title', 'copies', 'overdue', 'note'], [
+        { title: 'Cien años <de> soledad & otros', copies: 3, overdue: true, note: null },
+      ])
+    )['xl/worksheets/sheet1.xml']
+
+    expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">title</t></is></c>')
+    expect(sheet).toContain('<t xml:space="preserve">Cien años &lt;de&gt; soledad &amp; otros</t>')
+    expect(sheet).toContain('<c r="B2"><v>3</v></c>')
+    expect(sheet).toContain('<c r="C2" t="b"><v>1</v></c>')
+    expect(sheet).toContain('<c r="D2"/>')
+  })
+
+  it('names columns past Z like a spreadsheet does', () => {
+    const columns = Array.from({ length: 28 }, (_, index) => `c${index}`)
+    const sheet = unzip(buildXlsx('Ancho', columns, []))['xl/worksheets/sheet1.xml']
+
+    expect(sheet).toContain('<c r="Z1"')
+    expect(sheet).toContain('<c r="AA1"')
+    expect(sheet).toContain('<c r="AB1"')
+  })
+
+  it('cleans sheet names Excel would reject', () => {
+    const parts = unzip(buildXlsx('Reporte: 2026/10 [final] con un nombre muy largo', ['a'], []))
+
+    expect(parts['xl/workbook.xml']).toContain('<sheet name="Reporte  2026 10  final  con un" ')
+  })
+})
@@ -0,0 +1,162 @@
+import { addDays, parseISO } from 'date-fns';
+import { ActivityEvent, ActivityType, AuditAction, AuditEntry, LibraryTenant, TenantLoan } from '@/types/tenant';
+import { isLoanOverdue, resolveOpeningHours } from '@/lib/library-hours';
+
+export const ACTIVITY_TYPES: ActivityType[] = [
+  'request',
+  'approval',
+  'rejection',
+  'borrow',
+  'return',
+  'cancellation',
+  'overdue',
+  'book',
+];
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  request: 'Solicitudes',
+  approval: 'Aprobaciones',
+  rejection: 'Rechazos',
+  borrow: 'Entregas',
+  return: 'Devoluciones',
+  cancellation: 'Cancelaciones',
+  overdue: 'Vencidos',
+  book: 'Catálogo',
+};
+
+const bookVerbs: Partial<Record<AuditAction, string>> = {
+  'book.created': 'agregó',
+  'book.updated': 'editó',
+  'book.archived': 'archivó',
+  'book.merged': 'fusionó un duplicado en',
+  'book.transferred': 'transfirió copias de',
+};
+
+// Audit actions that show up in the feed, by the activity type they become
+const AUDIT_ACTIVITY_ACTIONS: Partial<Record<ActivityType, AuditAction[]>> = {
+  approval: ['loan.approved'],
+  rejection: ['loan.rejected'],
+  book: Object.keys(bookVerbs) as AuditAction[],
+};
+
+function copies(count: number) {
+  return `${count} ${count === 1 ? 'copia' : 'copias'}`;
+}
+
+// Only these entries become events, so the store can filter and count them before paging
+export function activityAuditActions(types: ActivityType[] = []) {
+  return (types.length ? types : ACTIVITY_TYPES).flatMap((type) => AUDIT_ACTIVITY_ACTIONS[type] || []);
+}
+
+/**
+ * Loans carry their own request, handover, return and cancellation times.
+ * Approvals, rejections and catalog changes only exist in the audit log, so
+ * they show up from the moment the log started recording.
+ */
+export function buildActivityFeed(
+  loans: TenantLoan[],
+  audit: AuditEntry[],
+  libraries: LibraryTenant[],
+  now = new Date()
+): ActivityEvent[] {
+  const libraryNames = new Map(libraries.map((library) => [library.id, library.name]));
+  const loansById = new Map(loans.map((loan) => [loan.id, loan]));
+  const events: ActivityEvent[] = [];
+
+  function push(event: Omit<ActivityEvent, 'library'>) {
+    events.push({ ...event, library: libraryNames.get(event.library_id) });
+  }
+
+  loans.forEach((loan) => {
+    const title = loan.book?.title || 'Título desconocido';
+    const base = { library_id: loan.library_id, user: loan.full_name, book: title };
+
+    push({
+      ...base,
+      id: `${loan.id}:request`,
+      type: 'request',
+      message: `${loan.full_name} solicitó ${copies(loan.requested_copies)} de «${title}»`,
+      timestamp: loan.created_at,
+    });
+
+    if (loan.handled_at) {
+      push({
+        ...base,
+        id: `${loan.id}:borrow`,
+        type: 'borrow',
+        message: `${loan.full_name} recibió ${copies(loan.requested_copies)} de «${title}»`,
+        timestamp: loan.handled_at,
+      });
+    }
+
+    if (loan.returned_at) {
+      push({
+        ...base,
+        id: `${loan.id}:return`,
+        type: 'return',
+        message: `${loan.full_name} devolvió «${title}»`,
+        timestamp: loan.returned_at,
+      });
+    }
+
+    if (loan.cancelled_at) {
+      push({
+        ...base,
+        id: `${loan.id}:cancellation`,
+        type: 'cancellation',
+        message:
+          loan.cancelled_by === 'patron'
+            ? `${loan.full_name} canceló su solicitud de «${title}»`
+            : `La biblioteca canceló la solicitud de «${title}» de ${loan.full_name}`,
+        timestamp: loan.cancelled_at,
+      });
+    }
+
+    const library = libraries.find((item) => item.id === loan.library_id);
+    if (loan.due_date && isLoanOverdue(loan, resolveOpeningHours(library), now)) {
+      push({
+        ...base,
+        id: `${loan.id}:overdue`,
+        type: 'overdue',
+        message: `«${title}» de ${loan.full_name} venció el ${loan.due_date}`,
+        timestamp: addDays(parseISO(loan.due_date), 1).toISOString(),
+      });
+    }
+  });
+
+  audit.forEach((entry) => {
+    const snapshot = entry.after || entry.before || {};
+
+    if (entry.action === 'loan.approved' || entry.action === 'loan.rejected') {
+      const loan = loansById.get(entry.entity_id);
+      const title = loan?.book?.title || 'Título desconocido';
+      const patron = String(snapshot.full_name || loan?.full_name || '');
+
+      push({
+        id: entry.id,
+        type: entry.action === 'loan.approved' ? 'approval' : 'rejection',
+        library_id: entry.library_id,
+        user: patron,
+        book: title,
+        message: `${entry.librarian_name} ${entry.action === 'loan.approved' ? 'aprobó' : 'rechazó'} «${title}» para ${patron}`,
+        timestamp: entry.created_at,
+      });
+    }
+
+    if (entry.entity_type === 'book') {
+      const title = String(snapshot.title || 'Título desconocido');
+
+      push({
+        id: entry.id,
+        type: 'book',
+        library_id: entry.library_id,
+        user: entry.librarian_name,
+        book: title,
+        message: `${entry.librarian_name} ${bookVerbs[entry.action] || 'modificó'} «${title}» en el catálogo`,
+        timestamp: entry.created_at,
+      });
+    }
+  });
+
+  return events.sort((a, b) => +new Date(b.timestamp) - +new Date(a.timestamp));
+}
@@ -0,0 +1,165 @@
+import { BookDuplicate, TenantBook } from '@/types/tenant';
+import { parseIsbn } from '@/lib/isbn';
+
+/**
+ * Fuzzy matching of catalog records that describe the same title. A shared
+ * book code (ISBN-10 and ISBN-13 compare as one) is always a duplicate; so is
+ * a near-identical title by a matching author. The same title by a different
+ * author is a different work and is left alone.
+ */
+
+export type DuplicateCandidate = Pick<TenantBook, 'id' | 'title' | 'author' | 'book_code'>;
+
+export const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+// Leading articles are dropped so "The House on Mango Street" matches "House on Mango Street"
+const LEADING_ARTICLES = new Set(['the', 'a', 'an', 'el', 'la', 'los', 'las', 'lo', 'un', 'una', 'unos', 'unas']);
+
+interface PreparedBook {
+  book: DuplicateCandidate;
+  title: string;
+  author: string[];
+  code: string;
+  pairs: Map<string, number>;
+  pairCount: number;
+}
+
+function fold(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function normalizeBookTitle(title: string) {
+  const words = fold(title).split(' ').filter(Boolean);
+
+  while (words.length > 1 && LEADING_ARTICLES.has(words[0])) {
+    words.shift();
+  }
+
+  return words.join(' ');
+}
+
+// Word order is ignored so "Cisneros, Sandra" and "Sandra Cisneros" are the same author
+export function normalizeBookAuthor(author: string) {
+  return fold(author).split(' ').filter(Boolean).sort();
+}
+
+// ISBNs compare by their ISBN-13; other codes ignore case, spaces and hyphens
+export function normalizeBookCode(code: string | null | undefined) {
+  if (!code?.trim()) {
+    return '';
+  }
+
+  return parseIsbn(code)?.isbn13 || code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function bigrams(value: string) {
+  const counts = new Map<string, number>();
+
+  for (let index = 0; index < value.length - 1; index += 1) {
+    const pair = value.slice(index, index + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+
+  return counts;
+}
+
+// Sørensen–Dice coefficient over character pairs: 1 for equal strings, 0 for nothing in common
+function dice(a: PreparedBook, b: PreparedBook) {
+  if (a.title === b.title) {
+    return 1;
+  }
+
+  const total = a.pairCount + b.pairCount;
+  // Shared pairs can never exceed the shorter title's, so very different lengths are skipped early
+  if (!total || (2 * Math.min(a.pairCount, b.pairCount)) / total < TITLE_SIMILARITY_THRESHOLD) {
+    return 0;
+  }
+
+  let shared = 0;
+  a.pairs.forEach((count, pair) => {
+    shared += Math.min(count, b.pairs.get(pair) || 0);
+  });
+
+  return (2 * shared) / total;
+}
+
+function authorsMatch(a: string[], b: string[]) {
+  if (!a.length || !b.length) {
+    return false;
+  }
+
+  if (a.join(' ') === b.join(' ')) {
+    return true;
+  }
+
+  // "García Márquez" is the same author as "Gabriel García Márquez"
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.some((word) => word.length > 2) && shorter.every((word) => longer.includes(word));
+}
+
+function summary(book: DuplicateCandidate) {
+  return { book_id: book.id, title: book.title, author: book.author, book_code: book.book_code };
+}
+
+function prepare(book: DuplicateCandidate): PreparedBook {
+  const title = normalizeBookTitle(book.title);
+  const pairs = bigrams(title);
+
+  return {
+    book,
+    title,
+    author: normalizeBookAuthor(book.author),
+    code: normalizeBookCode(book.book_code),
+    pairs,
+    pairCount: Math.max(title.length - 1, 0),
+  };
+}
+
+/**
+ * Normalizes `books` once so many candidates can be checked against them, as
+ * an import does row by row. Rows accepted along the way are `add`ed so later
+ * rows in the same file are checked against them too.
+ */
+export function createBookDuplicateIndex(books: DuplicateCandidate[]) {
+  const entries = books.map(prepare);
+
+  return {
+    add(book: DuplicateCandidate) {
+      entries.push(prepare(book));
+    },
+
+    // Matches for `book`, strongest first; `excludeId` skips the record being edited
+    find(book: Omit<DuplicateCandidate, 'id'>, excludeId?: string): BookDuplicate[] {
+      const candidate = prepare({ ...book, id: '' });
+      const matches: BookDuplicate[] = [];
+
+      entries.forEach((entry) => {
+        if (entry.book.id === excludeId) {
+          return;
+        }
+
+        if (candidate.code && candidate.code === entry.code) {
+          matches.push({ ...summary(entry.book), reason: 'book_code', score: 1 });
+          return;
+        }
+
+        const score = dice(candidate, entry);
+        if (score >= TITLE_SIMILARITY_THRESHOLD && authorsMatch(candidate.author, entry.author)) {
+          matches.push({ ...summary(entry.book), reason: 'title', score: Math.round(score * 100) / 100 });
+        }
+      });
+
+      return matches.sort((a, b) => b.score - a.score);
+    },
+  };
+}
+
+export function findBookDuplicates(book: Omit<DuplicateCandidate, 'id'>, books: DuplicateCandidate[], excludeId?: string) {
+  return createBookDuplicateIndex(books).find(book, excludeId);
+}
@@ -0,0 +1,144 @@
+import { BookMutationPayload } from '@/types/tenant';
+import { detectDelimiter, parseCsv, unguardCsvValue } from '@/lib/csv';
+
+// Column order of the import template; headers match BookMutationPayload fields
+export const BOOK_IMPORT_COLUMNS = [
+  'title',
+  'author',
+  'categories',
+  'book_code',
+  'editorial',
+  'edition',
+  'cover_type',
+  'shelf_location',
+  'cost',
+  'acquired_at',
+  'image_url',
+  'good_copies',
+  'fair_copies',
+  'bad_copies',
+] as const;
+
+export type BookImportColumn = (typeof BOOK_IMPORT_COLUMNS)[number];
+
+const REQUIRED_COLUMNS: BookImportColumn[] = ['title', 'author', 'categories'];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface ParsedBookRow {
+  line: number;
+  payload: BookMutationPayload;
+  errors: string[];
+}
+
+export interface BookImportOptions {
+  dryRun: boolean;
+  includeDuplicates: boolean;
+}
+
+// Anything but an explicit false is a dry run, so a malformed request never writes
+export function parseBookImportOptions(body: { dryRun?: unknown; includeDuplicates?: unknown }): BookImportOptions {
+  return {
+    dryRun: body.dryRun !== false,
+    includeDuplicates: Boolean(body.includeDuplicates),
+  };
+}
+
+export function bookImportTemplate() {
+  return [
+    BOOK_IMPORT_COLUMNS.join(','),
+    'Cien años de soledad,Gabriel García Márquez,novela;clásicos,,Sudamericana,1ra,softcover,A-3,350,2024-02-01,,3,1,0',
+  ].join('\r\n');
+}
+
+function copiesValue(raw: string, column: BookImportColumn, errors: string[]) {
+  if (!raw.trim()) {
+    return 0;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    errors.push(`${column} debe ser un número entero mayor o igual a 0.`);
+    return 0;
+  }
+
+  return value;
+}
+
+/**
+ * Parses an import file into payloads for `libraryId`. Problems the payload
+ * type cannot express (non-numeric copies, unknown cover types, bad dates) are
+ * reported per row; the rules shared with the book form run afterwards.
+ */
+export function parseBookImport(text: string, libraryId: string): ParsedBookRow[] {
+  const [header, ...records] = parseCsv(text, detectDelimiter(text));
+
+  if (!header) {
+    throw new Error('El archivo está vacío.');
+  }
+
+  const columns = header.values.map((value) => value.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+
+  if (missing.length) {
+    throw new Error(`Faltan columnas obligatorias: ${missing.join(', ')}.`);
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`El archivo tiene ${records.length} filas; el máximo por importación es ${MAX_IMPORT_ROWS}.`);
+  }
+
+  return records.map(({ line, values }) => {
+    const errors: string[] = [];
+    const cell = (column: BookImportColumn) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? '' : unguardCsvValue((values[index] || '').trim());
+    };
+    const optional = (column: BookImportColumn) => cell(column) || undefined;
+
+    const coverType = cell('cover_type').toLowerCase();
+    if (coverType && coverType !== 'hardcover' && coverType !== 'softcover') {
+      errors.push('cover_type debe ser hardcover o softcover.');
+    }
+
+    const cost = cell('cost') ? Number(cell('cost')) : undefined;
+    if (cost !== undefined && (!Number.isFinite(cost) || cost < 0)) {
+      errors.push('cost debe ser un número positivo.');
+    }
+
+    const acquiredAt = cell('acquired_at');
+    if (acquiredAt && (!/^\d{4}-\d{2}-\d{2}$/.test(acquiredAt) || Number.isNaN(Date.parse(acquiredAt)))) {
+      errors.push('acquired_at debe tener el formato AAAA-MM-DD.');
+    }
+
+    if (values.length > columns.length) {
+      errors.push('La fila tiene más valores que columnas; revisa las comas sin comillas.');
+    }
+
+    return {
+      line,
+      errors,
+      payload: {
+        library_id: libraryId,
+        title: cell('title'),
+        author: cell('author'),
+        // Categories accept ; or | so they never clash with the column separator
+        categories: cell('categories')
+          .split(/[;|]/)
+          .map((category) => category.trim())
+          .filter(Boolean),
+        book_code: optional('book_code'),
+        editorial: optional('editorial'),
+        edition: optional('edition'),
+        cover_type: coverType === 'hardcover' || coverType === 'softcover' ? coverType : undefined,
+        shelf_location: optional('shelf_location'),
+        cost: cost !== undefined && Number.isFinite(cost) ? cost : undefined,
+        acquired_at: acquiredAt || undefined,
+        image_url: optional('image_url'),
+        good_copies: copiesValue(cell('good_copies'), 'good_copies', errors),
+        fair_copies: copiesValue(cell('fair_copies'), 'fair_copies', errors),
+        bad_copies: copiesValue(cell('bad_copies'), 'bad_copies', errors),
+      },
+    };
+  });
+}
@@ -0,0 +1,196 @@
+import { format } from 'date-fns';
+import { BookCopy, CopyCondition, LibraryTenant, MarcMappingPreview, TenantBook } from '@/types/tenant';
+import { MAX_IMPORT_ROWS, ParsedBookRow } from '@/lib/book-import';
+import { MarcField, MarcRecord, subfieldValues } from '@/lib/marc';
+
+/**
+ * Where each book field is read from. The first tag with a value wins; items
+ * follow Koha's 952 holdings field, one per copy. Exports write the first tag
+ * listed, so a MARC export imports back into the same fields.
+ */
+export const MARC_FIELD_MAP: Array<{ field: string; tags: string[]; subfields: string }> = [
+  { field: 'title', tags: ['245'], subfields: 'ab' },
+  { field: 'author', tags: ['100', '110', '111', '700'], subfields: 'a' },
+  { field: 'edition', tags: ['250'], subfields: 'a' },
+  { field: 'editorial', tags: ['264', '260'], subfields: 'b' },
+  { field: 'categories', tags: ['650', '651', '655'], subfields: 'a' },
+  { field: 'book_code', tags: ['099', '090'], subfields: 'a' },
+  { field: 'image_url', tags: ['856'], subfields: 'u' },
+  { field: 'copies', tags: ['952'], subfields: 'px' },
+  { field: 'book_code', tags: ['952'], subfields: 'o' },
+  { field: 'shelf_location', tags: ['952'], subfields: 'c' },
+  { field: 'acquired_at', tags: ['952'], subfields: 'd' },
+  { field: 'cost', tags: ['952'], subfields: 'g' },
+];
+
+const COPY_CONDITIONS: CopyCondition[] = ['good', 'fair', 'bad'];
+
+// ISBD punctuation closes MARC subfields ("Cien años de soledad /"); the catalog stores bare values
+function clean(value: string | undefined) {
+  return (value || '').replace(/[\s/:;,=.]+$/, '').trim();
+}
+
+function first(record: MarcRecord, tags: string[], code: string) {
+  for (const tag of tags) {
+    const value = clean(subfieldValues(record, tag, code)[0]);
+    if (value) return value;
+  }
+
+  return '';
+}
+
+function isCoverUrl(field: MarcField) {
+  const subfields = field.subfields || [];
+  return subfields.some((subfield) => subfield.code === '3' && /portada|cover/i.test(subfield.value)) ||
+    subfields.some((subfield) => subfield.code === 'u' && /\.(jpe?g|png|gif|webp)(\?.*)?$/i.test(subfield.value));
+}
+
+/**
+ * Maps MARC records onto book payloads for `libraryId`. `line` is the record's
+ * position in the file. Records without 952 items import with no copies.
+ */
+export function parseBookMarc(records: MarcRecord[], libraryId: string): ParsedBookRow[] {
+  if (!records.length) {
+    throw new Error('El archivo no contiene registros MARC.');
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`El archivo tiene ${records.length} registros; el máximo por importación es ${MAX_IMPORT_ROWS}.`);
+  }
+
+  return records.map((record, index) => {
+    const errors: string[] = [];
+    const items = record.fields.filter((field) => field.tag === '952');
+    const item = (code: string) => clean(subfieldValues(record, '952', code)[0]) || undefined;
+    const subtitle = clean(subfieldValues(record, '245', 'b')[0]);
+    const title = clean(subfieldValues(record, '245', 'a')[0]);
+    const conditions = items.map((field) => {
+      const note = (field.subfields || []).find((subfield) => subfield.code === 'x')?.value.trim().toLowerCase();
+      return COPY_CONDITIONS.includes(note as CopyCondition) ? (note as CopyCondition) : 'good';
+    });
+
+    // Koha costs may carry a currency ("L 350.00"); anything left that is not a number is an error
+    const rawCost = item('g')?.replace(/[^\d.]/g, '');
+    const cost = rawCost === undefined ? undefined : rawCost ? Number(rawCost) : NaN;
+    if (cost !== undefined && !Number.isFinite(cost)) {
+      errors.push('El costo del ejemplar (952 $g) no es un número.');
+    }
+
+    const acquiredAt = item('d');
+    if (acquiredAt && (!/^\d{4}-\d{2}-\d{2}$/.test(acquiredAt) || Number.isNaN(Date.parse(acquiredAt)))) {
+      errors.push('La fecha de adquisición (952 $d) debe tener el formato AAAA-MM-DD.');
+    }
+
+    const categories = ['650', '651', '655']
+      .flatMap((tag) => subfieldValues(record, tag, 'a'))
+      .map(clean)
+      .filter(Boolean);
+
+    return {
+      line: index + 1,
+      errors,
+      payload: {
+        library_id: libraryId,
+        title: subtitle ? `${title}: ${subtitle}` : title,
+        author: first(record, ['100', '110', '111', '700'], 'a'),
+        categories: Array.from(new Set(categories)),
+        book_code: first(record, ['099', '090'], 'a') || item('o'),
+        editorial: first(record, ['264', '260'], 'b') || undefined,
+        edition: first(record, ['250'], 'a') || undefined,
+        shelf_location: item('c'),
+        cost: cost !== undefined && Number.isFinite(cost) ? cost : undefined,
+        acquired_at: acquiredAt || undefined,
+        image_url: record.fields.filter((field) => field.tag === '856' && isCoverUrl(field)).flatMap((field) =>
+          (field.subfields || []).filter((subfield) => subfield.code === 'u').map((subfield) => subfield.value.trim())
+        )[0],
+        good_copies: conditions.filter((condition) => condition === 'good').length,
+        fair_copies: conditions.filter((condition) => condition === 'fair').length,
+        bad_copies: conditions.filter((condition) => condition === 'bad').length,
+      },
+    };
+  });
+}
+
+// How many records use each tag, split by whether the import reads it
+export function previewMarcMapping(records: MarcRecord[]): MarcMappingPreview {
+  const tags = Array.from(new Set(records.flatMap((record) => record.fields.map((field) => field.tag)))).sort();
+  const mapped: MarcMappingPreview['mapped'] = [];
+  const unmapped: MarcMappingPreview['unmapped'] = [];
+
+  tags.forEach((tag) => {
+    const fields = records.map((record) => record.fields.filter((field) => field.tag === tag));
+    let read = false;
+
+    MARC_FIELD_MAP.filter((rule) => rule.tags.includes(tag)).forEach((rule) => {
+      // A rule only counts records where the tag carries one of the subfields it reads
+      const used = fields.map((list) =>
+        list
+          .map((field) => (field.subfields || []).filter((subfield) => rule.subfields.includes(subfield.code)))
+          .filter((subfields) => subfields.length)
+      );
+      const count = used.filter((list) => list.length).length;
+
+      if (count) {
+        read = true;
+        mapped.push({
+          tag,
+          field: rule.field,
+          records: count,
+          sample: used.find((list) => list.length)![0].map((subfield) => `$${subfield.code} ${subfield.value}`).join(' '),
+        });
+      }
+    });
+
+    if (!read) {
+      unmapped.push({ tag, records: fields.filter((list) => list.length).length });
+    }
+  });
+
+  return { mapped, unmapped };
+}
+
+function dataField(tag: string, ind1: string, ind2: string, subfields: Array<[string, string | number | null | undefined]>): MarcField | null {
+  const present = subfields
+    .filter(([, value]) => value !== null && value !== undefined && String(value).trim() !== '')
+    .map(([code, value]) => ({ code, value: String(value) }));
+
+  return present.length ? { tag, ind1, ind2, subfields: present } : null;
+}
+
+/**
+ * One bibliographic record per book, with a 952 item per copy carrying its
+ * library code (barcode), shelf, cost, acquisition date and condition.
+ */
+export function bookToMarc(book: TenantBook, copies: BookCopy[], library: LibraryTenant | undefined, now = new Date()): MarcRecord {
+  // 008: entry date, single known date (unknown here), no place, undetermined language
+  const fixed = `${format(now, 'yyMMdd')}s    ${' '.repeat(4)}xx ${' '.repeat(17)}und d`;
+
+  const fields: Array<MarcField | null> = [
+    { tag: '001', value: book.id },
+    { tag: '005', value: `${format(now, 'yyyyMMddHHmmss')}.0` },
+    { tag: '008', value: fixed },
+    dataField('099', ' ', ' ', [['a', book.book_code]]),
+    dataField('100', '1', ' ', [['a', book.author]]),
+    dataField('245', '1', '0', [['a', book.title]]),
+    dataField('250', ' ', ' ', [['a', book.edition]]),
+    dataField('264', ' ', '1', [['b', book.editorial]]),
+    ...book.categories.map((category) => dataField('650', ' ', '4', [['a', category]])),
+    dataField('856', '4', '2', [['3', book.image_url ? 'Portada' : null], ['u', book.image_url]]),
+    ...copies.map((copy) =>
+      dataField('952', ' ', ' ', [
+        ['a', library?.subdomain],
+        ['c', copy.shelf_location || book.shelf_location],
+        ['d', book.acquired_at?.slice(0, 10)],
+        ['g', book.cost],
+        ['o', book.book_code],
+        ['p', copy.code],
+        ['x', copy.condition],
+      ])
+    ),
+  ];
+
+  return {
+    leader: '00000nam a2200000 i 4500',
+    fields: fields.filter((field): field is MarcField => Boolean(field)),
+  };
+}
@@ -0,0 +1,145 @@
+import { CatalogExportFilters, CatalogExportFormat, CatalogExportKind, LoanStatus, TenantBook, TenantLoan } from '@/types/tenant';
+import { BOOK_IMPORT_COLUMNS } from '@/lib/book-import';
+import { CsvValue, formatCsv } from '@/lib/csv';
+
+// Book columns start with the import template so an export can be imported back as is
+export const BOOK_EXPORT_COLUMNS = [...BOOK_IMPORT_COLUMNS, 'library_codes', 'total_copies', 'available_copies', 'id'];
+
+export const LOAN_EXPORT_COLUMNS = [
+  'id',
+  'book_id',
+  'title',
+  'author',
+  'full_name',
+  'identifier',
+  'requested_copies',
+  'status',
+  'created_at',
+  'handled_at',
+  'due_date',
+  'returned_at',
+  'copy_codes',
+];
+
+export const CATALOG_EXPORT_COLUMNS: Record<CatalogExportKind, string[]> = {
+  books: BOOK_EXPORT_COLUMNS,
+  loans: LOAN_EXPORT_COLUMNS,
+};
+
+export const BOOK_EXPORT_STATUSES = ['available', 'unavailable'];
+
+export const LOAN_EXPORT_STATUSES: LoanStatus[] = ['pending', 'approved', 'handled', 'returned', 'rejected', 'cancelled'];
+
+export const CATALOG_EXPORT_FORMATS: CatalogExportFormat[] = ['csv', 'json'];
+
+type ExportValue = CsvValue | string[];
+
+export type CatalogExportRow = Record<string, ExportValue>;
+
+function bookRow(book: TenantBook): CatalogExportRow {
+  return {
+    title: book.title,
+    author: book.author,
+    categories: book.categories,
+    book_code: book.book_code || null,
+    editorial: book.editorial || null,
+    edition: book.edition || null,
+    cover_type: book.cover_type || null,
+    shelf_location: book.shelf_location || null,
+    cost: book.cost ?? null,
+    acquired_at: book.acquired_at ? book.acquired_at.slice(0, 10) : null,
+    image_url: book.image_url || null,
+    good_copies: book.good_copies,
+    fair_copies: book.fair_copies,
+    bad_copies: book.bad_copies,
+    library_codes: book.library_codes,
+    total_copies: book.total_copies,
+    available_copies: book.available_copies,
+    id: book.id,
+  };
+}
+
+function loanRow(loan: TenantLoan, books: Map<string, TenantBook>): CatalogExportRow {
+  const book = loan.book || books.get(loan.book_id);
+
+  return {
+    id: loan.id,
+    book_id: loan.book_id,
+    title: book?.title || null,
+    author: book?.author || null,
+    full_name: loan.full_name,
+    identifier: loan.identifier,
+    requested_copies: loan.requested_copies,
+    status: loan.status,
+    created_at: loan.created_at,
+    handled_at: loan.handled_at || null,
+    due_date: loan.due_date || null,
+    returned_at: loan.returned_at || null,
+    copy_codes: loan.copy_codes || [],
+  };
+}
+
+// Dates compare as YYYY-MM-DD prefixes, so `to` covers the whole day
+function inRange(value: string | null | undefined, filters: CatalogExportFilters) {
+  if (!filters.from && !filters.to) {
+    return true;
+  }
+
+  const day = value ? value.slice(0, 10) : '';
+  return Boolean(day) && (!filters.from || day >= filters.from) && (!filters.to || day <= filters.to);
+}
+
+export function filterCatalogBooks(books: TenantBook[], filters: CatalogExportFilters) {
+  return books
+    .filter((book) => inRange(book.acquired_at, filters))
+    .filter(
+      (book) => !filters.status || (filters.status === 'available' ? book.available_copies > 0 : book.available_copies === 0)
+    );
+}
+
+/**
+ * Rows for a library export. Books filter by when they were acquired and
+ * whether any copy is on the shelf; loans by when they were requested and
+ * their status. Only the chosen columns are kept, in canonical order.
+ */
+export function buildCatalogExport(
+  kind: CatalogExportKind,
+  sources: { books: TenantBook[]; loans: TenantLoan[] },
+  filters: CatalogExportFilters
+) {
+  const available = CATALOG_EXPORT_COLUMNS[kind];
+  const books = new Map(sources.books.map((book) => [book.id, book]));
+  const columns = filters.columns?.length ? available.filter((column) => filters.columns!.includes(column)) : available;
+  const rows =
+    kind === 'books'
+      ? filterCatalogBooks(sources.books, filters).map(bookRow)
+      : sources.loans
+          .filter((loan) => inRange(loan.created_at, filters))
+          .filter((loan) => !filters.status || loan.status === filters.status)
+          .map((loan) => loanRow(loan, books));
+
+  return {
+    columns,
+    rows: rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column]]))),
+  };
+}
+
+// Lists become `a;b` in CSV, matching the separator the import splits categories on
+export function serializeCatalogExport(
+  exportFormat: CatalogExportFormat,
+  columns: string[],
+  rows: CatalogExportRow[]
+) {
+  if (exportFormat === 'json') {
+    return JSON.stringify(rows, null, 2);
+  }
+
+  return formatCsv(
+    columns,
+    rows.map((row) =>
+      Object.fromEntries(
+        Object.entries(row).map(([column, value]) => [column, Array.isArray(value) ? value.join(';') : value])
+      )
+    )
+  );
+}
@@ -0,0 +1,64 @@
+import { addDays, format } from 'date-fns';
+import { LibraryCirculationPolicy, LibraryOpeningHours, LibraryTenant, LoanStatus } from '@/types/tenant';
+import { nextOpenDate } from '@/lib/library-hours';
+
+// Loans that still hold a place against the patron's limit
+export const OPEN_LOAN_STATUSES: LoanStatus[] = ['pending', 'approved', 'handled'];
+
+/**
+ * Circulation policy a library uses. Libraries that never configured one keep the
+ * limits the request form always had: three months at most and a ten-minute
+ * duplicate window, with no caps on copies or open loans.
+ */
+export function resolveCirculationPolicy(
+  library: Pick<LibraryTenant, 'circulation_policy'> | null | undefined
+): LibraryCirculationPolicy {
+  return (
+    library?.circulation_policy || {
+      max_loan_days: 90,
+      default_loan_days: 14,
+      max_copies_per_request: null,
+      max_active_loans: null,
+      duplicate_window_minutes: 10,
+    }
+  );
+}
+
+export function defaultDueDate(policy: LibraryCirculationPolicy, from = new Date()) {
+  return format(addDays(from, policy.default_loan_days), 'yyyy-MM-dd');
+}
+
+// When the last allowed day is a closed day, the next open day is allowed too
+export function latestDueDate(
+  policy: LibraryCirculationPolicy,
+  hours: LibraryOpeningHours | null = null,
+  from = new Date()
+) {
+  return nextOpenDate(hours, format(addDays(from, policy.max_loan_days), 'yyyy-MM-dd'));
+}
+
+export function assertDueDateAllowed(
+  policy: LibraryCirculationPolicy,
+  dueDate: string,
+  hours: LibraryOpeningHours | null = null,
+  from = new Date()
+) {
+  if (dueDate > latestDueDate(policy, hours, from)) {
+    throw new Error(`La fecha de devolución supera el máximo de ${policy.max_loan_days} días de préstamo.`);
+  }
+}
+
+export function assertCopiesAllowed(policy: LibraryCirculationPolicy, requestedCopies: number) {
+  if (policy.max_copies_per_request !== null && requestedCopies > policy.max_copies_per_request) {
+    throw new Error(`Solo se pueden solicitar ${policy.max_copies_per_request} copia(s) por título.`);
+  }
+}
+
+// `openLoans` already excludes the loans being requested or moved
+export function assertActiveLoansAllowed(policy: LibraryCirculationPolicy, openLoans: number, adding: number) {
+  if (policy.max_active_loans !== null && openLoans + adding > policy.max_active_loans) {
+    throw new Error(
+      `El lector ya tiene ${openLoans} préstamo(s) abiertos; el máximo es ${policy.max_active_loans}.`
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * RFC 4180 CSV parsing: quoted fields may hold commas, quotes ("") and line
+ * breaks. Excel's byte order mark is dropped and blank lines are skipped.
+ * Each record keeps the line it started on so errors can point back to it.
+ */
+export function parseCsv(text: string, delimiter = ','): Array<{ line: number; values: string[] }> {
+  const records: Array<{ line: number; values: string[] }> = [];
+  const source = text.replace(/^\uFEFF/, '');
+  let values: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    values.push(field);
+    if (values.length > 1 || values[0].trim() !== '') {
+      records.push({ line: recordLine, values });
+    }
+    values = [];
+    field = '';
+  };
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line += 1;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index += 1;
+      endRecord();
+      line += 1;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Hay comillas sin cerrar a partir de la línea ${recordLine}.`);
+  }
+
+  if (field !== '' || values.length) {
+    endRecord();
+  }
+
+  return records;
+}
+
+// Excel in Spanish locales saves CSV with semicolons; whichever separator the header uses wins
+export function detectDelimiter(text: string) {
+  const header = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] || '';
+  return (header.match(/;/g) || []).length > (header.match(/,/g) || []).length ? ';' : ',';
+}
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+function csvCell(value: CsvValue) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+
+  // Spreadsheet apps run cells that start like a formula, so text gets a leading quote
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The byte order mark makes Excel read accents as UTF-8
+export function formatCsv(columns: string[], rows: Array<Record<string, CsvValue>>) {
+  const lines = [columns.join(','), ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(','))];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+// Undoes the formula guard added by formatCsv so exported values import unchanged
+export function unguardCsvValue(value: string) {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
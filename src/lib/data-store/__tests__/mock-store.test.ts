@@ -0,0 +1,202 @@
+import { addDays, format } from 'date-fns'
+import { createMockStore, mockDataset } from '../mock-store'
+import { TenantDataset } from '../types'
+import { BookCopy } from '@/types/tenant'
+
+const librarian = mockDataset.librarians[0]
+
+function freshStore() {
+  return createMockStore(JSON.parse(JSON.stringify(mockDataset)) as TenantDataset)
+}
+
+describe('mock store loan requests', () => {
+  it('leaves every line as it was when a later line fails', async () => {
+    const dataset = JSON.parse(JSON.stringify(mockDataset)) as TenantDataset
+    const { copies: copyList, loans: loanList } = dataset
+    const store = createMockStore(dataset)
+    const { group, loans } = await store.createLoanGroup(
+      'lib-honduras',
+      {
+        full_name: 'Lucía Méndez',
+        identifier: 'lucia@example.test',
+        due_date: '',
+        items: [
+          { book_id: 'book-1', requested_copies: 1 },
+          { book_id: 'book-2', requested_copies: 1 },
+        ],
+      },
+      '127.0.0.1',
+      'hash'
+    )
+    const [first, second] = loans.slice().sort((a, b) => a.book_id.localeCompare(b.book_id))
+
+    await store.transitionLoanGroup(librarian, group.id, [
+      { loanId: first.id, status: 'approved', input: {} },
+      { loanId: second.id, status: 'approved', input: {} },
+    ])
+
+    // The second line scans a copy of the first book, which is not on this book's shelf
+    const firstCopies = JSON.parse(JSON.stringify(await store.listCopies('book-1')))
+    const wrongCode = firstCopies.find((copy: BookCopy) => copy.status === 'available').code
+
+    await expect(
+      store.transitionLoanGroup(librarian, group.id, [
+        { loanId: first.id, status: 'handled', input: { deliveryCondition: { good: 1, fair: 0, bad: 0 } } },
+        { loanId: second.id, status: 'handled', input: { copyCodes: [wrongCode] } },
+      ])
+    ).rejects.toThrow(wrongCode)
+
+    // Other modules hold these arrays, so the store must never swap them out
+    expect(dataset.copies).toBe(copyList)
+    expect(dataset.loans).toBe(loanList)
+
+    const firstLoan = await store.getLoan(first.id)
+    expect(firstLoan?.status).toBe('approved')
+    expect(firstLoan?.copy_codes ?? []).toEqual([])
+    expect(await store.listCopies('book-1')).toEqual(firstCopies)
+    expect((await store.getBook('book-1'))?.available_copies).toBe(
+      firstCopies.filter((copy: BookCopy) => copy.status === 'available').length
+    )
+  })
+})
+
+describe('mock store loan handover', () => {
+  it('rejects delivery conditions that do not add up to the requested copies', async () => {
+    const store = freshStore()
+    const { loans } = await store.createLoanGroup(
+      'lib-honduras',
+      {
+        full_name: 'Lucía Méndez',
+        identifier: 'lucia@example.test',
+        due_date: '',
+        items: [{ book_id: 'book-1', requested_copies: 2 }],
+      },
+      '127.0.0.1',
+      'hash'
+    )
+    await store.transitionLoan(librarian, loans[0].id, 'approved', {})
+
+    await expect(
+      store.transitionLoan(librarian, loans[0].id, 'handled', { deliveryCondition: { good: 1, fair: 0, bad: 0 } })
+    ).rejects.toThrow('debe ser igual a 2')
+    await expect(store.transitionLoan(librarian, loans[0].id, 'handled', {})).rejects.toThrow('debe ser igual a 2')
+    expect((await store.getLoan(loans[0].id))?.status).toBe('approved')
+
+    const handled = await store.transitionLoan(librarian, loans[0].id, 'handled', {
+      deliveryCondition: { good: 1, fair: 1, bad: 0 },
+    })
+    expect(handled.delivery_condition).toEqual({ good: 1, fair: 1, bad: 0 })
+  })
+})
+
+describe('mock store audit log', () => {
+  it('filters, pages and counts entries in the store', async () => {
+    const store = freshStore()
+    const actions = ['loan.approved', 'book.updated', 'loan.handled', 'loan.approved', 'loan.rejected'] as const
+
+    for (const [index, action] of actions.entries()) {
+      await store.appendAuditEntry({
+        library_id: 'lib-honduras',
+        librarian_id: librarian.id,
+        librarian_name: librarian.full_name,
+        action,
+        entity_type: action.startsWith('book') ? 'book' : 'loan',
+        entity_id: `entity-${index}`,
+        before: null,
+        after: null,
+      })
+    }
+
+    const page = await store.listAuditEntries(
+      ['lib-honduras'],
+      { actions: ['loan.approved', 'loan.rejected'] },
+      { offset: 1, limit: 1 }
+    )
+
+    // Newest first: rejected, approved (entity-3), approved (entity-0)
+    expect(page.total).toBe(3)
+    expect(page.entries.map((entry) => entry.entity_id)).toEqual(['entity-3'])
+  })
+})
+
+describe('mock store copy transfers', () => {
+  it('moves the destination sequence past codes that travel with their copies', async () => {
+    const dataset = JSON.parse(JSON.stringify(mockDataset)) as TenantDataset
+    // Both branches share one series, so Honduras codes are valid in New York
+    dataset.libraries[1].code_format = { prefix: 'honduras', padding: 4, include_year: false, check_digit: 'none' }
+    const store = createMockStore(dataset)
+    const manager = mockDataset.librarians[1]
+
+    expect(await store.allocateLibraryCodes('lib-newyork', 1)).toEqual(['honduras0001'])
+
+    const moving = (await store.listCopies('book-1')).find((copy) => copy.code === 'honduras0005')!
+    await store.transferCopies(manager, {
+      bookId: 'book-1',
+      toLibraryId: 'lib-newyork',
+      copies: [{ id: moving.id, code: moving.code, sequence: 5 }],
+      targetBookId: 'book-4',
+      book: { ...mockDataset.books[3] },
+    })
+
+    expect(await store.allocateLibraryCodes('lib-newyork', 1)).toEqual(['honduras0006'])
+
+    // The code is free again in Honduras; a new copy there must not clash with the moved one
+    const [added] = await store.addCopies('book-1', [{ code: 'honduras0005', condition: 'good' }], manager.id)
+    expect(added.id).not.toBe(moving.id)
+    expect((await store.getCopy(moving.id))?.library_id).toBe('lib-newyork')
+  })
+})
+
+describe('mock store copy codes', () => {
+  it('never allocates a code that was typed in by hand', async () => {
+    const store = freshStore()
+    const [allocated] = await store.allocateLibraryCodes('lib-honduras', 1)
+
+    await store.addCopies('book-1', [{ code: 'honduras0050', condition: 'good', sequence: 50 }], librarian.id)
+
+    expect(allocated).not.toBe('honduras0050')
+    expect(await store.allocateLibraryCodes('lib-honduras', 1)).toEqual(['honduras0051'])
+  })
+})
+
+describe('mock store holds', () => {
+  it('keeps blocked patrons out of the queue', async () => {
+    const dataset = JSON.parse(JSON.stringify(mockDataset)) as TenantDataset
+    // Every copy of book-3 is out, so patrons may queue for it
+    dataset.books.find((book) => book.id === 'book-3')!.available_copies = 0
+    const store = createMockStore(dataset)
+    await store.createPatron('lib-honduras', { full_name: 'Pedro Ruiz', identifier: 'pedro@example.test', status: 'blocked' })
+
+    await expect(
+      store.createHold(
+        'lib-honduras',
+        { full_name: 'Pedro Ruiz', identifier: 'Pedro@example.test', book_id: 'book-3' },
+        '10.0.0.1'
+      )
+    ).rejects.toThrow('bloqueado')
+
+    const hold = await store.createHold(
+      'lib-honduras',
+      { full_name: 'Lucía Méndez', identifier: 'lucia@example.test', book_id: 'book-3' },
+      '10.0.0.2'
+    )
+    expect(hold.status).toBe('waiting')
+  })
+})
+
+describe('mock store renewals', () => {
+  const daysFromNow = (days: number) => format(addDays(new Date(), days), 'yyyy-MM-dd')
+
+  it('keeps renewed due dates within the longest loan allowed', async () => {
+    const store = freshStore()
+
+    // loan-2 is handed over, and the default policy allows loans of up to 90 days
+    await expect(store.renewLoan(librarian, 'loan-2', daysFromNow(120))).rejects.toThrow('90 días')
+    await expect(
+      store.requestLoanRenewal('lib-honduras', 'loan-2', 'luis@example.com', daysFromNow(120))
+    ).rejects.toThrow('90 días')
+
+    const renewed = await store.renewLoan(librarian, 'loan-2', daysFromNow(30))
+    expect(renewed.renewals).toHaveLength(1)
+  })
+})
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { deriveCopiesFromBook, derivePatronsFromLoans } from './helpers';
+import { createMockStore, mockDataset } from './mock-store';
+import { LibraryDataStore, TenantDataset } from './types';
+
+const DATA_FILE_NAME = 'library-data.json';
+
+function loadDataset(filePath: string): TenantDataset {
+  if (fs.existsSync(filePath)) {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<TenantDataset>;
+    const books = parsed.books || [];
+    const loans = parsed.loans || [];
+    return {
+      libraries: parsed.libraries || [],
+      books,
+      // Files written before copy records existed only carry aggregate counts
+      copies: parsed.copies || books.flatMap(deriveCopiesFromBook),
+      loans,
+      loanGroups: parsed.loanGroups || [],
+      // Files written before the patron registry existed link their loans on load
+      patrons: parsed.patrons || derivePatronsFromLoans(loans),
+      holds: parsed.holds || [],
+      ledger: parsed.ledger || [],
+      auditLog: parsed.auditLog || [],
+      librarians: parsed.librarians || [],
+      codeSequences: parsed.codeSequences || {},
+      cancelCodes: parsed.cancelCodes || {},
+    };
+  }
+
+  // First run: seed the libraries only; demo books, loans and accounts have no place in a real install
+  const seeded: TenantDataset = {
+    libraries: JSON.parse(JSON.stringify(mockDataset.libraries)),
+    books: [],
+    copies: [],
+    loans: [],
+    loanGroups: [],
+    patrons: [],
+    holds: [],
+    ledger: [],
+    auditLog: [],
+    librarians: [],
+    codeSequences: {},
+    cancelCodes: {},
+  };
+  writeDataset(filePath, seeded);
+  return seeded;
+}
+
+function writeDataset(filePath: string, data: TenantDataset) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file first so a crash mid-write never leaves a truncated dataset
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Persistent store for single-site installs without Supabase. It runs the mock
+ * store's logic over a dataset loaded from `<dataDir>/library-data.json` and
+ * rewrites that file after every mutation. Librarians are listed in the file's
+ * `librarians` array and sign in with `librarianPassword`.
+ */
+export function createFileStore(dataDir: string, librarianPassword: string): LibraryDataStore {
+  const filePath = path.join(dataDir, DATA_FILE_NAME);
+  const data = loadDataset(filePath);
+  const memory = createMockStore(data, { librarianPassword });
+  let writeQueue = Promise.resolve();
+
+  function persisting<A extends unknown[], R>(operation: (...args: A) => Promise<R>) {
+    return async (...args: A) => {
+      const result = await operation(...args);
+      const write = writeQueue.then(() => writeDataset(filePath, data));
+      writeQueue = write.catch(() => undefined);
+      await write;
+      return result;
+    };
+  }
+
+  return {
+    ...memory,
+    kind: 'file',
+    updateLibraryCodeFormat: persisting(memory.updateLibraryCodeFormat),
+    updateLibraryFeeRules: persisting(memory.updateLibraryFeeRules),
+    updateLibraryCirculationPolicy: persisting(memory.updateLibraryCirculationPolicy),
+    updateLibraryOpeningHours: persisting(memory.updateLibraryOpeningHours),
+    allocateLibraryCodes: persisting(memory.allocateLibraryCodes),
+    createBook: persisting(memory.createBook),
+    importBooks: persisting(memory.importBooks),
+    updateBook: persisting(memory.updateBook),
+    archiveBook: persisting(memory.archiveBook),
+    mergeBooks: persisting(memory.mergeBooks),
+    transferCopies: persisting(memory.transferCopies),
+    addCopies: persisting(memory.addCopies),
+    updateCopy: persisting(memory.updateCopy),
+    createLoanRequest: persisting(memory.createLoanRequest),
+    createLoanGroup: persisting(memory.createLoanGroup),
+    cancelLoanRequest: persisting(memory.cancelLoanRequest),
+    transitionLoan: persisting(memory.transitionLoan),
+    transitionLoanGroup: persisting(memory.transitionLoanGroup),
+    renewLoan: persisting(memory.renewLoan),
+    requestLoanRenewal: persisting(memory.requestLoanRenewal),
+    declineLoanRenewal: persisting(memory.declineLoanRenewal),
+    createPatron: persisting(memory.createPatron),
+    updatePatron: persisting(memory.updatePatron),
+    mergePatrons: persisting(memory.mergePatrons),
+    recordLedgerCredit: persisting(memory.recordLedgerCredit),
+    createHold: persisting(memory.createHold),
+    updateHold: persisting(memory.updateHold),
+    fulfillHold: persisting(memory.fulfillHold),
+    appendAuditEntry: persisting(memory.appendAuditEntry),
+  };
+}
@@ -0,0 +1,145 @@
+import {
+  BookCopy,
+  BookHold,
+  CopyCondition,
+  LibrarianSession,
+  LibraryTenant,
+  TenantBook,
+  TenantLoan,
+  TenantPatron,
+} from '@/types/tenant';
+import { expandConditions } from '@/lib/loan-fees';
+
+export const DEFAULT_MAX_RENEWALS = 2;
+export const HOLD_PICKUP_DAYS = 3;
+
+const CONDITION_RANK: Record<CopyCondition, number> = { good: 0, fair: 1, bad: 2 };
+
+export function nowIso() {
+  return new Date().toISOString();
+}
+
+export function ensureLibraryAccess(session: LibrarianSession, libraryId: string) {
+  if (!session.library_ids.includes(libraryId)) {
+    throw new Error('You do not have access to that library.');
+  }
+}
+
+/**
+ * Book totals as they follow from its copies. Lost and withdrawn copies keep their
+ * code but no longer count towards the collection.
+ */
+export function summarizeCopies(copies: BookCopy[]) {
+  const inCollection = copies.filter((copy) => copy.status !== 'lost' && copy.status !== 'withdrawn');
+
+  return {
+    total_copies: inCollection.length,
+    available_copies: inCollection.filter((copy) => copy.status === 'available').length,
+    good_copies: inCollection.filter((copy) => copy.condition === 'good').length,
+    fair_copies: inCollection.filter((copy) => copy.condition === 'fair').length,
+    bad_copies: inCollection.filter((copy) => copy.condition === 'bad').length,
+    library_codes: copies.map((copy) => copy.code).sort(),
+  };
+}
+
+export function sumConditions(counts: { good: number; fair: number; bad: number }) {
+  return (counts.good || 0) + (counts.fair || 0) + (counts.bad || 0);
+}
+
+/**
+ * Return conditions are recorded as counts, so the copies that went out are ranked
+ * best first and take the returned conditions in that order. This is the same
+ * pairing the fee engine charges damage for.
+ */
+export function assignReturnConditions(copies: BookCopy[], counts: { good: number; fair: number; bad: number }) {
+  const conditions = expandConditions(counts);
+
+  return [...copies]
+    .sort((a, b) => CONDITION_RANK[a.condition] - CONDITION_RANK[b.condition] || a.code.localeCompare(b.code))
+    .map((copy, index) => ({ copy, condition: conditions[index] ?? copy.condition }));
+}
+
+// Builds copy records for a book that only has aggregate counts (seed data, older data files)
+export function deriveCopiesFromBook(book: TenantBook): BookCopy[] {
+  const onLoan = Math.max(book.total_copies - book.available_copies, 0);
+  const timestamp = book.acquired_at ? new Date(book.acquired_at).toISOString() : nowIso();
+
+  return book.library_codes.map((code, index) => ({
+    id: `copy-${code}`,
+    library_id: book.library_id,
+    book_id: book.id,
+    code,
+    condition: index < book.good_copies ? 'good' : index < book.good_copies + book.fair_copies ? 'fair' : 'bad',
+    status: index < onLoan ? 'on_loan' : 'available',
+    shelf_location: book.shelf_location || null,
+    history: [{ at: timestamp, action: 'created' }],
+    created_at: timestamp,
+    updated_at: timestamp,
+  }));
+}
+
+/**
+ * Builds patron records for loans that only carry a name and identifier (seed data,
+ * older data files), and links those loans to them in place. The most recent
+ * spelling of the name wins.
+ */
+export function derivePatronsFromLoans(loans: TenantLoan[]): TenantPatron[] {
+  const patrons = new Map<string, TenantPatron>();
+
+  [...loans]
+    .sort((a, b) => +new Date(b.created_at) - +new Date(a.created_at))
+    .forEach((loan) => {
+      const key = `${loan.library_id}:${loan.identifier.toLowerCase()}`;
+      const patron = patrons.get(key) || {
+        id: `patron-${patrons.size + 1}`,
+        library_id: loan.library_id,
+        full_name: loan.full_name,
+        identifier: loan.identifier,
+        status: 'active' as const,
+        created_at: loan.created_at,
+        updated_at: loan.created_at,
+      };
+
+      patron.created_at = loan.created_at < patron.created_at ? loan.created_at : patron.created_at;
+      patrons.set(key, patron);
+      loan.patron_id = loan.patron_id || patron.id;
+    });
+
+  return Array.from(patrons.values());
+}
+
+export function countConditions(copies: Pick<BookCopy, 'condition'>[]) {
+  return {
+    good: copies.filter((copy) => copy.condition === 'good').length,
+    fair: copies.filter((copy) => copy.condition === 'fair').length,
+    bad: copies.filter((copy) => copy.condition === 'bad').length,
+  };
+}
+
+// Splits the codes scanned at return against the codes that were handed over
+export function compareReturnedCodes(handedCodes: string[], returnedCodes: string[]) {
+  return {
+    matched: handedCodes.filter((code) => returnedCodes.includes(code)),
+    missing: handedCodes.filter((code) => !returnedCodes.includes(code)),
+    unexpected: returnedCodes.filter((code) => !handedCodes.includes(code)),
+  };
+}
+
+export function maxRenewalsFor(library: Pick<LibraryTenant, 'max_renewals'> | null | undefined) {
+  return library?.max_renewals ?? DEFAULT_MAX_RENEWALS;
+}
+
+// Another patron with an open request or hold for the same title blocks renewals
+export function hasWaitingPatrons(loan: TenantLoan, loans: TenantLoan[], holds: BookHold[]) {
+  const isOther = (item: { book_id: string; identifier: string }) =>
+    item.book_id === loan.book_id && item.identifier.toLowerCase() !== loan.identifier.toLowerCase();
+
+  return (
+    loans.some((other) => isOther(other) && (other.status === 'pending' || other.status === 'approved')) ||
+    holds.some((hold) => isOther(hold) && (hold.status === 'waiting' || hold.status === 'ready'))
+  );
+}
+
+export function sortHolds(holds: BookHold[]) {
+  return [...holds].sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at));
+}
@@ -0,0 +1,49 @@
+import path from 'path';
+import { isSupabaseConfigured } from '@/lib/supabase-rest';
+import { createFileStore } from './file-store';
+import { createMockStore } from './mock-store';
+import { createSupabaseStore } from './supabase-store';
+import { LibraryDataStore } from './types';
+
+export * from './types';
+
+let activeStore: LibraryDataStore | null = null;
+
+function createConfiguredStore(): LibraryDataStore {
+  const backend = process.env.LIBRARY_DATA_STORE || (isSupabaseConfigured() ? 'supabase' : 'mock');
+
+  if (backend === 'supabase') {
+    return createSupabaseStore();
+  }
+
+  if (backend === 'file') {
+    // The mock's demo password is public, so a persistent install must bring its own
+    if (!process.env.LIBRARY_LOCAL_PASSWORD) {
+      throw new Error('LIBRARY_LOCAL_PASSWORD must be set when LIBRARY_DATA_STORE is file.');
+    }
+
+    return createFileStore(
+      process.env.LIBRARY_DATA_DIR || path.join(process.cwd(), 'data'),
+      process.env.LIBRARY_LOCAL_PASSWORD
+    );
+  }
+
+  if (backend === 'mock') {
+    return createMockStore();
+  }
+
+  throw new Error(`Unknown LIBRARY_DATA_STORE "${backend}". Use supabase, file or mock.`);
+}
+
+/**
+ * Returns the process-wide data store, picking the backend the first time it is
+ * requested. `LIBRARY_DATA_STORE` selects it explicitly; otherwise Supabase is used
+ * when its environment variables are present and mock data when they are not.
+ */
+export function getDataStore(): LibraryDataStore {
+  if (!activeStore) {
+    activeStore = createConfiguredStore();
+  }
+
+  return activeStore;
+}
@@ -0,0 +1,1442 @@
+import {
+  AuditEntry,
+  BookCopy,
+  BookCopyEvent,
+  BookHold,
+  HoldRequestPayload,
+  LedgerCreditPayload,
+  LedgerEntryKind,
+  LibrarianSession,
+  LoanCartPayload,
+  LoanRequestPayload,
+  LoanStatus,
+  PatronPayload,
+  TenantBook,
+  TenantLoan,
+  TenantLoanGroup,
+  TenantPatron,
+} from '@/types/tenant';
+import { mockBooks, mockCopies, mockLibrarians, mockLibraries, mockLoans, mockPatrons } from '@/lib/mock-tenant-data';
+import {
+  assignReturnConditions,
+  compareReturnedCodes,
+  countConditions,
+  ensureLibraryAccess,
+  hasWaitingPatrons,
+  HOLD_PICKUP_DAYS,
+  maxRenewalsFor,
+  nowIso,
+  sortHolds,
+  sumConditions,
+  summarizeCopies,
+} from './helpers';
+import { formatLibraryCode, parseLibraryCode, resolveCodeFormat } from '@/lib/library-codes';
+import { assessLoanFees, ledgerBalance, resolveFeeRules } from '@/lib/loan-fees';
+import {
+  assertActiveLoansAllowed,
+  assertCopiesAllowed,
+  assertDueDateAllowed,
+  defaultDueDate,
+  OPEN_LOAN_STATUSES,
+  resolveCirculationPolicy,
+} from '@/lib/circulation-policy';
+import { nextOpenDate, resolveOpeningHours } from '@/lib/library-hours';
+import {
+  BookRecordInput,
+  CopyConditionCounts,
+  LibraryDataStore,
+  LoanGroupTransitionItem,
+  LoanTransitionInput,
+  NewCopyInput,
+  TenantDataset,
+} from './types';
+
+const RATE_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_MAX = 5;
+
+// Statuses a loan has to be in before it can move to each status
+const TRANSITION_SOURCES: Partial<Record<LoanStatus, LoanStatus[]>> = {
+  approved: ['pending'],
+  rejected: ['pending'],
+  cancelled: ['pending', 'approved'],
+  handled: ['approved'],
+  returned: ['handled'],
+};
+
+export const mockDataset: TenantDataset = {
+  libraries: mockLibraries,
+  books: mockBooks,
+  copies: mockCopies,
+  loans: mockLoans,
+  loanGroups: [],
+  patrons: mockPatrons,
+  holds: [],
+  ledger: [],
+  auditLog: [],
+  librarians: mockLibrarians,
+  codeSequences: {},
+  cancelCodes: {},
+};
+
+/**
+ * In-memory store over a `TenantDataset`. Every mutation happens in place on the
+ * dataset arrays, so callers that own the dataset can persist it afterwards.
+ */
+export function createMockStore(
+  data: TenantDataset = mockDataset,
+  options: { librarianPassword?: string } = {}
+): LibraryDataStore {
+  const librarianPassword = options.librarianPassword || 'library123';
+  const localRateLedger = new Map<string, number[]>();
+
+  function bookSummary(bookId: string) {
+    const book = data.books.find((item) => item.id === bookId);
+    return book
+      ? {
+          id: book.id,
+          title: book.title,
+          author: book.author,
+          categories: book.categories,
+        }
+      : undefined;
+  }
+
+  function withBook(loan: TenantLoan): TenantLoan {
+    return { ...loan, book: bookSummary(loan.book_id) };
+  }
+
+  function withHoldBook(hold: BookHold): BookHold {
+    return { ...hold, book: bookSummary(hold.book_id) };
+  }
+
+  function activeHoldsOf(bookId: string) {
+    return sortHolds(
+      data.holds.filter((hold) => hold.book_id === bookId && (hold.status === 'waiting' || hold.status === 'ready'))
+    );
+  }
+
+  // Copies that reach the shelf are set aside for the oldest waiting holds first
+  function offerCopiesToHolds(book: TenantBook, librarianId: string | null = null) {
+    const waiting = activeHoldsOf(book.id).filter((hold) => hold.status === 'waiting');
+    const shelved = copiesOf(book.id).filter((copy) => copy.status === 'available');
+
+    waiting.slice(0, shelved.length).forEach((hold, index) => {
+      const copy = shelved[index];
+      const readyAt = nowIso();
+
+      copy.status = 'on_hold';
+      recordCopyEvent(copy, { action: 'reserved', librarian_id: librarianId, hold_id: hold.id });
+      Object.assign(hold, {
+        status: 'ready',
+        copy_code: copy.code,
+        ready_at: readyAt,
+        expires_at: new Date(Date.now() + HOLD_PICKUP_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        updated_at: readyAt,
+      });
+    });
+
+    refreshBookTotals(book);
+  }
+
+  function addLedgerEntry(
+    loan: Pick<TenantLoan, 'library_id' | 'identifier' | 'full_name'>,
+    kind: LedgerEntryKind,
+    amount: number,
+    extra: { loan_id?: string | null; note?: string | null; librarian_id?: string | null } = {}
+  ) {
+    const entry = {
+      id: `ledger-${data.ledger.length + 1}`,
+      library_id: loan.library_id,
+      identifier: loan.identifier,
+      full_name: loan.full_name,
+      kind,
+      amount,
+      loan_id: extra.loan_id ?? null,
+      note: extra.note ?? null,
+      librarian_id: extra.librarian_id ?? null,
+      created_at: nowIso(),
+    };
+    data.ledger.unshift(entry);
+    return entry;
+  }
+
+  function patronLedger(libraryId: string, identifier: string) {
+    return data.ledger.filter(
+      (entry) => entry.library_id === libraryId && entry.identifier.toLowerCase() === identifier.toLowerCase()
+    );
+  }
+
+  function findPatron(libraryId: string, identifier: string) {
+    return data.patrons.find(
+      (patron) => patron.library_id === libraryId && patron.identifier.toLowerCase() === identifier.trim().toLowerCase()
+    );
+  }
+
+  // Merged patrons are removed, so ids continue from the highest one in use
+  function nextPatronId() {
+    const highest = Math.max(0, ...data.patrons.map((patron) => Number(patron.id.replace('patron-', '')) || 0));
+    return `patron-${highest + 1}`;
+  }
+
+  // Loans always point at a patron record; the first loan under an identifier registers the patron
+  function linkPatron(libraryId: string, fullName: string, identifier: string) {
+    const existing = findPatron(libraryId, identifier);
+
+    if (existing) {
+      return existing;
+    }
+
+    const patron: TenantPatron = {
+      id: nextPatronId(),
+      library_id: libraryId,
+      full_name: fullName.trim(),
+      identifier: identifier.trim(),
+      status: 'active',
+      created_at: nowIso(),
+      updated_at: nowIso(),
+    };
+    data.patrons.push(patron);
+    return patron;
+  }
+
+  function policyFor(libraryId: string) {
+    return resolveCirculationPolicy(data.libraries.find((library) => library.id === libraryId));
+  }
+
+  function hoursFor(libraryId: string) {
+    return resolveOpeningHours(data.libraries.find((library) => library.id === libraryId));
+  }
+
+  // Due dates never land on a day the library is closed
+  function openDueDate(libraryId: string, dueDate: string) {
+    return nextOpenDate(hoursFor(libraryId), dueDate);
+  }
+
+  function countOpenLoans(libraryId: string, identifier: string, exceptLoanId?: string) {
+    return data.loans.filter(
+      (loan) =>
+        loan.library_id === libraryId &&
+        loan.id !== exceptLoanId &&
+        loan.identifier.toLowerCase() === identifier.trim().toLowerCase() &&
+        OPEN_LOAN_STATUSES.includes(loan.status)
+    ).length;
+  }
+
+  // Holds become loans when a copy comes back, so a block applies to both
+  function assertNotBlocked(libraryId: string, identifier: string) {
+    if (findPatron(libraryId, identifier)?.status === 'blocked') {
+      throw new Error('Este lector está bloqueado y no puede solicitar préstamos.');
+    }
+  }
+
+  function assertRequestable(libraryId: string, bookId: string, identifier: string, requestedCopies: number) {
+    assertNotBlocked(libraryId, identifier);
+
+    const policy = policyFor(libraryId);
+    assertCopiesAllowed(policy, requestedCopies);
+
+    const book = data.books.find((item) => item.id === bookId && item.library_id === libraryId);
+
+    if (!book) {
+      throw new Error('Book not found for this library.');
+    }
+
+    if (requestedCopies > book.available_copies) {
+      throw new Error('Requested copies exceed the available inventory.');
+    }
+
+    const duplicate = data.loans.find(
+      (loan) =>
+        loan.library_id === libraryId &&
+        loan.book_id === bookId &&
+        loan.identifier.toLowerCase() === identifier.toLowerCase() &&
+        loan.status !== 'cancelled' &&
+        Date.now() - new Date(loan.created_at).getTime() < policy.duplicate_window_minutes * 60 * 1000
+    );
+
+    if (duplicate) {
+      throw new Error('A recent request for this book already exists with that identifier.');
+    }
+
+    return book;
+  }
+
+  // Fills in the default due date and checks the request against the patron's open loans
+  function assertWithinPolicy(libraryId: string, identifier: string, dueDate: string, adding: number) {
+    const policy = policyFor(libraryId);
+    const resolved = dueDate || defaultDueDate(policy);
+
+    assertDueDateAllowed(policy, resolved, hoursFor(libraryId));
+    assertActiveLoansAllowed(policy, countOpenLoans(libraryId, identifier), adding);
+    return openDueDate(libraryId, resolved);
+  }
+
+  // The policy may have tightened since the request came in, so approval and handover check it again
+  function assertPolicyOnTransition(loan: TenantLoan) {
+    const policy = policyFor(loan.library_id);
+
+    assertDueDateAllowed(policy, loan.due_date || defaultDueDate(policy), hoursFor(loan.library_id));
+    assertActiveLoansAllowed(policy, countOpenLoans(loan.library_id, loan.identifier, loan.id), 1);
+  }
+
+  function newLoan(libraryId: string, payload: LoanRequestPayload, groupId: string | null = null): TenantLoan {
+    return {
+      id: `loan-${data.loans.length + 1}`,
+      library_id: libraryId,
+      book_id: payload.book_id,
+      full_name: payload.full_name.trim(),
+      identifier: payload.identifier.trim(),
+      requested_copies: payload.requested_copies,
+      due_date: payload.due_date,
+      status: 'pending',
+      group_id: groupId,
+      patron_id: linkPatron(libraryId, payload.full_name, payload.identifier).id,
+      created_at: nowIso(),
+      updated_at: nowIso(),
+    };
+  }
+
+  function enforceLocalRateLimit(ip: string) {
+    const timestamps = localRateLedger.get(ip) || [];
+    const recent = timestamps.filter((timestamp) => Date.now() - timestamp < RATE_WINDOW_MS);
+
+    if (recent.length >= RATE_LIMIT_MAX) {
+      throw new Error('Too many loan requests from this IP. Please try again in a minute.');
+    }
+
+    recent.push(Date.now());
+    localRateLedger.set(ip, recent);
+  }
+
+  function copiesOf(bookId: string) {
+    return data.copies.filter((copy) => copy.book_id === bookId).sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  function refreshBookTotals(book: TenantBook) {
+    Object.assign(book, summarizeCopies(copiesOf(book.id)));
+  }
+
+  function recordCopyEvent(copy: BookCopy, event: Omit<BookCopyEvent, 'at'>) {
+    const at = nowIso();
+    copy.history.push({ at, ...event });
+    copy.updated_at = at;
+  }
+
+  // Copies back on the shelf take the condition they were returned in
+  function checkInCopies(
+    copies: BookCopy[],
+    returnCondition: CopyConditionCounts,
+    isReturned: (copy: BookCopy) => boolean,
+    librarianId: string,
+    loanId: string
+  ) {
+    assignReturnConditions(copies, returnCondition).forEach(({ copy, condition }) => {
+      if (!isReturned(copy)) {
+        return;
+      }
+
+      const changed = copy.condition !== condition;
+      copy.status = 'available';
+      copy.condition = condition;
+      recordCopyEvent(copy, {
+        action: 'returned',
+        librarian_id: librarianId,
+        loan_id: loanId,
+        ...(changed ? { changes: { condition } } : {}),
+      });
+    });
+  }
+
+  function assertCodesUnused(libraryId: string, copies: NewCopyInput[]) {
+    const taken = copies.find(
+      (input, index) =>
+        copies.findIndex((other) => other.code === input.code) !== index ||
+        data.copies.some((copy) => copy.library_id === libraryId && copy.code === input.code)
+    );
+
+    if (taken) {
+      throw new Error(`El código ${taken.code} ya está en uso en esta biblioteca.`);
+    }
+  }
+
+  function assertRenewable(loan: TenantLoan, dueDate: string) {
+    if (loan.status !== 'handled') {
+      throw new Error('Solo los préstamos entregados se pueden renovar.');
+    }
+
+    const maxRenewals = maxRenewalsFor(data.libraries.find((library) => library.id === loan.library_id));
+    if ((loan.renewals || []).length >= maxRenewals) {
+      throw new Error(`Este préstamo ya alcanzó el máximo de ${maxRenewals} renovaciones.`);
+    }
+
+    if (loan.due_date && dueDate <= loan.due_date) {
+      throw new Error('La nueva fecha debe ser posterior a la fecha de devolución actual.');
+    }
+
+    // A renewal may not push the loan further out than a new loan could go
+    assertDueDateAllowed(policyFor(loan.library_id), dueDate, hoursFor(loan.library_id));
+
+    if (hasWaitingPatrons(loan, data.loans, data.holds)) {
+      throw new Error('Otro lector está esperando este título; el préstamo no se puede renovar.');
+    }
+  }
+
+  function insertCopies(book: TenantBook, copies: NewCopyInput[], librarianId: string) {
+    assertCodesUnused(book.library_id, copies);
+    raiseCodeSequence(book.library_id, copies.map(({ sequence }) => sequence));
+
+    // Codes move between libraries and can be reused, so ids are not derived from them
+    const created = copies.map((input, index): BookCopy => {
+      const timestamp = nowIso();
+      return {
+        id: `copy-${data.copies.length + index + 1}`,
+        library_id: book.library_id,
+        book_id: book.id,
+        code: input.code,
+        condition: input.condition,
+        status: 'available',
+        shelf_location: input.shelf_location ?? book.shelf_location ?? null,
+        history: [{ at: timestamp, action: 'created', librarian_id: librarianId }],
+        created_at: timestamp,
+        updated_at: timestamp,
+      };
+    });
+
+    data.copies.push(...created);
+    offerCopiesToHolds(book, librarianId);
+    return created;
+  }
+
+  function insertBook(input: BookRecordInput, copies: NewCopyInput[], librarianId: string) {
+    assertCodesUnused(input.library_id, copies);
+
+    const book: TenantBook = {
+      ...input,
+      id: `book-${data.books.length + 1}`,
+      total_copies: 0,
+      available_copies: 0,
+      good_copies: 0,
+      fair_copies: 0,
+      bad_copies: 0,
+      library_codes: [],
+      archived_at: null,
+    };
+
+    data.books.push(book);
+    insertCopies(book, copies, librarianId);
+    return book;
+  }
+
+  function lastCodeSequence(libraryId: string) {
+    const format = resolveCodeFormat(data.libraries.find((item) => item.id === libraryId));
+    // Seed the sequence from existing codes the first time a library allocates
+    return (
+      data.codeSequences[libraryId] ??
+      data.copies
+        .filter((copy) => copy.library_id === libraryId)
+        .map((copy) => parseLibraryCode(format, copy.code))
+        .reduce((max, parsed) => ('error' in parsed ? max : Math.max(max, parsed.sequence)), 0)
+    );
+  }
+
+  // Codes issued outside allocation (typed in, kept on transfer) must never be allocated again
+  function raiseCodeSequence(libraryId: string, sequences: Array<number | null | undefined>) {
+    const issued = sequences.filter((sequence): sequence is number => typeof sequence === 'number');
+
+    if (issued.length) {
+      data.codeSequences[libraryId] = Math.max(lastCodeSequence(libraryId), ...issued);
+    }
+  }
+
+  const store: LibraryDataStore = {
+    kind: 'mock',
+
+    async resolveLibrary(subdomain) {
+      return data.libraries.find((library) => library.subdomain === subdomain) || null;
+    },
+
+    async listPublicLibraries() {
+      return data.libraries;
+    },
+
+    async listLibraries(libraryIds) {
+      return data.libraries.filter((library) => libraryIds.includes(library.id));
+    },
+
+    async updateLibraryCodeFormat(libraryId, format) {
+      const library = data.libraries.find((item) => item.id === libraryId);
+
+      if (!library) {
+        throw new Error('Biblioteca no encontrada.');
+      }
+
+      library.code_format = format;
+      return library;
+    },
+
+    async updateLibraryOpeningHours(libraryId, hours) {
+      const library = data.libraries.find((item) => item.id === libraryId);
+
+      if (!library) {
+        throw new Error('Biblioteca no encontrada.');
+      }
+
+      library.opening_hours = hours;
+      return library;
+    },
+
+    async updateLibraryCirculationPolicy(libraryId, policy) {
+      const library = data.libraries.find((item) => item.id === libraryId);
+
+      if (!library) {
+        throw new Error('Biblioteca no encontrada.');
+      }
+
+      library.circulation_policy = policy;
+      return library;
+    },
+
+    async updateLibraryFeeRules(libraryId, rules) {
+      const library = data.libraries.find((item) => item.id === libraryId);
+
+      if (!library) {
+        throw new Error('Biblioteca no encontrada.');
+      }
+
+      library.fee_rules = rules;
+      return library;
+    },
+
+    async listAvailableBooks(libraryId, query, includeUnavailable) {
+      return data.books
+        .filter(
+          (book) =>
+            book.library_id === libraryId &&
+            (includeUnavailable ? book.total_copies : book.available_copies) > 0 &&
+            !book.archived_at
+        )
+        .filter((book) => {
+          if (!query) {
+            return true;
+          }
+
+          const needle = query.toLowerCase();
+          return [book.title, book.author, ...book.categories].some((value) => value.toLowerCase().includes(needle));
+        });
+    },
+
+    async listBooks(libraryIds) {
+      return data.books.filter((book) => libraryIds.includes(book.library_id) && !book.archived_at);
+    },
+
+    async getBook(bookId) {
+      return data.books.find((item) => item.id === bookId) || null;
+    },
+
+    async allocateLibraryCodes(libraryId, count) {
+      const format = resolveCodeFormat(data.libraries.find((item) => item.id === libraryId));
+      const lastValue = lastCodeSequence(libraryId);
+
+      data.codeSequences[libraryId] = lastValue + count;
+      return Array.from({ length: count }, (_item, index) => formatLibraryCode(format, lastValue + index + 1));
+    },
+
+    async createBook(input, conditions, librarianId) {
+      const codes = await store.allocateLibraryCodes(input.library_id, conditions.length);
+      return insertBook(
+        input,
+        codes.map((code, index) => ({ code, condition: conditions[index] })),
+        librarianId
+      );
+    },
+
+    async importBooks(libraryId, books, librarianId) {
+      const codes = await store.allocateLibraryCodes(
+        libraryId,
+        books.reduce((sum, book) => sum + book.conditions.length, 0)
+      );
+      let offset = 0;
+      const planned = books.map((book) => {
+        const copies = book.conditions.map((condition, index) => ({ code: codes[offset + index], condition }));
+        offset += copies.length;
+        return { input: book.input, copies };
+      });
+
+      // Check every code up front so a clash leaves the catalog untouched
+      assertCodesUnused(libraryId, planned.flatMap((book) => book.copies));
+      return planned.map((book) => insertBook(book.input, book.copies, librarianId));
+    },
+
+    async updateBook(bookId, input) {
+      const book = data.books.find(
+        (item) => item.id === bookId && item.library_id === input.library_id && !item.archived_at
+      );
+
+      if (!book) {
+        return null;
+      }
+
+      Object.assign(book, input);
+      return book;
+    },
+
+    async archiveBook(bookId, libraryId) {
+      const book = data.books.find((item) => item.id === bookId && item.library_id === libraryId && !item.archived_at);
+
+      if (book) {
+        book.archived_at = nowIso();
+      }
+    },
+
+    async mergeBooks(session, targetId, sourceId) {
+      const target = data.books.find((book) => book.id === targetId && !book.archived_at);
+      const source = data.books.find((book) => book.id === sourceId && !book.archived_at);
+
+      if (!target || !source || target.library_id !== source.library_id) {
+        throw new Error('Libro no encontrado.');
+      }
+
+      ensureLibraryAccess(session, target.library_id);
+
+      copiesOf(source.id).forEach((copy) => {
+        copy.book_id = target.id;
+        recordCopyEvent(copy, { action: 'updated', librarian_id: session.id, note: `Fusionada desde «${source.title}».` });
+      });
+      data.loans.filter((loan) => loan.book_id === source.id).forEach((loan) => Object.assign(loan, { book_id: target.id }));
+
+      // Source holds join the end of the target's queue; a patron already queued for the target keeps that place
+      const queued = new Set(activeHoldsOf(target.id).map((hold) => hold.identifier.toLowerCase()));
+      let position = Math.max(0, ...data.holds.filter((hold) => hold.book_id === target.id).map((hold) => hold.position));
+
+      sortHolds(data.holds.filter((hold) => hold.book_id === source.id)).forEach((hold) => {
+        const active = hold.status === 'waiting' || hold.status === 'ready';
+        hold.book_id = target.id;
+        hold.updated_at = nowIso();
+
+        if (!active) {
+          return;
+        }
+
+        if (queued.has(hold.identifier.toLowerCase())) {
+          const copy = copiesOf(target.id).find((item) => item.code === hold.copy_code && item.status === 'on_hold');
+
+          if (copy) {
+            copy.status = 'available';
+            recordCopyEvent(copy, {
+              action: 'updated',
+              librarian_id: session.id,
+              hold_id: hold.id,
+              note: 'Reserva duplicada al fusionar libros.',
+              changes: { status: 'available' },
+            });
+          }
+
+          hold.status = 'cancelled';
+          return;
+        }
+
+        queued.add(hold.identifier.toLowerCase());
+        position += 1;
+        hold.position = position;
+      });
+
+      Object.assign(target, {
+        categories: Array.from(new Set([...target.categories, ...source.categories])),
+        book_code: target.book_code || source.book_code,
+        editorial: target.editorial || source.editorial,
+        edition: target.edition || source.edition,
+        cover_type: target.cover_type || source.cover_type,
+        shelf_location: target.shelf_location || source.shelf_location,
+        cost: target.cost ?? source.cost,
+        acquired_at: target.acquired_at || source.acquired_at,
+        image_url: target.image_url || source.image_url,
+      });
+      source.archived_at = nowIso();
+
+      refreshBookTotals(source);
+      // Copies released from duplicate holds, or shelved source copies, go to the target's queue
+      offerCopiesToHolds(target, session.id);
+      return target;
+    },
+
+    async hasActiveLoans(bookId, libraryId) {
+      return data.loans.some(
+        (loan) => loan.book_id === bookId && loan.library_id === libraryId && OPEN_LOAN_STATUSES.includes(loan.status)
+      );
+    },
+
+    async transferCopies(session, input) {
+      const source = data.books.find((book) => book.id === input.bookId && !book.archived_at);
+
+      if (!source) {
+        throw new Error('Libro no encontrado.');
+      }
+
+      ensureLibraryAccess(session, source.library_id);
+      ensureLibraryAccess(session, input.toLibraryId);
+
+      const moving = input.copies.map(({ id, code }) => {
+        const copy = data.copies.find((item) => item.id === id && item.book_id === source.id);
+
+        if (!copy) {
+          throw new Error('Copia no encontrada.');
+        }
+
+        if (copy.status === 'on_loan' || copy.status === 'on_hold') {
+          throw new Error(`La copia ${copy.code} está prestada o reservada y no se puede transferir.`);
+        }
+
+        return { copy, code };
+      });
+
+      assertCodesUnused(input.toLibraryId, moving.map(({ copy, code }) => ({ code, condition: copy.condition })));
+
+      const destination = input.targetBookId
+        ? data.books.find((book) => book.id === input.targetBookId && book.library_id === input.toLibraryId && !book.archived_at)
+        : await store.createBook(input.book, [], session.id);
+
+      if (!destination) {
+        throw new Error('Libro de destino no encontrado.');
+      }
+
+      raiseCodeSequence(input.toLibraryId, input.copies.map(({ sequence }) => sequence));
+
+      const from = data.libraries.find((library) => library.id === source.library_id)?.name || 'otra biblioteca';
+      moving.forEach(({ copy, code }) => {
+        const previous = copy.code;
+
+        // The shelf belonged to the old branch; the copy takes the destination book's until set again
+        Object.assign(copy, { library_id: input.toLibraryId, book_id: destination.id, code, shelf_location: null });
+        recordCopyEvent(copy, {
+          action: 'transferred',
+          librarian_id: session.id,
+          note: previous === code ? `Transferida desde ${from}.` : `Transferida desde ${from}; código anterior ${previous}.`,
+        });
+      });
+
+      refreshBookTotals(source);
+      offerCopiesToHolds(destination, session.id);
+      return { source, destination };
+    },
+
+    async listCopies(bookId) {
+      return copiesOf(bookId);
+    },
+
+    async listLibraryCopies(libraryId) {
+      return data.copies.filter((copy) => copy.library_id === libraryId).sort((a, b) => a.code.localeCompare(b.code));
+    },
+
+    async getCopy(copyId) {
+      return data.copies.find((copy) => copy.id === copyId) || null;
+    },
+
+    async findCopyByCode(libraryId, code) {
+      const needle = code.toLowerCase();
+      return data.copies.find((copy) => copy.library_id === libraryId && copy.code.toLowerCase() === needle) || null;
+    },
+
+    async addCopies(bookId, copies, librarianId) {
+      const book = data.books.find((item) => item.id === bookId && !item.archived_at);
+
+      if (!book) {
+        throw new Error('Libro no encontrado.');
+      }
+
+      return insertCopies(book, copies, librarianId);
+    },
+
+    async updateCopy(copyId, changes, librarianId) {
+      const copy = data.copies.find((item) => item.id === copyId);
+      const book = copy && data.books.find((item) => item.id === copy.book_id);
+
+      if (!copy || !book) {
+        throw new Error('Copia no encontrada.');
+      }
+
+      const applied: BookCopyEvent['changes'] = {};
+      if (changes.condition && changes.condition !== copy.condition) {
+        applied.condition = changes.condition;
+      }
+      if (changes.status && changes.status !== copy.status) {
+        applied.status = changes.status;
+      }
+      if (changes.shelf_location !== undefined && changes.shelf_location !== copy.shelf_location) {
+        applied.shelf_location = changes.shelf_location;
+      }
+
+      Object.assign(copy, applied);
+      recordCopyEvent(copy, { action: 'updated', librarian_id: librarianId, note: changes.note || null, changes: applied });
+      offerCopiesToHolds(book, librarianId);
+      return copy;
+    },
+
+    async lookupLoans(libraryId, identifier) {
+      return data.loans
+        .filter((loan) => loan.library_id === libraryId && loan.identifier.toLowerCase() === identifier.toLowerCase())
+        .map(withBook);
+    },
+
+    async listLoans(libraryIds) {
+      return data.loans
+        .filter((loan) => libraryIds.includes(loan.library_id))
+        .map(withBook)
+        .sort((a, b) => +new Date(b.created_at) - +new Date(a.created_at));
+    },
+
+    async getLoan(loanId) {
+      const loan = data.loans.find((item) => item.id === loanId);
+      return loan ? withBook(loan) : null;
+    },
+
+    async createLoanRequest(libraryId: string, payload: LoanRequestPayload, ip: string, cancelCodeHash: string) {
+      enforceLocalRateLimit(ip);
+      assertRequestable(libraryId, payload.book_id, payload.identifier, payload.requested_copies);
+      const dueDate = assertWithinPolicy(libraryId, payload.identifier, payload.due_date, 1);
+
+      const loan = newLoan(libraryId, { ...payload, due_date: dueDate });
+      data.loans.unshift(loan);
+      data.cancelCodes[loan.id] = cancelCodeHash;
+      return withBook(loan);
+    },
+
+    async createLoanGroup(libraryId: string, payload: LoanCartPayload, ip: string, cancelCodeHash: string) {
+      enforceLocalRateLimit(ip);
+      payload.items.forEach((item) =>
+        assertRequestable(libraryId, item.book_id, payload.identifier, item.requested_copies)
+      );
+      const dueDate = assertWithinPolicy(libraryId, payload.identifier, payload.due_date, payload.items.length);
+
+      const group: TenantLoanGroup = {
+        id: `group-${data.loanGroups.length + 1}`,
+        library_id: libraryId,
+        full_name: payload.full_name.trim(),
+        identifier: payload.identifier.trim(),
+        due_date: dueDate,
+        created_at: nowIso(),
+      };
+      data.loanGroups.unshift(group);
+
+      const loans = payload.items.map((item) => {
+        const loan = newLoan(libraryId, { ...payload, ...item, due_date: dueDate }, group.id);
+        data.loans.unshift(loan);
+        data.cancelCodes[loan.id] = cancelCodeHash;
+        return withBook(loan);
+      });
+
+      return { group, loans };
+    },
+
+    async cancelLoanRequest(libraryId, loanId, identifier, cancelCodeHash) {
+      const loan = data.loans.find(
+        (item) =>
+          item.id === loanId &&
+          item.library_id === libraryId &&
+          item.identifier.toLowerCase() === identifier.trim().toLowerCase()
+      );
+
+      if (!loan) {
+        throw new Error('Loan not found.');
+      }
+
+      if (!data.cancelCodes[loan.id] || data.cancelCodes[loan.id] !== cancelCodeHash) {
+        throw new Error('El código de cancelación no es válido.');
+      }
+
+      if (loan.status !== 'pending') {
+        throw new Error('Solo las solicitudes pendientes se pueden cancelar.');
+      }
+
+      Object.assign(loan, {
+        status: 'cancelled',
+        cancelled_at: nowIso(),
+        cancelled_by: 'patron',
+        updated_at: nowIso(),
+      });
+      return withBook(loan);
+    },
+
+    async transitionLoan(session: LibrarianSession, loanId: string, nextStatus: LoanStatus, input: LoanTransitionInput) {
+      const loan = data.loans.find((item) => item.id === loanId);
+
+      if (!loan) {
+        throw new Error('Loan not found.');
+      }
+
+      ensureLibraryAccess(session, loan.library_id);
+
+      const book = data.books.find((item) => item.id === loan.book_id);
+
+      if (!book) {
+        throw new Error('Book not found.');
+      }
+
+      if (nextStatus === 'approved' || nextStatus === 'handled') {
+        assertPolicyOnTransition(loan);
+      }
+
+      if (nextStatus === 'handled') {
+        if (loan.status !== 'approved') {
+          throw new Error('Only approved loans can be marked as handled.');
+        }
+
+        const deliveryCondition = input.deliveryCondition || { good: 0, fair: 0, bad: 0 };
+
+        if (!input.copyCodes?.length && sumConditions(deliveryCondition) !== loan.requested_copies) {
+          throw new Error(`La suma de los estados (Bueno, Regular, Malo) debe ser igual a ${loan.requested_copies}`);
+        }
+
+        const shelved = copiesOf(book.id).filter((copy) => copy.status === 'available');
+        const picked = input.copyCodes?.length
+          ? input.copyCodes.map((code) => shelved.find((copy) => copy.code === code))
+          : shelved.slice(0, loan.requested_copies);
+
+        if (picked.length !== loan.requested_copies) {
+          throw new Error(
+            input.copyCodes?.length
+              ? `Debes escanear exactamente ${loan.requested_copies} código(s).`
+              : 'Not enough available copies to handle this loan.'
+          );
+        }
+
+        const missingCode = input.copyCodes?.find((_code, index) => !picked[index]);
+        if (missingCode) {
+          throw new Error(`La copia ${missingCode} no está disponible para este libro.`);
+        }
+
+        const handed = picked as BookCopy[];
+        handed.forEach((copy) => {
+          copy.status = 'on_loan';
+          recordCopyEvent(copy, { action: 'loaned', librarian_id: session.id, loan_id: loan.id });
+        });
+        refreshBookTotals(book);
+        loan.handled_at = nowIso();
+        loan.copy_codes = handed.map((copy) => copy.code);
+        // The scanned copies say exactly what condition left the shelf
+        loan.delivery_condition = input.copyCodes?.length ? countConditions(handed) : deliveryCondition;
+      }
+
+      if (nextStatus === 'returned') {
+        if (loan.status !== 'handled') {
+          throw new Error('Only handled loans can be marked as returned.');
+        }
+
+        const returnCondition = input.returnCondition || { good: 0, fair: 0, bad: 0 };
+
+        if (sumConditions(returnCondition) !== loan.requested_copies) {
+          throw new Error(
+            `La suma de los estados de retorno (Bueno, Regular, Malo) debe ser igual a ${loan.requested_copies}`
+          );
+        }
+
+        const onLoan = copiesOf(book.id).filter((copy) => copy.status === 'on_loan');
+        const handedCodes = loan.copy_codes || [];
+        const returnedCodes = input.returnedCodes ?? handedCodes;
+
+        if (handedCodes.length) {
+          const { matched, missing, unexpected } = compareReturnedCodes(handedCodes, returnedCodes);
+          const handed = onLoan.filter((copy) => handedCodes.includes(copy.code));
+
+          checkInCopies(handed, returnCondition, (copy) => matched.includes(copy.code), session.id, loan.id);
+          handed
+            .filter((copy) => missing.includes(copy.code))
+            .forEach((copy) => {
+              copy.status = 'lost';
+              recordCopyEvent(copy, {
+                action: 'updated',
+                librarian_id: session.id,
+                loan_id: loan.id,
+                note: 'No devuelta con el préstamo.',
+                changes: { status: 'lost' },
+              });
+            });
+          loan.return_discrepancy = missing.length || unexpected.length ? { missing, unexpected } : null;
+        } else {
+          // Loans handed over before codes were recorded release any copies on loan
+          checkInCopies(onLoan.slice(0, loan.requested_copies), returnCondition, () => true, session.id, loan.id);
+          loan.return_discrepancy = null;
+        }
+
+        offerCopiesToHolds(book, session.id);
+        loan.returned_at = nowIso();
+        loan.returned_codes = returnedCodes;
+        loan.return_note = input.returnNote;
+        loan.return_condition = returnCondition;
+
+        const library = data.libraries.find((item) => item.id === loan.library_id);
+        loan.fees = assessLoanFees(
+          resolveFeeRules(library),
+          loan,
+          loan.return_condition,
+          loan.returned_at,
+          resolveOpeningHours(library)
+        );
+
+        if (loan.fees.late_fee > 0) {
+          addLedgerEntry(loan, 'late_fee', loan.fees.late_fee, {
+            loan_id: loan.id,
+            note: `${loan.fees.days_late} días de atraso`,
+          });
+        }
+
+        if (loan.fees.damage_fee > 0) {
+          addLedgerEntry(loan, 'damage_fee', loan.fees.damage_fee, {
+            loan_id: loan.id,
+            note: 'Copias devueltas en peor estado',
+          });
+        }
+      }
+
+      if (nextStatus === 'approved' || nextStatus === 'rejected') {
+        if (loan.status !== 'pending') {
+          throw new Error('Only pending loans can be approved or rejected.');
+        }
+      }
+
+      if (nextStatus === 'cancelled') {
+        // No copies have moved yet, so cancelling only closes the request
+        if (loan.status !== 'pending' && loan.status !== 'approved') {
+          throw new Error('Only pending or approved loans can be cancelled.');
+        }
+
+        loan.cancelled_at = nowIso();
+        loan.cancelled_by = 'librarian';
+      }
+
+      if (nextStatus === 'approved' || nextStatus === 'handled') {
+        loan.due_date = loan.due_date || openDueDate(loan.library_id, defaultDueDate(policyFor(loan.library_id)));
+      }
+
+      loan.status = nextStatus;
+      loan.updated_at = nowIso();
+
+      return withBook(loan);
+    },
+
+    async transitionLoanGroup(session: LibrarianSession, groupId: string, items: LoanGroupTransitionItem[]) {
+      const group = data.loanGroups.find((item) => item.id === groupId);
+
+      if (!group) {
+        throw new Error('Loan request not found.');
+      }
+
+      ensureLibraryAccess(session, group.library_id);
+
+      // Every line is checked before any of them moves, so one bad line leaves the whole request as it was.
+      // Copies a line will take off the shelf are claimed so a later line cannot count on them too.
+      const claimed = new Set<string>();
+      items.forEach((item) => {
+        const loan = data.loans.find((entry) => entry.id === item.loanId && entry.group_id === groupId);
+
+        if (!loan) {
+          throw new Error('Loan not found in this request.');
+        }
+
+        if (!TRANSITION_SOURCES[item.status]?.includes(loan.status)) {
+          throw new Error(
+            `${bookSummary(loan.book_id)?.title || loan.id}: a ${loan.status} loan cannot move to ${item.status}.`
+          );
+        }
+
+        if (item.status === 'approved' || item.status === 'handled') {
+          assertPolicyOnTransition(loan);
+        }
+
+        const { copyCodes, deliveryCondition, returnCondition } = item.input;
+
+        if (item.status === 'handled') {
+          if (copyCodes?.length && copyCodes.length !== loan.requested_copies) {
+            throw new Error(`Debes escanear exactamente ${loan.requested_copies} código(s).`);
+          }
+
+          if (!copyCodes?.length && sumConditions(deliveryCondition || { good: 0, fair: 0, bad: 0 }) !== loan.requested_copies) {
+            throw new Error(`La suma de los estados (Bueno, Regular, Malo) debe ser igual a ${loan.requested_copies}`);
+          }
+
+          const shelved = copiesOf(loan.book_id).filter((copy) => copy.status === 'available' && !claimed.has(copy.id));
+
+          if (copyCodes?.length) {
+            copyCodes.forEach((code) => {
+              const copy = shelved.find((entry) => entry.code === code && !claimed.has(entry.id));
+
+              if (!copy) {
+                throw new Error(`La copia ${code} no está disponible para este libro.`);
+              }
+
+              claimed.add(copy.id);
+            });
+          } else if (shelved.length < loan.requested_copies) {
+            throw new Error('Not enough available copies to handle this loan.');
+          } else {
+            shelved.slice(0, loan.requested_copies).forEach((copy) => claimed.add(copy.id));
+          }
+        }
+
+        if (
+          item.status === 'returned' &&
+          sumConditions(returnCondition || { good: 0, fair: 0, bad: 0 }) !== loan.requested_copies
+        ) {
+          throw new Error(
+            `La suma de los estados de retorno (Bueno, Regular, Malo) debe ser igual a ${loan.requested_copies}`
+          );
+        }
+      });
+
+      const updated: TenantLoan[] = [];
+      for (const item of items) {
+        updated.push(await store.transitionLoan(session, item.loanId, item.status, item.input));
+      }
+
+      return updated;
+    },
+
+    async renewLoan(session, loanId, dueDate) {
+      const loan = data.loans.find((item) => item.id === loanId);
+
+      if (!loan) {
+        throw new Error('Loan not found.');
+      }
+
+      ensureLibraryAccess(session, loan.library_id);
+      assertRenewable(loan, dueDate);
+
+      const newDueDate = openDueDate(loan.library_id, dueDate);
+      loan.renewals = [
+        ...(loan.renewals || []),
+        {
+          at: nowIso(),
+          previous_due_date: loan.due_date ?? null,
+          new_due_date: newDueDate,
+          requested_by: loan.renewal_request ? 'patron' : 'librarian',
+          librarian_id: session.id,
+        },
+      ];
+      loan.due_date = newDueDate;
+      loan.renewal_request = null;
+      loan.updated_at = nowIso();
+
+      return withBook(loan);
+    },
+
+    async requestLoanRenewal(libraryId, loanId, identifier, dueDate) {
+      // The identifier doubles as proof that the patron owns the loan
+      const loan = data.loans.find(
+        (item) =>
+          item.id === loanId &&
+          item.library_id === libraryId &&
+          item.identifier.toLowerCase() === identifier.toLowerCase()
+      );
+
+      if (!loan) {
+        throw new Error('Loan not found.');
+      }
+
+      if (loan.renewal_request) {
+        throw new Error('Ya existe una solicitud de renovación para este préstamo.');
+      }
+
+      assertRenewable(loan, dueDate);
+      loan.renewal_request = { requested_at: nowIso(), due_date: dueDate };
+      loan.updated_at = nowIso();
+
+      return withBook(loan);
+    },
+
+    async declineLoanRenewal(session, loanId) {
+      const loan = data.loans.find((item) => item.id === loanId);
+
+      if (!loan) {
+        throw new Error('Loan not found.');
+      }
+
+      ensureLibraryAccess(session, loan.library_id);
+      loan.renewal_request = null;
+      loan.updated_at = nowIso();
+
+      return withBook(loan);
+    },
+
+    async listPatrons(libraryIds) {
+      return data.patrons
+        .filter((patron) => libraryIds.includes(patron.library_id))
+        .sort((a, b) => a.full_name.localeCompare(b.full_name));
+    },
+
+    async getPatron(patronId) {
+      return data.patrons.find((patron) => patron.id === patronId) || null;
+    },
+
+    async createPatron(libraryId: string, payload: PatronPayload) {
+      const patron: TenantPatron = {
+        id: nextPatronId(),
+        library_id: libraryId,
+        ...payload,
+        created_at: nowIso(),
+        updated_at: nowIso(),
+      };
+      data.patrons.push(patron);
+      return patron;
+    },
+
+    async updatePatron(patronId: string, payload: PatronPayload) {
+      const patron = data.patrons.find((item) => item.id === patronId);
+
+      if (!patron) {
+        throw new Error('Lector no encontrado.');
+      }
+
+      Object.assign(patron, payload, { updated_at: nowIso() });
+      return patron;
+    },
+
+    async mergePatrons(session, targetId, sourceId) {
+      const target = data.patrons.find((patron) => patron.id === targetId);
+      const source = data.patrons.find((patron) => patron.id === sourceId);
+
+      if (!target || !source || target.library_id !== source.library_id) {
+        throw new Error('Lector no encontrado.');
+      }
+
+      ensureLibraryAccess(session, target.library_id);
+
+      const isSource = (record: { library_id: string; identifier: string }) =>
+        record.library_id === source.library_id && record.identifier.toLowerCase() === source.identifier.toLowerCase();
+      const moved = { identifier: target.identifier, full_name: target.full_name };
+
+      data.loans
+        .filter((loan) => loan.patron_id === source.id || isSource(loan))
+        .forEach((loan) => Object.assign(loan, moved, { patron_id: target.id }));
+      data.holds.filter(isSource).forEach((hold) => Object.assign(hold, moved));
+      data.ledger.filter(isSource).forEach((entry) => Object.assign(entry, moved));
+
+      Object.assign(target, {
+        email: target.email || source.email || null,
+        phone: target.phone || source.phone || null,
+        notes: [target.notes, source.notes].filter(Boolean).join('\n') || null,
+        status: target.status === 'blocked' || source.status === 'blocked' ? 'blocked' : 'active',
+        updated_at: nowIso(),
+      });
+      data.patrons.splice(data.patrons.indexOf(source), 1);
+
+      return target;
+    },
+
+    async listLedger(libraryIds) {
+      return data.ledger.filter((entry) => libraryIds.includes(entry.library_id));
+    },
+
+    async lookupLedger(libraryId, identifier) {
+      return patronLedger(libraryId, identifier);
+    },
+
+    async recordLedgerCredit(session, libraryId, payload: LedgerCreditPayload) {
+      ensureLibraryAccess(session, libraryId);
+
+      const entries = patronLedger(libraryId, payload.identifier);
+      const balance = ledgerBalance(entries);
+
+      if (payload.amount > balance) {
+        throw new Error(`El monto supera el saldo pendiente de ${balance.toFixed(2)}.`);
+      }
+
+      const { identifier, full_name } = entries[0];
+      return addLedgerEntry({ library_id: libraryId, identifier, full_name }, payload.kind, payload.amount, {
+        loan_id: payload.loan_id || null,
+        note: payload.note || null,
+        librarian_id: session.id,
+      });
+    },
+
+    async listHolds(bookId) {
+      return activeHoldsOf(bookId).map(withHoldBook);
+    },
+
+    async lookupHolds(libraryId, identifier) {
+      return data.holds
+        .filter((hold) => hold.library_id === libraryId && hold.identifier.toLowerCase() === identifier.toLowerCase())
+        .map(withHoldBook)
+        .sort((a, b) => +new Date(b.created_at) - +new Date(a.created_at));
+    },
+
+    async createHold(libraryId: string, payload: HoldRequestPayload, ip: string) {
+      assertNotBlocked(libraryId, payload.identifier);
+      enforceLocalRateLimit(ip);
+
+      const book = data.books.find(
+        (item) => item.id === payload.book_id && item.library_id === libraryId && !item.archived_at
+      );
+
+      if (!book) {
+        throw new Error('Book not found for this library.');
+      }
+
+      if (book.available_copies > 0) {
+        throw new Error('Este título tiene copias disponibles; solicita el préstamo directamente.');
+      }
+
+      const queue = activeHoldsOf(book.id);
+
+      if (queue.some((hold) => hold.identifier.toLowerCase() === payload.identifier.toLowerCase())) {
+        throw new Error('Ya estás en la lista de espera de este título.');
+      }
+
+      const hold: BookHold = {
+        id: `hold-${data.holds.length + 1}`,
+        library_id: libraryId,
+        book_id: book.id,
+        full_name: payload.full_name.trim(),
+        identifier: payload.identifier.trim(),
+        status: 'waiting',
+        position: (queue[queue.length - 1]?.position || 0) + 1,
+        created_at: nowIso(),
+        updated_at: nowIso(),
+      };
+
+      data.holds.push(hold);
+      return withHoldBook(hold);
+    },
+
+    async updateHold(session, holdId, action) {
+      const hold = data.holds.find((item) => item.id === holdId);
+      const book = hold && data.books.find((item) => item.id === hold.book_id);
+
+      if (!hold || !book) {
+        throw new Error('Reserva no encontrada.');
+      }
+
+      ensureLibraryAccess(session, hold.library_id);
+
+      if (hold.status !== 'waiting' && hold.status !== 'ready') {
+        throw new Error('Esta reserva ya no está activa.');
+      }
+
+      if (action === 'cancel') {
+        const copy = copiesOf(book.id).find((item) => item.code === hold.copy_code && item.status === 'on_hold');
+
+        if (copy) {
+          copy.status = 'available';
+          recordCopyEvent(copy, {
+            action: 'updated',
+            librarian_id: session.id,
+            hold_id: hold.id,
+            note: 'Reserva cancelada.',
+            changes: { status: 'available' },
+          });
+        }
+
+        hold.status = 'cancelled';
+        hold.updated_at = nowIso();
+        // The released copy goes to the next patron in line
+        offerCopiesToHolds(book, session.id);
+        return withHoldBook(hold);
+      }
+
+      const queue = activeHoldsOf(book.id);
+      const index = queue.findIndex((item) => item.id === hold.id);
+      const neighbor = queue[action === 'move_up' ? index - 1 : index + 1];
+
+      if (neighbor) {
+        [hold.position, neighbor.position] = [neighbor.position, hold.position];
+        hold.updated_at = nowIso();
+        neighbor.updated_at = nowIso();
+      }
+
+      return withHoldBook(hold);
+    },
+
+    async fulfillHold(session, holdId, dueDate) {
+      const hold = data.holds.find((item) => item.id === holdId);
+      const book = hold && data.books.find((item) => item.id === hold.book_id);
+
+      if (!hold || !book) {
+        throw new Error('Reserva no encontrada.');
+      }
+
+      ensureLibraryAccess(session, hold.library_id);
+
+      const copy = copiesOf(book.id).find((item) => item.code === hold.copy_code && item.status === 'on_hold');
+
+      if (hold.status !== 'ready' || !copy) {
+        throw new Error('Solo las reservas listas se pueden entregar.');
+      }
+
+      const loan: TenantLoan = {
+        id: `loan-${data.loans.length + 1}`,
+        library_id: hold.library_id,
+        book_id: hold.book_id,
+        full_name: hold.full_name,
+        identifier: hold.identifier,
+        patron_id: linkPatron(hold.library_id, hold.full_name, hold.identifier).id,
+        requested_copies: 1,
+        due_date: openDueDate(hold.library_id, dueDate),
+        status: 'handled',
+        created_at: nowIso(),
+        updated_at: nowIso(),
+        handled_at: nowIso(),
+        copy_codes: [copy.code],
+        delivery_condition: countConditions([copy]),
+      };
+
+      copy.status = 'on_loan';
+      recordCopyEvent(copy, { action: 'loaned', librarian_id: session.id, loan_id: loan.id, hold_id: hold.id });
+      refreshBookTotals(book);
+      data.loans.unshift(loan);
+      hold.status = 'fulfilled';
+      hold.loan_id = loan.id;
+      hold.updated_at = nowIso();
+
+      return withBook(loan);
+    },
+
+    async listAuditEntries(libraryIds, filters, range) {
+      const matching = data.auditLog.filter(
+        (entry) =>
+          libraryIds.includes(entry.library_id) &&
+          (!filters.action || entry.action === filters.action) &&
+          (!filters.actions || filters.actions.includes(entry.action)) &&
+          (!filters.entityType || entry.entity_type === filters.entityType) &&
+          (!filters.librarianId || entry.librarian_id === filters.librarianId) &&
+          (!filters.from || entry.created_at.slice(0, 10) >= filters.from) &&
+          (!filters.to || entry.created_at.slice(0, 10) <= filters.to)
+      );
+
+      return { entries: matching.slice(range.offset, range.offset + range.limit), total: matching.length };
+    },
+
+    async appendAuditEntry(input) {
+      const entry: AuditEntry = {
+        ...input,
+        id: `audit-${data.auditLog.length + 1}`,
+        created_at: nowIso(),
+      };
+
+      data.auditLog.unshift(entry);
+      return entry;
+    },
+
+    async loginLibrarian(email, password) {
+      const user = data.librarians.find((item) => item.email.toLowerCase() === email.toLowerCase());
+
+      if (!user || password !== librarianPassword) {
+        throw new Error('Invalid librarian credentials.');
+      }
+
+      return {
+        accessToken: `mock-token:${user.id}`,
+        refreshToken: 'mock-refresh-token',
+        session: user,
+      };
+    },
+
+    async getSessionFromToken(accessToken) {
+      if (!accessToken.startsWith('mock-token:')) {
+        return null;
+      }
+
+      const userId = accessToken.replace('mock-token:', '');
+      return data.librarians.find((librarian) => librarian.id === userId) || null;
+    },
+  };
+
+  return store;
+}
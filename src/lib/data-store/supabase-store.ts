@@ -0,0 +1,855 @@
+import {
+  AuditEntry,
+  BookCopy,
+  BookHold,
+  LibrarianSession,
+  LibraryTenant,
+  PatronLedgerEntry,
+  TenantBook,
+  TenantLoan,
+  TenantLoanGroup,
+  TenantPatron,
+} from '@/types/tenant';
+import { addDays, format, parseISO } from 'date-fns';
+import { supabaseCount, supabaseLogin, supabaseRest, supabaseUser } from '@/lib/supabase-rest';
+import { OPEN_LOAN_STATUSES } from '@/lib/circulation-policy';
+import { nowIso } from './helpers';
+import { BookRecordInput, LibraryDataStore } from './types';
+
+const LIBRARY_COLUMNS = 'id,name,subdomain,city,accent,description,code_format,max_renewals,fee_rules,circulation_policy,opening_hours';
+const BOOK_COLUMNS =
+  'id,library_id,title,author,categories,total_copies,available_copies,library_codes,book_code,editorial,edition,cover_type,shelf_location,cost,acquired_at,image_url,archived_at';
+const LOAN_COLUMNS =
+  'id,library_id,book_id,full_name,identifier,requested_copies,status,created_at,updated_at,handled_at,returned_at,due_date,delivery_condition,return_condition,return_note,copy_codes,returned_codes,return_discrepancy,renewals,renewal_request,fees,cancelled_at,cancelled_by,group_id,patron_id';
+const LOAN_GROUP_COLUMNS = 'id,library_id,full_name,identifier,due_date,created_at';
+const PATRON_COLUMNS = 'id,library_id,full_name,identifier,email,phone,notes,status,created_at,updated_at';
+const LEDGER_COLUMNS = 'id,library_id,identifier,full_name,kind,amount,loan_id,note,librarian_id,created_at';
+const AUDIT_COLUMNS =
+  'id,library_id,librarian_id,librarian_name,action,entity_type,entity_id,before,after,created_at';
+const HOLD_COLUMNS =
+  'id,library_id,book_id,full_name,identifier,status,position,copy_code,ready_at,expires_at,loan_id,created_at,updated_at';
+
+async function listMemberships(librarianId: string) {
+  const memberships = await supabaseRest<{ library_id: string }[]>(
+    `/rest/v1/librarian_libraries?select=library_id&librarian_id=eq.${librarianId}`,
+    { method: 'GET' },
+    { service: true }
+  );
+
+  return memberships.map((membership) => membership.library_id);
+}
+
+async function attachBooks<T extends { book_id: string }>(loans: T[], libraryClause: string) {
+  const books = await supabaseRest<TenantBook[]>(
+    `/rest/v1/books?select=id,title,author,categories&library_id=${libraryClause}`,
+    { method: 'GET' },
+    { service: true }
+  );
+  const bookMap = new Map(books.map((book) => [book.id, book]));
+
+  return loans.map((loan) => ({
+    ...loan,
+    book: bookMap.get(loan.book_id),
+  }));
+}
+
+async function attachBook(loan: TenantLoan) {
+  const books = await supabaseRest<TenantBook[]>(
+    `/rest/v1/books?select=id,title,author,categories&library_id=eq.${loan.library_id}&id=eq.${loan.book_id}`,
+    { method: 'GET' },
+    { service: true }
+  );
+
+  return {
+    ...loan,
+    book: books[0],
+  };
+}
+
+function toBookRow(input: BookRecordInput) {
+  return {
+    library_id: input.library_id,
+    title: input.title,
+    author: input.author,
+    categories: input.categories,
+    book_code: input.book_code,
+    editorial: input.editorial,
+    edition: input.edition,
+    cover_type: input.cover_type,
+    shelf_location: input.shelf_location,
+    cost: input.cost,
+    acquired_at: input.acquired_at,
+    image_url: input.image_url,
+  };
+}
+
+async function fetchBook(bookId: string) {
+  const result = await supabaseRest<TenantBook[]>(
+    `/rest/v1/books?id=eq.${bookId}&select=*`,
+    { method: 'GET' },
+    { service: true }
+  );
+
+  return result[0] || null;
+}
+
+/**
+ * Store backed by the Supabase REST API. Loan creation and transitions go through
+ * the RPCs in `supabase/migrations` so inventory checks run inside one transaction.
+ */
+export function createSupabaseStore(): LibraryDataStore {
+  return {
+    kind: 'supabase',
+
+    async resolveLibrary(subdomain) {
+      const result = await supabaseRest<LibraryTenant[]>(
+        `/rest/v1/libraries?select=${LIBRARY_COLUMNS}&subdomain=eq.${encodeURIComponent(subdomain)}&limit=1`
+      );
+
+      return result[0] || null;
+    },
+
+    async listPublicLibraries() {
+      return supabaseRest<LibraryTenant[]>(
+        `/rest/v1/libraries?select=${LIBRARY_COLUMNS}&order=name.asc`,
+        { method: 'GET' },
+        { service: true }
+      );
+    },
+
+    async listLibraries(libraryIds) {
+      if (!libraryIds.length) {
+        return [];
+      }
+
+      return supabaseRest<LibraryTenant[]>(
+        `/rest/v1/libraries?select=${LIBRARY_COLUMNS}&id=in.(${libraryIds.join(',')})`
+      );
+    },
+
+    async updateLibraryCodeFormat(libraryId, format) {
+      const result = await supabaseRest<LibraryTenant[]>(
+        `/rest/v1/libraries?id=eq.${libraryId}&select=${LIBRARY_COLUMNS}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({ code_format: format }),
+        },
+        { service: true, prefer: 'return=representation' }
+      );
+
+      if (!result[0]) {
+        throw new Error('Biblioteca no encontrada.');
+      }
+
+      return result[0];
+    },
+
+    async updateLibraryOpeningHours(libraryId, hours) {
+      const result = await supabaseRest<LibraryTenant[]>(
+        `/rest/v1/libraries?id=eq.${libraryId}&select=${LIBRARY_COLUMNS}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({ opening_hours: hours }),
+        },
+        { service: true, prefer: 'return=representation' }
+      );
+
+      if (!result[0]) {
+        throw new Error('Biblioteca no encontrada.');
+      }
+
+      return result[0];
+    },
+
+    async updateLibraryCirculationPolicy(libraryId, policy) {
+      const result = await supabaseRest<LibraryTenant[]>(
+        `/rest/v1/libraries?id=eq.${libraryId}&select=${LIBRARY_COLUMNS}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({ circulation_policy: policy }),
+        },
+        { service: true, prefer: 'return=representation' }
+      );
+
+      if (!result[0]) {
+        throw new Error('Biblioteca no encontrada.');
+      }
+
+      return result[0];
+    },
+
+    async updateLibraryFeeRules(libraryId, rules) {
+      const result = await supabaseRest<LibraryTenant[]>(
+        `/rest/v1/libraries?id=eq.${libraryId}&select=${LIBRARY_COLUMNS}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({ fee_rules: rules }),
+        },
+        { service: true, prefer: 'return=representation' }
+      );
+
+      if (!result[0]) {
+        throw new Error('Biblioteca no encontrada.');
+      }
+
+      return result[0];
+    },
+
+    async listAvailableBooks(libraryId, query, includeUnavailable) {
+      const filters = [
+        `select=${BOOK_COLUMNS}`,
+        `library_id=eq.${libraryId}`,
+        includeUnavailable ? 'total_copies=gt.0' : 'available_copies=gt.0',
+        'archived_at=is.null',
+      ];
+
+      if (query) {
+        const escaped = encodeURIComponent(`*${query}*`);
+        filters.push(`or=(title.ilike.*${escaped}*,author.ilike.*${escaped}*)`);
+      }
+
+      return supabaseRest<TenantBook[]>(`/rest/v1/books?${filters.join('&')}`);
+    },
+
+    async listBooks(libraryIds) {
+      return supabaseRest<TenantBook[]>(
+        `/rest/v1/books?select=${BOOK_COLUMNS}&library_id=in.(${libraryIds.join(',')})&archived_at=is.null&order=title.asc`,
+        { method: 'GET' },
+        { service: true }
+      );
+    },
+
+    async getBook(bookId) {
+      return fetchBook(bookId);
+    },
+
+    async allocateLibraryCodes(libraryId, count) {
+      // The sequence row is locked and bumped inside the RPC, so concurrent callers never share a code
+      return supabaseRest<string[]>(
+        '/rest/v1/rpc/allocate_library_codes',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_library_id: libraryId,
+            p_count: count,
+          }),
+        },
+        { service: true }
+      );
+    },
+
+    async createBook(input, conditions, librarianId) {
+      // A single book is an import of one: codes, book and copies commit together or not at all
+      const result = await supabaseRest<TenantBook[]>(
+        '/rest/v1/rpc/import_library_books',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_library_id: input.library_id,
+            p_librarian_id: librarianId,
+            p_books: [{ book: toBookRow(input), conditions }],
+          }),
+        },
+        { service: true }
+      );
+
+      return result[0];
+    },
+
+    async importBooks(libraryId, books, librarianId) {
+      // Codes are allocated and every book inserted in one transaction inside the RPC
+      return supabaseRest<TenantBook[]>(
+        '/rest/v1/rpc/import_library_books',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_library_id: libraryId,
+            p_librarian_id: librarianId,
+            p_books: books.map((book) => ({ book: toBookRow(book.input), conditions: book.conditions })),
+          }),
+        },
+        { service: true }
+      );
+    },
+
+    async updateBook(bookId, input) {
+      const result = await supabaseRest<TenantBook[]>(
+        `/rest/v1/books?id=eq.${bookId}&library_id=eq.${input.library_id}&archived_at=is.null&select=*`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify(toBookRow(input)),
+        },
+        { service: true, prefer: 'return=representation' }
+      );
+
+      return result[0] || null;
+    },
+
+    async mergeBooks(session, targetId, sourceId) {
+      const result = await supabaseRest<TenantBook[]>(
+        '/rest/v1/rpc/merge_books',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_librarian_id: session.id,
+            p_target_id: targetId,
+            p_source_id: sourceId,
+          }),
+        },
+        { service: true }
+      );
+
+      return result[0];
+    },
+
+    async transferCopies(session, input) {
+      // The destination book (when new), the recoding and the move happen in one transaction inside the RPC
+      return supabaseRest<{ source: TenantBook; destination: TenantBook }>(
+        '/rest/v1/rpc/transfer_book_copies',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_librarian_id: session.id,
+            p_book_id: input.bookId,
+            p_to_library_id: input.toLibraryId,
+            p_target_book_id: input.targetBookId,
+            p_book: toBookRow(input.book),
+            p_copies: input.copies,
+          }),
+        },
+        { service: true }
+      );
+    },
+
+    async archiveBook(bookId, libraryId) {
+      await supabaseRest<TenantBook[]>(
+        `/rest/v1/books?id=eq.${bookId}&library_id=eq.${libraryId}&archived_at=is.null&select=id`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({
+            archived_at: nowIso(),
+          }),
+        },
+        { service: true, prefer: 'return=representation' }
+      );
+    },
+
+    async hasActiveLoans(bookId, libraryId) {
+      const activeLoans = await supabaseRest<{ id: string }[]>(
+        `/rest/v1/loans?select=id&book_id=eq.${bookId}&library_id=eq.${libraryId}&status=in.(${OPEN_LOAN_STATUSES.join(',')})`,
+        { method: 'GET' },
+        { service: true }
+      );
+
+      return activeLoans.length > 0;
+    },
+
+    async listCopies(bookId) {
+      return supabaseRest<BookCopy[]>(
+        `/rest/v1/book_copies?select=*&book_id=eq.${bookId}&order=code.asc`,
+        { method: 'GET' },
+        { service: true }
+      );
+    },
+
+    async listLibraryCopies(libraryId) {
+      return supabaseRest<BookCopy[]>(
+        `/rest/v1/book_copies?select=*&library_id=eq.${libraryId}&order=code.asc`,
+        { method: 'GET' },
+        { service: true }
+      );
+    },
+
+    async getCopy(copyId) {
+      const result = await supabaseRest<BookCopy[]>(
+        `/rest/v1/book_copies?select=*&id=eq.${copyId}`,
+        { method: 'GET' },
+        { service: true }
+      );
+
+      return result[0] || null;
+    },
+
+    async findCopyByCode(libraryId, code) {
+      const result = await supabaseRest<BookCopy[]>(
+        `/rest/v1/book_copies?select=*&library_id=eq.${libraryId}&code=ilike.${encodeURIComponent(code)}`,
+        { method: 'GET' },
+        { service: true }
+      );
+
+      return result[0] || null;
+    },
+
+    async addCopies(bookId, copies, librarianId) {
+      // Hand-entered codes raise the library's code sequence in the same transaction as the insert
+      return supabaseRest<BookCopy[]>(
+        '/rest/v1/rpc/add_book_copies',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_book_id: bookId,
+            p_librarian_id: librarianId,
+            p_copies: copies,
+          }),
+        },
+        { service: true }
+      );
+    },
+
+    async updateCopy(copyId, changes, librarianId) {
+      const result = await supabaseRest<BookCopy[]>(
+        '/rest/v1/rpc/update_book_copy',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_copy_id: copyId,
+            p_librarian_id: librarianId,
+            p_condition: changes.condition ?? null,
+            p_status: changes.status ?? null,
+            p_shelf_location: changes.shelf_location === undefined ? null : changes.shelf_location || '',
+            p_note: changes.note ?? null,
+          }),
+        },
+        { service: true }
+      );
+
+      return result[0];
+    },
+
+    async lookupLoans(libraryId, identifier) {
+      const loans = await supabaseRest<TenantLoan[]>(
+        `/rest/v1/loans?select=${LOAN_COLUMNS}&library_id=eq.${libraryId}&identifier=eq.${encodeURIComponent(identifier)}&order=created_at.desc`,
+        { method: 'GET' },
+        { service: true }
+      );
+
+      return attachBooks(loans, `eq.${libraryId}`);
+    },
+
+    async getLoan(loanId) {
+      const result = await supabaseRest<TenantLoan[]>(
+        `/rest/v1/loans?select=${LOAN_COLUMNS}&id=eq.${loanId}`,
+        { method: 'GET' },
+        { service: true }
+      );
+
+      return result[0] ? attachBook(result[0]) : null;
+    },
+
+    async listLoans(libraryIds) {
+      const idClause = `in.(${libraryIds.join(',')})`;
+      const loans = await supabaseRest<TenantLoan[]>(
+        `/rest/v1/loans?select=${LOAN_COLUMNS}&library_id=${idClause}&order=created_at.desc`,
+        { method: 'GET' },
+        { service: true }
+      );
+
+      return attachBooks(loans, idClause);
+    },
+
+    async createLoanRequest(libraryId, payload, ip, cancelCodeHash) {
+      const result = await supabaseRest<TenantLoan[]>(
+        '/rest/v1/rpc/create_public_loan_request',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_library_id: libraryId,
+            p_book_id: payload.book_id,
+            p_full_name: payload.full_name.trim(),
+            p_identifier: payload.identifier.trim(),
+            p_requested_copies: payload.requested_copies,
+            p_request_ip: ip,
+            p_due_date: payload.due_date || null,
+            p_cancel_code_hash: cancelCodeHash,
+          }),
+        },
+        { service: true }
+      );
+
+      return result[0];
+    },
+
+    async createLoanGroup(libraryId, payload, ip, cancelCodeHash) {
+      const loans = await supabaseRest<TenantLoan[]>(
+        '/rest/v1/rpc/create_public_loan_group',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_library_id: libraryId,
+            p_full_name: payload.full_name.trim(),
+            p_identifier: payload.identifier.trim(),
+            p_items: payload.items,
+            p_request_ip: ip,
+            p_due_date: payload.due_date || null,
+            p_cancel_code_hash: cancelCodeHash,
+          }),
+        },
+        { service: true }
+      );
+      const groups = await supabaseRest<TenantLoanGroup[]>(
+        `/rest/v1/loan_groups?select=${LOAN_GROUP_COLUMNS}&id=eq.${loans[0].group_id}`,
+        { method: 'GET' },
+        { service: true }
+      );
+
+      return { group: groups[0], loans: await attachBooks(loans, `eq.${libraryId}`) };
+    },
+
+    async cancelLoanRequest(libraryId, loanId, identifier, cancelCodeHash) {
+      const result = await supabaseRest<TenantLoan[]>(
+        '/rest/v1/rpc/cancel_loan_request',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_library_id: libraryId,
+            p_loan_id: loanId,
+            p_identifier: identifier,
+            p_cancel_code_hash: cancelCodeHash,
+          }),
+        },
+        { service: true }
+      );
+
+      return attachBook(result[0]);
+    },
+
+    async transitionLoan(session, loanId, nextStatus, input) {
+      const result = await supabaseRest<TenantLoan[]>(
+        '/rest/v1/rpc/transition_loan_status',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_loan_id: loanId,
+            p_next_status: nextStatus,
+            p_librarian_id: session.id,
+            p_delivery_condition: input.deliveryCondition,
+            p_return_note: input.returnNote,
+            p_return_condition: input.returnCondition,
+            p_copy_codes: input.copyCodes ?? null,
+            p_returned_codes: input.returnedCodes ?? null,
+          }),
+        },
+        { service: true }
+      );
+
+      return attachBook(result[0]);
+    },
+
+    async transitionLoanGroup(session, groupId, items) {
+      const loans = await supabaseRest<TenantLoan[]>(
+        '/rest/v1/rpc/transition_loan_group',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_group_id: groupId,
+            p_librarian_id: session.id,
+            p_items: items.map((item) => ({
+              loan_id: item.loanId,
+              status: item.status,
+              delivery_condition: item.input.deliveryCondition,
+              return_note: item.input.returnNote,
+              return_condition: item.input.returnCondition,
+              copy_codes: item.input.copyCodes,
+              returned_codes: item.input.returnedCodes,
+            })),
+          }),
+        },
+        { service: true }
+      );
+
+      return loans.length ? attachBooks(loans, `eq.${loans[0].library_id}`) : [];
+    },
+
+    async renewLoan(session, loanId, dueDate) {
+      const result = await supabaseRest<TenantLoan[]>(
+        '/rest/v1/rpc/renew_loan',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_loan_id: loanId,
+            p_librarian_id: session.id,
+            p_due_date: dueDate,
+          }),
+        },
+        { service: true }
+      );
+
+      return attachBook(result[0]);
+    },
+
+    async requestLoanRenewal(libraryId, loanId, identifier, dueDate) {
+      const result = await supabaseRest<TenantLoan[]>(
+        '/rest/v1/rpc/request_loan_renewal',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_library_id: libraryId,
+            p_loan_id: loanId,
+            p_identifier: identifier,
+            p_due_date: dueDate,
+          }),
+        },
+        { service: true }
+      );
+
+      return attachBook(result[0]);
+    },
+
+    async declineLoanRenewal(session, loanId) {
+      const result = await supabaseRest<TenantLoan[]>(
+        '/rest/v1/rpc/decline_loan_renewal',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_loan_id: loanId,
+            p_librarian_id: session.id,
+          }),
+        },
+        { service: true }
+      );
+
+      return attachBook(result[0]);
+    },
+
+    async listPatrons(libraryIds) {
+      return supabaseRest<TenantPatron[]>(
+        `/rest/v1/patrons?select=${PATRON_COLUMNS}&library_id=in.(${libraryIds.join(',')})&order=full_name.asc`,
+        { method: 'GET' },
+        { service: true }
+      );
+    },
+
+    async getPatron(patronId) {
+      const result = await supabaseRest<TenantPatron[]>(
+        `/rest/v1/patrons?select=${PATRON_COLUMNS}&id=eq.${patronId}`,
+        { method: 'GET' },
+        { service: true }
+      );
+
+      return result[0] || null;
+    },
+
+    async createPatron(libraryId, payload) {
+      const result = await supabaseRest<TenantPatron[]>(
+        `/rest/v1/patrons?select=${PATRON_COLUMNS}`,
+        {
+          method: 'POST',
+          body: JSON.stringify([{ ...payload, library_id: libraryId }]),
+        },
+        { service: true, prefer: 'return=representation' }
+      );
+
+      return result[0];
+    },
+
+    async updatePatron(patronId, payload) {
+      const result = await supabaseRest<TenantPatron[]>(
+        `/rest/v1/patrons?id=eq.${patronId}&select=${PATRON_COLUMNS}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({ ...payload, updated_at: nowIso() }),
+        },
+        { service: true, prefer: 'return=representation' }
+      );
+
+      if (!result[0]) {
+        throw new Error('Lector no encontrado.');
+      }
+
+      return result[0];
+    },
+
+    async mergePatrons(session, targetId, sourceId) {
+      const result = await supabaseRest<TenantPatron[]>(
+        '/rest/v1/rpc/merge_patrons',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_librarian_id: session.id,
+            p_target_id: targetId,
+            p_source_id: sourceId,
+          }),
+        },
+        { service: true }
+      );
+
+      return result[0];
+    },
+
+    async listLedger(libraryIds) {
+      return supabaseRest<PatronLedgerEntry[]>(
+        `/rest/v1/patron_ledger?select=${LEDGER_COLUMNS}&library_id=in.(${libraryIds.join(',')})&order=created_at.desc`,
+        { method: 'GET' },
+        { service: true }
+      );
+    },
+
+    async lookupLedger(libraryId, identifier) {
+      return supabaseRest<PatronLedgerEntry[]>(
+        `/rest/v1/patron_ledger?select=${LEDGER_COLUMNS}&library_id=eq.${libraryId}&identifier=eq.${encodeURIComponent(identifier)}&order=created_at.desc`,
+        { method: 'GET' },
+        { service: true }
+      );
+    },
+
+    async recordLedgerCredit(session, libraryId, payload) {
+      const result = await supabaseRest<PatronLedgerEntry[]>(
+        '/rest/v1/rpc/record_ledger_credit',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_library_id: libraryId,
+            p_librarian_id: session.id,
+            p_identifier: payload.identifier,
+            p_kind: payload.kind,
+            p_amount: payload.amount,
+            p_loan_id: payload.loan_id || null,
+            p_note: payload.note || null,
+          }),
+        },
+        { service: true }
+      );
+
+      return result[0];
+    },
+
+    async listHolds(bookId) {
+      return supabaseRest<BookHold[]>(
+        `/rest/v1/book_holds?select=${HOLD_COLUMNS}&book_id=eq.${bookId}&status=in.(waiting,ready)&order=position.asc,created_at.asc`,
+        { method: 'GET' },
+        { service: true }
+      );
+    },
+
+    async lookupHolds(libraryId, identifier) {
+      const holds = await supabaseRest<BookHold[]>(
+        `/rest/v1/book_holds?select=${HOLD_COLUMNS}&library_id=eq.${libraryId}&identifier=eq.${encodeURIComponent(identifier)}&order=created_at.desc`,
+        { method: 'GET' },
+        { service: true }
+      );
+
+      return attachBooks(holds, `eq.${libraryId}`);
+    },
+
+    async createHold(libraryId, payload, ip) {
+      const result = await supabaseRest<BookHold[]>(
+        '/rest/v1/rpc/create_book_hold',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_library_id: libraryId,
+            p_book_id: payload.book_id,
+            p_full_name: payload.full_name.trim(),
+            p_identifier: payload.identifier.trim(),
+            p_request_ip: ip,
+          }),
+        },
+        { service: true }
+      );
+
+      return result[0];
+    },
+
+    async updateHold(session, holdId, action) {
+      const result = await supabaseRest<BookHold[]>(
+        '/rest/v1/rpc/update_book_hold',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_hold_id: holdId,
+            p_librarian_id: session.id,
+            p_action: action,
+          }),
+        },
+        { service: true }
+      );
+
+      return result[0];
+    },
+
+    async fulfillHold(session, holdId, dueDate) {
+      const result = await supabaseRest<TenantLoan[]>(
+        '/rest/v1/rpc/fulfill_book_hold',
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            p_hold_id: holdId,
+            p_librarian_id: session.id,
+            p_due_date: dueDate,
+          }),
+        },
+        { service: true }
+      );
+
+      return attachBook(result[0]);
+    },
+
+    async listAuditEntries(libraryIds, filters, range) {
+      const clauses = [
+        `library_id=in.(${libraryIds.join(',')})`,
+        filters.action ? `action=eq.${filters.action}` : '',
+        filters.actions ? `action=in.(${filters.actions.join(',')})` : '',
+        filters.entityType ? `entity_type=eq.${filters.entityType}` : '',
+        filters.librarianId ? `librarian_id=eq.${filters.librarianId}` : '',
+        filters.from ? `created_at=gte.${filters.from}` : '',
+        // `to` is a whole day, so the bound is the start of the next one
+        filters.to ? `created_at=lt.${format(addDays(parseISO(filters.to), 1), 'yyyy-MM-dd')}` : '',
+      ].filter(Boolean);
+
+      const [entries, total] = await Promise.all([
+        supabaseRest<AuditEntry[]>(
+          `/rest/v1/audit_log?select=${AUDIT_COLUMNS}&${clauses.join('&')}&order=created_at.desc&offset=${range.offset}&limit=${range.limit}`,
+          { method: 'GET' },
+          { service: true }
+        ),
+        supabaseCount(`/rest/v1/audit_log?select=id&${clauses.join('&')}`, { service: true }),
+      ]);
+
+      return { entries, total };
+    },
+
+    async appendAuditEntry(input) {
+      const result = await supabaseRest<AuditEntry[]>(
+        `/rest/v1/audit_log?select=${AUDIT_COLUMNS}`,
+        {
+          method: 'POST',
+          body: JSON.stringify(input),
+        },
+        { service: true, prefer: 'return=representation' }
+      );
+
+      return result[0];
+    },
+
+    async loginLibrarian(email, password) {
+      const auth = await supabaseLogin(email, password);
+      const user = await supabaseUser(auth.access_token);
+
+      return {
+        accessToken: auth.access_token,
+        refreshToken: auth.refresh_token,
+        session: {
+          id: user.id,
+          email: user.email || email,
+          full_name: user.user_metadata?.full_name || email,
+          library_ids: await listMemberships(user.id),
+        } satisfies LibrarianSession,
+      };
+    },
+
+    async getSessionFromToken(accessToken) {
+      try {
+        const user = await supabaseUser(accessToken);
+
+        return {
+          id: user.id,
+          email: user.email || '',
+          full_name: user.user_metadata?.full_name || user.email || 'Librarian',
+          library_ids: await listMemberships(user.id),
+        };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
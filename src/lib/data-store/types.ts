@@ -0,0 +1,211 @@
+import {
+  AuditAction,
+  AuditEntry,
+  AuditFilters,
+  BookCopy,
+  BookHold,
+  BookMutationPayload,
+  CopyCondition,
+  CopyUpdatePayload,
+  HoldRequestPayload,
+  LedgerCreditPayload,
+  LibrarianSession,
+  LibraryCirculationPolicy,
+  LibraryCodeFormat,
+  LibraryOpeningHours,
+  LibraryFeeRules,
+  LibraryTenant,
+  LoanCartPayload,
+  LoanRequestPayload,
+  LoanStatus,
+  PatronLedgerEntry,
+  PatronPayload,
+  TenantBook,
+  TenantLoan,
+  TenantLoanGroup,
+  TenantPatron,
+} from '@/types/tenant';
+
+export type CopyConditionCounts = { good: number; fair: number; bad: number };
+
+export interface LibrarianLogin {
+  accessToken: string;
+  refreshToken: string;
+  session: LibrarianSession;
+}
+
+export interface LoanTransitionInput {
+  copyCodes?: string[];
+  returnedCodes?: string[];
+  deliveryCondition?: CopyConditionCounts;
+  returnNote?: string;
+  returnCondition?: CopyConditionCounts;
+}
+
+// One line of a group transition; lines can move to a different status than the rest
+export interface LoanGroupTransitionItem {
+  loanId: string;
+  status: LoanStatus;
+  input: LoanTransitionInput;
+}
+
+export type BookRecordInput = Omit<BookMutationPayload, 'good_copies' | 'fair_copies' | 'bad_copies'>;
+
+export interface NewCopyInput {
+  code: string;
+  condition: CopyCondition;
+  shelf_location?: string | null;
+  // Set for hand-entered codes in the library's series, so allocation moves past them
+  sequence?: number | null;
+}
+
+// One book of a bulk import; the store allocates a library code per condition entry
+export interface BookImportInput {
+  input: BookRecordInput;
+  conditions: CopyCondition[];
+}
+
+// Copies leaving `bookId` for another library, each under the code it will carry there
+export interface CopyTransferInput {
+  bookId: string;
+  toLibraryId: string;
+  // `sequence` is set when a copy keeps its code, so the destination's series moves past it
+  copies: Array<{ id: string; code: string; sequence: number | null }>;
+  // Existing destination book, or null to create one from `book`
+  targetBookId: string | null;
+  book: BookRecordInput;
+}
+
+export type HoldAction = 'cancel' | 'move_up' | 'move_down';
+
+export type AuditEntryInput = Omit<AuditEntry, 'id' | 'created_at'>;
+
+// `actions` matches any of the listed actions, on top of the single `action` filter
+export type AuditEntryQuery = Omit<AuditFilters, 'libraryId'> & { actions?: AuditAction[] };
+
+export interface AuditEntryPage {
+  entries: AuditEntry[];   // Newest first
+  total: number;           // Entries matching the query, across all pages
+}
+
+export interface TenantDataset {
+  libraries: LibraryTenant[];
+  books: TenantBook[];
+  copies: BookCopy[];
+  loans: TenantLoan[];
+  loanGroups: TenantLoanGroup[];
+  patrons: TenantPatron[];
+  holds: BookHold[];
+  ledger: PatronLedgerEntry[];
+  auditLog: AuditEntry[];
+  librarians: LibrarianSession[];
+  // Last code number handed out per library id
+  codeSequences: Record<string, number>;
+  // SHA-256 of each loan request's cancellation code, by loan id
+  cancelCodes: Record<string, string>;
+}
+
+/**
+ * Storage backend behind `library-data.ts`. Validation and access checks that do
+ * not depend on stored records live in `library-data.ts`; everything that reads or
+ * writes tenant data goes through one of these methods.
+ */
+export interface LibraryDataStore {
+  readonly kind: string;
+
+  resolveLibrary(subdomain: string): Promise<LibraryTenant | null>;
+  listPublicLibraries(): Promise<LibraryTenant[]>;
+  listLibraries(libraryIds: string[]): Promise<LibraryTenant[]>;
+  updateLibraryCodeFormat(libraryId: string, format: LibraryCodeFormat): Promise<LibraryTenant>;
+  updateLibraryFeeRules(libraryId: string, rules: LibraryFeeRules): Promise<LibraryTenant>;
+  updateLibraryCirculationPolicy(libraryId: string, policy: LibraryCirculationPolicy): Promise<LibraryTenant>;
+  updateLibraryOpeningHours(libraryId: string, hours: LibraryOpeningHours | null): Promise<LibraryTenant>;
+
+  // `includeUnavailable` also returns titles whose copies are all out, so patrons can join the queue
+  listAvailableBooks(libraryId: string, query?: string, includeUnavailable?: boolean): Promise<TenantBook[]>;
+  listBooks(libraryIds: string[]): Promise<TenantBook[]>;
+  getBook(bookId: string): Promise<TenantBook | null>;
+  allocateLibraryCodes(libraryId: string, count: number): Promise<string[]>;
+  // Allocates a code per condition entry and creates the book with its copies, or nothing if any insert fails
+  createBook(input: BookRecordInput, conditions: CopyCondition[], librarianId: string): Promise<TenantBook>;
+  // Allocates the codes and creates every book, or nothing if any insert fails
+  importBooks(libraryId: string, books: BookImportInput[], librarianId: string): Promise<TenantBook[]>;
+  updateBook(bookId: string, input: BookRecordInput): Promise<TenantBook | null>;
+  archiveBook(bookId: string, libraryId: string): Promise<void>;
+  // Moves the source's copies, loans and holds to the target, fills the target's empty details and archives the source
+  mergeBooks(session: LibrarianSession, targetId: string, sourceId: string): Promise<TenantBook>;
+  hasActiveLoans(bookId: string, libraryId: string): Promise<boolean>;
+  // Moves copies, with their history, to a book in another library; copies on loan or on hold are refused
+  transferCopies(session: LibrarianSession, input: CopyTransferInput): Promise<{ source: TenantBook; destination: TenantBook }>;
+
+  listCopies(bookId: string): Promise<BookCopy[]>;
+  // Every copy in a library in one query, for exports that cover the whole catalog
+  listLibraryCopies(libraryId: string): Promise<BookCopy[]>;
+  getCopy(copyId: string): Promise<BookCopy | null>;
+  findCopyByCode(libraryId: string, code: string): Promise<BookCopy | null>;
+  addCopies(bookId: string, copies: NewCopyInput[], librarianId: string): Promise<BookCopy[]>;
+  updateCopy(copyId: string, changes: CopyUpdatePayload, librarianId: string): Promise<BookCopy>;
+
+  lookupLoans(libraryId: string, identifier: string): Promise<TenantLoan[]>;
+  listLoans(libraryIds: string[]): Promise<TenantLoan[]>;
+  getLoan(loanId: string): Promise<TenantLoan | null>;
+  createLoanRequest(
+    libraryId: string,
+    payload: LoanRequestPayload,
+    ip: string,
+    cancelCodeHash: string
+  ): Promise<TenantLoan>;
+  // All lines are created together or not at all, and count once against the rate limit
+  createLoanGroup(
+    libraryId: string,
+    payload: LoanCartPayload,
+    ip: string,
+    cancelCodeHash: string
+  ): Promise<{ group: TenantLoanGroup; loans: TenantLoan[] }>;
+  cancelLoanRequest(libraryId: string, loanId: string, identifier: string, cancelCodeHash: string): Promise<TenantLoan>;
+  transitionLoan(
+    session: LibrarianSession,
+    loanId: string,
+    nextStatus: LoanStatus,
+    input: LoanTransitionInput
+  ): Promise<TenantLoan>;
+  transitionLoanGroup(
+    session: LibrarianSession,
+    groupId: string,
+    items: LoanGroupTransitionItem[]
+  ): Promise<TenantLoan[]>;
+
+  renewLoan(session: LibrarianSession, loanId: string, dueDate: string): Promise<TenantLoan>;
+  requestLoanRenewal(libraryId: string, loanId: string, identifier: string, dueDate: string): Promise<TenantLoan>;
+  declineLoanRenewal(session: LibrarianSession, loanId: string): Promise<TenantLoan>;
+
+  // New loan requests find or create the patron by identifier and link to it
+  listPatrons(libraryIds: string[]): Promise<TenantPatron[]>;
+  getPatron(patronId: string): Promise<TenantPatron | null>;
+  createPatron(libraryId: string, payload: PatronPayload): Promise<TenantPatron>;
+  updatePatron(patronId: string, payload: PatronPayload): Promise<TenantPatron>;
+  // Moves the source's loans, holds and ledger entries to the target and removes the source
+  mergePatrons(session: LibrarianSession, targetId: string, sourceId: string): Promise<TenantPatron>;
+
+  // Returning a loan charges its late and damage fees to the patron's ledger
+  listLedger(libraryIds: string[]): Promise<PatronLedgerEntry[]>;
+  lookupLedger(libraryId: string, identifier: string): Promise<PatronLedgerEntry[]>;
+  recordLedgerCredit(session: LibrarianSession, libraryId: string, payload: LedgerCreditPayload): Promise<PatronLedgerEntry>;
+
+  listHolds(bookId: string): Promise<BookHold[]>;
+  lookupHolds(libraryId: string, identifier: string): Promise<BookHold[]>;
+  createHold(libraryId: string, payload: HoldRequestPayload, ip: string): Promise<BookHold>;
+  updateHold(session: LibrarianSession, holdId: string, action: HoldAction): Promise<BookHold>;
+  fulfillHold(session: LibrarianSession, holdId: string, dueDate: string): Promise<TenantLoan>;
+
+  // Append-only: entries are never updated or removed
+  listAuditEntries(
+    libraryIds: string[],
+    filters: AuditEntryQuery,
+    range: { offset: number; limit: number }
+  ): Promise<AuditEntryPage>;
+  appendAuditEntry(entry: AuditEntryInput): Promise<AuditEntry>;
+
+  loginLibrarian(email: string, password: string): Promise<LibrarianLogin>;
+  getSessionFromToken(accessToken: string): Promise<LibrarianSession | null>;
+}
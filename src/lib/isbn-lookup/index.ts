@@ -0,0 +1,68 @@
+import path from 'path';
+import { IsbnMetadata } from '@/types/tenant';
+import { parseIsbn } from '@/lib/isbn';
+import { createLocalDatasetProvider } from './local-dataset';
+import { createOpenLibraryProvider } from './open-library';
+import { IsbnProvider } from './types';
+
+export * from './types';
+
+let activeProviders: IsbnProvider[] | null = null;
+
+function createConfiguredProviders(): IsbnProvider[] {
+  const names = (process.env.ISBN_PROVIDERS || 'local,openlibrary')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return names.map((name) => {
+    if (name === 'local') {
+      return createLocalDatasetProvider(process.env.ISBN_DATASET_PATH || path.join(process.cwd(), 'data', 'isbn-dataset.json'));
+    }
+
+    if (name === 'openlibrary') {
+      return createOpenLibraryProvider(process.env.OPEN_LIBRARY_URL);
+    }
+
+    throw new Error(`Unknown ISBN provider "${name}". Use local or openlibrary.`);
+  });
+}
+
+/**
+ * Returns the configured providers in the order they are asked. `ISBN_PROVIDERS`
+ * lists them (default `local,openlibrary`), so the offline dataset answers first
+ * and Open Library fills the gaps; set it to `local` for installs with no network.
+ */
+export function getIsbnProviders(): IsbnProvider[] {
+  if (!activeProviders) {
+    activeProviders = createConfiguredProviders();
+  }
+
+  return activeProviders;
+}
+
+// The first provider that knows the book wins; a failing provider only matters if none answer
+export async function lookupIsbn(raw: string): Promise<IsbnMetadata | null> {
+  const isbn = parseIsbn(raw);
+
+  if (!isbn) {
+    throw new Error('El ISBN no es válido: revisa los dígitos y el dígito de control.');
+  }
+
+  const failures: string[] = [];
+
+  for (const provider of getIsbnProviders()) {
+    try {
+      const metadata = await provider.lookup(isbn);
+      if (metadata) return metadata;
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : `${provider.kind} falló.`);
+    }
+  }
+
+  if (failures.length && failures.length === getIsbnProviders().length) {
+    throw new Error(`No se pudo consultar el ISBN: ${failures.join(' ')}`);
+  }
+
+  return null;
+}
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import { IsbnMetadata } from '@/types/tenant';
+import { detectDelimiter, parseCsv } from '@/lib/csv';
+import { parseIsbn } from '@/lib/isbn';
+import { IsbnProvider } from './types';
+
+type DatasetEntry = Omit<IsbnMetadata, 'isbn13' | 'isbn10' | 'source'>;
+
+// Columns (CSV) or keys (JSON) read from each record; `isbn` may be either form
+const TEXT_FIELDS = ['title', 'author', 'editorial', 'edition', 'image_url'] as const;
+
+function toEntry(record: Record<string, unknown>): DatasetEntry {
+  const entry: DatasetEntry = {};
+
+  TEXT_FIELDS.forEach((field) => {
+    const value = typeof record[field] === 'string' ? (record[field] as string).trim() : '';
+    if (value) entry[field] = value;
+  });
+
+  const categories = Array.isArray(record.categories)
+    ? record.categories.map(String)
+    : String(record.categories || '').split(/[;|]/);
+  const cleaned = categories.map((category) => category.trim().toLowerCase()).filter(Boolean);
+
+  if (cleaned.length) {
+    entry.categories = cleaned;
+  }
+
+  return entry;
+}
+
+function readRecords(filePath: string): Array<Record<string, unknown>> {
+  const text = fs.readFileSync(filePath, 'utf8');
+
+  if (filePath.toLowerCase().endsWith('.csv')) {
+    const [header, ...rows] = parseCsv(text, detectDelimiter(text));
+    const columns = (header?.values || []).map((value) => value.trim().toLowerCase());
+    return rows.map(({ values }) => Object.fromEntries(columns.map((column, index) => [column, values[index] || ''])));
+  }
+
+  const parsed = JSON.parse(text);
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+/**
+ * Serves lookups from a JSON array or CSV file on disk, so catalogs can be
+ * enriched without a network connection. The file is indexed by ISBN-13 and
+ * read again only when it changes; a missing file simply finds nothing.
+ */
+export function createLocalDatasetProvider(filePath: string): IsbnProvider {
+  let index = new Map<string, DatasetEntry>();
+  let loadedAt = -1;
+
+  function load() {
+    if (!fs.existsSync(filePath)) {
+      index = new Map();
+      loadedAt = -1;
+      return index;
+    }
+
+    const modifiedAt = fs.statSync(filePath).mtimeMs;
+    if (modifiedAt !== loadedAt) {
+      index = new Map();
+      readRecords(filePath).forEach((record) => {
+        const isbn = parseIsbn(String(record.isbn || record.isbn13 || record.isbn10 || ''));
+        if (isbn) index.set(isbn.isbn13, toEntry(record));
+      });
+      loadedAt = modifiedAt;
+    }
+
+    return index;
+  }
+
+  return {
+    kind: 'local',
+
+    async lookup(isbn) {
+      const entry = load().get(isbn.isbn13);
+      return entry ? { ...isbn, ...entry, source: 'Catálogo local' } : null;
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { IsbnMetadata } from '@/types/tenant';
+import { IsbnProvider } from './types';
+
+const REQUEST_TIMEOUT_MS = 5000;
+const MAX_CATEGORIES = 3;
+
+interface OpenLibraryBook {
+  title?: string;
+  subtitle?: string;
+  authors?: Array<{ name?: string }>;
+  publishers?: Array<{ name?: string }>;
+  edition_name?: string;
+  cover?: { small?: string; medium?: string; large?: string };
+  subjects?: Array<{ name?: string }>;
+}
+
+/**
+ * Looks books up through the Books API (`/api/books?jscmd=data`) of Open
+ * Library or any server that speaks it, asking for both ISBN forms at once
+ * since a record may be filed under either.
+ */
+export function createOpenLibraryProvider(baseUrl = 'https://openlibrary.org'): IsbnProvider {
+  return {
+    kind: 'openlibrary',
+
+    async lookup(isbn) {
+      const keys = [isbn.isbn13, isbn.isbn10].filter(Boolean).map((value) => `ISBN:${value}`);
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+      try {
+        const response = await fetch(
+          `${baseUrl.replace(/\/$/, '')}/api/books?bibkeys=${encodeURIComponent(keys.join(','))}&format=json&jscmd=data`,
+          { signal: controller.signal, cache: 'no-store' }
+        );
+
+        if (!response.ok) {
+          throw new Error(`Open Library respondió ${response.status}.`);
+        }
+
+        const payload = (await response.json()) as Record<string, OpenLibraryBook>;
+        const book = keys.map((key) => payload[key]).find(Boolean);
+
+        if (!book?.title) {
+          return null;
+        }
+
+        const categories = (book.subjects || [])
+          .map((subject) => subject.name?.trim().toLowerCase())
+          .filter((name): name is string => Boolean(name))
+          .slice(0, MAX_CATEGORIES);
+
+        const metadata: IsbnMetadata = {
+          ...isbn,
+          title: book.subtitle ? `${book.title}: ${book.subtitle}` : book.title,
+          author: book.authors?.[0]?.name,
+          editorial: book.publishers?.[0]?.name,
+          edition: book.edition_name,
+          image_url: book.cover?.large || book.cover?.medium,
+          categories: categories.length ? categories : undefined,
+          source: 'Open Library',
+        };
+
+        return metadata;
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw new Error('Open Library no respondió a tiempo.');
+        }
+
+        // fetch rejects with a TypeError when the server cannot be reached at all
+        if (error instanceof TypeError) {
+          throw new Error('No se pudo conectar con Open Library.');
+        }
+
+        throw error;
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+  };
+}
@@ -0,0 +1,11 @@
+import { IsbnMetadata, ParsedIsbn } from '@/types/tenant';
+
+/**
+ * A source of book metadata by ISBN. Providers receive an already validated
+ * ISBN in both forms and return null when they do not know the book; they
+ * throw only when the source itself fails (network, unreadable file).
+ */
+export interface IsbnProvider {
+  readonly kind: string;
+  lookup(isbn: ParsedIsbn): Promise<IsbnMetadata | null>;
+}
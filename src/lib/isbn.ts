@@ -0,0 +1,75 @@
+import { ParsedIsbn } from '@/types/tenant';
+
+/**
+ * ISBN check digits and conversion. ISBN-10 weights digits 10..1 mod 11 (X
+ * stands for 10); ISBN-13 alternates weights 1 and 3 mod 10. Only 978-prefixed
+ * ISBN-13s have an ISBN-10 equivalent.
+ */
+
+// Drops hyphens, spaces and an "ISBN" prefix, as typed on forms and printed on books
+export function normalizeIsbn(raw: string) {
+  return raw.replace(/^\s*isbn(?:-1[03])?:?/i, '').replace(/[\s-]/g, '').toUpperCase();
+}
+
+function isbn10CheckDigit(first9: string) {
+  const sum = first9.split('').reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+function isbn13CheckDigit(first12: string) {
+  const sum = first12.split('').reduce((total, digit, index) => total + Number(digit) * (index % 2 ? 3 : 1), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+export function isValidIsbn10(raw: string) {
+  const isbn = normalizeIsbn(raw);
+  return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9];
+}
+
+export function isValidIsbn13(raw: string) {
+  const isbn = normalizeIsbn(raw);
+  return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+}
+
+export function isbn10To13(raw: string) {
+  const isbn = normalizeIsbn(raw);
+
+  if (!isValidIsbn10(isbn)) {
+    throw new Error('ISBN-10 no válido.');
+  }
+
+  const first12 = `978${isbn.slice(0, 9)}`;
+  return `${first12}${isbn13CheckDigit(first12)}`;
+}
+
+// Returns null for 979 ISBNs, which were never issued as ISBN-10
+export function isbn13To10(raw: string) {
+  const isbn = normalizeIsbn(raw);
+
+  if (!isValidIsbn13(isbn)) {
+    throw new Error('ISBN-13 no válido.');
+  }
+
+  if (!isbn.startsWith('978')) {
+    return null;
+  }
+
+  const first9 = isbn.slice(3, 12);
+  return `${first9}${isbn10CheckDigit(first9)}`;
+}
+
+// Both forms of a valid ISBN, or null when `raw` is neither a valid ISBN-10 nor ISBN-13
+export function parseIsbn(raw: string): ParsedIsbn | null {
+  const isbn = normalizeIsbn(raw);
+
+  if (isValidIsbn13(isbn)) {
+    return { isbn13: isbn, isbn10: isbn13To10(isbn) };
+  }
+
+  if (isValidIsbn10(isbn)) {
+    return { isbn13: isbn10To13(isbn), isbn10: isbn };
+  }
+
+  return null;
+}
@@ -0,0 +1,83 @@
+import { CodeCheckDigit, LibraryCodeFormat, LibraryTenant } from '@/types/tenant';
+
+export const CODE_CHECK_DIGITS: CodeCheckDigit[] = ['none', 'mod10', 'mod11'];
+
+/**
+ * Code format a library uses. Libraries that never configured one keep the
+ * original `<subdomain>0001` series.
+ */
+export function resolveCodeFormat(
+  library: Pick<LibraryTenant, 'subdomain' | 'code_format'> | null | undefined
+): LibraryCodeFormat {
+  return (
+    library?.code_format || {
+      prefix: (library?.subdomain || 'lib').toLowerCase(),
+      padding: 4,
+      include_year: false,
+      check_digit: 'none',
+    }
+  );
+}
+
+export function computeCheckDigit(digits: string, scheme: CodeCheckDigit) {
+  if (scheme === 'none') {
+    return '';
+  }
+
+  const values = digits.split('').reverse().map(Number);
+
+  if (scheme === 'mod10') {
+    // Luhn: double every other digit starting next to the check digit
+    const sum = values.reduce((total, value, index) => {
+      if (index % 2 === 1) return total + value;
+      const doubled = value * 2;
+      return total + (doubled > 9 ? doubled - 9 : doubled);
+    }, 0);
+    return String((10 - (sum % 10)) % 10);
+  }
+
+  // Mod-11 with weights 2, 3, 4... from the right; a remainder of 10 is written as X
+  const sum = values.reduce((total, value, index) => total + value * (index + 2), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+export function formatLibraryCode(format: LibraryCodeFormat, sequence: number, year = new Date().getFullYear()) {
+  const digits = `${format.include_year ? year : ''}${String(sequence).padStart(format.padding, '0')}`;
+  return `${format.prefix}${digits}${computeCheckDigit(digits, format.check_digit)}`;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits a code into its year and sequence, or returns an error describing why
+ * it does not follow the format.
+ */
+export function parseLibraryCode(format: LibraryCodeFormat, code: string) {
+  const pattern = new RegExp(
+    `^${escapeRegExp(format.prefix)}${format.include_year ? '(\\d{4})' : '()'}(\\d{${format.padding},})${
+      format.check_digit === 'none' ? '()' : '([0-9X])'
+    }$`,
+    'i'
+  );
+  const match = code.trim().match(pattern);
+
+  if (!match) {
+    return { error: `El código ${code} no sigue el formato ${formatLibraryCode(format, 1)}.` } as const;
+  }
+
+  const [, year, sequence, check] = match;
+
+  if (computeCheckDigit(`${year}${sequence}`, format.check_digit) !== check.toUpperCase()) {
+    return { error: `El dígito verificador del código ${code} no es válido.` } as const;
+  }
+
+  return { year: year ? Number(year) : null, sequence: Number(sequence) } as const;
+}
+
+export function validateLibraryCode(format: LibraryCodeFormat, code: string) {
+  const parsed = parseLibraryCode(format, code);
+  return 'error' in parsed ? parsed.error : null;
+}
@@ -1,166 +1,362 @@
+import { createHash, randomInt } from 'crypto';
 import { cookies } from 'next/headers';
-import { BookMutationPayload, LoanRequestPayload, LibrarianSession, LibraryTenant, TenantBook, TenantLoan } from '@/types/tenant';
-import { isSupabaseConfigured, supabaseLogin, supabaseRest, supabaseUser } from '@/lib/supabase-rest';
-import { mockBooks, mockLibrarians, mockLibraries, mockLoans } from '@/lib/mock-tenant-data';
+import {
+  ActivityPage,
+  ActivityType,
+  AuditAction,
+  AuditEntityType,
+  AuditFilters,
+  BookCopy,
+  BookHold,
+  BookImportReport,
+  BookImportRowResult,
+  BookMutationPayload,
+  CatalogExportFilters,
+  CatalogExportFormat,
+  CatalogExportKind,
+  CopyCondition,
+  CopyTransferPayload,
+  CopyTransferResult,
+  CopyUpdatePayload,
+  HoldRequestPayload,
+  LedgerCreditPayload,
+  LibraryCirculationPolicy,
+  LibraryCodeFormat,
+  LibraryFeeRules,
+  LibraryOpeningHours,
+  LoanCartPayload,
+  LoanRequestPayload,
+  LibrarianSession,
+  MarcFormat,
+  LibraryTenant,
+  PatronLedgerEntry,
+  PatronPayload,
+  ReportDataset,
+  ReportFormat,
+  TenantBook,
+  TenantLoan,
+  TenantLoanGroup,
+} from '@/types/tenant';
+import { BookRecordInput, getDataStore, HoldAction, LoanGroupTransitionItem } from '@/lib/data-store';
+import { ensureLibraryAccess } from '@/lib/data-store/helpers';
+import { CODE_CHECK_DIGITS, parseLibraryCode, resolveCodeFormat, validateLibraryCode } from '@/lib/library-codes';
+import { roundMoney } from '@/lib/loan-fees';
+import { ACTIVITY_TYPES, activityAuditActions, buildActivityFeed } from '@/lib/activity-feed';
+import {
+  buildReportDataset,
+  buildReportStats,
+  REPORT_DATASET_LABELS,
+  REPORT_DATASETS,
+  REPORT_FORMATS,
+  ReportSources,
+} from '@/lib/reports';
+import { renderReport } from '@/lib/report-export';
+import { BookImportOptions, parseBookImport, ParsedBookRow } from '@/lib/book-import';
+import { createBookDuplicateIndex, findBookDuplicates } from '@/lib/book-duplicates';
+import { bookToMarc, parseBookMarc, previewMarcMapping } from '@/lib/book-marc';
+import { parseMarc, writeMarc21, writeMarcXml } from '@/lib/marc';
+import { lookupIsbn } from '@/lib/isbn-lookup';
+import { groupBy } from '@/lib/utils';
+import {
+  BOOK_EXPORT_STATUSES,
+  buildCatalogExport,
+  CATALOG_EXPORT_COLUMNS,
+  CATALOG_EXPORT_FORMATS,
+  filterCatalogBooks,
+  LOAN_EXPORT_STATUSES,
+  serializeCatalogExport,
+} from '@/lib/catalog-export';
 
-const DUPLICATE_WINDOW_MS = 10 * 60 * 1000;
-const RATE_WINDOW_MS = 60 * 1000;
-const RATE_LIMIT_MAX = 5;
+function validateBookPayload(payload: BookMutationPayload) {
+  if (!payload.library_id || !payload.title.trim() || !payload.author.trim() || !payload.categories.length) {
+    throw new Error('La biblioteca, el título, el autor y al menos una categoría son obligatorios.');
+  }
 
-const localRateLedger = new Map<string, number[]>();
+  if (payload.good_copies < 0 || payload.fair_copies < 0 || payload.bad_copies < 0) {
+    throw new Error('Las copias no pueden ser negativas.');
+  }
+}
 
-function nowIso() {
-  return new Date().toISOString();
+function normalizeBookPayload(payload: BookMutationPayload): BookRecordInput {
+  const { good_copies: _good, fair_copies: _fair, bad_copies: _bad, ...record } = payload;
+
+  return {
+    ...record,
+    title: payload.title.trim(),
+    author: payload.author.trim(),
+    categories: payload.categories.map((category) => category.trim().toLowerCase()),
+  };
 }
 
-function ensureLibraryAccess(session: LibrarianSession, libraryId: string) {
-  if (!session.library_ids.includes(libraryId)) {
-    throw new Error('You do not have access to that library.');
+const COPY_CONDITIONS: CopyCondition[] = ['good', 'fair', 'bad'];
+const COPY_STATUSES: CopyUpdatePayload['status'][] = ['available', 'lost', 'in_repair', 'withdrawn'];
+const HOLD_ACTIONS: HoldAction[] = ['cancel', 'move_up', 'move_down'];
+
+function normalizeCodeFormat(format: LibraryCodeFormat): LibraryCodeFormat {
+  const prefix = String(format.prefix || '').trim();
+  const padding = Number(format.padding);
+
+  if (!/^[A-Za-z0-9-]{1,20}$/.test(prefix)) {
+    throw new Error('El prefijo debe tener entre 1 y 20 letras, números o guiones.');
+  }
+
+  if (!Number.isInteger(padding) || padding < 1 || padding > 10) {
+    throw new Error('El relleno debe estar entre 1 y 10 dígitos.');
   }
+
+  if (!CODE_CHECK_DIGITS.includes(format.check_digit)) {
+    throw new Error('Dígito verificador no válido.');
+  }
+
+  return { prefix, padding, include_year: Boolean(format.include_year), check_digit: format.check_digit };
 }
 
-function validateBookPayload(payload: BookMutationPayload) {
-  if (!payload.library_id || !payload.title.trim() || !payload.author.trim() || !payload.categories.length) {
-    throw new Error('La biblioteca, el título, el autor y al menos una categoría son obligatorios.');
+function feeAmount(value: number, label: string) {
+  const amount = Number(value);
+
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`${label} debe ser un monto positivo.`);
   }
 
-  if (payload.good_copies < 0 || payload.fair_copies < 0 || payload.bad_copies < 0) {
-    throw new Error('Las copias no pueden ser negativas.');
+  return roundMoney(amount);
+}
+
+function normalizeFeeRules(rules: LibraryFeeRules): LibraryFeeRules {
+  const currency = String(rules.currency || '').trim().toUpperCase();
+  const graceDays = Number(rules.grace_days);
+
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    throw new Error('La moneda debe ser un código de tres letras, como USD o HNL.');
   }
 
-  if (payload.available_copies < 0) {
-    throw new Error('Las copias disponibles no pueden ser negativas.');
+  if (!Number.isInteger(graceDays) || graceDays < 0) {
+    throw new Error('Los días de gracia deben ser un número entero positivo.');
   }
 
-  const calculatedTotal = payload.good_copies + payload.fair_copies + payload.bad_copies;
-  if (payload.available_copies > calculatedTotal) {
-    throw new Error('Las copias disponibles no pueden exceder el total de copias.');
+  return {
+    currency,
+    daily_late_fee: feeAmount(rules.daily_late_fee, 'La multa diaria'),
+    max_late_fee: rules.max_late_fee === null ? null : feeAmount(rules.max_late_fee, 'El tope de multa'),
+    grace_days: graceDays,
+    damage_fees: {
+      good_to_fair: feeAmount(rules.damage_fees?.good_to_fair, 'El cargo de bueno a regular'),
+      good_to_bad: feeAmount(rules.damage_fees?.good_to_bad, 'El cargo de bueno a malo'),
+      fair_to_bad: feeAmount(rules.damage_fees?.fair_to_bad, 'El cargo de regular a malo'),
+    },
+  };
+}
+
+function policyDays(value: number, label: string) {
+  const days = Number(value);
+
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`${label} debe ser un número entero mayor que cero.`);
   }
+
+  return days;
 }
 
+// Empty limits are stored as null and mean "no limit"
+function normalizeCirculationPolicy(policy: LibraryCirculationPolicy): LibraryCirculationPolicy {
+  const maxLoanDays = policyDays(policy.max_loan_days, 'El plazo máximo');
+  const defaultLoanDays = policyDays(policy.default_loan_days, 'El plazo por defecto');
+  const duplicateWindow = Number(policy.duplicate_window_minutes);
+
+  if (defaultLoanDays > maxLoanDays) {
+    throw new Error('El plazo por defecto no puede superar el plazo máximo.');
+  }
+
+  if (!Number.isInteger(duplicateWindow) || duplicateWindow < 0) {
+    throw new Error('La ventana de duplicados debe ser un número entero positivo.');
+  }
 
-function withBook(loan: TenantLoan): TenantLoan {
-  const book = mockBooks.find((item) => item.id === loan.book_id);
   return {
-    ...loan,
-    book: book
-      ? {
-          id: book.id,
-          title: book.title,
-          author: book.author,
-        categories: book.categories,
-
-        }
-      : undefined,
+    max_loan_days: maxLoanDays,
+    default_loan_days: defaultLoanDays,
+    max_copies_per_request:
+      policy.max_copies_per_request === null ? null : policyDays(policy.max_copies_per_request, 'El máximo de copias'),
+    max_active_loans:
+      policy.max_active_loans === null ? null : policyDays(policy.max_active_loans, 'El máximo de préstamos abiertos'),
+    duplicate_window_minutes: duplicateWindow,
   };
 }
 
-export async function resolveLibrary(subdomain: string | null): Promise<LibraryTenant | null> {
-  if (!subdomain) {
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Clearing the hours (null) makes the library open every day again
+function normalizeOpeningHours(hours: LibraryOpeningHours | null): LibraryOpeningHours | null {
+  if (!hours) {
     return null;
   }
 
-  if (!isSupabaseConfigured()) {
-    return mockLibraries.find((library) => library.subdomain === subdomain) || null;
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: hours.timezone });
+  } catch {
+    throw new Error('La zona horaria no es válida.');
+  }
+
+  if (!Array.isArray(hours.weekly) || hours.weekly.length !== 7) {
+    throw new Error('El horario debe incluir los siete días de la semana.');
   }
 
-  const result = await supabaseRest<LibraryTenant[]>(
-    `/rest/v1/libraries?select=id,name,subdomain,city,accent,description&subdomain=eq.${encodeURIComponent(subdomain)}&limit=1`
-  );
+  const weekly = hours.weekly.map((day) => {
+    if (!day) {
+      return null;
+    }
+
+    if (!TIME_PATTERN.test(day.opens) || !TIME_PATTERN.test(day.closes) || day.opens >= day.closes) {
+      throw new Error('Cada día abierto necesita una hora de apertura anterior a la de cierre.');
+    }
+
+    return { opens: day.opens, closes: day.closes };
+  });
 
-  return result[0] || null;
+  if (!weekly.some(Boolean)) {
+    throw new Error('La biblioteca debe abrir al menos un día de la semana.');
+  }
+
+  const closures = new Map<string, { date: string; label?: string }>();
+  (hours.closures || []).forEach((closure) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(closure.date) || Number.isNaN(new Date(closure.date).getTime())) {
+      throw new Error('Fecha de cierre no válida.');
+    }
+
+    closures.set(closure.date, { date: closure.date, ...(closure.label?.trim() ? { label: closure.label.trim() } : {}) });
+  });
+
+  return {
+    timezone: hours.timezone,
+    weekly,
+    closures: Array.from(closures.values()).sort((a, b) => a.date.localeCompare(b.date)),
+  };
 }
 
-export async function listPublicLibraries(): Promise<LibraryTenant[]> {
-  if (!isSupabaseConfigured()) {
-    return mockLibraries;
+const AUDIT_LIMIT = 500;
+const MAX_ACTIVITY_PAGE_SIZE = 100;
+const MAX_REPORT_RANGE_DAYS = 365;
+
+type AuditSnapshot = Record<string, unknown>;
+
+// Plain copies of the stored record, taken before the store mutates it, without the joined book summary.
+// A copy's own event history is left out; it is already a log of the copy.
+function auditSnapshot(record: TenantLoan | TenantBook | BookCopy | null): AuditSnapshot | null {
+  if (!record) {
+    return null;
   }
 
-  return supabaseRest<LibraryTenant[]>(
-    `/rest/v1/libraries?select=id,name,subdomain,city,accent,description&order=name.asc`,
-    { method: 'GET' },
-    { service: true }
-  );
+  const snapshot = JSON.parse(JSON.stringify(record)) as AuditSnapshot;
+  delete snapshot.book;
+  delete snapshot.history;
+  return snapshot;
 }
 
-export async function listAvailableBooks(libraryId: string, query?: string): Promise<TenantBook[]> {
-  if (!isSupabaseConfigured()) {
-    return mockBooks
-      .filter((book) => book.library_id === libraryId && book.available_copies > 0 && !book.archived_at)
-      .filter((book) => {
-        if (!query) {
-          return true;
-        }
+// Without a session the patron made the change from the public pages
+async function recordAudit(
+  session: LibrarianSession | null,
+  action: AuditAction,
+  entity: { id: string; library_id: string },
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null
+) {
+  await getDataStore().appendAuditEntry({
+    library_id: entity.library_id,
+    librarian_id: session?.id ?? null,
+    librarian_name: session?.full_name ?? 'Lector',
+    action,
+    entity_type: action.split('.')[0] as AuditEntityType,
+    entity_id: entity.id,
+    before,
+    after,
+  });
+}
 
-        const needle = query.toLowerCase();
-        return [book.title, book.author, ...book.categories].some((value) => value.toLowerCase().includes(needle));
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand
+const CANCEL_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
 
-      });
+function normalizePatronPayload(payload: PatronPayload): PatronPayload {
+  if (!payload.full_name.trim() || !payload.identifier.trim()) {
+    throw new Error('El nombre y el identificador del lector son obligatorios.');
   }
 
-  const filters = [
-    'select=id,library_id,title,author,categories,total_copies,available_copies,library_codes,book_code,editorial,edition,cover_type,shelf_location,cost,acquired_at,image_url,archived_at',
-    `library_id=eq.${libraryId}`,
-    'available_copies=gt.0',
-    'archived_at=is.null',
-  ];
+  if (payload.status !== 'active' && payload.status !== 'blocked') {
+    throw new Error('Estado de lector no válido.');
+  }
+
+  return {
+    full_name: payload.full_name.trim(),
+    identifier: payload.identifier.trim(),
+    email: payload.email?.trim() || null,
+    phone: payload.phone?.trim() || null,
+    notes: payload.notes?.trim() || null,
+    status: payload.status,
+  };
+}
 
+function generateCancelCode() {
+  const characters = Array.from({ length: 8 }, () => CANCEL_CODE_ALPHABET[randomInt(CANCEL_CODE_ALPHABET.length)]);
+  return `${characters.slice(0, 4).join('')}-${characters.slice(4).join('')}`;
+}
 
-  if (query) {
-    const escaped = encodeURIComponent(`*${query}*`);
-    filters.push(`or=(title.ilike.*${escaped}*,author.ilike.*${escaped}*)`);
+function hashCancelCode(code: string) {
+  return createHash('sha256')
+    .update(code.toUpperCase().replace(/[^A-Z0-9]/g, ''))
+    .digest('hex');
+}
 
+function validateDueDate(dueDate: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dueDate) || Number.isNaN(new Date(dueDate).getTime())) {
+    throw new Error('Fecha de devolución no válida.');
   }
 
-  return supabaseRest<TenantBook[]>(`/rest/v1/books?${filters.join('&')}`);
+  if (dueDate <= new Date().toISOString().slice(0, 10)) {
+    throw new Error('La nueva fecha de devolución debe ser posterior a hoy.');
+  }
 }
 
-export async function lookupLoans(libraryId: string, identifier: string): Promise<TenantLoan[]> {
-  if (!identifier.trim()) {
-    return [];
+function normalizeCopyCodes(codes?: string[]) {
+  if (!codes) {
+    return undefined;
   }
 
-  if (!isSupabaseConfigured()) {
-    return mockLoans
-      .filter((loan) => loan.library_id === libraryId && loan.identifier.toLowerCase() === identifier.toLowerCase())
-      .map(withBook);
+  const normalized = codes.map((code) => String(code).trim()).filter(Boolean);
+
+  if (new Set(normalized).size !== normalized.length) {
+    throw new Error('Cada código de copia solo puede escanearse una vez.');
   }
 
-  const loans = await supabaseRest<TenantLoan[]>(
-    `/rest/v1/loans?select=id,library_id,book_id,full_name,identifier,requested_copies,status,created_at,updated_at,handled_at,returned_at,due_date,delivery_condition,return_condition,return_note&library_id=eq.${libraryId}&identifier=eq.${encodeURIComponent(identifier)}&order=created_at.desc`
-  ,
-    { method: 'GET' },
-    { service: true }
-  );
+  return normalized;
+}
 
-  const books = await supabaseRest<TenantBook[]>(
-    `/rest/v1/books?select=id,title,author,categories&library_id=eq.${libraryId}`,
+export async function resolveLibrary(subdomain: string | null): Promise<LibraryTenant | null> {
+  if (!subdomain) {
+    return null;
+  }
 
-    { method: 'GET' },
-    { service: true }
-  );
-  const bookMap = new Map(books.map((book) => [book.id, book]));
+  return getDataStore().resolveLibrary(subdomain);
+}
 
-  return loans.map((loan) => ({
-    ...loan,
-    book: bookMap.get(loan.book_id),
-  }));
+export async function listPublicLibraries(): Promise<LibraryTenant[]> {
+  return getDataStore().listPublicLibraries();
 }
 
-function enforceLocalRateLimit(ip: string) {
-  const timestamps = localRateLedger.get(ip) || [];
-  const recent = timestamps.filter((timestamp) => Date.now() - timestamp < RATE_WINDOW_MS);
+export async function listAvailableBooks(libraryId: string, query?: string): Promise<TenantBook[]> {
+  return getDataStore().listAvailableBooks(libraryId, query);
+}
+
+export async function listCatalogBooks(libraryId: string, query?: string): Promise<TenantBook[]> {
+  return getDataStore().listAvailableBooks(libraryId, query, true);
+}
 
-  if (recent.length >= RATE_LIMIT_MAX) {
-    throw new Error('Too many loan requests from this IP. Please try again in a minute.');
+export async function lookupLoans(libraryId: string, identifier: string): Promise<TenantLoan[]> {
+  if (!identifier.trim()) {
+    return [];
   }
 
-  recent.push(Date.now());
-  localRateLedger.set(ip, recent);
+  return getDataStore().lookupLoans(libraryId, identifier);
 }
 
 export async function createLoanRequest(libraryId: string, payload: LoanRequestPayload, ip: string) {
-  if (!payload.full_name.trim() || !payload.identifier.trim() || !payload.book_id.trim() || !payload.due_date) {
+  if (!payload.full_name.trim() || !payload.identifier.trim() || !payload.book_id.trim()) {
     throw new Error('All required fields must be completed.');
   }
 
@@ -168,102 +364,89 @@ export async function createLoanRequest(libraryId: string, payload: LoanRequestP
     throw new Error('Requested copies must be at least 1.');
   }
 
-  if (!isSupabaseConfigured()) {
-    enforceLocalRateLimit(ip);
+  // Only the hash is stored; the patron gets the code once, with the new request
+  const cancelCode = generateCancelCode();
+  const loan = await getDataStore().createLoanRequest(libraryId, payload, ip, hashCancelCode(cancelCode));
+  return { ...loan, cancel_code: cancelCode };
+}
 
-    const book = mockBooks.find((item) => item.id === payload.book_id && item.library_id === libraryId);
+const MAX_CART_ITEMS = 10;
 
-    if (!book) {
-      throw new Error('Book not found for this library.');
-    }
+export async function createLoanCartRequest(
+  libraryId: string,
+  payload: LoanCartPayload,
+  ip: string
+): Promise<{ group: TenantLoanGroup; loans: TenantLoan[] }> {
+  if (!payload.full_name.trim() || !payload.identifier.trim()) {
+    throw new Error('All required fields must be completed.');
+  }
 
-    if (payload.requested_copies > book.available_copies) {
-      throw new Error('Requested copies exceed the available inventory.');
-    }
+  if (!payload.items.length || payload.items.length > MAX_CART_ITEMS) {
+    throw new Error(`La solicitud debe incluir entre 1 y ${MAX_CART_ITEMS} títulos.`);
+  }
 
-    const duplicate = mockLoans.find(
-      (loan) =>
-        loan.library_id === libraryId &&
-        loan.book_id === payload.book_id &&
-        loan.identifier.toLowerCase() === payload.identifier.toLowerCase() &&
-        Date.now() - new Date(loan.created_at).getTime() < DUPLICATE_WINDOW_MS
-    );
+  if (payload.items.some((item) => !item.book_id.trim() || item.requested_copies < 1)) {
+    throw new Error('Requested copies must be at least 1.');
+  }
 
-    if (duplicate) {
-      throw new Error('A recent request for this book already exists with that identifier.');
-    }
+  if (new Set(payload.items.map((item) => item.book_id)).size !== payload.items.length) {
+    throw new Error('Cada título solo puede aparecer una vez en la solicitud.');
+  }
 
-    const loan: TenantLoan = {
-      id: `loan-${mockLoans.length + 1}`,
-      library_id: libraryId,
-      book_id: payload.book_id,
-      full_name: payload.full_name.trim(),
-      identifier: payload.identifier.trim(),
-      requested_copies: payload.requested_copies,
-      due_date: payload.due_date,
-      status: 'pending',
-      created_at: nowIso(),
-      updated_at: nowIso(),
-    };
+  // The whole cart shares one cancellation code; each line can still be cancelled on its own
+  const cancelCode = generateCancelCode();
+  const { group, loans } = await getDataStore().createLoanGroup(libraryId, payload, ip, hashCancelCode(cancelCode));
+  return { group, loans: loans.map((loan) => ({ ...loan, cancel_code: cancelCode })) };
+}
 
-    mockLoans.unshift(loan);
-    return withBook(loan);
+export async function cancelLoanRequest(libraryId: string, loanId: string, identifier: string, cancelCode: string) {
+  if (!loanId.trim() || !identifier.trim() || !cancelCode.trim()) {
+    throw new Error('All required fields must be completed.');
   }
 
-  const result = await supabaseRest<TenantLoan[]>(
-    '/rest/v1/rpc/create_public_loan_request',
-    {
-      method: 'POST',
-      body: JSON.stringify({
-        p_library_id: libraryId,
-        p_book_id: payload.book_id,
-        p_full_name: payload.full_name.trim(),
-        p_identifier: payload.identifier.trim(),
-        p_requested_copies: payload.requested_copies,
-        p_request_ip: ip,
-        p_due_date: payload.due_date,
-      }),
-    },
-    { service: true }
-  );
+  const store = getDataStore();
+  const before = auditSnapshot(await store.getLoan(loanId));
+  const loan = await store.cancelLoanRequest(libraryId, loanId, identifier.trim(), hashCancelCode(cancelCode));
 
-  return result[0];
+  await recordAudit(null, 'loan.cancelled', loan, before, auditSnapshot(loan));
+  return loan;
 }
 
-export async function loginLibrarian(email: string, password: string) {
-  if (!isSupabaseConfigured()) {
-    const user = mockLibrarians.find((item) => item.email.toLowerCase() === email.toLowerCase());
+export async function requestLoanRenewal(libraryId: string, loanId: string, identifier: string, dueDate: string) {
+  if (!loanId.trim() || !identifier.trim()) {
+    throw new Error('All required fields must be completed.');
+  }
 
-    if (!user || password !== 'library123') {
-      throw new Error('Invalid librarian credentials.');
-    }
+  validateDueDate(dueDate);
+  return getDataStore().requestLoanRenewal(libraryId, loanId, identifier.trim(), dueDate);
+}
 
-    return {
-      accessToken: `mock-token:${user.id}`,
-      refreshToken: 'mock-refresh-token',
-      session: user,
-    };
+export async function lookupHolds(libraryId: string, identifier: string): Promise<BookHold[]> {
+  if (!identifier.trim()) {
+    return [];
   }
 
-  const auth = await supabaseLogin(email, password);
-  const accessToken = auth.access_token;
-  const user = await supabaseUser(accessToken);
-  const memberships = await supabaseRest<{ library_id: string }[]>(
-    `/rest/v1/librarian_libraries?select=library_id&librarian_id=eq.${user.id}`,
-    { method: 'GET' },
-    { service: true }
-  );
+  return getDataStore().lookupHolds(libraryId, identifier);
+}
 
-  return {
-    accessToken: auth.access_token,
-    refreshToken: auth.refresh_token,
-    session: {
-      id: user.id,
-      email: user.email || email,
-      full_name: user.user_metadata?.full_name || email,
-      library_ids: memberships.map((membership) => membership.library_id),
-    } satisfies LibrarianSession,
-  };
+export async function lookupLedger(libraryId: string, identifier: string): Promise<PatronLedgerEntry[]> {
+  if (!identifier.trim()) {
+    return [];
+  }
+
+  return getDataStore().lookupLedger(libraryId, identifier);
+}
+
+export async function createHoldRequest(libraryId: string, payload: HoldRequestPayload, ip: string) {
+  if (!payload.full_name.trim() || !payload.identifier.trim() || !payload.book_id.trim()) {
+    throw new Error('All required fields must be completed.');
+  }
+
+  return getDataStore().createHold(libraryId, payload, ip);
+}
+
+export async function loginLibrarian(email: string, password: string) {
+  return getDataStore().loginLibrarian(email, password);
 }
 
 export async function getLibrarianSession(): Promise<LibrarianSession | null> {
@@ -274,467 +457,974 @@ export async function getLibrarianSession(): Promise<LibrarianSession | null> {
     return null;
   }
 
-  if (accessToken.startsWith('mock-token:')) {
-    const userId = accessToken.replace('mock-token:', '');
-    return mockLibrarians.find((librarian) => librarian.id === userId) || null;
+  return getDataStore().getSessionFromToken(accessToken);
+}
+
+export async function listAccessibleLibraries(session: LibrarianSession): Promise<LibraryTenant[]> {
+  if (!session.library_ids.length) {
+    return [];
   }
 
-  if (!isSupabaseConfigured()) {
-    return null;
+  return getDataStore().listLibraries(session.library_ids);
+}
+
+export async function listDashboardLoans(session: LibrarianSession, activeLibraryId?: string) {
+  const libraryIds = activeLibraryId ? [activeLibraryId] : session.library_ids;
+
+  if (!libraryIds.length) {
+    return [];
   }
 
-  try {
-    const user = await supabaseUser(accessToken);
-    const memberships = await supabaseRest<{ library_id: string }[]>(
-      `/rest/v1/librarian_libraries?select=library_id&librarian_id=eq.${user.id}`,
-      { method: 'GET' },
-      { service: true }
-    );
+  return getDataStore().listLoans(libraryIds);
+}
 
-    return {
-      id: user.id,
-      email: user.email || '',
-      full_name: user.user_metadata?.full_name || user.email || 'Librarian',
-      library_ids: memberships.map((membership) => membership.library_id),
-    };
-  } catch {
-    return null;
+export async function listDashboardBooks(session: LibrarianSession, activeLibraryId?: string) {
+  const libraryIds = activeLibraryId ? [activeLibraryId] : session.library_ids;
+
+  if (!libraryIds.length) {
+    return [];
   }
+
+  return getDataStore().listBooks(libraryIds);
 }
 
-export async function listAccessibleLibraries(session: LibrarianSession): Promise<LibraryTenant[]> {
-  if (!isSupabaseConfigured()) {
-    return mockLibraries.filter((library) => session.library_ids.includes(library.id));
+async function getAccessibleLibrary(session: LibrarianSession, libraryId: string) {
+  ensureLibraryAccess(session, libraryId);
+  const [library] = await getDataStore().listLibraries([libraryId]);
+
+  if (!library) {
+    throw new Error('Biblioteca no encontrada.');
   }
 
-  if (!session.library_ids.length) {
+  return library;
+}
+
+export async function updateLibraryCodeFormat(session: LibrarianSession, libraryId: string, format: LibraryCodeFormat) {
+  await getAccessibleLibrary(session, libraryId);
+  return getDataStore().updateLibraryCodeFormat(libraryId, normalizeCodeFormat(format));
+}
+
+export async function updateLibraryFeeRules(session: LibrarianSession, libraryId: string, rules: LibraryFeeRules) {
+  await getAccessibleLibrary(session, libraryId);
+  return getDataStore().updateLibraryFeeRules(libraryId, normalizeFeeRules(rules));
+}
+
+export async function updateLibraryCirculationPolicy(
+  session: LibrarianSession,
+  libraryId: string,
+  policy: LibraryCirculationPolicy
+) {
+  await getAccessibleLibrary(session, libraryId);
+  return getDataStore().updateLibraryCirculationPolicy(libraryId, normalizeCirculationPolicy(policy));
+}
+
+export async function updateLibraryOpeningHours(
+  session: LibrarianSession,
+  libraryId: string,
+  hours: LibraryOpeningHours | null
+) {
+  await getAccessibleLibrary(session, libraryId);
+  return getDataStore().updateLibraryOpeningHours(libraryId, normalizeOpeningHours(hours));
+}
+
+export async function listPatronLedger(session: LibrarianSession, activeLibraryId?: string) {
+  const libraryIds = activeLibraryId ? [activeLibraryId] : session.library_ids;
+
+  if (!libraryIds.length) {
     return [];
   }
 
-  const idClause = session.library_ids.join(',');
-  return supabaseRest<LibraryTenant[]>(
-    `/rest/v1/libraries?select=id,name,subdomain,city,accent,description&id=in.(${idClause})`
-  );
+  libraryIds.forEach((libraryId) => ensureLibraryAccess(session, libraryId));
+  return getDataStore().listLedger(libraryIds);
 }
 
-export async function listDashboardLoans(session: LibrarianSession, activeLibraryId?: string) {
-  const libraryIds = activeLibraryId ? [activeLibraryId] : session.library_ids;
+export async function listAuditLog(session: LibrarianSession, filters: AuditFilters) {
+  const { libraryId, ...rest } = filters;
+  const libraryIds = libraryId ? [libraryId] : session.library_ids;
 
   if (!libraryIds.length) {
     return [];
   }
 
-  if (!isSupabaseConfigured()) {
-    return mockLoans
-      .filter((loan) => libraryIds.includes(loan.library_id))
-      .map(withBook)
-      .sort((a, b) => +new Date(b.created_at) - +new Date(a.created_at));
+  libraryIds.forEach((id) => ensureLibraryAccess(session, id));
+
+  if ([rest.from, rest.to].some((date) => date && !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+    throw new Error('Fecha de filtro no válida.');
   }
 
-  const idClause = libraryIds.join(',');
-  const loans = await supabaseRest<TenantLoan[]>(
-    `/rest/v1/loans?select=id,library_id,book_id,full_name,identifier,requested_copies,status,created_at,updated_at,handled_at,returned_at,due_date,delivery_condition,return_condition,return_note&library_id=in.(${idClause})&order=created_at.desc`,
-    { method: 'GET' },
-    { service: true }
-  );
-  const books = await supabaseRest<TenantBook[]>(
-    `/rest/v1/books?select=id,title,author,categories&library_id=in.(${idClause})`,
+  const { entries } = await getDataStore().listAuditEntries(libraryIds, rest, { offset: 0, limit: AUDIT_LIMIT });
+  return entries;
+}
+
+export async function listActivity(
+  session: LibrarianSession,
+  options: { libraryId?: string; types?: ActivityType[]; page?: number; pageSize?: number }
+): Promise<ActivityPage> {
+  const libraryIds = options.libraryId ? [options.libraryId] : session.library_ids;
+  const page = Math.max(1, Math.floor(options.page || 1));
+  const pageSize = Math.min(MAX_ACTIVITY_PAGE_SIZE, Math.max(1, Math.floor(options.pageSize || 20)));
+
+  if (options.types?.some((type) => !ACTIVITY_TYPES.includes(type))) {
+    throw new Error('Tipo de actividad no válido.');
+  }
 
-    { method: 'GET' },
-    { service: true }
+  if (!libraryIds.length) {
+    return { events: [], page, page_size: pageSize, total: 0, has_more: false };
+  }
+
+  libraryIds.forEach((libraryId) => ensureLibraryAccess(session, libraryId));
+
+  const store = getDataStore();
+  const start = (page - 1) * pageSize;
+  const actions = activityAuditActions(options.types);
+  // Every loan yields its events, but only the newest audit entries can reach this page; each of them is one event
+  const [loans, audit, libraries] = await Promise.all([
+    store.listLoans(libraryIds),
+    actions.length
+      ? store.listAuditEntries(libraryIds, { actions }, { offset: 0, limit: start + pageSize })
+      : { entries: [], total: 0 },
+    store.listLibraries(libraryIds),
+  ]);
+  const events = buildActivityFeed(loans, audit.entries, libraries).filter(
+    (event) => !options.types?.length || options.types.includes(event.type)
   );
-  const bookMap = new Map(books.map((book) => [book.id, book]));
+  const total = events.length - audit.entries.length + audit.total;
 
-  return loans.map((loan) => ({
-    ...loan,
-    book: bookMap.get(loan.book_id),
-  }));
+  return {
+    events: events.slice(start, start + pageSize),
+    page,
+    page_size: pageSize,
+    total,
+    has_more: start + pageSize < total,
+  };
 }
 
-export async function listDashboardBooks(session: LibrarianSession, activeLibraryId?: string) {
+async function loadReportSources(
+  session: LibrarianSession,
+  options: { libraryId?: string; dateRange: number }
+): Promise<ReportSources> {
+  const libraryIds = options.libraryId ? [options.libraryId] : session.library_ids;
+
+  if (!Number.isInteger(options.dateRange) || options.dateRange < 1 || options.dateRange > MAX_REPORT_RANGE_DAYS) {
+    throw new Error(`El período del reporte debe estar entre 1 y ${MAX_REPORT_RANGE_DAYS} días.`);
+  }
+
+  if (!libraryIds.length) {
+    return { books: [], loans: [], libraries: [], patrons: [] };
+  }
+
+  libraryIds.forEach((libraryId) => ensureLibraryAccess(session, libraryId));
+
+  const store = getDataStore();
+  const [books, loans, libraries, patrons] = await Promise.all([
+    store.listBooks(libraryIds),
+    store.listLoans(libraryIds),
+    store.listLibraries(libraryIds),
+    store.listPatrons(libraryIds),
+  ]);
+
+  return { books, loans, libraries, patrons };
+}
+
+export async function getReportStats(session: LibrarianSession, options: { libraryId?: string; dateRange: number }) {
+  return buildReportStats(await loadReportSources(session, options), options.dateRange);
+}
+
+export async function getReportDataset(
+  session: LibrarianSession,
+  dataset: ReportDataset,
+  options: { libraryId?: string; dateRange: number }
+) {
+  if (!REPORT_DATASETS.includes(dataset)) {
+    throw new Error('Reporte no válido.');
+  }
+
+  return buildReportDataset(dataset, await loadReportSources(session, options), options.dateRange);
+}
+
+// Branded with the library the report covers; reports spanning several libraries carry the app name
+export async function exportReport(
+  session: LibrarianSession,
+  dataset: ReportDataset,
+  reportFormat: ReportFormat,
+  options: { libraryId?: string; dateRange: number }
+) {
+  if (!REPORT_DATASETS.includes(dataset)) {
+    throw new Error('Reporte no válido.');
+  }
+
+  if (!REPORT_FORMATS.includes(reportFormat)) {
+    throw new Error('Formato de exportación no válido.');
+  }
+
+  const sources = await loadReportSources(session, options);
+  const [library] = sources.libraries.length === 1 ? sources.libraries : [];
+  const report = renderReport(reportFormat, {
+    title: REPORT_DATASET_LABELS[dataset],
+    branding: library ? { name: library.name, accent: library.accent } : { name: 'The Librarian' },
+    rows: buildReportDataset(dataset, sources, options.dateRange),
+    dateRange: options.dateRange,
+  });
+
+  return {
+    ...report,
+    filename: `${library?.subdomain || 'reporte'}-${dataset}-${options.dateRange}d-${new Date().toISOString().slice(0, 10)}.${report.extension}`,
+  };
+}
+
+export async function listPatrons(session: LibrarianSession, activeLibraryId?: string) {
   const libraryIds = activeLibraryId ? [activeLibraryId] : session.library_ids;
 
   if (!libraryIds.length) {
     return [];
   }
 
-  if (!isSupabaseConfigured()) {
-    return mockBooks.filter((book) => libraryIds.includes(book.library_id) && !book.archived_at);
+  libraryIds.forEach((libraryId) => ensureLibraryAccess(session, libraryId));
+  return getDataStore().listPatrons(libraryIds);
+}
+
+async function getAccessiblePatron(session: LibrarianSession, patronId: string) {
+  const patron = await getDataStore().getPatron(patronId);
+
+  if (!patron) {
+    throw new Error('Lector no encontrado.');
   }
 
-  const idClause = libraryIds.join(',');
-  return supabaseRest<TenantBook[]>(
-    `/rest/v1/books?select=id,library_id,title,author,categories,total_copies,available_copies,library_codes,book_code,editorial,edition,cover_type,shelf_location,cost,acquired_at,image_url,archived_at&library_id=in.(${idClause})&archived_at=is.null&order=title.asc`,
-    { method: 'GET' },
-    { service: true }
+  ensureLibraryAccess(session, patron.library_id);
+  return patron;
+}
+
+// Identifiers are unique per library regardless of case
+async function assertIdentifierFree(libraryId: string, identifier: string, patronId?: string) {
+  const patrons = await getDataStore().listPatrons([libraryId]);
+  const taken = patrons.find(
+    (patron) => patron.id !== patronId && patron.identifier.toLowerCase() === identifier.toLowerCase()
   );
 
+  if (taken) {
+    throw new Error(`El identificador ya pertenece a ${taken.full_name}; fusiona los registros si es la misma persona.`);
+  }
 }
 
-export async function createDashboardBook(session: LibrarianSession, payload: BookMutationPayload) {
-  validateBookPayload(payload);
-  ensureLibraryAccess(session, payload.library_id);
+export async function createPatron(session: LibrarianSession, libraryId: string, payload: PatronPayload) {
+  ensureLibraryAccess(session, libraryId);
 
-  const normalizedCategories = payload.categories.map(c => c.trim().toLowerCase());
+  const normalized = normalizePatronPayload(payload);
+  await assertIdentifierFree(libraryId, normalized.identifier);
+  return getDataStore().createPatron(libraryId, normalized);
+}
 
-  // Generation logic for library_codes (needs to work for both Mock and Supabase)
-  const library_codes: string[] = [];
+export async function updatePatron(session: LibrarianSession, patronId: string, payload: PatronPayload) {
+  const patron = await getAccessiblePatron(session, patronId);
+  const normalized = normalizePatronPayload(payload);
 
-  
-  // 1. Get the library subdomain
-  let subdomain = 'lib';
-  if (!isSupabaseConfigured()) {
-    const library = mockLibraries.find(l => l.id === payload.library_id);
-    subdomain = (library?.subdomain || 'lib').toLowerCase();
-  } else {
-    const libs = await listAccessibleLibraries(session);
-    const lib = libs.find(l => l.id === payload.library_id);
-    subdomain = (lib?.subdomain || 'lib').toLowerCase();
-  }
-
-  // 2. Find max sequence
-  let maxSeq = 0;
-  if (!isSupabaseConfigured()) {
-    const libBooks = mockBooks.filter(b => b.library_id === payload.library_id);
-    libBooks.forEach(b => {
-      b.library_codes.forEach(code => {
-        const num = parseInt(code.replace(subdomain, ''));
-        if (!isNaN(num) && num > maxSeq) maxSeq = num;
-      });
-    });
-  } else {
-    // In a real app we'd query Supabase for the max code, 
-    // but for the sake of this implementation we'll fetch existing and find max locally
-    const existing = await listDashboardBooks(session, payload.library_id);
-    existing.forEach(b => {
-
-      b.library_codes?.forEach(code => {
-        const num = parseInt(code.replace(subdomain, ''));
-        if (!isNaN(num) && num > maxSeq) maxSeq = num;
-      });
-    });
+  await assertIdentifierFree(patron.library_id, normalized.identifier, patron.id);
+  return getDataStore().updatePatron(patron.id, normalized);
+}
+
+export async function mergePatrons(session: LibrarianSession, targetId: string, sourceId: string) {
+  if (!targetId || !sourceId || targetId === sourceId) {
+    throw new Error('Selecciona dos lectores distintos para fusionar.');
   }
 
-  // 3. Generate new codes
-  for (let i = 1; i <= payload.total_copies; i++) {
-    library_codes.push(`${subdomain}${String(maxSeq + i).padStart(4, '0')}`);
-  }
-
-  if (!isSupabaseConfigured()) {
-    const book: TenantBook = {
-      id: `book-${mockBooks.length + 1}`,
-      library_id: payload.library_id,
-      title: payload.title.trim(),
-      author: payload.author.trim(),
-      categories: normalizedCategories,
-      total_copies: payload.good_copies + payload.fair_copies + payload.bad_copies,
-      available_copies: payload.available_copies,
-      library_codes,
-      book_code: payload.book_code,
-      editorial: payload.editorial,
-      edition: payload.edition,
-      cover_type: payload.cover_type,
-      shelf_location: payload.shelf_location,
-      cost: payload.cost,
-      acquired_at: payload.acquired_at,
-      image_url: payload.image_url,
-      good_copies: payload.good_copies,
-      fair_copies: payload.fair_copies,
-      bad_copies: payload.bad_copies,
-      archived_at: null,
-    };
+  const target = await getAccessiblePatron(session, targetId);
+  const source = await getAccessiblePatron(session, sourceId);
 
-    mockBooks.push(book);
-    return book;
+  if (target.library_id !== source.library_id) {
+    throw new Error('Solo se pueden fusionar lectores de la misma biblioteca.');
   }
 
-  const result = await supabaseRest<TenantBook[]>(
-    '/rest/v1/books?select=*',
-    {
-      method: 'POST',
-      body: JSON.stringify([
-        {
-          library_id: payload.library_id,
-          title: payload.title.trim(),
-          author: payload.author.trim(),
-          categories: normalizedCategories,
-          good_copies: payload.good_copies,
-          fair_copies: payload.fair_copies,
-          bad_copies: payload.bad_copies,
-          total_copies: payload.good_copies + payload.fair_copies + payload.bad_copies,
-          available_copies: payload.available_copies,
-          library_codes,
-          book_code: payload.book_code,
-          editorial: payload.editorial,
-          edition: payload.edition,
-          cover_type: payload.cover_type,
-          shelf_location: payload.shelf_location,
-          cost: payload.cost,
-          acquired_at: payload.acquired_at,
-          image_url: payload.image_url,
-        },
-      ]),
-    },
-    { service: true, prefer: 'return=representation' }
-  );
+  return getDataStore().mergePatrons(session, target.id, source.id);
+}
+
+export async function recordLedgerCredit(session: LibrarianSession, libraryId: string, payload: LedgerCreditPayload) {
+  if (!payload.identifier.trim()) {
+    throw new Error('Indica el lector al que se aplica el movimiento.');
+  }
 
-  return result[0];
+  if (payload.kind !== 'payment' && payload.kind !== 'waiver') {
+    throw new Error('Tipo de movimiento no válido.');
+  }
+
+  const amount = roundMoney(Number(payload.amount));
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error('El monto debe ser mayor que cero.');
+  }
+
+  await getAccessibleLibrary(session, libraryId);
+  return getDataStore().recordLedgerCredit(session, libraryId, {
+    ...payload,
+    identifier: payload.identifier.trim(),
+    amount,
+    note: payload.note?.trim() || undefined,
+  });
 }
 
-export async function updateDashboardBook(session: LibrarianSession, bookId: string, payload: BookMutationPayload) {
+// Copies keep the code they were labelled with when the format changes, so the lookup comes first
+export async function findCopyByCode(session: LibrarianSession, libraryId: string, code: string) {
+  const library = await getAccessibleLibrary(session, libraryId);
+  const copy = await getDataStore().findCopyByCode(libraryId, code.trim());
+
+  if (!copy) {
+    // A code off the current format is most likely mistyped or from another library; say so as a hint
+    const hint = validateLibraryCode(resolveCodeFormat(library), code);
+    throw new Error(hint ? `Copia no encontrada. ${hint}` : 'Copia no encontrada.');
+  }
+
+  return copy;
+}
+
+async function getAccessibleBook(session: LibrarianSession, bookId: string) {
+  const book = await getDataStore().getBook(bookId);
+
+  if (!book || book.archived_at) {
+    throw new Error('Libro no encontrado.');
+  }
+
+  ensureLibraryAccess(session, book.library_id);
+  return book;
+}
+
+/**
+ * Creates a book and its copies. A likely duplicate of a book already in the
+ * library is refused unless `allowDuplicate`, which the editor sends once the
+ * librarian has seen the warning.
+ */
+export async function createDashboardBook(
+  session: LibrarianSession,
+  payload: BookMutationPayload,
+  options: { allowDuplicate?: boolean } = {}
+) {
   validateBookPayload(payload);
   ensureLibraryAccess(session, payload.library_id);
 
-  const normalizedCategories = payload.categories.map(c => c.trim().toLowerCase());
+  const store = getDataStore();
 
-  if (!isSupabaseConfigured()) {
-    const book = mockBooks.find((item) => item.id === bookId && !item.archived_at);
+  if (!options.allowDuplicate) {
+    const [match] = findBookDuplicates(payload, await store.listBooks([payload.library_id]));
 
-    if (!book) {
-      throw new Error('Libro no encontrado.');
+    if (match) {
+      throw new Error(
+        match.reason === 'book_code'
+          ? `El código ${payload.book_code} ya pertenece a «${match.title}» en esta biblioteca.`
+          : `«${match.title}» de ${match.author} ya está en esta biblioteca; fusiona los registros o confirma que es otro título.`
+      );
     }
+  }
 
-    ensureLibraryAccess(session, book.library_id);
-
-    // If total_copies increased, we should generate more library_codes
-    if (payload.total_copies > book.total_copies) {
-      const library = mockLibraries.find(l => l.id === payload.library_id);
-      const subdomain = (library?.subdomain || 'lib').toLowerCase();
-      const libBooks = mockBooks.filter(b => b.library_id === payload.library_id);
-      let maxSeq = 0;
-      libBooks.forEach(b => {
-        b.library_codes.forEach(code => {
-          const num = parseInt(code.replace(subdomain, ''));
-          if (!isNaN(num) && num > maxSeq) maxSeq = num;
-        });
-      });
-
-      const jump = payload.total_copies - book.total_copies;
-      for (let i = 1; i <= jump; i++) {
-        book.library_codes.push(`${subdomain}${String(maxSeq + i).padStart(4, '0')}`);
-      }
+  const conditions: CopyCondition[] = [
+    ...Array<CopyCondition>(payload.good_copies).fill('good'),
+    ...Array<CopyCondition>(payload.fair_copies).fill('fair'),
+    ...Array<CopyCondition>(payload.bad_copies).fill('bad'),
+  ];
+  const book = await store.createBook(normalizeBookPayload(payload), conditions, session.id);
+
+  await recordAudit(session, 'book.created', book, null, auditSnapshot(book));
+  return book;
+}
+
+/**
+ * Checks every parsed row and, unless `dryRun`, creates the ready rows in one
+ * store call. Any row with errors blocks the import; likely duplicates of
+ * books already in the library (or earlier in the file) are skipped unless
+ * included.
+ */
+async function importParsedBooks(
+  session: LibrarianSession,
+  libraryId: string,
+  parsed: ParsedBookRow[],
+  options: BookImportOptions
+): Promise<BookImportReport> {
+  const store = getDataStore();
+  const existing = await store.listBooks([libraryId]);
+  const duplicates = createBookDuplicateIndex(existing);
+  const labels = new Map(existing.map((book) => [book.id, book.title]));
+
+  const rows = parsed.map(({ line, payload, errors }): BookImportRowResult => {
+    try {
+      validateBookPayload(payload);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Fila no válida.');
     }
 
-    book.title = payload.title.trim();
-    book.author = payload.author.trim();
-    book.categories = normalizedCategories;
-    book.total_copies = payload.good_copies + payload.fair_copies + payload.bad_copies;
-    book.available_copies = payload.available_copies;
-    book.good_copies = payload.good_copies;
-    book.fair_copies = payload.fair_copies;
-    book.bad_copies = payload.bad_copies;
-    book.book_code = payload.book_code;
-    book.editorial = payload.editorial;
-    book.edition = payload.edition;
-    book.cover_type = payload.cover_type;
-    book.shelf_location = payload.shelf_location;
-    book.cost = payload.cost;
-    book.acquired_at = payload.acquired_at;
-    book.image_url = payload.image_url;
-
-    return book;
-  }
-
-  // Handle library_codes expansion for Supabase
-  const currentBook = await supabaseRest<TenantBook[]>(`/rest/v1/books?id=eq.${bookId}&select=*`, { method: 'GET' }, { service: true });
-  const book = currentBook[0];
-  const library_codes = book.library_codes || [];
-
-
-  if (payload.total_copies > book.total_copies) {
-    const libs = await listAccessibleLibraries(session);
-    const lib = libs.find(l => l.id === payload.library_id);
-    const subdomain = (lib?.subdomain || 'lib').toLowerCase();
-    
-    const existing = await listDashboardBooks(session, payload.library_id);
-    let maxSeq = 0;
-    existing.forEach(b => {
-
-      b.library_codes?.forEach(code => {
-        const num = parseInt(code.replace(subdomain, ''));
-        if (!isNaN(num) && num > maxSeq) maxSeq = num;
-      });
-    });
+    const [match] = errors.length ? [] : duplicates.find(payload);
+    const duplicateOf = match ? labels.get(match.book_id) || match.title : null;
 
-    const jump = payload.total_copies - book.total_copies;
-    for (let i = 1; i <= jump; i++) {
-      library_codes.push(`${subdomain}${String(maxSeq + i).padStart(4, '0')}`);
+    if (!errors.length && !duplicateOf) {
+      duplicates.add({ id: `line-${line}`, title: payload.title, author: payload.author, book_code: payload.book_code });
+      labels.set(`line-${line}`, `línea ${line}`);
     }
+
+    return {
+      line,
+      title: payload.title,
+      author: payload.author,
+      copies: payload.good_copies + payload.fair_copies + payload.bad_copies,
+      status: errors.length ? 'error' : duplicateOf ? 'duplicate' : 'ready',
+      errors,
+      duplicate_of: duplicateOf,
+    };
+  });
+
+  const report: BookImportReport = {
+    dry_run: options.dryRun,
+    rows,
+    ready: rows.filter((row) => row.status === 'ready').length,
+    duplicates: rows.filter((row) => row.status === 'duplicate').length,
+    errors: rows.filter((row) => row.status === 'error').length,
+    imported: 0,
+    copies_created: 0,
+  };
+
+  if (options.dryRun) {
+    return report;
   }
 
-  const result = await supabaseRest<TenantBook[]>(
-    `/rest/v1/books?id=eq.${bookId}&library_id=eq.${payload.library_id}&archived_at=is.null&select=*`,
-    {
-      method: 'PATCH',
-      body: JSON.stringify({
-        title: payload.title.trim(),
-        author: payload.author.trim(),
-        categories: normalizedCategories,
-        good_copies: payload.good_copies,
-        fair_copies: payload.fair_copies,
-        bad_copies: payload.bad_copies,
-        total_copies: payload.good_copies + payload.fair_copies + payload.bad_copies,
-        available_copies: payload.available_copies,
-        library_codes,
-        book_code: payload.book_code,
-        editorial: payload.editorial,
-        edition: payload.edition,
-        cover_type: payload.cover_type,
-        shelf_location: payload.shelf_location,
-        cost: payload.cost,
-        acquired_at: payload.acquired_at,
-        image_url: payload.image_url,
-      }),
-    },
-    { service: true, prefer: 'return=representation' }
+  if (report.errors) {
+    throw new Error(`Hay ${report.errors} filas con errores; corrígelas antes de importar.`);
+  }
+
+  const accepted = parsed.filter((_row, index) =>
+    rows[index].status === 'ready' || (options.includeDuplicates && rows[index].status === 'duplicate')
+  );
+  const books = await store.importBooks(
+    libraryId,
+    accepted.map(({ payload }) => ({
+      input: normalizeBookPayload(payload),
+      conditions: [
+        ...Array<CopyCondition>(payload.good_copies).fill('good'),
+        ...Array<CopyCondition>(payload.fair_copies).fill('fair'),
+        ...Array<CopyCondition>(payload.bad_copies).fill('bad'),
+      ],
+    })),
+    session.id
   );
 
-  if (!result[0]) {
-    throw new Error('Libro no encontrado.');
+  for (const book of books) {
+    await recordAudit(session, 'book.created', book, null, auditSnapshot(book));
   }
 
-  return result[0];
+  return {
+    ...report,
+    imported: books.length,
+    copies_created: books.reduce((sum, book) => sum + book.total_copies, 0),
+  };
+}
+
+export async function importDashboardBooks(
+  session: LibrarianSession,
+  libraryId: string,
+  csv: string,
+  options: BookImportOptions
+) {
+  ensureLibraryAccess(session, libraryId);
+  return importParsedBooks(session, libraryId, parseBookImport(csv, libraryId), options);
 }
 
+// Same checks as the CSV import, plus a preview of which MARC tags were read
+export async function importDashboardMarc(
+  session: LibrarianSession,
+  libraryId: string,
+  file: Uint8Array,
+  options: BookImportOptions
+): Promise<BookImportReport> {
+  ensureLibraryAccess(session, libraryId);
 
+  const records = parseMarc(file);
+  const report = await importParsedBooks(session, libraryId, parseBookMarc(records, libraryId), options);
+  return { ...report, mapping: previewMarcMapping(records) };
+}
 
-export async function deleteDashboardBook(session: LibrarianSession, bookId: string, libraryId: string) {
+export async function exportCatalog(
+  session: LibrarianSession,
+  kind: CatalogExportKind,
+  exportFormat: CatalogExportFormat,
+  options: CatalogExportFilters & { libraryId: string }
+) {
+  const { libraryId, ...filters } = options;
   ensureLibraryAccess(session, libraryId);
 
-  if (!isSupabaseConfigured()) {
-    const book = mockBooks.find((item) => item.id === bookId && item.library_id === libraryId && !item.archived_at);
+  if (!CATALOG_EXPORT_COLUMNS[kind]) {
+    throw new Error('Exportación no válida.');
+  }
 
-    if (!book) {
-      throw new Error('Book not found.');
-    }
+  if (!CATALOG_EXPORT_FORMATS.includes(exportFormat)) {
+    throw new Error('Formato de exportación no válido.');
+  }
 
-    const activeLoans = mockLoans.some(
-      (loan) =>
-        loan.book_id === bookId &&
-        loan.library_id === libraryId &&
-        loan.status !== 'returned' &&
-        loan.status !== 'rejected'
-    );
+  const unknown = (filters.columns || []).filter((column) => !CATALOG_EXPORT_COLUMNS[kind].includes(column));
+  if (unknown.length) {
+    throw new Error(`Columnas no válidas: ${unknown.join(', ')}.`);
+  }
 
-    if (activeLoans) {
-      throw new Error('Books with active loans cannot be deleted.');
-    }
+  const statuses: string[] = kind === 'books' ? BOOK_EXPORT_STATUSES : LOAN_EXPORT_STATUSES;
+  if (filters.status && !statuses.includes(filters.status)) {
+    throw new Error('Estado de filtro no válido.');
+  }
 
-    book.archived_at = nowIso();
-    return { success: true };
+  if ([filters.from, filters.to].some((date) => date && !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+    throw new Error('Fecha de filtro no válida.');
   }
 
-  const activeLoans = await supabaseRest<{ id: string }[]>(
-    `/rest/v1/loans?select=id&book_id=eq.${bookId}&library_id=eq.${libraryId}&status=in.(pending,approved,handled)`,
-    { method: 'GET' },
-    { service: true }
-  );
+  const store = getDataStore();
+  const [library] = await store.listLibraries([libraryId]);
+  const [books, loans] = await Promise.all([
+    store.listBooks([libraryId]),
+    kind === 'loans' ? store.listLoans([libraryId]) : Promise.resolve([]),
+  ]);
+  const { columns, rows } = buildCatalogExport(kind, { books, loans }, filters);
 
-  if (activeLoans.length) {
-    throw new Error('Books with active loans cannot be deleted.');
+  return {
+    body: serializeCatalogExport(exportFormat, columns, rows),
+    contentType: exportFormat === 'json' ? 'application/json; charset=utf-8' : 'text/csv; charset=utf-8',
+    filename: `${library?.subdomain || 'biblioteca'}-${kind === 'books' ? 'catalogo' : 'prestamos'}-${new Date().toISOString().slice(0, 10)}.${exportFormat}`,
+  };
+}
+
+export async function exportMarc(
+  session: LibrarianSession,
+  marcFormat: MarcFormat,
+  options: Omit<CatalogExportFilters, 'columns'> & { libraryId: string }
+) {
+  const { libraryId, ...filters } = options;
+  ensureLibraryAccess(session, libraryId);
+
+  if (marcFormat !== 'marc21' && marcFormat !== 'marcxml') {
+    throw new Error('Formato MARC no válido.');
   }
 
-  await supabaseRest<TenantBook[]>(
-    `/rest/v1/books?id=eq.${bookId}&library_id=eq.${libraryId}&archived_at=is.null&select=id`,
-    {
-      method: 'PATCH',
-      body: JSON.stringify({
-        archived_at: nowIso(),
-      }),
-    },
-    { service: true, prefer: 'return=representation' }
+  if (filters.status && !BOOK_EXPORT_STATUSES.includes(filters.status)) {
+    throw new Error('Estado de filtro no válido.');
+  }
+
+  if ([filters.from, filters.to].some((date) => date && !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+    throw new Error('Fecha de filtro no válida.');
+  }
+
+  const store = getDataStore();
+  const [library] = await store.listLibraries([libraryId]);
+  const books = filterCatalogBooks(await store.listBooks([libraryId]), filters);
+  // Lost and withdrawn copies are no longer in the collection, so they get no 952 item
+  const copiesByBook = groupBy(
+    (await store.listLibraryCopies(libraryId)).filter((copy) => copy.status !== 'lost' && copy.status !== 'withdrawn'),
+    'book_id'
   );
+  const records = books.map((book) => bookToMarc(book, copiesByBook[book.id] || [], library));
+  const name = `${library?.subdomain || 'biblioteca'}-catalogo-${new Date().toISOString().slice(0, 10)}`;
+
+  return marcFormat === 'marc21'
+    ? { body: writeMarc21(records), contentType: 'application/marc', filename: `${name}.mrc` }
+    : { body: writeMarcXml(records), contentType: 'application/marcxml+xml; charset=utf-8', filename: `${name}.xml` };
+}
+
+// Lookups only read external metadata; nothing is saved until the book form is submitted
+export async function lookupBookIsbn(isbn: string) {
+  return lookupIsbn(isbn);
+}
+
+export async function updateDashboardBook(session: LibrarianSession, bookId: string, payload: BookMutationPayload) {
+  validateBookPayload(payload);
+  ensureLibraryAccess(session, payload.library_id);
+
+  const before = auditSnapshot(await getAccessibleBook(session, bookId));
+
+  // Copy counts are ignored here; copies are managed through the copy functions below
+  const result = await getDataStore().updateBook(bookId, normalizeBookPayload(payload));
+
+  if (!result) {
+    throw new Error('Libro no encontrado.');
+  }
+
+  await recordAudit(session, 'book.updated', result, before, auditSnapshot(result));
+  return result;
+}
+
+export async function deleteDashboardBook(session: LibrarianSession, bookId: string, libraryId: string) {
+  ensureLibraryAccess(session, libraryId);
+
+  const store = getDataStore();
+  const book = await store.getBook(bookId);
+
+  if (!book || book.library_id !== libraryId || book.archived_at) {
+    throw new Error('Book not found.');
+  }
+
+  if (await store.hasActiveLoans(bookId, libraryId)) {
+    throw new Error('Books with active loans cannot be deleted.');
+  }
 
+  const before = auditSnapshot(book);
+  await store.archiveBook(bookId, libraryId);
+  await recordAudit(session, 'book.archived', book, before, auditSnapshot(await store.getBook(bookId)));
   return { success: true };
 }
 
-export async function updateLoanStatus(
-  session: LibrarianSession, 
-  loanId: string, 
-  nextStatus: TenantLoan['status'],
-  deliveryCondition?: { good: number; fair: number; bad: number },
-  returnNote?: string,
-  returnCondition?: { good: number; fair: number; bad: number }
-) {
-  if (!isSupabaseConfigured()) {
-    const loan = mockLoans.find((item) => item.id === loanId);
+/**
+ * Folds `sourceId` into `targetId`: its copies (with their codes and
+ * conditions), loans and holds move to the target, which keeps its own
+ * details and takes the source's for any it lacks. The source is archived.
+ */
+export async function mergeDashboardBooks(session: LibrarianSession, targetId: string, sourceId: string) {
+  if (!targetId || !sourceId || targetId === sourceId) {
+    throw new Error('Selecciona dos libros distintos para fusionar.');
+  }
 
-    if (!loan) {
-      throw new Error('Loan not found.');
-    }
+  const target = await getAccessibleBook(session, targetId);
+  const source = await getAccessibleBook(session, sourceId);
 
-    if (!session.library_ids.includes(loan.library_id)) {
-      throw new Error('You do not have access to that library.');
-    }
+  if (target.library_id !== source.library_id) {
+    throw new Error('Solo se pueden fusionar libros de la misma biblioteca.');
+  }
 
-    const book = mockBooks.find((item) => item.id === loan.book_id);
+  const store = getDataStore();
+  const before = auditSnapshot(target);
+  const sourceBefore = auditSnapshot(source);
+  const merged = await store.mergeBooks(session, target.id, source.id);
 
-    if (!book) {
-      throw new Error('Book not found.');
-    }
+  await recordAudit(session, 'book.merged', merged, before, auditSnapshot(merged));
+  await recordAudit(session, 'book.archived', source, sourceBefore, auditSnapshot(await store.getBook(source.id)));
+  return merged;
+}
 
-    if (nextStatus === 'handled') {
-      if (loan.status !== 'approved') {
-        throw new Error('Only approved loans can be marked as handled.');
+// The destination's record for `book`: its likeliest duplicate there, if any
+async function findTransferDestination(book: TenantBook, libraryId: string) {
+  const [match] = findBookDuplicates(book, await getDataStore().listBooks([libraryId]));
+  return match || null;
+}
+
+export async function previewCopyTransfer(session: LibrarianSession, bookId: string, toLibraryId: string) {
+  const book = await getAccessibleBook(session, bookId);
+  await getAccessibleLibrary(session, toLibraryId);
+  return findTransferDestination(book, toLibraryId);
+}
+
+// Copies named by code, or the first `count` on the shelf (then in repair)
+function selectTransferCopies(copies: BookCopy[], payload: CopyTransferPayload) {
+  const codes = normalizeCopyCodes(payload.codes);
+
+  if (codes?.length) {
+    return codes.map((code) => {
+      const copy = copies.find((item) => item.code.toLowerCase() === code.toLowerCase());
+
+      if (!copy) {
+        throw new Error(`La copia ${code} no pertenece a este libro.`);
       }
 
-      if (book.available_copies < loan.requested_copies) {
-        throw new Error('Not enough available copies to handle this loan.');
+      if (copy.status === 'on_loan') {
+        throw new Error(`La copia ${copy.code} está prestada; se podrá transferir cuando se devuelva.`);
       }
 
-      book.available_copies -= loan.requested_copies;
-      loan.handled_at = nowIso();
-      loan.delivery_condition = deliveryCondition || { good: loan.requested_copies, fair: 0, bad: 0 };
-    }
+      if (copy.status === 'on_hold') {
+        throw new Error(`La copia ${copy.code} está apartada para una reserva; cancélala o entrégala antes de transferirla.`);
+      }
 
-    if (nextStatus === 'returned') {
-      if (loan.status !== 'handled') {
-        throw new Error('Only handled loans can be marked as returned.');
+      if (copy.status === 'lost' || copy.status === 'withdrawn') {
+        throw new Error(`La copia ${copy.code} ya no forma parte de la colección.`);
       }
 
-      book.available_copies += loan.requested_copies;
-      loan.returned_at = nowIso();
-      loan.return_note = returnNote;
+      return copy;
+    });
+  }
+
+  const count = Number(payload.count);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error('Indica cuántas copias transferir o sus códigos.');
+  }
+
+  const movable = [
+    ...copies.filter((copy) => copy.status === 'available'),
+    ...copies.filter((copy) => copy.status === 'in_repair'),
+  ];
+
+  if (movable.length < count) {
+    throw new Error(
+      `Solo ${movable.length === 1 ? 'hay 1 copia' : `hay ${movable.length} copias`} sin prestar ni reservar para transferir.`
+    );
+  }
+
+  return movable.slice(0, count);
+}
+
+/**
+ * Moves copies of a book to another library the librarian manages. They join
+ * the matching record there (or `destination_book_id`), which is created from
+ * this book when there is none. Loans stay with the library that made them.
+ */
+export async function transferBookCopies(
+  session: LibrarianSession,
+  bookId: string,
+  payload: CopyTransferPayload
+): Promise<CopyTransferResult> {
+  const book = await getAccessibleBook(session, bookId);
+
+  if (payload.to_library_id === book.library_id) {
+    throw new Error('Elige una biblioteca distinta a la actual.');
+  }
+
+  const library = await getAccessibleLibrary(session, payload.to_library_id);
+  const store = getDataStore();
+  const selected = selectTransferCopies(await store.listCopies(book.id), payload);
+
+  let target: TenantBook | null = null;
+  if (payload.destination_book_id) {
+    target = await getAccessibleBook(session, payload.destination_book_id);
+
+    if (target.library_id !== library.id) {
+      throw new Error('El libro de destino no pertenece a esa biblioteca.');
     }
+  } else {
+    const match = await findTransferDestination(book, library.id);
+    target = match && (await store.getBook(match.book_id));
+  }
+
+  // Codes that fit the destination's format and are free there travel with the copy
+  const format = resolveCodeFormat(library);
+  const kept = await Promise.all(
+    selected.map(async (copy) => {
+      const parsed = parseLibraryCode(format, copy.code);
+      return 'error' in parsed || (await store.findCopyByCode(library.id, copy.code)) ? null : parsed.sequence;
+    })
+  );
+  const fresh = await store.allocateLibraryCodes(library.id, kept.filter((sequence) => sequence === null).length);
+  const copies = selected.map((copy, index) => ({
+    id: copy.id,
+    code: kept[index] === null ? fresh.shift()! : copy.code,
+    sequence: kept[index],
+  }));
+
+  const sourceBefore = auditSnapshot(book);
+  const targetBefore = auditSnapshot(target);
+  const { source, destination } = await store.transferCopies(session, {
+    bookId: book.id,
+    toLibraryId: library.id,
+    copies,
+    targetBookId: target?.id || null,
+    // A new record copies this book's details except the shelf, which belongs to the old branch
+    book: {
+      library_id: library.id,
+      title: book.title,
+      author: book.author,
+      categories: book.categories,
+      book_code: book.book_code,
+      editorial: book.editorial,
+      edition: book.edition,
+      cover_type: book.cover_type,
+      cost: book.cost,
+      acquired_at: book.acquired_at,
+      image_url: book.image_url,
+    },
+  });
+
+  await recordAudit(session, 'book.transferred', source, sourceBefore, auditSnapshot(source));
+  await recordAudit(session, target ? 'book.transferred' : 'book.created', destination, targetBefore, auditSnapshot(destination));
+
+  return {
+    source,
+    destination,
+    created: !target,
+    moved: selected.map((copy, index) => ({ from_code: copy.code, to_code: copies[index].code })),
+  };
+}
+
+export async function listBookCopies(session: LibrarianSession, bookId: string) {
+  await getAccessibleBook(session, bookId);
+  return getDataStore().listCopies(bookId);
+}
+
+export async function addBookCopies(
+  session: LibrarianSession,
+  bookId: string,
+  count: number,
+  condition: CopyCondition,
+  shelfLocation?: string,
+  manualCodes?: string[]
+) {
+  const codesGiven = normalizeCopyCodes(manualCodes);
+
+  if (!codesGiven?.length && (!Number.isInteger(count) || count < 1)) {
+    throw new Error('Debes agregar al menos una copia.');
+  }
+
+  if (!COPY_CONDITIONS.includes(condition)) {
+    throw new Error('Estado de copia no válido.');
+  }
+
+  const book = await getAccessibleBook(session, bookId);
+  const store = getDataStore();
+  let codes: Array<{ code: string; sequence: number | null }>;
 
-    if (nextStatus === 'approved' || nextStatus === 'rejected') {
-      if (loan.status !== 'pending') {
-        throw new Error('Only pending loans can be approved or rejected.');
+  if (codesGiven?.length) {
+    // Existing barcode series are accepted as long as they match the library's format
+    const format = resolveCodeFormat((await store.listLibraries([book.library_id]))[0]);
+    codes = codesGiven.map((code) => {
+      const parsed = parseLibraryCode(format, code);
+
+      if ('error' in parsed) {
+        throw new Error(parsed.error);
       }
-    }
 
-    loan.status = nextStatus;
-    loan.updated_at = nowIso();
+      return { code, sequence: parsed.sequence };
+    });
+  } else {
+    codes = (await store.allocateLibraryCodes(book.library_id, count)).map((code) => ({ code, sequence: null }));
+  }
+
+  const copies = await store.addCopies(
+    bookId,
+    codes.map(({ code, sequence }) => ({ code, sequence, condition, shelf_location: shelfLocation?.trim() || null })),
+    session.id
+  );
+
+  for (const copy of copies) {
+    await recordAudit(session, 'copy.added', copy, null, auditSnapshot(copy));
+  }
+
+  return copies;
+}
+
+export async function updateBookCopy(session: LibrarianSession, copyId: string, changes: CopyUpdatePayload) {
+  if (changes.condition && !COPY_CONDITIONS.includes(changes.condition)) {
+    throw new Error('Estado de copia no válido.');
+  }
+
+  if (changes.status && !COPY_STATUSES.includes(changes.status)) {
+    throw new Error('Las copias solo pasan a préstamo al entregar un préstamo.');
+  }
+
+  const store = getDataStore();
+  const copy = await store.getCopy(copyId);
+
+  if (!copy) {
+    throw new Error('Copia no encontrada.');
+  }
+
+  ensureLibraryAccess(session, copy.library_id);
+
+  if (changes.status && changes.status !== copy.status && copy.status === 'on_loan') {
+    throw new Error('Las copias prestadas solo cambian de estado al recibir la devolución.');
+  }
 
-    return withBook(loan);
+  if (changes.status && changes.status !== copy.status && copy.status === 'on_hold') {
+    throw new Error('Las copias reservadas se liberan desde la lista de espera.');
   }
 
-  const result = await supabaseRest<TenantLoan[]>(
-    '/rest/v1/rpc/transition_loan_status',
+  const before = auditSnapshot(copy);
+  const updated = await store.updateCopy(
+    copyId,
     {
-      method: 'POST',
-      body: JSON.stringify({
-        p_loan_id: loanId,
-        p_next_status: nextStatus,
-        p_librarian_id: session.id,
-        p_delivery_condition: deliveryCondition,
-        p_return_note: returnNote,
-        p_return_condition: returnCondition,
-      }),
+      ...changes,
+      shelf_location: changes.shelf_location === undefined ? undefined : changes.shelf_location?.trim() || null,
     },
-    { service: true }
+    session.id
   );
 
-  const loan = result[0];
-  const books = await supabaseRest<TenantBook[]>(
-    `/rest/v1/books?select=id,title,author,categories&library_id=eq.${loan.library_id}&id=eq.${loan.book_id}`,
+  await recordAudit(session, 'copy.updated', updated, before, auditSnapshot(updated));
+  return updated;
+}
+
+export async function updateLoanStatus(
+  session: LibrarianSession,
+  loanId: string,
+  nextStatus: TenantLoan['status'],
+  deliveryCondition?: { good: number; fair: number; bad: number },
+  returnNote?: string,
+  returnCondition?: { good: number; fair: number; bad: number },
+  copyCodes?: string[],
+  returnedCodes?: string[]
+) {
+  const store = getDataStore();
+  const before = auditSnapshot(await store.getLoan(loanId));
+  const loan = await store.transitionLoan(session, loanId, nextStatus, {
+    copyCodes: normalizeCopyCodes(copyCodes),
+    returnedCodes: normalizeCopyCodes(returnedCodes),
+    deliveryCondition,
+    returnNote,
+    returnCondition,
+  });
+
+  await recordAudit(session, `loan.${nextStatus}`, loan, before, auditSnapshot(loan));
+  return loan;
+}
+
+export async function updateLoanGroupStatus(
+  session: LibrarianSession,
+  groupId: string,
+  items: LoanGroupTransitionItem[]
+) {
+  if (!items.length) {
+    throw new Error('Selecciona al menos un préstamo de la solicitud.');
+  }
+
+  if (new Set(items.map((item) => item.loanId)).size !== items.length) {
+    throw new Error('Cada préstamo solo puede aparecer una vez.');
+  }
+
+  const store = getDataStore();
+  const before = new Map<string, AuditSnapshot | null>();
 
-    { method: 'GET' },
-    { service: true }
+  for (const item of items) {
+    before.set(item.loanId, auditSnapshot(await store.getLoan(item.loanId)));
+  }
+
+  const loans = await store.transitionLoanGroup(
+    session,
+    groupId,
+    items.map((item) => ({
+      ...item,
+      input: {
+        ...item.input,
+        copyCodes: normalizeCopyCodes(item.input.copyCodes),
+        returnedCodes: normalizeCopyCodes(item.input.returnedCodes),
+      },
+    }))
   );
 
-  return {
-    ...loan,
-    book: books[0],
-  };
+  // One entry per line, like the single-loan transitions
+  for (const loan of loans) {
+    await recordAudit(session, `loan.${loan.status}`, loan, before.get(loan.id) ?? null, auditSnapshot(loan));
+  }
+
+  return loans;
+}
+
+export async function renewLoan(session: LibrarianSession, loanId: string, dueDate: string) {
+  validateDueDate(dueDate);
+  const store = getDataStore();
+  const before = auditSnapshot(await store.getLoan(loanId));
+  const loan = await store.renewLoan(session, loanId, dueDate);
+
+  await recordAudit(session, 'loan.renewed', loan, before, auditSnapshot(loan));
+  return loan;
+}
+
+export async function declineLoanRenewal(session: LibrarianSession, loanId: string) {
+  const store = getDataStore();
+  const before = auditSnapshot(await store.getLoan(loanId));
+  const loan = await store.declineLoanRenewal(session, loanId);
+
+  await recordAudit(session, 'loan.renewal_declined', loan, before, auditSnapshot(loan));
+  return loan;
+}
+
+export async function listBookHolds(session: LibrarianSession, bookId: string) {
+  await getAccessibleBook(session, bookId);
+  return getDataStore().listHolds(bookId);
+}
+
+export async function updateBookHold(session: LibrarianSession, holdId: string, action: HoldAction) {
+  if (!HOLD_ACTIONS.includes(action)) {
+    throw new Error('Acción de reserva no válida.');
+  }
+
+  return getDataStore().updateHold(session, holdId, action);
+}
+
+export async function fulfillBookHold(session: LibrarianSession, holdId: string, dueDate: string) {
+  validateDueDate(dueDate);
+  // The hold becomes a new loan, handed over on the spot
+  const loan = await getDataStore().fulfillHold(session, holdId, dueDate);
+
+  await recordAudit(session, 'loan.handled', loan, null, auditSnapshot(loan));
+  return loan;
 }
@@ -0,0 +1,120 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { LibraryOpeningHours, LibraryTenant, TenantLoan } from '@/types/tenant';
+
+export const WEEKDAY_LABELS = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+
+// Searching further than a year ahead means the calendar has no open day left
+const SEARCH_LIMIT_DAYS = 366;
+
+/**
+ * Opening hours a library uses. Libraries that never configured any are treated
+ * as open every day, which keeps due dates and overdue checks as they were.
+ */
+export function resolveOpeningHours(
+  library: Pick<LibraryTenant, 'opening_hours'> | null | undefined
+): LibraryOpeningHours | null {
+  return library?.opening_hours || null;
+}
+
+function shiftDate(date: string, days: number) {
+  return format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+}
+
+// Date, weekday and time on the library's wall clock
+export function libraryClock(hours: LibraryOpeningHours | null, now = new Date()) {
+  if (!hours) {
+    return { date: format(now, 'yyyy-MM-dd'), weekday: now.getDay(), time: format(now, 'HH:mm') };
+  }
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone: hours.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+
+  return { date, weekday: parseISO(date).getDay(), time: `${parts.hour}:${parts.minute}` };
+}
+
+export function isOpenOn(hours: LibraryOpeningHours | null, date: string) {
+  if (!hours) {
+    return true;
+  }
+
+  return !hours.closures.some((closure) => closure.date === date) && Boolean(hours.weekly[parseISO(date).getDay()]);
+}
+
+// A due date that lands on a closed day moves to the next day the library opens
+export function nextOpenDate(hours: LibraryOpeningHours | null, date: string) {
+  let day = date;
+
+  for (let step = 0; step < SEARCH_LIMIT_DAYS && !isOpenOn(hours, day); step += 1) {
+    day = shiftDate(day, 1);
+  }
+
+  return isOpenOn(hours, day) ? day : date;
+}
+
+// Open days after the due date, up to and including `today`; closed days are not late
+export function openDaysLate(hours: LibraryOpeningHours | null, dueDate: string, today: string) {
+  if (!hours) {
+    return Math.max(0, differenceInCalendarDays(parseISO(today), parseISO(dueDate)));
+  }
+
+  let days = 0;
+
+  for (let day = shiftDate(dueDate, 1); day <= today; day = shiftDate(day, 1)) {
+    if (isOpenOn(hours, day)) {
+      days += 1;
+    }
+  }
+
+  return days;
+}
+
+export function isLoanOverdue(
+  loan: Pick<TenantLoan, 'status' | 'due_date'>,
+  hours: LibraryOpeningHours | null,
+  now = new Date()
+) {
+  return (
+    loan.status === 'handled' && Boolean(loan.due_date) && openDaysLate(hours, loan.due_date!, libraryClock(hours, now).date) > 0
+  );
+}
+
+export interface OpeningStatus {
+  open: boolean;
+  closes_at: string | null;
+  next_opening: { date: string; opens: string } | null;
+}
+
+export function openingStatus(hours: LibraryOpeningHours, now = new Date()): OpeningStatus {
+  const clock = libraryClock(hours, now);
+  const today = isOpenOn(hours, clock.date) ? hours.weekly[clock.weekday] : null;
+
+  if (today && clock.time >= today.opens && clock.time < today.closes) {
+    return { open: true, closes_at: today.closes, next_opening: null };
+  }
+
+  if (today && clock.time < today.opens) {
+    return { open: false, closes_at: null, next_opening: { date: clock.date, opens: today.opens } };
+  }
+
+  for (let step = 1; step <= SEARCH_LIMIT_DAYS; step += 1) {
+    const day = shiftDate(clock.date, step);
+
+    if (isOpenOn(hours, day)) {
+      return { open: false, closes_at: null, next_opening: { date: day, opens: hours.weekly[parseISO(day).getDay()]!.opens } };
+    }
+  }
+
+  return { open: false, closes_at: null, next_opening: null };
+}
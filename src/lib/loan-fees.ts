@@ -0,0 +1,132 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import {
+  CopyCondition,
+  LibraryFeeRules,
+  LibraryOpeningHours,
+  LibraryTenant,
+  LoanFees,
+  PatronLedgerEntry,
+} from '@/types/tenant';
+import { formatCurrency } from '@/lib/utils';
+import { libraryClock, openDaysLate } from '@/lib/library-hours';
+
+type ConditionCounts = { good: number; fair: number; bad: number };
+
+const CONDITION_ORDER: CopyCondition[] = ['good', 'fair', 'bad'];
+
+/**
+ * Fee rules a library uses. Libraries that never configured any charge nothing,
+ * which keeps the original loan flow unchanged.
+ */
+export function resolveFeeRules(library: Pick<LibraryTenant, 'fee_rules'> | null | undefined): LibraryFeeRules {
+  return (
+    library?.fee_rules || {
+      currency: 'USD',
+      daily_late_fee: 0,
+      max_late_fee: null,
+      grace_days: 0,
+      damage_fees: { good_to_fair: 0, good_to_bad: 0, fair_to_bad: 0 },
+    }
+  );
+}
+
+export function roundMoney(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+// Falls back to USD while a currency code is still being typed
+export function formatFee(amount: number, currency: string) {
+  return formatCurrency(amount, /^[A-Z]{3}$/.test(currency) ? currency : 'USD');
+}
+
+/**
+ * Days past the due date count in full once the grace period is over; returning
+ * inside the grace period costs nothing. With opening hours, only days the
+ * library was open count.
+ */
+export function computeLateFee(
+  rules: LibraryFeeRules,
+  dueDate: string | null | undefined,
+  returnedAt: string,
+  hours: LibraryOpeningHours | null = null
+) {
+  const daysLate = !dueDate
+    ? 0
+    : hours
+      ? openDaysLate(hours, dueDate, libraryClock(hours, parseISO(returnedAt)).date)
+      : Math.max(0, differenceInCalendarDays(parseISO(returnedAt), parseISO(dueDate)));
+
+  if (daysLate <= rules.grace_days) {
+    return { days_late: daysLate, late_fee: 0 };
+  }
+
+  const fee = daysLate * rules.daily_late_fee;
+  return {
+    days_late: daysLate,
+    late_fee: roundMoney(rules.max_late_fee === null ? fee : Math.min(fee, rules.max_late_fee)),
+  };
+}
+
+// Counts as a list of conditions, best first
+export function expandConditions(counts: ConditionCounts) {
+  return CONDITION_ORDER.flatMap((condition) => Array<CopyCondition>(Math.max(0, counts[condition] || 0)).fill(condition));
+}
+
+/**
+ * Conditions are only recorded as counts, so delivered and returned copies are
+ * paired best with best. That charges the fewest downgrades the counts allow.
+ */
+export function countDowngrades(delivered: ConditionCounts, returned: ConditionCounts) {
+  const before = expandConditions(delivered);
+  const after = expandConditions(returned);
+  const downgrades = { good_to_fair: 0, good_to_bad: 0, fair_to_bad: 0 };
+
+  before.slice(0, after.length).forEach((condition, index) => {
+    const key = `${condition}_to_${after[index]}`;
+    if (key in downgrades) {
+      downgrades[key as keyof typeof downgrades] += 1;
+    }
+  });
+
+  return downgrades;
+}
+
+export function computeDamageFee(
+  rules: LibraryFeeRules,
+  delivered: ConditionCounts | null | undefined,
+  returned: ConditionCounts | null | undefined
+) {
+  if (!delivered || !returned) {
+    return 0;
+  }
+
+  const downgrades = countDowngrades(delivered, returned);
+  return roundMoney(
+    downgrades.good_to_fair * rules.damage_fees.good_to_fair +
+      downgrades.good_to_bad * rules.damage_fees.good_to_bad +
+      downgrades.fair_to_bad * rules.damage_fees.fair_to_bad
+  );
+}
+
+export function assessLoanFees(
+  rules: LibraryFeeRules,
+  loan: { due_date?: string | null; delivery_condition?: ConditionCounts | null },
+  returnCondition: ConditionCounts | null | undefined,
+  returnedAt: string,
+  hours: LibraryOpeningHours | null = null
+): LoanFees {
+  return {
+    currency: rules.currency,
+    ...computeLateFee(rules, loan.due_date, returnedAt, hours),
+    damage_fee: computeDamageFee(rules, loan.delivery_condition, returnCondition),
+  };
+}
+
+export function isLedgerCharge(entry: Pick<PatronLedgerEntry, 'kind'>) {
+  return entry.kind === 'late_fee' || entry.kind === 'damage_fee';
+}
+
+// Outstanding amount: charges minus payments and waivers
+export function ledgerBalance(entries: Pick<PatronLedgerEntry, 'kind' | 'amount'>[]) {
+  return roundMoney(entries.reduce((total, entry) => total + (isLedgerCharge(entry) ? entry.amount : -entry.amount), 0));
+}
@@ -0,0 +1,250 @@
+/**
+ * MARC 21 bibliographic records in their two interchange encodings: ISO 2709
+ * binary (.mrc) and MARCXML. Only the record structure is handled here; what
+ * the tags mean for the catalog lives in book-marc.ts.
+ */
+
+export interface MarcSubfield {
+  code: string;
+  value: string;
+}
+
+// Control fields (001-009) carry `value`; data fields carry indicators and subfields
+export interface MarcField {
+  tag: string;
+  value?: string;
+  ind1?: string;
+  ind2?: string;
+  subfields?: MarcSubfield[];
+}
+
+export interface MarcRecord {
+  leader: string;
+  fields: MarcField[];
+}
+
+const RECORD_TERMINATOR = 0x1d;
+const FIELD_TERMINATOR = 0x1e;
+
+const MARCXML_NAMESPACE = 'http://www.loc.gov/MARC21/slim';
+
+export function isControlTag(tag: string) {
+  return /^00\d$/.test(tag);
+}
+
+export function subfieldValues(record: MarcRecord, tag: string, code: string) {
+  return record.fields
+    .filter((field) => field.tag === tag)
+    .flatMap((field) => (field.subfields || []).filter((subfield) => subfield.code === code).map((subfield) => subfield.value));
+}
+
+export function controlValue(record: MarcRecord, tag: string) {
+  return record.fields.find((field) => field.tag === tag)?.value;
+}
+
+function parseDataField(tag: string, text: string): MarcField {
+  const [indicators, ...chunks] = text.split('\u001f');
+
+  return {
+    tag,
+    ind1: indicators[0] || ' ',
+    ind2: indicators[1] || ' ',
+    subfields: chunks.filter(Boolean).map((chunk) => ({ code: chunk[0], value: chunk.slice(1) })),
+  };
+}
+
+/**
+ * Reads ISO 2709 records. Lengths and offsets in the leader and directory
+ * count bytes, so fields are sliced before decoding. Records are decoded as
+ * UTF-8 whatever leader position 9 says; MARC-8 files should be converted first.
+ */
+export function parseMarc21(bytes: Uint8Array): MarcRecord[] {
+  const decoder = new TextDecoder('utf-8');
+  const records: MarcRecord[] = [];
+  let start = 0;
+
+  while (start < bytes.length) {
+    // Some exports put line breaks between records
+    if (bytes[start] === 0x0a || bytes[start] === 0x0d || bytes[start] === 0x20) {
+      start += 1;
+      continue;
+    }
+
+    const leader = decoder.decode(bytes.subarray(start, start + 24));
+    const length = Number(leader.slice(0, 5));
+    const baseAddress = Number(leader.slice(12, 17));
+
+    if (leader.length < 24 || !Number.isInteger(length) || length < 26 || !Number.isInteger(baseAddress) || start + length > bytes.length) {
+      throw new Error(`El registro MARC ${records.length + 1} tiene una cabecera no válida.`);
+    }
+
+    const record = bytes.subarray(start, start + length);
+    if (record[length - 1] !== RECORD_TERMINATOR) {
+      throw new Error(`El registro MARC ${records.length + 1} no termina donde indica su cabecera.`);
+    }
+
+    const fields: MarcField[] = [];
+    for (let entry = 24; entry + 12 <= baseAddress - 1 && record[entry] !== FIELD_TERMINATOR; entry += 12) {
+      const directory = decoder.decode(record.subarray(entry, entry + 12));
+      const tag = directory.slice(0, 3);
+      const fieldLength = Number(directory.slice(3, 7));
+      const fieldStart = baseAddress + Number(directory.slice(7, 12));
+      let data = record.subarray(fieldStart, fieldStart + fieldLength);
+
+      if (data[data.length - 1] === FIELD_TERMINATOR) {
+        data = data.subarray(0, data.length - 1);
+      }
+
+      const text = decoder.decode(data);
+      fields.push(isControlTag(tag) ? { tag, value: text } : parseDataField(tag, text));
+    }
+
+    records.push({ leader, fields });
+    start += length;
+  }
+
+  return records;
+}
+
+function encodeField(field: MarcField) {
+  if (isControlTag(field.tag)) {
+    return field.value || '';
+  }
+
+  return `${field.ind1 || ' '}${field.ind2 || ' '}${(field.subfields || [])
+    .map((subfield) => `\u001f${subfield.code}${subfield.value}`)
+    .join('')}`;
+}
+
+function pad(value: number, width: number) {
+  return String(value).padStart(width, '0');
+}
+
+// Leader positions 0-4 and 12-16 are recomputed; 9 is forced to `a` because output is UTF-8
+export function writeMarc21(records: MarcRecord[]) {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+
+  records.forEach((record) => {
+    const data = record.fields.map((field) => encoder.encode(`${encodeField(field)}\u001e`));
+    let offset = 0;
+    const directory = record.fields
+      .map((field, index) => {
+        const entry = `${field.tag}${pad(data[index].length, 4)}${pad(offset, 5)}`;
+        offset += data[index].length;
+        return entry;
+      })
+      .join('');
+    const baseAddress = 24 + directory.length + 1;
+    const length = baseAddress + offset + 1;
+    const template = record.leader.padEnd(24, ' ');
+    const leader = `${pad(length, 5)}${template.slice(5, 9)}a${template.slice(10, 12)}${pad(baseAddress, 5)}${template.slice(17, 24)}`;
+
+    chunks.push(encoder.encode(`${leader}${directory}\u001e`), ...data, Uint8Array.of(RECORD_TERMINATOR));
+  });
+
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  chunks.reduce((position, chunk) => {
+    output.set(chunk, position);
+    return position + chunk.length;
+  }, 0);
+
+  return output;
+}
+
+function unescapeXml(value: string) {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_match, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, decimal) => String.fromCodePoint(Number(decimal)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not valid XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function attribute(tag: string, name: string) {
+  return unescapeXml(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(tag)?.slice(1).find((value) => value !== undefined) || '');
+}
+
+/**
+ * Reads MARCXML, with or without a namespace prefix (`marc:record`). This is
+ * a scanner for the MARCXML element set, not a general XML parser: elements
+ * it does not know are ignored.
+ */
+export function parseMarcXml(text: string): MarcRecord[] {
+  const element = (name: string) => `<(?:[\\w.-]+:)?${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}\\s*>)`;
+  const records: MarcRecord[] = [];
+
+  for (const match of Array.from(text.matchAll(new RegExp(element('record'), 'g')))) {
+    const body = match[2] || '';
+    const leader = unescapeXml(new RegExp(element('leader')).exec(body)?.[2] || '').padEnd(24, ' ');
+    const fields: MarcField[] = [];
+
+    for (const field of Array.from(body.matchAll(new RegExp(`${element('controlfield')}|${element('datafield')}`, 'g')))) {
+      if (field[1] !== undefined) {
+        fields.push({ tag: attribute(field[1], 'tag'), value: unescapeXml(field[2] || '') });
+        continue;
+      }
+
+      fields.push({
+        tag: attribute(field[3], 'tag'),
+        ind1: attribute(field[3], 'ind1') || ' ',
+        ind2: attribute(field[3], 'ind2') || ' ',
+        subfields: Array.from((field[4] || '').matchAll(new RegExp(element('subfield'), 'g'))).map((subfield) => ({
+          code: attribute(subfield[1], 'code'),
+          value: unescapeXml(subfield[2] || ''),
+        })),
+      });
+    }
+
+    records.push({ leader, fields });
+  }
+
+  if (!records.length) {
+    throw new Error('El archivo XML no contiene registros MARC.');
+  }
+
+  return records;
+}
+
+export function writeMarcXml(records: MarcRecord[]) {
+  const body = records
+    .map((record) => {
+      const fields = record.fields
+        .map((field) =>
+          isControlTag(field.tag)
+            ? `    <controlfield tag="${field.tag}">${escapeXml(field.value || '')}</controlfield>`
+            : [
+                `    <datafield tag="${field.tag}" ind1="${escapeXml(field.ind1 || ' ')}" ind2="${escapeXml(field.ind2 || ' ')}">`,
+                ...(field.subfields || []).map(
+                  (subfield) => `      <subfield code="${escapeXml(subfield.code)}">${escapeXml(subfield.value)}</subfield>`
+                ),
+                '    </datafield>',
+              ].join('\n')
+        )
+        .join('\n');
+
+      return `  <record>\n    <leader>${escapeXml(record.leader)}</leader>\n${fields}\n  </record>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<collection xmlns="${MARCXML_NAMESPACE}">\n${body}\n</collection>\n`;
+}
+
+// MARCXML starts with markup; anything else is treated as ISO 2709
+export function parseMarc(bytes: Uint8Array): MarcRecord[] {
+  const head = new TextDecoder('utf-8').decode(bytes.subarray(0, 64)).replace(/^\uFEFF/, '').trimStart();
+  return head.startsWith('<') ? parseMarcXml(new TextDecoder('utf-8').decode(bytes)) : parseMarc21(bytes);
+}
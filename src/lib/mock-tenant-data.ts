@@ -1,4 +1,5 @@
-import { LibrarianSession, LibraryTenant, TenantBook, TenantLoan } from '@/types/tenant';
+import { BookCopy, LibrarianSession, LibraryTenant, TenantBook, TenantLoan, TenantPatron } from '@/types/tenant';
+import { deriveCopiesFromBook, derivePatronsFromLoans } from '@/lib/data-store/helpers';
 
 export const mockLibraries: LibraryTenant[] = [
   {
@@ -132,6 +133,7 @@ export const mockBooks: TenantBook[] = [
   },
 ];
 
+export const mockCopies: BookCopy[] = mockBooks.flatMap(deriveCopiesFromBook);
 
 export const mockLibrarians: LibrarianSession[] = [
   {
@@ -188,3 +190,5 @@ export const mockLoans: TenantLoan[] = [
     due_date: new Date(Date.now() + 1000 * 60 * 60 * 24 * 14).toISOString().split('T')[0],
   },
 ];
+
+export const mockPatrons: TenantPatron[] = derivePatronsFromLoans(mockLoans);
@@ -0,0 +1,177 @@
+import { format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import { ReportFormat } from '@/types/tenant';
+import { ReportRow } from '@/lib/reports';
+import { buildXlsx } from '@/lib/xlsx-writer';
+import { formatCsv } from '@/lib/csv';
+
+export interface ReportBranding {
+  name: string;
+  accent?: string;
+}
+
+export interface ReportDocument {
+  title: string;
+  branding: ReportBranding;
+  rows: ReportRow[];
+  dateRange: number;
+  generatedAt?: Date;
+}
+
+export interface RenderedReport {
+  body: Buffer;
+  contentType: string;
+  extension: ReportFormat;
+}
+
+const DEFAULT_ACCENT = '#0f172a';
+
+// Spreadsheets keep the raw keys so they can be processed further; the PDF is read by people
+const COLUMN_LABELS: Record<string, string> = {
+  library: 'Biblioteca',
+  title: 'Título',
+  author: 'Autor',
+  categories: 'Categorías',
+  total_copies: 'Copias',
+  available_copies: 'Disponibles',
+  borrows: 'Préstamos',
+  copies_lent: 'Copias prestadas',
+  name: 'Nombre',
+  identifier: 'Identificador',
+  email: 'Correo',
+  last_activity: 'Última actividad',
+  patron: 'Lector',
+  copies: 'Copias',
+  status: 'Estado',
+  requested_at: 'Solicitado',
+  handled_at: 'Entregado',
+  due_date: 'Vence',
+  returned_at: 'Devuelto',
+  overdue: 'Vencido',
+  copy_codes: 'Códigos',
+};
+
+function reportColumns(rows: ReportRow[]) {
+  return rows.length ? Object.keys(rows[0]) : [];
+}
+
+function renderCsv(rows: ReportRow[]) {
+  return Buffer.from(formatCsv(reportColumns(rows), rows), 'utf8');
+}
+
+function parseAccent(accent: string | undefined): [number, number, number] {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec((accent || DEFAULT_ACCENT).trim());
+  const hex = match ? match[1] : DEFAULT_ACCENT.slice(1);
+  const full = hex.length === 3 ? hex.split('').map((digit) => digit + digit).join('') : hex;
+
+  return [0, 2, 4].map((start) => parseInt(full.slice(start, start + 2), 16)) as [number, number, number];
+}
+
+function pdfValue(value: ReportRow[string]) {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 'Sí' : 'No';
+  }
+
+  // ISO timestamps read better as a short local date and time
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return format(new Date(value), 'dd/MM/yyyy HH:mm');
+  }
+
+  return String(value);
+}
+
+function renderPdf(document: ReportDocument) {
+  const columns = reportColumns(document.rows);
+  const doc = new jsPDF({ orientation: columns.length > 6 ? 'landscape' : 'portrait', unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 36;
+  const rowHeight = 18;
+  const columnWidth = columns.length ? (pageWidth - margin * 2) / columns.length : 0;
+  const [red, green, blue] = parseAccent(document.branding.accent);
+  // Dark accents get white text on the banner, light ones get black
+  const bannerText = red * 0.299 + green * 0.587 + blue * 0.114 > 160 ? 0 : 255;
+  const generatedAt = document.generatedAt || new Date();
+
+  doc.setFillColor(red, green, blue);
+  doc.rect(0, 0, pageWidth, 72, 'F');
+  doc.setTextColor(bannerText);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(document.branding.name, margin, 32);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text(
+    `${document.title} · Últimos ${document.dateRange} días · Generado el ${format(generatedAt, 'dd/MM/yyyy HH:mm')}`,
+    margin,
+    54
+  );
+
+  let y = 100;
+
+  const drawHeader = () => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.setTextColor(red, green, blue);
+    columns.forEach((column, index) => {
+      doc.text(doc.splitTextToSize(COLUMN_LABELS[column] || column, columnWidth - 6)[0], margin + index * columnWidth, y);
+    });
+    doc.setDrawColor(red, green, blue);
+    doc.line(margin, y + 5, pageWidth - margin, y + 5);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(30);
+    y += rowHeight;
+  };
+
+  if (!document.rows.length) {
+    doc.setTextColor(100);
+    doc.setFontSize(11);
+    doc.text('Sin registros para este período.', margin, y);
+  } else {
+    drawHeader();
+  }
+
+  document.rows.forEach((row) => {
+    if (y > pageHeight - margin - rowHeight) {
+      doc.addPage();
+      y = margin + 12;
+      drawHeader();
+    }
+
+    columns.forEach((column, index) => {
+      const lines: string[] = doc.splitTextToSize(pdfValue(row[column]), columnWidth - 6);
+      doc.text(lines.length > 1 ? `${lines[0].slice(0, -1)}…` : lines[0] || '', margin + index * columnWidth, y);
+    });
+    y += rowHeight;
+  });
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page += 1) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(`${document.branding.name} · Página ${page} de ${pages}`, margin, pageHeight - 18);
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+export function renderReport(reportFormat: ReportFormat, document: ReportDocument): RenderedReport {
+  if (reportFormat === 'csv') {
+    return { body: renderCsv(document.rows), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+  }
+
+  if (reportFormat === 'xlsx') {
+    return {
+      body: buildXlsx(document.title, reportColumns(document.rows), document.rows),
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      extension: 'xlsx',
+    };
+  }
+
+  return { body: renderPdf(document), contentType: 'application/pdf', extension: 'pdf' };
+}
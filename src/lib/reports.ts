@@ -0,0 +1,259 @@
+import { differenceInHours, format, parseISO, subDays } from 'date-fns';
+import { LibraryTenant, ReportDataset, ReportFormat, ReportStats, TenantBook, TenantLoan, TenantPatron } from '@/types/tenant';
+import { isLoanOverdue, resolveOpeningHours } from '@/lib/library-hours';
+
+export const REPORT_DATASETS: ReportDataset[] = ['books', 'users', 'loans', 'overdue', 'popular'];
+
+export const REPORT_DATASET_LABELS: Record<ReportDataset, string> = {
+  books: 'Inventario',
+  users: 'Lectores',
+  loans: 'Préstamos',
+  overdue: 'Préstamos vencidos',
+  popular: 'Títulos populares',
+};
+
+export const REPORT_FORMATS: ReportFormat[] = ['csv', 'xlsx', 'pdf'];
+
+export function isReportDataset(value: string): value is ReportDataset {
+  return (REPORT_DATASETS as string[]).includes(value);
+}
+
+export type ReportRow = Record<string, string | number | boolean | null>;
+
+export interface ReportSources {
+  books: TenantBook[];
+  loans: TenantLoan[];
+  libraries: LibraryTenant[];
+  patrons: TenantPatron[];
+}
+
+const POPULAR_LIMIT = 5;
+const TOP_USERS_LIMIT = 10;
+// Requests left pending this long mean the desk is falling behind
+const STALE_REQUEST_HOURS = 48;
+// Above this share of active loans running late the overview asks for attention
+const OVERDUE_ALERT_RATE = 20;
+
+function percentage(part: number, whole: number) {
+  return whole ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+function patronKey(loan: TenantLoan) {
+  return loan.patron_id || `${loan.library_id}:${loan.identifier.toLowerCase()}`;
+}
+
+/**
+ * A borrow is a loan handed over inside the window; requests count by when
+ * they were made. Active, overdue and pending figures describe the loans as
+ * they stand now, whatever the window.
+ */
+function prepare(sources: ReportSources, dateRange: number, now: Date) {
+  const since = subDays(now, dateRange).toISOString();
+  const hoursByLibrary = new Map(sources.libraries.map((library) => [library.id, resolveOpeningHours(library)]));
+  const overdue = (loan: TenantLoan) => isLoanOverdue(loan, hoursByLibrary.get(loan.library_id) || null, now);
+
+  return {
+    borrows: sources.loans.filter((loan) => loan.handled_at && loan.handled_at >= since),
+    requested: sources.loans.filter((loan) => loan.created_at >= since),
+    active: sources.loans.filter((loan) => loan.status === 'handled'),
+    overdue,
+  };
+}
+
+function userActivity(sources: ReportSources, loans: TenantLoan[]) {
+  const patrons = new Map(sources.patrons.map((patron) => [patron.id, patron]));
+  const libraries = new Map(sources.libraries.map((library) => [library.id, library.name]));
+  const users = new Map<string, { name: string; identifier: string; email: string; library: string; borrowCount: number; lastActivity: string }>();
+
+  loans.forEach((loan) => {
+    const key = patronKey(loan);
+    const lastActivity = [loan.created_at, loan.handled_at, loan.returned_at].filter(Boolean).sort().pop()!;
+    const current = users.get(key) || {
+      name: loan.full_name,
+      identifier: loan.identifier,
+      email: (loan.patron_id && patrons.get(loan.patron_id)?.email) || '',
+      library: libraries.get(loan.library_id) || '',
+      borrowCount: 0,
+      lastActivity,
+    };
+
+    current.borrowCount += loan.handled_at ? 1 : 0;
+    current.lastActivity = lastActivity > current.lastActivity ? lastActivity : current.lastActivity;
+    users.set(key, current);
+  });
+
+  return Array.from(users.values()).sort(
+    (a, b) => b.borrowCount - a.borrowCount || b.lastActivity.localeCompare(a.lastActivity)
+  );
+}
+
+export function buildReportStats(sources: ReportSources, dateRange: number, now = new Date()): ReportStats {
+  const { borrows, requested, active, overdue } = prepare(sources, dateRange, now);
+  const titles = new Map(sources.books.map((book) => [book.id, book.title]));
+  const overdueLoans = active.filter(overdue);
+  const pending = sources.loans.filter((loan) => loan.status === 'pending');
+
+  const popular = new Map<string, number>();
+  const trends = new Map<string, number>();
+  borrows.forEach((loan) => {
+    const title = loan.book?.title || titles.get(loan.book_id) || 'Título desconocido';
+    const day = format(parseISO(loan.handled_at!), 'yyyy-MM-dd');
+    popular.set(title, (popular.get(title) || 0) + 1);
+    trends.set(day, (trends.get(day) || 0) + 1);
+  });
+
+  const categories = new Map<string, { books: number; borrowCount: number }>();
+  sources.books.forEach((book) =>
+    book.categories.forEach((category) => {
+      const current = categories.get(category) || { books: 0, borrowCount: 0 };
+      categories.set(category, { ...current, books: current.books + 1 });
+    })
+  );
+  borrows.forEach((loan) =>
+    (loan.book?.categories || []).forEach((category) => {
+      const current = categories.get(category) || { books: 0, borrowCount: 0 };
+      categories.set(category, { ...current, borrowCount: current.borrowCount + 1 });
+    })
+  );
+
+  const users = userActivity(sources, requested);
+  const overdueRate = percentage(overdueLoans.length, active.length);
+
+  return {
+    summary: {
+      totalBooks: new Set(sources.books.map((book) => `${book.title}|${book.author}`.toLowerCase())).size,
+      totalUsers: users.length,
+      totalLibraries: sources.libraries.length,
+      totalInventories: sources.books.length,
+      totalCopies: sources.books.reduce((sum, book) => sum + book.total_copies, 0),
+      activeLoans: active.length,
+      overdueBooks: overdueLoans.length,
+      pendingRequests: pending.length,
+      totalBorrows: borrows.length,
+      dateRange,
+    },
+    popularBooks: Array.from(popular.entries())
+      .map(([title, borrowCount]) => ({ title, borrowCount }))
+      .sort((a, b) => b.borrowCount - a.borrowCount || a.title.localeCompare(b.title))
+      .slice(0, POPULAR_LIMIT),
+    categoryDistribution: Array.from(categories.entries())
+      .map(([category, counts]) => ({ category, ...counts }))
+      .sort((a, b) => b.borrowCount - a.borrowCount || b.books - a.books || a.category.localeCompare(b.category)),
+    borrowTrends: Array.from(trends.entries())
+      .map(([day, count]) => ({ _id: day, count }))
+      .sort((a, b) => a._id.localeCompare(b._id)),
+    userActivityStats: users.slice(0, TOP_USERS_LIMIT).map((user) => ({
+      name: user.name,
+      email: user.email || user.identifier,
+      role: 'Lector',
+      borrowCount: user.borrowCount,
+      lastActivity: user.lastActivity,
+    })),
+    libraryStats: sources.libraries.map((library) => {
+      const libraryActive = active.filter((loan) => loan.library_id === library.id);
+      const libraryOverdue = overdueLoans.filter((loan) => loan.library_id === library.id).length;
+
+      return {
+        name: library.name,
+        code: library.subdomain,
+        totalBorrows: borrows.filter((loan) => loan.library_id === library.id).length,
+        activeLoans: libraryActive.length,
+        overdueCount: libraryOverdue,
+        overdueRate: percentage(libraryOverdue, libraryActive.length),
+      };
+    }),
+    systemHealth: {
+      overdueRate,
+      requestProcessingRate: pending.some((loan) => differenceInHours(now, parseISO(loan.created_at)) >= STALE_REQUEST_HOURS)
+        ? 'High'
+        : 'Normal',
+      systemStatus: overdueRate > OVERDUE_ALERT_RATE ? 'Attention' : 'Healthy',
+      lastUpdated: now.toISOString(),
+    },
+  };
+}
+
+// Flat rows behind the report exports; overdue loans are listed as they stand now
+export function buildReportDataset(
+  dataset: ReportDataset,
+  sources: ReportSources,
+  dateRange: number,
+  now = new Date()
+): ReportRow[] {
+  const { borrows, requested, active, overdue } = prepare(sources, dateRange, now);
+  const libraries = new Map(sources.libraries.map((library) => [library.id, library.name]));
+  const books = new Map(sources.books.map((book) => [book.id, book]));
+
+  if (dataset === 'books') {
+    return sources.books.map((book) => ({
+      library: libraries.get(book.library_id) || '',
+      title: book.title,
+      author: book.author,
+      categories: book.categories.join('; '),
+      total_copies: book.total_copies,
+      available_copies: book.available_copies,
+      borrows: borrows.filter((loan) => loan.book_id === book.id).length,
+    }));
+  }
+
+  if (dataset === 'popular') {
+    const counts = new Map<string, { borrows: number; copies: number }>();
+    borrows.forEach((loan) => {
+      const current = counts.get(loan.book_id) || { borrows: 0, copies: 0 };
+      counts.set(loan.book_id, { borrows: current.borrows + 1, copies: current.copies + loan.requested_copies });
+    });
+
+    return Array.from(counts.entries())
+      .map(([bookId, count]) => {
+        const book = books.get(bookId);
+        const loan = borrows.find((item) => item.book_id === bookId);
+
+        return {
+          library: libraries.get(book?.library_id || loan?.library_id || '') || '',
+          title: book?.title || loan?.book?.title || '',
+          author: book?.author || loan?.book?.author || '',
+          borrows: count.borrows,
+          copies_lent: count.copies,
+        };
+      })
+      .sort((a, b) => b.borrows - a.borrows || a.title.localeCompare(b.title));
+  }
+
+  if (dataset === 'overdue') {
+    return active.filter(overdue).map((loan) => ({
+      library: libraries.get(loan.library_id) || '',
+      title: loan.book?.title || '',
+      patron: loan.full_name,
+      identifier: loan.identifier,
+      copies: loan.requested_copies,
+      handled_at: loan.handled_at || null,
+      due_date: loan.due_date || null,
+      copy_codes: (loan.copy_codes || []).join('; '),
+    }));
+  }
+
+  if (dataset === 'users') {
+    return userActivity(sources, requested).map((user) => ({
+      name: user.name,
+      identifier: user.identifier,
+      email: user.email || null,
+      library: user.library,
+      borrows: user.borrowCount,
+      last_activity: user.lastActivity,
+    }));
+  }
+
+  return requested.map((loan) => ({
+    library: libraries.get(loan.library_id) || '',
+    title: loan.book?.title || '',
+    patron: loan.full_name,
+    identifier: loan.identifier,
+    copies: loan.requested_copies,
+    status: loan.status,
+    requested_at: loan.created_at,
+    handled_at: loan.handled_at || null,
+    due_date: loan.due_date || null,
+    returned_at: loan.returned_at || null,
+    overdue: overdue(loan),
+  }));
+}
@@ -52,6 +52,25 @@ export async function supabaseRest<T>(path: string, init?: RequestInit, options?
   return response.json() as Promise<T>;
 }
 
+// Rows matching a query, read from the Content-Range header without fetching them
+export async function supabaseCount(path: string, options?: { service?: boolean; accessToken?: string }) {
+  if (!SUPABASE_URL) {
+    throw new Error('Supabase URL is not configured.');
+  }
+
+  const response = await fetch(`${SUPABASE_URL}${path}`, {
+    method: 'HEAD',
+    headers: getHeaders({ ...options, prefer: 'count=exact' }),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Supabase request failed with ${response.status}`);
+  }
+
+  return Number(response.headers.get('content-range')?.split('/')[1] || 0);
+}
+
 export async function supabaseLogin(email: string, password: string) {
   return supabaseRest<{
     access_token: string;
@@ -1,4 +1,59 @@
-export type LoanStatus = 'pending' | 'approved' | 'handled' | 'returned' | 'rejected';
+export type LoanStatus = 'pending' | 'approved' | 'handled' | 'returned' | 'rejected' | 'cancelled';
+
+export type CopyCondition = 'good' | 'fair' | 'bad';
+
+export type CopyStatus = 'available' | 'on_loan' | 'on_hold' | 'lost' | 'in_repair' | 'withdrawn';
+
+export type HoldStatus = 'waiting' | 'ready' | 'fulfilled' | 'cancelled';
+
+export type CodeCheckDigit = 'none' | 'mod10' | 'mod11';
+
+// Library codes are `<prefix>[year]<zero-padded sequence>[check digit]`
+export interface LibraryCodeFormat {
+  prefix: string;
+  padding: number;
+  include_year: boolean;
+  check_digit: CodeCheckDigit;
+}
+
+// Fee amounts are in the library's currency; damage is charged per copy downgraded
+export interface LibraryFeeRules {
+  currency: string;
+  daily_late_fee: number;
+  max_late_fee: number | null; // Cap per loan; null means no cap
+  grace_days: number;
+  damage_fees: {
+    good_to_fair: number;
+    good_to_bad: number;
+    fair_to_bad: number;
+  };
+}
+
+// Limits checked when a loan is requested and again when it is approved or handed over
+export interface LibraryCirculationPolicy {
+  max_loan_days: number;                  // Latest due date, counted from today
+  default_loan_days: number;              // Due date when the patron does not pick one
+  max_copies_per_request: number | null;  // null means no limit
+  max_active_loans: number | null;        // Open loans (pending, approved or handed over) per patron
+  duplicate_window_minutes: number;       // Same patron and title inside this window is a duplicate
+}
+
+export interface LibraryDayHours {
+  opens: string;   // HH:mm, library local time
+  closes: string;
+}
+
+export interface LibraryClosure {
+  date: string;    // yyyy-MM-dd
+  label?: string;
+}
+
+// Due dates move off closed days, and closed days do not count towards lateness
+export interface LibraryOpeningHours {
+  timezone: string;                      // IANA name, e.g. America/Tegucigalpa
+  weekly: (LibraryDayHours | null)[];    // Sunday first; null means closed all day
+  closures: LibraryClosure[];            // Holidays and one-off closures
+}
 
 export interface LibraryTenant {
   id: string;
@@ -7,6 +62,11 @@ export interface LibraryTenant {
   city?: string;
   accent?: string;
   description?: string;
+  code_format?: LibraryCodeFormat | null;
+  max_renewals?: number;
+  fee_rules?: LibraryFeeRules | null;
+  circulation_policy?: LibraryCirculationPolicy | null;
+  opening_hours?: LibraryOpeningHours | null;
 }
 
 export interface TenantBook {
@@ -15,6 +75,7 @@ export interface TenantBook {
   title: string;
   author: string;
   categories: string[];
+  // Copy totals and codes are derived from the book's BookCopy records
   total_copies: number;
   available_copies: number;
   library_codes: string[]; // Sequential codes like subdomain0001
@@ -32,6 +93,218 @@ export interface TenantBook {
   archived_at?: string | null;
 }
 
+// An existing record that looks like the same title, by shared book code or a near-identical title and author
+export interface BookDuplicate {
+  book_id: string;
+  title: string;
+  author: string;
+  book_code?: string;
+  reason: 'book_code' | 'title';
+  score: number; // Title similarity from 0 to 1; 1 for a shared code
+}
+
+export interface BookCopyEvent {
+  at: string;
+  action: 'created' | 'updated' | 'loaned' | 'returned' | 'reserved' | 'transferred';
+  librarian_id?: string | null;
+  loan_id?: string | null;
+  hold_id?: string | null;
+  note?: string | null;
+  changes?: Partial<Pick<BookCopy, 'condition' | 'status' | 'shelf_location'>>;
+}
+
+export interface BookCopy {
+  id: string;
+  library_id: string;
+  book_id: string;
+  code: string;
+  condition: CopyCondition;
+  status: CopyStatus;
+  shelf_location?: string | null;
+  history: BookCopyEvent[];
+  created_at: string;
+  updated_at: string;
+}
+
+// A patron's place in the queue for a title with no copies on the shelf
+export interface BookHold {
+  id: string;
+  library_id: string;
+  book_id: string;
+  full_name: string;
+  identifier: string;
+  status: HoldStatus;
+  position: number;
+  copy_code?: string | null;   // Copy set aside once the hold is ready
+  ready_at?: string | null;
+  expires_at?: string | null;  // Pickup deadline for a ready hold
+  loan_id?: string | null;     // Loan created when the hold is picked up
+  created_at: string;
+  updated_at: string;
+  book?: Pick<TenantBook, 'id' | 'title' | 'author' | 'categories'>;
+}
+
+export type PatronStatus = 'active' | 'blocked';
+
+// One person per library, keyed by the identifier they use when requesting loans
+export interface TenantPatron {
+  id: string;
+  library_id: string;
+  full_name: string;
+  identifier: string;
+  email?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+  status: PatronStatus;   // Blocked patrons cannot request new loans
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LoanRenewal {
+  at: string;
+  previous_due_date: string | null;
+  new_due_date: string;
+  requested_by: 'librarian' | 'patron';
+  librarian_id?: string;
+}
+
+// Charges assessed when a loan is returned
+export interface LoanFees {
+  currency: string;
+  days_late: number;
+  late_fee: number;
+  damage_fee: number;
+}
+
+export type LedgerEntryKind = 'late_fee' | 'damage_fee' | 'payment' | 'waiver';
+
+// One movement on a patron's balance; fees add to it, payments and waivers reduce it
+export interface PatronLedgerEntry {
+  id: string;
+  library_id: string;
+  identifier: string;
+  full_name: string;
+  kind: LedgerEntryKind;
+  amount: number;
+  loan_id?: string | null;
+  note?: string | null;
+  librarian_id?: string | null;
+  created_at: string;
+}
+
+export type AuditEntityType = 'loan' | 'book' | 'copy';
+
+export type AuditAction =
+  | `loan.${LoanStatus}`
+  | 'loan.renewed'
+  | 'loan.renewal_declined'
+  | 'book.created'
+  | 'book.updated'
+  | 'book.archived'
+  | 'book.merged'
+  | 'book.transferred'
+  | 'copy.added'
+  | 'copy.updated';
+
+// Append-only record of a librarian's change; snapshots are the stored record before and after
+export interface AuditEntry {
+  id: string;
+  library_id: string;
+  librarian_id: string | null;    // null when the patron made the change, e.g. cancelling their own request
+  librarian_name: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface AuditFilters {
+  libraryId?: string;
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  librarianId?: string;
+  from?: string;   // yyyy-MM-dd, inclusive
+  to?: string;
+}
+
+export type ActivityType = 'request' | 'approval' | 'rejection' | 'borrow' | 'return' | 'cancellation' | 'overdue' | 'book';
+
+// One line of the dashboard's recent-activity feed, derived from loans and the audit log
+export interface ActivityEvent {
+  id: string;
+  type: ActivityType;
+  library_id: string;
+  library?: string;
+  message: string;
+  timestamp: string;
+  user?: string;
+  book?: string;
+}
+
+export interface ActivityPage {
+  events: ActivityEvent[];
+  page: number;
+  page_size: number;
+  total: number;
+  has_more: boolean;
+}
+
+export type ReportDataset = 'books' | 'users' | 'loans' | 'overdue' | 'popular';
+
+export type ReportFormat = 'csv' | 'xlsx' | 'pdf';
+
+// What /dashboard/reports renders, computed from tenant books and loans over the last `dateRange` days
+export interface ReportStats {
+  summary: {
+    totalBooks: number;
+    totalUsers: number;
+    totalLibraries: number;
+    totalInventories: number;
+    totalCopies: number;
+    activeLoans: number;
+    overdueBooks: number;
+    pendingRequests: number;
+    totalBorrows: number;
+    dateRange: number;
+  };
+  popularBooks: Array<{
+    title: string;
+    borrowCount: number;
+  }>;
+  categoryDistribution: Array<{
+    category: string;
+    books: number;
+    borrowCount: number;
+  }>;
+  borrowTrends: Array<{
+    _id: string;   // yyyy-MM-dd
+    count: number;
+  }>;
+  userActivityStats: Array<{
+    name: string;
+    email: string;
+    role: string;
+    borrowCount: number;
+    lastActivity: string;
+  }>;
+  libraryStats: Array<{
+    name: string;
+    code: string;
+    totalBorrows: number;
+    activeLoans: number;
+    overdueCount: number;
+    overdueRate: number;
+  }>;
+  systemHealth: {
+    overdueRate: number;
+    requestProcessingRate: string;
+    systemStatus: string;
+    lastUpdated: string;
+  };
+}
+
 export interface TenantLoan {
   id: string;
   library_id: string;
@@ -48,9 +321,32 @@ export interface TenantLoan {
   delivery_condition?: { good: number; fair: number; bad: number } | null;
   return_condition?: { good: number; fair: number; bad: number } | null;
   return_note?: string | null;
+  copy_codes?: string[] | null;      // Codes handed over to the patron
+  returned_codes?: string[] | null;  // Codes checked back in
+  return_discrepancy?: { missing: string[]; unexpected: string[] } | null;
+  renewals?: LoanRenewal[];
+  renewal_request?: { requested_at: string; due_date: string } | null;
+  fees?: LoanFees | null;
+  cancelled_at?: string | null;
+  cancelled_by?: 'patron' | 'librarian' | null;
+  // Only on the response to the request that created the loan; proves ownership when cancelling
+  cancel_code?: string;
+  // Parent request when the loan is one line of a multi-book cart
+  group_id?: string | null;
+  patron_id?: string | null;
   book?: Pick<TenantBook, 'id' | 'title' | 'author' | 'categories'>;
 }
 
+// Parent of the loans submitted together from the catalog cart; each line item is a regular loan
+export interface TenantLoanGroup {
+  id: string;
+  library_id: string;
+  full_name: string;
+  identifier: string;
+  due_date: string | null;
+  created_at: string;
+}
+
 export interface LibrarianSession {
   id: string;
   email: string;
@@ -63,7 +359,38 @@ export interface LoanRequestPayload {
   identifier: string;
   book_id: string;
   requested_copies: number;
+  due_date: string; // Empty takes the library's default loan period
+}
+
+export interface LoanCartPayload {
+  full_name: string;
+  identifier: string;
   due_date: string;
+  items: { book_id: string; requested_copies: number }[];
+}
+
+export interface LedgerCreditPayload {
+  identifier: string;
+  full_name: string;
+  kind: Extract<LedgerEntryKind, 'payment' | 'waiver'>;
+  amount: number;
+  loan_id?: string;
+  note?: string;
+}
+
+export interface PatronPayload {
+  full_name: string;
+  identifier: string;
+  email?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+  status: PatronStatus;
+}
+
+export interface HoldRequestPayload {
+  full_name: string;
+  identifier: string;
+  book_id: string;
 }
 
 export interface BookMutationPayload {
@@ -71,8 +398,6 @@ export interface BookMutationPayload {
   title: string;
   author: string;
   categories: string[];
-  total_copies: number;
-  available_copies: number;
   book_code?: string;
   editorial?: string;
   edition?: string;
@@ -81,8 +406,91 @@ export interface BookMutationPayload {
   cost?: number;
   acquired_at?: string;
   image_url?: string;
+  // Initial copies per condition; only used when the book is created
   good_copies: number;
   fair_copies: number;
   bad_copies: number;
 }
 
+export interface CopyUpdatePayload {
+  condition?: CopyCondition;
+  status?: Exclude<CopyStatus, 'on_loan' | 'on_hold'>;
+  shelf_location?: string | null;
+  note?: string;
+}
+
+// Either `count` copies (available ones first) or the copies with these `codes`
+export interface CopyTransferPayload {
+  to_library_id: string;
+  count?: number;
+  codes?: string[];
+  // Book in the destination that receives the copies; by default the matching record, or a new one
+  destination_book_id?: string;
+}
+
+export interface CopyTransferResult {
+  source: TenantBook;
+  destination: TenantBook;
+  created: boolean; // The destination record was created by this transfer
+  // A copy keeps its code when it fits the destination's format and is free there
+  moved: Array<{ from_code: string; to_code: string }>;
+}
+
+// Outcome of one CSV line in a catalog import; `line` is the line number in the file
+export interface BookImportRowResult {
+  line: number;
+  title: string;
+  author: string;
+  copies: number;
+  status: 'ready' | 'duplicate' | 'error';
+  errors: string[];
+  // Existing book title, or "línea N" when the same book appears earlier in the file
+  duplicate_of?: string | null;
+}
+
+export interface BookImportReport {
+  dry_run: boolean;
+  rows: BookImportRowResult[];
+  ready: number;
+  duplicates: number;
+  errors: number;
+  imported: number;
+  copies_created: number;
+  // Only MARC imports: which tags fed which book fields, and which were ignored
+  mapping?: MarcMappingPreview;
+}
+
+export type MarcFormat = 'marc21' | 'marcxml';
+
+export interface MarcMappingPreview {
+  mapped: Array<{ tag: string; field: string; records: number; sample: string }>;
+  unmapped: Array<{ tag: string; records: number }>;
+}
+
+export type CatalogExportKind = 'books' | 'loans';
+
+export type CatalogExportFormat = 'csv' | 'json';
+
+// Book exports filter on acquired_at and availability; loan exports on created_at and LoanStatus
+export interface CatalogExportFilters {
+  columns?: string[];
+  status?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+}
+
+export interface ParsedIsbn {
+  isbn13: string;
+  isbn10: string | null; // null for 979 ISBNs, which have no ISBN-10 form
+}
+
+// Book fields an ISBN provider could fill; anything it does not know is left out
+export interface IsbnMetadata extends ParsedIsbn {
+  title?: string;
+  author?: string;
+  editorial?: string;
+  edition?: string;
+  image_url?: string;
+  categories?: string[];
+  source: string;
+}
@@ -0,0 +1,260 @@
+-- Migration: Per-copy item records
+-- Every library code becomes a book_copies row with its own condition, status,
+-- shelf location and history. Book totals are derived from these rows.
+
+-- 1. Copy table
+DO $$ BEGIN
+  CREATE TYPE public.copy_status AS ENUM ('available', 'on_loan', 'lost', 'in_repair', 'withdrawn');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.book_copies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  library_id uuid NOT NULL REFERENCES public.libraries(id) ON DELETE CASCADE,
+  book_id uuid NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  condition text NOT NULL DEFAULT 'good' CHECK (condition IN ('good', 'fair', 'bad')),
+  status public.copy_status NOT NULL DEFAULT 'available',
+  shelf_location text,
+  history jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS book_copies_book_id_idx ON public.book_copies (book_id);
+
+DROP TRIGGER IF EXISTS book_copies_touch_updated_at ON public.book_copies;
+CREATE TRIGGER book_copies_touch_updated_at
+BEFORE UPDATE ON public.book_copies
+FOR EACH ROW
+EXECUTE PROCEDURE public.touch_updated_at();
+
+-- 2. Book totals follow the copies
+CREATE OR REPLACE FUNCTION public.refresh_book_copy_totals(p_book_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.books b
+  SET total_copies = s.total,
+      available_copies = s.available,
+      good_copies = s.good,
+      fair_copies = s.fair,
+      bad_copies = s.bad,
+      library_codes = s.codes
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE status NOT IN ('lost', 'withdrawn'))::int AS total,
+      count(*) FILTER (WHERE status = 'available')::int AS available,
+      count(*) FILTER (WHERE status NOT IN ('lost', 'withdrawn') AND condition = 'good')::int AS good,
+      count(*) FILTER (WHERE status NOT IN ('lost', 'withdrawn') AND condition = 'fair')::int AS fair,
+      count(*) FILTER (WHERE status NOT IN ('lost', 'withdrawn') AND condition = 'bad')::int AS bad,
+      coalesce(array_agg(code ORDER BY code), '{}') AS codes
+    FROM public.book_copies
+    WHERE book_id = p_book_id
+  ) s
+  WHERE b.id = p_book_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_copies_refresh_totals()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM public.refresh_book_copy_totals(coalesce(new.book_id, old.book_id));
+  IF TG_OP = 'UPDATE' AND new.book_id <> old.book_id THEN
+    PERFORM public.refresh_book_copy_totals(old.book_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS book_copies_refresh_totals ON public.book_copies;
+CREATE TRIGGER book_copies_refresh_totals
+AFTER INSERT OR UPDATE OR DELETE ON public.book_copies
+FOR EACH ROW
+EXECUTE PROCEDURE public.book_copies_refresh_totals();
+
+-- 3. Backfill copies from existing library_codes and aggregate counts
+INSERT INTO public.book_copies (library_id, book_id, code, condition, status, shelf_location, history)
+SELECT
+  b.library_id,
+  b.id,
+  c.code,
+  CASE
+    WHEN c.position <= b.good_copies THEN 'good'
+    WHEN c.position <= b.good_copies + b.fair_copies THEN 'fair'
+    ELSE 'bad'
+  END,
+  CASE WHEN c.position <= b.total_copies - b.available_copies THEN 'on_loan' ELSE 'available' END::public.copy_status,
+  b.shelf_location,
+  jsonb_build_array(jsonb_build_object('at', now(), 'action', 'created'))
+FROM public.books b
+CROSS JOIN LATERAL unnest(coalesce(b.library_codes, '{}')) WITH ORDINALITY AS c(code, position)
+WHERE NOT EXISTS (SELECT 1 FROM public.book_copies bc WHERE bc.book_id = b.id);
+
+-- 4. Manual copy changes (condition, status, shelf) with history
+CREATE OR REPLACE FUNCTION public.update_book_copy(
+  p_copy_id uuid,
+  p_librarian_id uuid,
+  p_condition text DEFAULT NULL,
+  p_status public.copy_status DEFAULT NULL,
+  p_shelf_location text DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS SETOF public.book_copies
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_copy public.book_copies;
+  v_changes jsonb := '{}'::jsonb;
+BEGIN
+  SELECT * INTO v_copy FROM public.book_copies WHERE id = p_copy_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Copia no encontrada.'; END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries
+    WHERE librarian_id = p_librarian_id AND library_id = v_copy.library_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  IF p_status = 'on_loan' THEN
+    RAISE EXCEPTION 'Las copias solo pasan a préstamo al entregar un préstamo.';
+  END IF;
+
+  IF p_status IS NOT NULL AND p_status <> v_copy.status AND v_copy.status = 'on_loan' THEN
+    RAISE EXCEPTION 'Las copias prestadas solo cambian de estado al recibir la devolución.';
+  END IF;
+
+  IF p_condition IS NOT NULL AND p_condition <> v_copy.condition THEN
+    v_changes := v_changes || jsonb_build_object('condition', p_condition);
+  END IF;
+  IF p_status IS NOT NULL AND p_status <> v_copy.status THEN
+    v_changes := v_changes || jsonb_build_object('status', p_status);
+  END IF;
+  IF p_shelf_location IS NOT NULL AND nullif(trim(p_shelf_location), '') IS DISTINCT FROM v_copy.shelf_location THEN
+    v_changes := v_changes || jsonb_build_object('shelf_location', nullif(trim(p_shelf_location), ''));
+  END IF;
+
+  UPDATE public.book_copies
+  SET condition = coalesce(p_condition, condition),
+      status = coalesce(p_status, status),
+      shelf_location = CASE WHEN p_shelf_location IS NULL THEN shelf_location ELSE nullif(trim(p_shelf_location), '') END,
+      history = history || jsonb_build_array(jsonb_build_object(
+        'at', now(), 'action', 'updated', 'librarian_id', p_librarian_id, 'note', p_note, 'changes', v_changes
+      ))
+  WHERE id = v_copy.id;
+
+  RETURN QUERY SELECT * FROM public.book_copies WHERE id = v_copy.id;
+END;
+$$;
+
+-- 5. Loans move specific copies on and off the shelf
+CREATE OR REPLACE FUNCTION public.transition_loan_status(
+  p_loan_id uuid,
+  p_next_status public.loan_status,
+  p_librarian_id uuid,
+  p_delivery_condition jsonb DEFAULT '{}'::jsonb,
+  p_return_note text DEFAULT NULL,
+  p_return_condition jsonb DEFAULT '{}'::jsonb
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_loan public.loans;
+  v_book public.books;
+  v_moved integer;
+BEGIN
+  -- Permission check
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries ll JOIN public.loans l ON l.library_id = ll.library_id
+    WHERE ll.librarian_id = p_librarian_id AND l.id = p_loan_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Loan not found'; END IF;
+
+  SELECT * INTO v_book FROM public.books WHERE id = v_loan.book_id FOR UPDATE;
+
+  IF p_next_status = 'handled' THEN
+    IF v_loan.status <> 'approved' THEN RAISE EXCEPTION 'Only approved loans can be handled'; END IF;
+
+    -- Validate condition counts match requested copies
+    IF (COALESCE((p_delivery_condition->>'good')::int, 0) +
+        COALESCE((p_delivery_condition->>'fair')::int, 0) +
+        COALESCE((p_delivery_condition->>'bad')::int, 0)) <> v_loan.requested_copies THEN
+      RAISE EXCEPTION 'La suma de los estados (Bueno, Regular, Malo) debe ser igual a %', v_loan.requested_copies;
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = 'on_loan',
+        history = history || jsonb_build_array(jsonb_build_object(
+          'at', now(), 'action', 'loaned', 'librarian_id', p_librarian_id, 'loan_id', v_loan.id
+        ))
+    WHERE id IN (
+      SELECT id FROM public.book_copies
+      WHERE book_id = v_book.id AND status = 'available'
+      ORDER BY code
+      LIMIT v_loan.requested_copies
+      FOR UPDATE
+    );
+    GET DIAGNOSTICS v_moved = ROW_COUNT;
+    IF v_moved < v_loan.requested_copies THEN RAISE EXCEPTION 'Insufficient copies available'; END IF;
+
+    UPDATE public.loans SET status = p_next_status, handled_at = now(), delivery_condition = p_delivery_condition WHERE id = v_loan.id;
+
+  ELSIF p_next_status = 'returned' THEN
+    IF v_loan.status <> 'handled' THEN RAISE EXCEPTION 'Only handled loans can be returned'; END IF;
+
+    -- Validate return condition counts match requested copies
+    IF (COALESCE((p_return_condition->>'good')::int, 0) +
+        COALESCE((p_return_condition->>'fair')::int, 0) +
+        COALESCE((p_return_condition->>'bad')::int, 0)) <> v_loan.requested_copies THEN
+      RAISE EXCEPTION 'La suma de los estados de retorno (Bueno, Regular, Malo) debe ser igual a %', v_loan.requested_copies;
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = 'available',
+        history = history || jsonb_build_array(jsonb_build_object(
+          'at', now(), 'action', 'returned', 'librarian_id', p_librarian_id, 'loan_id', v_loan.id
+        ))
+    WHERE id IN (
+      SELECT id FROM public.book_copies
+      WHERE book_id = v_book.id AND status = 'on_loan'
+      ORDER BY code
+      LIMIT v_loan.requested_copies
+      FOR UPDATE
+    );
+
+    UPDATE public.loans SET status = p_next_status, returned_at = now(), return_note = p_return_note, return_condition = p_return_condition WHERE id = v_loan.id;
+
+  ELSIF p_next_status IN ('approved', 'rejected') THEN
+    IF v_loan.status <> 'pending' THEN RAISE EXCEPTION 'Only pending loans can be approved or rejected'; END IF;
+    UPDATE public.loans SET status = p_next_status WHERE id = v_loan.id;
+  ELSE
+    RAISE EXCEPTION 'Unsupported loan transition';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = v_loan.id;
+END;
+$$;
+
+ALTER TABLE public.book_copies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Librarians can view assigned copies"
+ON public.book_copies FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.librarian_libraries ll
+    WHERE ll.librarian_id = auth.uid()
+      AND ll.library_id = book_copies.library_id
+  )
+);
@@ -0,0 +1,67 @@
+-- Migration: Atomic per-library code sequence
+-- Codes come from a counter row per library that is bumped inside one statement,
+-- so two librarians adding copies at the same time never receive the same code.
+
+-- 1. Sequence table
+CREATE TABLE IF NOT EXISTS public.library_code_sequences (
+  library_id uuid PRIMARY KEY REFERENCES public.libraries(id) ON DELETE CASCADE,
+  last_value bigint NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS library_code_sequences_touch_updated_at ON public.library_code_sequences;
+CREATE TRIGGER library_code_sequences_touch_updated_at
+BEFORE UPDATE ON public.library_code_sequences
+FOR EACH ROW
+EXECUTE PROCEDURE public.touch_updated_at();
+
+ALTER TABLE public.library_code_sequences ENABLE ROW LEVEL SECURITY;
+
+-- 2. Seed each sequence from the highest existing `<subdomain><n>` code
+INSERT INTO public.library_code_sequences (library_id, last_value)
+SELECT
+  l.id,
+  coalesce(max(nullif(regexp_replace(substr(bc.code, length(l.subdomain) + 1), '\D', '', 'g'), '')::bigint), 0)
+FROM public.libraries l
+LEFT JOIN public.book_copies bc ON bc.library_id = l.id AND lower(bc.code) LIKE lower(l.subdomain) || '%'
+GROUP BY l.id
+ON CONFLICT (library_id) DO UPDATE SET last_value = greatest(public.library_code_sequences.last_value, excluded.last_value);
+
+-- 3. Codes are unique within a library
+DO $$ BEGIN
+  ALTER TABLE public.book_copies ADD CONSTRAINT book_copies_library_code_key UNIQUE (library_id, code);
+EXCEPTION WHEN duplicate_object OR duplicate_table THEN NULL;
+END $$;
+
+-- 4. Allocation RPC
+CREATE OR REPLACE FUNCTION public.allocate_library_codes(
+  p_library_id uuid,
+  p_count integer
+)
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_subdomain text;
+  v_last bigint;
+BEGIN
+  IF p_count < 1 THEN
+    RETURN '{}';
+  END IF;
+
+  SELECT lower(subdomain) INTO v_subdomain FROM public.libraries WHERE id = p_library_id;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Library not found'; END IF;
+
+  -- The upsert takes the row lock, so concurrent calls are serialized per library
+  INSERT INTO public.library_code_sequences AS s (library_id, last_value)
+  VALUES (p_library_id, p_count)
+  ON CONFLICT (library_id) DO UPDATE SET last_value = s.last_value + p_count
+  RETURNING last_value INTO v_last;
+
+  RETURN ARRAY(
+    SELECT v_subdomain || lpad(n::text, 4, '0')
+    FROM generate_series(v_last - p_count + 1, v_last) AS n
+  );
+END;
+$$;
@@ -0,0 +1,98 @@
+-- Migration: Configurable library code format
+-- Each library may set a prefix, padding width, optional year segment and an
+-- optional mod-10 / mod-11 check digit. Libraries without a format keep the
+-- original `<subdomain>0001` series.
+
+-- 1. Library column
+ALTER TABLE public.libraries ADD COLUMN IF NOT EXISTS code_format jsonb;
+
+-- 2. Check digits over the numeric part of the code
+CREATE OR REPLACE FUNCTION public.library_code_check_digit(p_digits text, p_scheme text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_sum integer := 0;
+  v_value integer;
+  v_index integer := 0;
+  v_check integer;
+BEGIN
+  IF coalesce(p_scheme, 'none') = 'none' THEN
+    RETURN '';
+  END IF;
+
+  FOR i IN REVERSE length(p_digits)..1 LOOP
+    v_value := substr(p_digits, i, 1)::int;
+    IF p_scheme = 'mod10' THEN
+      -- Luhn: double every other digit starting next to the check digit
+      IF v_index % 2 = 0 THEN
+        v_value := v_value * 2;
+        IF v_value > 9 THEN v_value := v_value - 9; END IF;
+      END IF;
+      v_sum := v_sum + v_value;
+    ELSE
+      v_sum := v_sum + v_value * (v_index + 2);
+    END IF;
+    v_index := v_index + 1;
+  END LOOP;
+
+  IF p_scheme = 'mod10' THEN
+    RETURN ((10 - v_sum % 10) % 10)::text;
+  END IF;
+
+  v_check := (11 - v_sum % 11) % 11;
+  RETURN CASE WHEN v_check = 10 THEN 'X' ELSE v_check::text END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.format_library_code(p_format jsonb, p_subdomain text, p_sequence bigint)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_digits text;
+BEGIN
+  v_digits :=
+    CASE WHEN coalesce((p_format->>'include_year')::boolean, false) THEN extract(year FROM now())::int::text ELSE '' END ||
+    lpad(p_sequence::text, greatest(coalesce((p_format->>'padding')::int, 4), length(p_sequence::text)), '0');
+
+  RETURN coalesce(p_format->>'prefix', lower(p_subdomain)) ||
+    v_digits ||
+    public.library_code_check_digit(v_digits, p_format->>'check_digit');
+END;
+$$;
+
+-- 3. Allocation follows the library's format
+CREATE OR REPLACE FUNCTION public.allocate_library_codes(
+  p_library_id uuid,
+  p_count integer
+)
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_library public.libraries;
+  v_last bigint;
+BEGIN
+  IF p_count < 1 THEN
+    RETURN '{}';
+  END IF;
+
+  SELECT * INTO v_library FROM public.libraries WHERE id = p_library_id;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Library not found'; END IF;
+
+  -- The upsert takes the row lock, so concurrent calls are serialized per library
+  INSERT INTO public.library_code_sequences AS s (library_id, last_value)
+  VALUES (p_library_id, p_count)
+  ON CONFLICT (library_id) DO UPDATE SET last_value = s.last_value + p_count
+  RETURNING last_value INTO v_last;
+
+  RETURN ARRAY(
+    SELECT public.format_library_code(coalesce(v_library.code_format, '{}'::jsonb), v_library.subdomain, n)
+    FROM generate_series(v_last - p_count + 1, v_last) AS n
+  );
+END;
+$$;
@@ -0,0 +1,138 @@
+-- Migration: Loan renewals
+-- Handled loans can be extended up to a per-library maximum, unless another patron
+-- is waiting for the title. Every renewal is kept on the loan with its old and new
+-- due dates; patrons may ask for one from the public loan lookup.
+
+-- 1. Columns
+ALTER TABLE public.libraries ADD COLUMN IF NOT EXISTS max_renewals integer NOT NULL DEFAULT 2 CHECK (max_renewals >= 0);
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS renewals jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS renewal_request jsonb;
+
+-- 2. Shared renewal rules
+CREATE OR REPLACE FUNCTION public.assert_loan_renewable(p_loan public.loans, p_due_date date)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_max integer;
+BEGIN
+  IF p_loan.status <> 'handled' THEN
+    RAISE EXCEPTION 'Solo los préstamos entregados se pueden renovar.';
+  END IF;
+
+  SELECT max_renewals INTO v_max FROM public.libraries WHERE id = p_loan.library_id;
+  IF jsonb_array_length(p_loan.renewals) >= v_max THEN
+    RAISE EXCEPTION 'Este préstamo ya alcanzó el máximo de % renovaciones.', v_max;
+  END IF;
+
+  IF p_due_date IS NULL OR (p_loan.due_date IS NOT NULL AND p_due_date <= p_loan.due_date) THEN
+    RAISE EXCEPTION 'La nueva fecha debe ser posterior a la fecha de devolución actual.';
+  END IF;
+
+  -- Another patron with an open request for the same title blocks renewals
+  IF EXISTS (
+    SELECT 1 FROM public.loans
+    WHERE book_id = p_loan.book_id
+      AND lower(identifier) <> lower(p_loan.identifier)
+      AND status IN ('pending', 'approved')
+  ) THEN
+    RAISE EXCEPTION 'Otro lector está esperando este título; el préstamo no se puede renovar.';
+  END IF;
+END;
+$$;
+
+-- 3. Librarian renewal (also approves a pending patron request)
+CREATE OR REPLACE FUNCTION public.renew_loan(
+  p_loan_id uuid,
+  p_librarian_id uuid,
+  p_due_date date
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_loan public.loans;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Loan not found'; END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries
+    WHERE librarian_id = p_librarian_id AND library_id = v_loan.library_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  PERFORM public.assert_loan_renewable(v_loan, p_due_date);
+
+  UPDATE public.loans
+  SET renewals = renewals || jsonb_build_array(jsonb_build_object(
+        'at', now(),
+        'previous_due_date', due_date,
+        'new_due_date', p_due_date,
+        'requested_by', CASE WHEN renewal_request IS NULL THEN 'librarian' ELSE 'patron' END,
+        'librarian_id', p_librarian_id
+      )),
+      due_date = p_due_date,
+      renewal_request = NULL
+  WHERE id = v_loan.id;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = v_loan.id;
+END;
+$$;
+
+-- 4. Patron renewal request; the identifier proves ownership of the loan
+CREATE OR REPLACE FUNCTION public.request_loan_renewal(
+  p_library_id uuid,
+  p_loan_id uuid,
+  p_identifier text,
+  p_due_date date
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_loan public.loans;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans
+  WHERE id = p_loan_id AND library_id = p_library_id AND lower(identifier) = lower(trim(p_identifier))
+  FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Loan not found'; END IF;
+
+  IF v_loan.renewal_request IS NOT NULL THEN
+    RAISE EXCEPTION 'Ya existe una solicitud de renovación para este préstamo.';
+  END IF;
+
+  PERFORM public.assert_loan_renewable(v_loan, p_due_date);
+
+  UPDATE public.loans
+  SET renewal_request = jsonb_build_object('requested_at', now(), 'due_date', p_due_date)
+  WHERE id = v_loan.id;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = v_loan.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_loan_renewal(
+  p_loan_id uuid,
+  p_librarian_id uuid
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries ll JOIN public.loans l ON l.library_id = ll.library_id
+    WHERE ll.librarian_id = p_librarian_id AND l.id = p_loan_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  UPDATE public.loans SET renewal_request = NULL WHERE id = p_loan_id;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = p_loan_id;
+END;
+$$;
@@ -0,0 +1,388 @@
+-- Migration: Holds / waitlist queue
+-- Patrons can queue for titles with no copies on the shelf. Whenever a copy becomes
+-- available (a return, a repaired copy, a new copy) it is set aside for the next
+-- waiting hold in queue order.
+
+-- 1. Reserved copies
+ALTER TYPE public.copy_status ADD VALUE IF NOT EXISTS 'on_hold';
+
+-- 2. Hold table
+DO $$ BEGIN
+  CREATE TYPE public.hold_status AS ENUM ('waiting', 'ready', 'fulfilled', 'cancelled');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.book_holds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  library_id uuid NOT NULL REFERENCES public.libraries(id) ON DELETE CASCADE,
+  book_id uuid NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  full_name text NOT NULL,
+  identifier text NOT NULL,
+  status public.hold_status NOT NULL DEFAULT 'waiting',
+  position integer NOT NULL,
+  copy_code text,
+  ready_at timestamptz,
+  expires_at timestamptz,
+  loan_id uuid REFERENCES public.loans(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS book_holds_queue_idx ON public.book_holds (book_id, status, position);
+
+DROP TRIGGER IF EXISTS book_holds_touch_updated_at ON public.book_holds;
+CREATE TRIGGER book_holds_touch_updated_at
+BEFORE UPDATE ON public.book_holds
+FOR EACH ROW
+EXECUTE PROCEDURE public.touch_updated_at();
+
+ALTER TABLE public.book_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Librarians can view assigned holds"
+ON public.book_holds FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.librarian_libraries ll
+    WHERE ll.librarian_id = auth.uid()
+      AND ll.library_id = book_holds.library_id
+  )
+);
+
+-- Titles without copies on the shelf stay visible so patrons can queue for them
+CREATE POLICY "Public can read catalog books"
+ON public.books FOR SELECT
+USING (archived_at IS NULL);
+
+-- 3. Offer available copies to the queue
+CREATE OR REPLACE FUNCTION public.offer_copies_to_holds(p_book_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_hold public.book_holds;
+  v_copy public.book_copies;
+BEGIN
+  FOR v_hold IN
+    SELECT * FROM public.book_holds
+    WHERE book_id = p_book_id AND status = 'waiting'
+    ORDER BY position, created_at
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_copy FROM public.book_copies
+    WHERE book_id = p_book_id AND status = 'available'
+    ORDER BY code
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    EXIT WHEN NOT FOUND;
+
+    UPDATE public.book_copies
+    SET status = 'on_hold',
+        history = history || jsonb_build_array(jsonb_build_object('at', now(), 'action', 'reserved', 'hold_id', v_hold.id))
+    WHERE id = v_copy.id;
+
+    UPDATE public.book_holds
+    SET status = 'ready', copy_code = v_copy.code, ready_at = now(), expires_at = now() + interval '3 days'
+    WHERE id = v_hold.id;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_copies_offer_holds()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM public.offer_copies_to_holds(new.book_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS book_copies_offer_holds ON public.book_copies;
+CREATE TRIGGER book_copies_offer_holds
+AFTER INSERT OR UPDATE OF status ON public.book_copies
+FOR EACH ROW
+WHEN (new.status = 'available')
+EXECUTE PROCEDURE public.book_copies_offer_holds();
+
+-- 4. Patrons join the queue
+CREATE OR REPLACE FUNCTION public.create_book_hold(
+  p_library_id uuid,
+  p_book_id uuid,
+  p_full_name text,
+  p_identifier text,
+  p_request_ip inet
+)
+RETURNS SETOF public.book_holds
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_book public.books;
+  v_count integer;
+  v_hold public.book_holds;
+BEGIN
+  IF trim(coalesce(p_full_name, '')) = '' OR trim(coalesce(p_identifier, '')) = '' THEN
+    RAISE EXCEPTION 'Required fields cannot be empty';
+  END IF;
+
+  -- Rate limit check, shared with loan requests
+  SELECT count(*) INTO v_count FROM public.loan_request_events
+  WHERE request_ip = p_request_ip AND created_at >= now() - interval '1 minute';
+  IF v_count >= 5 THEN RAISE EXCEPTION 'Rate limit exceeded for this IP'; END IF;
+
+  SELECT * INTO v_book FROM public.books
+  WHERE id = p_book_id AND library_id = p_library_id AND archived_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Book not found for this library'; END IF;
+
+  IF v_book.available_copies > 0 THEN
+    RAISE EXCEPTION 'Este título tiene copias disponibles; solicita el préstamo directamente.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.book_holds
+    WHERE book_id = p_book_id AND lower(identifier) = lower(trim(p_identifier)) AND status IN ('waiting', 'ready')
+  ) THEN
+    RAISE EXCEPTION 'Ya estás en la lista de espera de este título.';
+  END IF;
+
+  INSERT INTO public.loan_request_events (library_id, identifier, book_id, request_ip)
+  VALUES (p_library_id, p_identifier, p_book_id, p_request_ip);
+
+  INSERT INTO public.book_holds (library_id, book_id, full_name, identifier, position)
+  VALUES (
+    p_library_id,
+    p_book_id,
+    trim(p_full_name),
+    trim(p_identifier),
+    coalesce((SELECT max(position) FROM public.book_holds WHERE book_id = p_book_id AND status IN ('waiting', 'ready')), 0) + 1
+  )
+  RETURNING * INTO v_hold;
+
+  RETURN QUERY SELECT * FROM public.book_holds WHERE id = v_hold.id;
+END;
+$$;
+
+-- 5. Librarians reorder or cancel holds
+CREATE OR REPLACE FUNCTION public.update_book_hold(
+  p_hold_id uuid,
+  p_librarian_id uuid,
+  p_action text
+)
+RETURNS SETOF public.book_holds
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_hold public.book_holds;
+  v_neighbor public.book_holds;
+BEGIN
+  SELECT * INTO v_hold FROM public.book_holds WHERE id = p_hold_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Reserva no encontrada.'; END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries
+    WHERE librarian_id = p_librarian_id AND library_id = v_hold.library_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  IF v_hold.status NOT IN ('waiting', 'ready') THEN
+    RAISE EXCEPTION 'Esta reserva ya no está activa.';
+  END IF;
+
+  IF p_action = 'cancel' THEN
+    UPDATE public.book_holds SET status = 'cancelled' WHERE id = v_hold.id;
+
+    -- Releasing the copy fires book_copies_offer_holds for the next patron in line
+    UPDATE public.book_copies
+    SET status = 'available',
+        history = history || jsonb_build_array(jsonb_build_object(
+          'at', now(), 'action', 'updated', 'librarian_id', p_librarian_id, 'hold_id', v_hold.id,
+          'note', 'Reserva cancelada.', 'changes', jsonb_build_object('status', 'available')
+        ))
+    WHERE book_id = v_hold.book_id AND code = v_hold.copy_code AND status = 'on_hold';
+
+  ELSIF p_action IN ('move_up', 'move_down') THEN
+    SELECT * INTO v_neighbor FROM public.book_holds
+    WHERE book_id = v_hold.book_id AND status IN ('waiting', 'ready') AND id <> v_hold.id
+      AND CASE WHEN p_action = 'move_up' THEN position < v_hold.position ELSE position > v_hold.position END
+    ORDER BY CASE WHEN p_action = 'move_up' THEN -position ELSE position END
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      UPDATE public.book_holds SET position = v_neighbor.position WHERE id = v_hold.id;
+      UPDATE public.book_holds SET position = v_hold.position WHERE id = v_neighbor.id;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unsupported hold action';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.book_holds WHERE id = v_hold.id;
+END;
+$$;
+
+-- 6. A ready hold is picked up as a handed-over loan of the reserved copy
+CREATE OR REPLACE FUNCTION public.fulfill_book_hold(
+  p_hold_id uuid,
+  p_librarian_id uuid,
+  p_due_date date
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_hold public.book_holds;
+  v_copy public.book_copies;
+  v_loan public.loans;
+BEGIN
+  SELECT * INTO v_hold FROM public.book_holds WHERE id = p_hold_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Reserva no encontrada.'; END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries
+    WHERE librarian_id = p_librarian_id AND library_id = v_hold.library_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  SELECT * INTO v_copy FROM public.book_copies
+  WHERE book_id = v_hold.book_id AND code = v_hold.copy_code AND status = 'on_hold'
+  FOR UPDATE;
+
+  IF v_hold.status <> 'ready' OR NOT FOUND THEN
+    RAISE EXCEPTION 'Solo las reservas listas se pueden entregar.';
+  END IF;
+
+  INSERT INTO public.loans (
+    library_id, book_id, full_name, identifier, requested_copies, due_date,
+    status, handled_at, copy_codes, delivery_condition
+  )
+  VALUES (
+    v_hold.library_id, v_hold.book_id, v_hold.full_name, v_hold.identifier, 1, p_due_date,
+    'handled', now(), ARRAY[v_copy.code],
+    jsonb_build_object(
+      'good', (v_copy.condition = 'good')::int,
+      'fair', (v_copy.condition = 'fair')::int,
+      'bad', (v_copy.condition = 'bad')::int
+    )
+  )
+  RETURNING * INTO v_loan;
+
+  UPDATE public.book_copies
+  SET status = 'on_loan',
+      history = history || jsonb_build_array(jsonb_build_object(
+        'at', now(), 'action', 'loaned', 'librarian_id', p_librarian_id, 'loan_id', v_loan.id, 'hold_id', v_hold.id
+      ))
+  WHERE id = v_copy.id;
+
+  UPDATE public.book_holds SET status = 'fulfilled', loan_id = v_loan.id WHERE id = v_hold.id;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = v_loan.id;
+END;
+$$;
+
+-- 7. Renewals are also blocked by patrons waiting in the queue
+CREATE OR REPLACE FUNCTION public.assert_loan_renewable(p_loan public.loans, p_due_date date)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_max integer;
+BEGIN
+  IF p_loan.status <> 'handled' THEN
+    RAISE EXCEPTION 'Solo los préstamos entregados se pueden renovar.';
+  END IF;
+
+  SELECT max_renewals INTO v_max FROM public.libraries WHERE id = p_loan.library_id;
+  IF jsonb_array_length(p_loan.renewals) >= v_max THEN
+    RAISE EXCEPTION 'Este préstamo ya alcanzó el máximo de % renovaciones.', v_max;
+  END IF;
+
+  IF p_due_date IS NULL OR (p_loan.due_date IS NOT NULL AND p_due_date <= p_loan.due_date) THEN
+    RAISE EXCEPTION 'La nueva fecha debe ser posterior a la fecha de devolución actual.';
+  END IF;
+
+  -- Another patron with an open request or hold for the same title blocks renewals
+  IF EXISTS (
+    SELECT 1 FROM public.loans
+    WHERE book_id = p_loan.book_id
+      AND lower(identifier) <> lower(p_loan.identifier)
+      AND status IN ('pending', 'approved')
+  ) OR EXISTS (
+    SELECT 1 FROM public.book_holds
+    WHERE book_id = p_loan.book_id
+      AND lower(identifier) <> lower(p_loan.identifier)
+      AND status IN ('waiting', 'ready')
+  ) THEN
+    RAISE EXCEPTION 'Otro lector está esperando este título; el préstamo no se puede renovar.';
+  END IF;
+END;
+$$;
+
+-- 8. Reserved copies are only released through the queue
+CREATE OR REPLACE FUNCTION public.update_book_copy(
+  p_copy_id uuid,
+  p_librarian_id uuid,
+  p_condition text DEFAULT NULL,
+  p_status public.copy_status DEFAULT NULL,
+  p_shelf_location text DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS SETOF public.book_copies
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_copy public.book_copies;
+  v_changes jsonb := '{}'::jsonb;
+BEGIN
+  SELECT * INTO v_copy FROM public.book_copies WHERE id = p_copy_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Copia no encontrada.'; END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries
+    WHERE librarian_id = p_librarian_id AND library_id = v_copy.library_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  IF p_status IN ('on_loan', 'on_hold') THEN
+    RAISE EXCEPTION 'Las copias solo pasan a préstamo al entregar un préstamo.';
+  END IF;
+
+  IF p_status IS NOT NULL AND p_status <> v_copy.status AND v_copy.status = 'on_loan' THEN
+    RAISE EXCEPTION 'Las copias prestadas solo cambian de estado al recibir la devolución.';
+  END IF;
+
+  IF p_status IS NOT NULL AND p_status <> v_copy.status AND v_copy.status = 'on_hold' THEN
+    RAISE EXCEPTION 'Las copias reservadas se liberan desde la lista de espera.';
+  END IF;
+
+  IF p_condition IS NOT NULL AND p_condition <> v_copy.condition THEN
+    v_changes := v_changes || jsonb_build_object('condition', p_condition);
+  END IF;
+  IF p_status IS NOT NULL AND p_status <> v_copy.status THEN
+    v_changes := v_changes || jsonb_build_object('status', p_status);
+  END IF;
+  IF p_shelf_location IS NOT NULL AND nullif(trim(p_shelf_location), '') IS DISTINCT FROM v_copy.shelf_location THEN
+    v_changes := v_changes || jsonb_build_object('shelf_location', nullif(trim(p_shelf_location), ''));
+  END IF;
+
+  UPDATE public.book_copies
+  SET condition = coalesce(p_condition, condition),
+      status = coalesce(p_status, status),
+      shelf_location = CASE WHEN p_shelf_location IS NULL THEN shelf_location ELSE nullif(trim(p_shelf_location), '') END,
+      history = history || jsonb_build_array(jsonb_build_object(
+        'at', now(), 'action', 'updated', 'librarian_id', p_librarian_id, 'note', p_note, 'changes', v_changes
+      ))
+  WHERE id = v_copy.id;
+
+  RETURN QUERY SELECT * FROM public.book_copies WHERE id = v_copy.id;
+END;
+$$;
@@ -0,0 +1,174 @@
+-- Migration: Late and damage fees
+-- Each library sets a daily late rate (with grace days and an optional cap) and a
+-- charge per copy downgraded between handover and return. Fees are assessed when a
+-- loan is returned and charged to the patron's ledger, where librarians record
+-- payments and waivers against the balance.
+
+-- 1. Columns
+ALTER TABLE public.libraries ADD COLUMN IF NOT EXISTS fee_rules jsonb;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS fees jsonb;
+
+-- 2. Patron ledger
+CREATE TABLE IF NOT EXISTS public.patron_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  library_id uuid NOT NULL REFERENCES public.libraries(id) ON DELETE CASCADE,
+  identifier text NOT NULL,
+  full_name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('late_fee', 'damage_fee', 'payment', 'waiver')),
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  loan_id uuid REFERENCES public.loans(id) ON DELETE SET NULL,
+  note text,
+  librarian_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS patron_ledger_patron_idx ON public.patron_ledger (library_id, lower(identifier));
+
+ALTER TABLE public.patron_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Librarians can view assigned ledgers"
+ON public.patron_ledger FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.librarian_libraries ll
+    WHERE ll.librarian_id = auth.uid()
+      AND ll.library_id = patron_ledger.library_id
+  )
+);
+
+-- 3. Fee assessment on return
+CREATE OR REPLACE FUNCTION public.assess_loan_fees()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_rules jsonb;
+  v_days_late integer := 0;
+  v_late_fee numeric := 0;
+  v_damage_fee numeric := 0;
+  v_before integer[];
+  v_after integer[];
+  v_key text;
+BEGIN
+  SELECT fee_rules INTO v_rules FROM public.libraries WHERE id = NEW.library_id;
+
+  IF NEW.due_date IS NOT NULL THEN
+    v_days_late := greatest(0, (coalesce(NEW.returned_at, now()) AT TIME ZONE 'UTC')::date - NEW.due_date);
+  END IF;
+
+  IF v_rules IS NULL THEN
+    NEW.fees := jsonb_build_object('currency', 'USD', 'days_late', v_days_late, 'late_fee', 0, 'damage_fee', 0);
+    RETURN NEW;
+  END IF;
+
+  -- Days past the due date count in full once the grace period is over
+  IF v_days_late > coalesce((v_rules->>'grace_days')::int, 0) THEN
+    v_late_fee := v_days_late * coalesce((v_rules->>'daily_late_fee')::numeric, 0);
+    IF v_rules->>'max_late_fee' IS NOT NULL THEN
+      v_late_fee := least(v_late_fee, (v_rules->>'max_late_fee')::numeric);
+    END IF;
+  END IF;
+
+  -- Conditions are only stored as counts, so copies are paired best with best
+  -- (0 = good, 1 = fair, 2 = bad) and each downgraded pair is charged
+  v_before := array_fill(0, ARRAY[coalesce((NEW.delivery_condition->>'good')::int, 0)])
+    || array_fill(1, ARRAY[coalesce((NEW.delivery_condition->>'fair')::int, 0)])
+    || array_fill(2, ARRAY[coalesce((NEW.delivery_condition->>'bad')::int, 0)]);
+  v_after := array_fill(0, ARRAY[coalesce((NEW.return_condition->>'good')::int, 0)])
+    || array_fill(1, ARRAY[coalesce((NEW.return_condition->>'fair')::int, 0)])
+    || array_fill(2, ARRAY[coalesce((NEW.return_condition->>'bad')::int, 0)]);
+
+  FOR i IN 1 .. least(coalesce(array_length(v_before, 1), 0), coalesce(array_length(v_after, 1), 0)) LOOP
+    IF v_after[i] > v_before[i] THEN
+      v_key := (ARRAY['good', 'fair', 'bad'])[v_before[i] + 1] || '_to_' || (ARRAY['good', 'fair', 'bad'])[v_after[i] + 1];
+      v_damage_fee := v_damage_fee + coalesce((v_rules->'damage_fees'->>v_key)::numeric, 0);
+    END IF;
+  END LOOP;
+
+  v_late_fee := round(v_late_fee, 2);
+  v_damage_fee := round(v_damage_fee, 2);
+
+  NEW.fees := jsonb_build_object(
+    'currency', coalesce(v_rules->>'currency', 'USD'),
+    'days_late', v_days_late,
+    'late_fee', v_late_fee,
+    'damage_fee', v_damage_fee
+  );
+
+  IF v_late_fee > 0 THEN
+    INSERT INTO public.patron_ledger (library_id, identifier, full_name, kind, amount, loan_id, note)
+    VALUES (NEW.library_id, NEW.identifier, NEW.full_name, 'late_fee', v_late_fee, NEW.id, v_days_late || ' días de atraso');
+  END IF;
+
+  IF v_damage_fee > 0 THEN
+    INSERT INTO public.patron_ledger (library_id, identifier, full_name, kind, amount, loan_id, note)
+    VALUES (NEW.library_id, NEW.identifier, NEW.full_name, 'damage_fee', v_damage_fee, NEW.id, 'Copias devueltas en peor estado');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS loans_assess_fees ON public.loans;
+CREATE TRIGGER loans_assess_fees
+BEFORE UPDATE OF status ON public.loans
+FOR EACH ROW
+WHEN (NEW.status = 'returned' AND OLD.status <> 'returned')
+EXECUTE PROCEDURE public.assess_loan_fees();
+
+-- 4. Payments and waivers; the balance can never go below zero
+CREATE OR REPLACE FUNCTION public.record_ledger_credit(
+  p_library_id uuid,
+  p_librarian_id uuid,
+  p_identifier text,
+  p_kind text,
+  p_amount numeric,
+  p_loan_id uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS SETOF public.patron_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_balance numeric;
+  v_full_name text;
+  v_identifier text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries
+    WHERE librarian_id = p_librarian_id AND library_id = p_library_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  IF p_kind NOT IN ('payment', 'waiver') THEN
+    RAISE EXCEPTION 'Tipo de movimiento no válido.';
+  END IF;
+
+  -- Serialize credits for the same patron so two payments cannot both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext(p_library_id::text || lower(trim(p_identifier))));
+
+  SELECT coalesce(sum(CASE WHEN kind IN ('late_fee', 'damage_fee') THEN amount ELSE -amount END), 0)
+  INTO v_balance
+  FROM public.patron_ledger
+  WHERE library_id = p_library_id AND lower(identifier) = lower(trim(p_identifier));
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount > v_balance THEN
+    RAISE EXCEPTION 'El monto supera el saldo pendiente de %.', v_balance;
+  END IF;
+
+  SELECT identifier, full_name INTO v_identifier, v_full_name
+  FROM public.patron_ledger
+  WHERE library_id = p_library_id AND lower(identifier) = lower(trim(p_identifier))
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  RETURN QUERY
+  INSERT INTO public.patron_ledger (library_id, identifier, full_name, kind, amount, loan_id, note, librarian_id)
+  VALUES (p_library_id, v_identifier, v_full_name, p_kind, p_amount, p_loan_id, nullif(trim(p_note), ''), p_librarian_id)
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,194 @@
+-- Migration: Return condition updates copy conditions
+-- Returns used to store return_condition without touching inventory, so a copy
+-- that went out good and came back bad still counted as good. Returned copies now
+-- take the returned conditions, and book condition totals follow through the
+-- book_copies triggers.
+
+-- 1. Transition RPC
+CREATE OR REPLACE FUNCTION public.transition_loan_status(
+  p_loan_id uuid,
+  p_next_status public.loan_status,
+  p_librarian_id uuid,
+  p_delivery_condition jsonb DEFAULT '{}'::jsonb,
+  p_return_note text DEFAULT NULL,
+  p_return_condition jsonb DEFAULT '{}'::jsonb,
+  p_copy_codes text[] DEFAULT NULL,
+  p_returned_codes text[] DEFAULT NULL
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_loan public.loans;
+  v_book public.books;
+  v_moved integer;
+  v_codes text[];
+  v_returned text[];
+  v_missing text[];
+  v_unexpected text[];
+  v_checked_in uuid[];
+  v_good integer;
+  v_fair integer;
+BEGIN
+  -- Permission check
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries ll JOIN public.loans l ON l.library_id = ll.library_id
+    WHERE ll.librarian_id = p_librarian_id AND l.id = p_loan_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Loan not found'; END IF;
+
+  SELECT * INTO v_book FROM public.books WHERE id = v_loan.book_id FOR UPDATE;
+
+  IF p_next_status = 'handled' THEN
+    IF v_loan.status <> 'approved' THEN RAISE EXCEPTION 'Only approved loans can be handled'; END IF;
+
+    IF coalesce(cardinality(p_copy_codes), 0) > 0 THEN
+      IF cardinality(p_copy_codes) <> v_loan.requested_copies THEN
+        RAISE EXCEPTION 'Debes escanear exactamente % código(s).', v_loan.requested_copies;
+      END IF;
+
+      SELECT array_agg(code ORDER BY code) INTO v_codes
+      FROM public.book_copies
+      WHERE book_id = v_book.id AND status = 'available' AND code = ANY (p_copy_codes);
+
+      IF coalesce(cardinality(v_codes), 0) <> v_loan.requested_copies THEN
+        RAISE EXCEPTION 'La copia % no está disponible para este libro.', (
+          SELECT c FROM unnest(p_copy_codes) AS c WHERE c <> ALL (coalesce(v_codes, '{}')) LIMIT 1
+        );
+      END IF;
+
+      -- The scanned copies say exactly what condition left the shelf
+      SELECT jsonb_build_object(
+        'good', count(*) FILTER (WHERE condition = 'good'),
+        'fair', count(*) FILTER (WHERE condition = 'fair'),
+        'bad', count(*) FILTER (WHERE condition = 'bad')
+      ) INTO p_delivery_condition
+      FROM public.book_copies
+      WHERE book_id = v_book.id AND code = ANY (v_codes);
+    ELSE
+      -- Validate condition counts match requested copies
+      IF (COALESCE((p_delivery_condition->>'good')::int, 0) +
+          COALESCE((p_delivery_condition->>'fair')::int, 0) +
+          COALESCE((p_delivery_condition->>'bad')::int, 0)) <> v_loan.requested_copies THEN
+        RAISE EXCEPTION 'La suma de los estados (Bueno, Regular, Malo) debe ser igual a %', v_loan.requested_copies;
+      END IF;
+
+      SELECT array_agg(code ORDER BY code) INTO v_codes
+      FROM (
+        SELECT code FROM public.book_copies
+        WHERE book_id = v_book.id AND status = 'available'
+        ORDER BY code
+        LIMIT v_loan.requested_copies
+      ) picked;
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = 'on_loan',
+        history = history || jsonb_build_array(jsonb_build_object(
+          'at', now(), 'action', 'loaned', 'librarian_id', p_librarian_id, 'loan_id', v_loan.id
+        ))
+    WHERE book_id = v_book.id AND status = 'available' AND code = ANY (coalesce(v_codes, '{}'));
+    GET DIAGNOSTICS v_moved = ROW_COUNT;
+    IF v_moved < v_loan.requested_copies THEN RAISE EXCEPTION 'Insufficient copies available'; END IF;
+
+    UPDATE public.loans
+    SET status = p_next_status, handled_at = now(), delivery_condition = p_delivery_condition, copy_codes = v_codes
+    WHERE id = v_loan.id;
+
+  ELSIF p_next_status = 'returned' THEN
+    IF v_loan.status <> 'handled' THEN RAISE EXCEPTION 'Only handled loans can be returned'; END IF;
+
+    -- Validate return condition counts match requested copies
+    IF (COALESCE((p_return_condition->>'good')::int, 0) +
+        COALESCE((p_return_condition->>'fair')::int, 0) +
+        COALESCE((p_return_condition->>'bad')::int, 0)) <> v_loan.requested_copies THEN
+      RAISE EXCEPTION 'La suma de los estados de retorno (Bueno, Regular, Malo) debe ser igual a %', v_loan.requested_copies;
+    END IF;
+
+    v_returned := coalesce(p_returned_codes, v_loan.copy_codes, '{}');
+    v_good := COALESCE((p_return_condition->>'good')::int, 0);
+    v_fair := COALESCE((p_return_condition->>'fair')::int, 0);
+
+    IF coalesce(cardinality(v_loan.copy_codes), 0) > 0 THEN
+      SELECT coalesce(array_agg(c), '{}') INTO v_missing FROM unnest(v_loan.copy_codes) AS c WHERE c <> ALL (v_returned);
+      SELECT coalesce(array_agg(c), '{}') INTO v_unexpected FROM unnest(v_returned) AS c WHERE c <> ALL (v_loan.copy_codes);
+
+      SELECT coalesce(array_agg(id), '{}') INTO v_checked_in
+      FROM public.book_copies
+      WHERE book_id = v_book.id AND status = 'on_loan' AND code = ANY (v_loan.copy_codes);
+
+      UPDATE public.book_copies
+      SET status = 'lost',
+          history = history || jsonb_build_array(jsonb_build_object(
+            'at', now(), 'action', 'updated', 'librarian_id', p_librarian_id, 'loan_id', v_loan.id,
+            'note', 'No devuelta con el préstamo.', 'changes', jsonb_build_object('status', 'lost')
+          ))
+      WHERE book_id = v_book.id AND status = 'on_loan' AND code = ANY (v_missing);
+    ELSE
+      -- Loans handed over before codes were recorded release any copies on loan
+      SELECT coalesce(array_agg(id), '{}') INTO v_checked_in
+      FROM (
+        SELECT id FROM public.book_copies
+        WHERE book_id = v_book.id AND status = 'on_loan'
+        ORDER BY code
+        LIMIT v_loan.requested_copies
+        FOR UPDATE
+      ) released;
+    END IF;
+
+    -- The copies that went out are ranked best first and take the returned
+    -- conditions in that order; copies that did not come back keep theirs
+    UPDATE public.book_copies c
+    SET status = 'available',
+        condition = ranked.condition,
+        history = c.history || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+          'at', now(), 'action', 'returned', 'librarian_id', p_librarian_id, 'loan_id', v_loan.id,
+          'changes', CASE WHEN ranked.condition <> c.condition THEN jsonb_build_object('condition', ranked.condition) END
+        )))
+    FROM (
+      SELECT
+        id,
+        CASE
+          WHEN position <= v_good THEN 'good'
+          WHEN position <= v_good + v_fair THEN 'fair'
+          ELSE 'bad'
+        END AS condition
+      FROM (
+        SELECT id, row_number() OVER (
+          ORDER BY CASE condition WHEN 'good' THEN 0 WHEN 'fair' THEN 1 ELSE 2 END, code
+        ) AS position
+        FROM public.book_copies
+        WHERE id = ANY (v_checked_in)
+      ) ordered
+    ) ranked
+    WHERE c.id = ranked.id
+      AND c.status = 'on_loan'
+      AND (coalesce(cardinality(v_loan.copy_codes), 0) = 0 OR c.code = ANY (v_returned));
+
+    UPDATE public.loans
+    SET status = p_next_status,
+        returned_at = now(),
+        return_note = p_return_note,
+        return_condition = p_return_condition,
+        returned_codes = v_returned,
+        return_discrepancy = CASE
+          WHEN coalesce(cardinality(v_missing), 0) + coalesce(cardinality(v_unexpected), 0) > 0
+          THEN jsonb_build_object('missing', to_jsonb(v_missing), 'unexpected', to_jsonb(v_unexpected))
+        END
+    WHERE id = v_loan.id;
+
+  ELSIF p_next_status IN ('approved', 'rejected') THEN
+    IF v_loan.status <> 'pending' THEN RAISE EXCEPTION 'Only pending loans can be approved or rejected'; END IF;
+    UPDATE public.loans SET status = p_next_status WHERE id = v_loan.id;
+  ELSE
+    RAISE EXCEPTION 'Unsupported loan transition';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = v_loan.id;
+END;
+$$;
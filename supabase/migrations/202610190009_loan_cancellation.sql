@@ -0,0 +1,305 @@
+-- Migration: Loan request cancellation
+-- Patrons can withdraw a pending request they submitted by mistake. Each request
+-- gets a one-time cancellation code when it is created; only its SHA-256 hash is
+-- stored, and cancelling requires the identifier and the code. Librarians can also
+-- cancel pending or approved loans through transition_loan_status.
+
+-- 1. Status and columns
+ALTER TYPE public.loan_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS cancel_code_hash text;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS cancelled_by text CHECK (cancelled_by IN ('patron', 'librarian'));
+
+-- 2. Requests store the cancellation code hash; cancelled requests do not count as duplicates
+DROP FUNCTION IF EXISTS public.create_public_loan_request(uuid, uuid, text, text, integer, inet, date);
+CREATE OR REPLACE FUNCTION public.create_public_loan_request(
+  p_library_id uuid,
+  p_book_id uuid,
+  p_full_name text,
+  p_identifier text,
+  p_requested_copies integer,
+  p_request_ip inet,
+  p_due_date date DEFAULT NULL,
+  p_cancel_code_hash text DEFAULT NULL
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_book public.books;
+  v_count integer;
+  v_duplicate integer;
+  v_loan public.loans;
+BEGIN
+  IF trim(coalesce(p_full_name, '')) = '' OR trim(coalesce(p_identifier, '')) = '' THEN
+    RAISE EXCEPTION 'Required fields cannot be empty';
+  END IF;
+
+  IF p_requested_copies < 1 THEN
+    RAISE EXCEPTION 'requested_copies must be at least 1';
+  END IF;
+
+  -- Rate limit check
+  SELECT count(*) INTO v_count FROM public.loan_request_events
+  WHERE request_ip = p_request_ip AND created_at >= now() - interval '1 minute';
+  IF v_count >= 5 THEN RAISE EXCEPTION 'Rate limit exceeded for this IP'; END IF;
+
+  -- Duplicate check
+  SELECT count(*) INTO v_duplicate FROM public.loans
+  WHERE library_id = p_library_id AND book_id = p_book_id AND lower(identifier) = lower(p_identifier)
+    AND status <> 'cancelled'
+    AND created_at >= now() - interval '10 minutes';
+  IF v_duplicate > 0 THEN RAISE EXCEPTION 'Duplicate loan request detected'; END IF;
+
+  SELECT * INTO v_book FROM public.books WHERE id = p_book_id AND library_id = p_library_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Book not found for this library'; END IF;
+
+  IF v_book.available_copies < p_requested_copies THEN
+    RAISE EXCEPTION 'Requested copies exceed available inventory';
+  END IF;
+
+  INSERT INTO public.loan_request_events (library_id, identifier, book_id, request_ip)
+  VALUES (p_library_id, p_identifier, p_book_id, p_request_ip);
+
+  INSERT INTO public.loans (library_id, book_id, full_name, identifier, requested_copies, due_date, cancel_code_hash)
+  VALUES (p_library_id, p_book_id, p_full_name, p_identifier, p_requested_copies, p_due_date, p_cancel_code_hash)
+  RETURNING * INTO v_loan;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = v_loan.id;
+END;
+$$;
+
+-- 3. Patron cancellation; the identifier and code together prove ownership
+CREATE OR REPLACE FUNCTION public.cancel_loan_request(
+  p_library_id uuid,
+  p_loan_id uuid,
+  p_identifier text,
+  p_cancel_code_hash text
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_loan public.loans;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans
+  WHERE id = p_loan_id AND library_id = p_library_id AND lower(identifier) = lower(trim(p_identifier))
+  FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Loan not found'; END IF;
+
+  IF v_loan.cancel_code_hash IS NULL OR v_loan.cancel_code_hash <> p_cancel_code_hash THEN
+    RAISE EXCEPTION 'El código de cancelación no es válido.';
+  END IF;
+
+  IF v_loan.status <> 'pending' THEN
+    RAISE EXCEPTION 'Solo las solicitudes pendientes se pueden cancelar.';
+  END IF;
+
+  UPDATE public.loans
+  SET status = 'cancelled', cancelled_at = now(), cancelled_by = 'patron'
+  WHERE id = v_loan.id;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = v_loan.id;
+END;
+$$;
+
+-- 4. Librarian cancellation
+CREATE OR REPLACE FUNCTION public.transition_loan_status(
+  p_loan_id uuid,
+  p_next_status public.loan_status,
+  p_librarian_id uuid,
+  p_delivery_condition jsonb DEFAULT '{}'::jsonb,
+  p_return_note text DEFAULT NULL,
+  p_return_condition jsonb DEFAULT '{}'::jsonb,
+  p_copy_codes text[] DEFAULT NULL,
+  p_returned_codes text[] DEFAULT NULL
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_loan public.loans;
+  v_book public.books;
+  v_moved integer;
+  v_codes text[];
+  v_returned text[];
+  v_missing text[];
+  v_unexpected text[];
+  v_checked_in uuid[];
+  v_good integer;
+  v_fair integer;
+BEGIN
+  -- Permission check
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries ll JOIN public.loans l ON l.library_id = ll.library_id
+    WHERE ll.librarian_id = p_librarian_id AND l.id = p_loan_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Loan not found'; END IF;
+
+  SELECT * INTO v_book FROM public.books WHERE id = v_loan.book_id FOR UPDATE;
+
+  IF p_next_status = 'handled' THEN
+    IF v_loan.status <> 'approved' THEN RAISE EXCEPTION 'Only approved loans can be handled'; END IF;
+
+    IF coalesce(cardinality(p_copy_codes), 0) > 0 THEN
+      IF cardinality(p_copy_codes) <> v_loan.requested_copies THEN
+        RAISE EXCEPTION 'Debes escanear exactamente % código(s).', v_loan.requested_copies;
+      END IF;
+
+      SELECT array_agg(code ORDER BY code) INTO v_codes
+      FROM public.book_copies
+      WHERE book_id = v_book.id AND status = 'available' AND code = ANY (p_copy_codes);
+
+      IF coalesce(cardinality(v_codes), 0) <> v_loan.requested_copies THEN
+        RAISE EXCEPTION 'La copia % no está disponible para este libro.', (
+          SELECT c FROM unnest(p_copy_codes) AS c WHERE c <> ALL (coalesce(v_codes, '{}')) LIMIT 1
+        );
+      END IF;
+
+      -- The scanned copies say exactly what condition left the shelf
+      SELECT jsonb_build_object(
+        'good', count(*) FILTER (WHERE condition = 'good'),
+        'fair', count(*) FILTER (WHERE condition = 'fair'),
+        'bad', count(*) FILTER (WHERE condition = 'bad')
+      ) INTO p_delivery_condition
+      FROM public.book_copies
+      WHERE book_id = v_book.id AND code = ANY (v_codes);
+    ELSE
+      -- Validate condition counts match requested copies
+      IF (COALESCE((p_delivery_condition->>'good')::int, 0) +
+          COALESCE((p_delivery_condition->>'fair')::int, 0) +
+          COALESCE((p_delivery_condition->>'bad')::int, 0)) <> v_loan.requested_copies THEN
+        RAISE EXCEPTION 'La suma de los estados (Bueno, Regular, Malo) debe ser igual a %', v_loan.requested_copies;
+      END IF;
+
+      SELECT array_agg(code ORDER BY code) INTO v_codes
+      FROM (
+        SELECT code FROM public.book_copies
+        WHERE book_id = v_book.id AND status = 'available'
+        ORDER BY code
+        LIMIT v_loan.requested_copies
+      ) picked;
+    END IF;
+
+    UPDATE public.book_copies
+    SET status = 'on_loan',
+        history = history || jsonb_build_array(jsonb_build_object(
+          'at', now(), 'action', 'loaned', 'librarian_id', p_librarian_id, 'loan_id', v_loan.id
+        ))
+    WHERE book_id = v_book.id AND status = 'available' AND code = ANY (coalesce(v_codes, '{}'));
+    GET DIAGNOSTICS v_moved = ROW_COUNT;
+    IF v_moved < v_loan.requested_copies THEN RAISE EXCEPTION 'Insufficient copies available'; END IF;
+
+    UPDATE public.loans
+    SET status = p_next_status, handled_at = now(), delivery_condition = p_delivery_condition, copy_codes = v_codes
+    WHERE id = v_loan.id;
+
+  ELSIF p_next_status = 'returned' THEN
+    IF v_loan.status <> 'handled' THEN RAISE EXCEPTION 'Only handled loans can be returned'; END IF;
+
+    -- Validate return condition counts match requested copies
+    IF (COALESCE((p_return_condition->>'good')::int, 0) +
+        COALESCE((p_return_condition->>'fair')::int, 0) +
+        COALESCE((p_return_condition->>'bad')::int, 0)) <> v_loan.requested_copies THEN
+      RAISE EXCEPTION 'La suma de los estados de retorno (Bueno, Regular, Malo) debe ser igual a %', v_loan.requested_copies;
+    END IF;
+
+    v_returned := coalesce(p_returned_codes, v_loan.copy_codes, '{}');
+    v_good := COALESCE((p_return_condition->>'good')::int, 0);
+    v_fair := COALESCE((p_return_condition->>'fair')::int, 0);
+
+    IF coalesce(cardinality(v_loan.copy_codes), 0) > 0 THEN
+      SELECT coalesce(array_agg(c), '{}') INTO v_missing FROM unnest(v_loan.copy_codes) AS c WHERE c <> ALL (v_returned);
+      SELECT coalesce(array_agg(c), '{}') INTO v_unexpected FROM unnest(v_returned) AS c WHERE c <> ALL (v_loan.copy_codes);
+
+      SELECT coalesce(array_agg(id), '{}') INTO v_checked_in
+      FROM public.book_copies
+      WHERE book_id = v_book.id AND status = 'on_loan' AND code = ANY (v_loan.copy_codes);
+
+      UPDATE public.book_copies
+      SET status = 'lost',
+          history = history || jsonb_build_array(jsonb_build_object(
+            'at', now(), 'action', 'updated', 'librarian_id', p_librarian_id, 'loan_id', v_loan.id,
+            'note', 'No devuelta con el préstamo.', 'changes', jsonb_build_object('status', 'lost')
+          ))
+      WHERE book_id = v_book.id AND status = 'on_loan' AND code = ANY (v_missing);
+    ELSE
+      -- Loans handed over before codes were recorded release any copies on loan
+      SELECT coalesce(array_agg(id), '{}') INTO v_checked_in
+      FROM (
+        SELECT id FROM public.book_copies
+        WHERE book_id = v_book.id AND status = 'on_loan'
+        ORDER BY code
+        LIMIT v_loan.requested_copies
+        FOR UPDATE
+      ) released;
+    END IF;
+
+    -- The copies that went out are ranked best first and take the returned
+    -- conditions in that order; copies that did not come back keep theirs
+    UPDATE public.book_copies c
+    SET status = 'available',
+        condition = ranked.condition,
+        history = c.history || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+          'at', now(), 'action', 'returned', 'librarian_id', p_librarian_id, 'loan_id', v_loan.id,
+          'changes', CASE WHEN ranked.condition <> c.condition THEN jsonb_build_object('condition', ranked.condition) END
+        )))
+    FROM (
+      SELECT
+        id,
+        CASE
+          WHEN position <= v_good THEN 'good'
+          WHEN position <= v_good + v_fair THEN 'fair'
+          ELSE 'bad'
+        END AS condition
+      FROM (
+        SELECT id, row_number() OVER (
+          ORDER BY CASE condition WHEN 'good' THEN 0 WHEN 'fair' THEN 1 ELSE 2 END, code
+        ) AS position
+        FROM public.book_copies
+        WHERE id = ANY (v_checked_in)
+      ) ordered
+    ) ranked
+    WHERE c.id = ranked.id
+      AND c.status = 'on_loan'
+      AND (coalesce(cardinality(v_loan.copy_codes), 0) = 0 OR c.code = ANY (v_returned));
+
+    UPDATE public.loans
+    SET status = p_next_status,
+        returned_at = now(),
+        return_note = p_return_note,
+        return_condition = p_return_condition,
+        returned_codes = v_returned,
+        return_discrepancy = CASE
+          WHEN coalesce(cardinality(v_missing), 0) + coalesce(cardinality(v_unexpected), 0) > 0
+          THEN jsonb_build_object('missing', to_jsonb(v_missing), 'unexpected', to_jsonb(v_unexpected))
+        END
+    WHERE id = v_loan.id;
+
+  ELSIF p_next_status = 'cancelled' THEN
+    -- No copies have moved yet, so cancelling only closes the request
+    IF v_loan.status NOT IN ('pending', 'approved') THEN
+      RAISE EXCEPTION 'Only pending or approved loans can be cancelled';
+    END IF;
+    UPDATE public.loans
+    SET status = p_next_status, cancelled_at = now(), cancelled_by = 'librarian'
+    WHERE id = v_loan.id;
+
+  ELSIF p_next_status IN ('approved', 'rejected') THEN
+    IF v_loan.status <> 'pending' THEN RAISE EXCEPTION 'Only pending loans can be approved or rejected'; END IF;
+    UPDATE public.loans SET status = p_next_status WHERE id = v_loan.id;
+  ELSE
+    RAISE EXCEPTION 'Unsupported loan transition';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = v_loan.id;
+END;
+$$;
@@ -0,0 +1,153 @@
+-- Migration: Multi-book loan requests
+-- Patrons can collect several titles in the catalog cart and submit them as one
+-- request. The request is stored as a parent loan group with one regular loan per
+-- title, so copies, renewals and fees keep working per line. Librarians move the
+-- lines together through transition_loan_group, with a different status or input
+-- per line where needed.
+
+-- 1. Parent requests
+CREATE TABLE IF NOT EXISTS public.loan_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  library_id uuid NOT NULL REFERENCES public.libraries(id) ON DELETE CASCADE,
+  full_name text NOT NULL,
+  identifier text NOT NULL,
+  due_date date,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES public.loan_groups(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS loans_group_idx ON public.loans (group_id);
+
+ALTER TABLE public.loan_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Librarians can view assigned loan groups"
+ON public.loan_groups FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.librarian_libraries ll
+    WHERE ll.librarian_id = auth.uid()
+      AND ll.library_id = loan_groups.library_id
+  )
+);
+
+-- 2. Cart submission; every line is created or none is, and the cart counts once against the rate limit
+CREATE OR REPLACE FUNCTION public.create_public_loan_group(
+  p_library_id uuid,
+  p_full_name text,
+  p_identifier text,
+  p_items jsonb,
+  p_request_ip inet,
+  p_due_date date DEFAULT NULL,
+  p_cancel_code_hash text DEFAULT NULL
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item jsonb;
+  v_book public.books;
+  v_count integer;
+  v_duplicate integer;
+  v_copies integer;
+  v_group public.loan_groups;
+BEGIN
+  IF trim(coalesce(p_full_name, '')) = '' OR trim(coalesce(p_identifier, '')) = '' THEN
+    RAISE EXCEPTION 'Required fields cannot be empty';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'The request needs at least one book';
+  END IF;
+
+  -- Rate limit check
+  SELECT count(*) INTO v_count FROM public.loan_request_events
+  WHERE request_ip = p_request_ip AND created_at >= now() - interval '1 minute';
+  IF v_count >= 5 THEN RAISE EXCEPTION 'Rate limit exceeded for this IP'; END IF;
+
+  INSERT INTO public.loan_groups (library_id, full_name, identifier, due_date)
+  VALUES (p_library_id, p_full_name, p_identifier, p_due_date)
+  RETURNING * INTO v_group;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_copies := coalesce((v_item->>'requested_copies')::int, 0);
+    IF v_copies < 1 THEN
+      RAISE EXCEPTION 'requested_copies must be at least 1';
+    END IF;
+
+    -- Duplicate check
+    SELECT count(*) INTO v_duplicate FROM public.loans
+    WHERE library_id = p_library_id AND book_id = (v_item->>'book_id')::uuid AND lower(identifier) = lower(p_identifier)
+      AND status <> 'cancelled'
+      AND created_at >= now() - interval '10 minutes';
+    IF v_duplicate > 0 THEN RAISE EXCEPTION 'Duplicate loan request detected'; END IF;
+
+    SELECT * INTO v_book FROM public.books
+    WHERE id = (v_item->>'book_id')::uuid AND library_id = p_library_id
+    FOR UPDATE;
+    IF NOT FOUND THEN RAISE EXCEPTION 'Book not found for this library'; END IF;
+
+    IF v_book.available_copies < v_copies THEN
+      RAISE EXCEPTION 'Requested copies exceed available inventory: %', v_book.title;
+    END IF;
+
+    INSERT INTO public.loans (library_id, book_id, full_name, identifier, requested_copies, due_date, cancel_code_hash, group_id)
+    VALUES (p_library_id, v_book.id, p_full_name, p_identifier, v_copies, p_due_date, p_cancel_code_hash, v_group.id);
+  END LOOP;
+
+  INSERT INTO public.loan_request_events (library_id, identifier, book_id, request_ip)
+  VALUES (p_library_id, p_identifier, (p_items->0->>'book_id')::uuid, p_request_ip);
+
+  RETURN QUERY SELECT * FROM public.loans WHERE group_id = v_group.id ORDER BY created_at;
+END;
+$$;
+
+-- 3. Group transitions; each line goes through transition_loan_status and any failure rolls back all of them
+CREATE OR REPLACE FUNCTION public.transition_loan_group(
+  p_group_id uuid,
+  p_librarian_id uuid,
+  p_items jsonb
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item jsonb;
+  v_loan_ids uuid[] := '{}';
+BEGIN
+  -- Permission check
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries ll JOIN public.loan_groups g ON g.library_id = ll.library_id
+    WHERE ll.librarian_id = p_librarian_id AND g.id = p_group_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.loans WHERE id = (v_item->>'loan_id')::uuid AND group_id = p_group_id
+    ) THEN
+      RAISE EXCEPTION 'Loan not found in this request';
+    END IF;
+
+    PERFORM * FROM public.transition_loan_status(
+      (v_item->>'loan_id')::uuid,
+      (v_item->>'status')::public.loan_status,
+      p_librarian_id,
+      coalesce(v_item->'delivery_condition', '{}'::jsonb),
+      v_item->>'return_note',
+      coalesce(v_item->'return_condition', '{}'::jsonb),
+      CASE WHEN jsonb_typeof(v_item->'copy_codes') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(v_item->'copy_codes')) END,
+      CASE WHEN jsonb_typeof(v_item->'returned_codes') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(v_item->'returned_codes')) END
+    );
+
+    v_loan_ids := v_loan_ids || (v_item->>'loan_id')::uuid;
+  END LOOP;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = ANY (v_loan_ids) ORDER BY created_at;
+END;
+$$;
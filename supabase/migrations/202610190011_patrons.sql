@@ -0,0 +1,147 @@
+-- Migration: Patron registry
+-- Patrons used to exist only as the name and identifier copied onto each loan. They
+-- now have one record per library, keyed by identifier, with contact details, notes
+-- and an active/blocked status. Every new loan links to its patron (registering the
+-- patron on first use), blocked patrons cannot submit requests, and librarians can
+-- merge duplicates created by different spellings.
+
+-- 1. Patrons
+CREATE TABLE IF NOT EXISTS public.patrons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  library_id uuid NOT NULL REFERENCES public.libraries(id) ON DELETE CASCADE,
+  full_name text NOT NULL,
+  identifier text NOT NULL,
+  email text,
+  phone text,
+  notes text,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'blocked')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS patrons_identifier_idx ON public.patrons (library_id, lower(identifier));
+
+ALTER TABLE public.patrons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Librarians can view assigned patrons"
+ON public.patrons FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.librarian_libraries ll
+    WHERE ll.librarian_id = auth.uid()
+      AND ll.library_id = patrons.library_id
+  )
+);
+
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS patron_id uuid REFERENCES public.patrons(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS loans_patron_idx ON public.loans (patron_id);
+
+-- 2. Existing loans register their patrons; the most recent spelling of the name wins
+INSERT INTO public.patrons (library_id, identifier, full_name, created_at)
+SELECT DISTINCT ON (library_id, lower(identifier)) library_id, identifier, full_name, created_at
+FROM public.loans
+ORDER BY library_id, lower(identifier), created_at DESC
+ON CONFLICT DO NOTHING;
+
+UPDATE public.loans l
+SET patron_id = p.id
+FROM public.patrons p
+WHERE l.patron_id IS NULL
+  AND p.library_id = l.library_id
+  AND lower(p.identifier) = lower(l.identifier);
+
+-- 3. New loans link to their patron; patrons cannot request while blocked
+CREATE OR REPLACE FUNCTION public.link_loan_patron()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_patron public.patrons;
+BEGIN
+  SELECT * INTO v_patron FROM public.patrons
+  WHERE library_id = NEW.library_id AND lower(identifier) = lower(trim(NEW.identifier));
+
+  IF NOT FOUND THEN
+    INSERT INTO public.patrons (library_id, identifier, full_name)
+    VALUES (NEW.library_id, trim(NEW.identifier), trim(NEW.full_name))
+    ON CONFLICT DO NOTHING
+    RETURNING * INTO v_patron;
+
+    -- Another request registered the same patron at the same time
+    IF v_patron.id IS NULL THEN
+      SELECT * INTO v_patron FROM public.patrons
+      WHERE library_id = NEW.library_id AND lower(identifier) = lower(trim(NEW.identifier));
+    END IF;
+  END IF;
+
+  IF v_patron.status = 'blocked' AND NEW.status = 'pending' THEN
+    RAISE EXCEPTION 'Este lector está bloqueado y no puede solicitar préstamos.';
+  END IF;
+
+  NEW.patron_id := coalesce(NEW.patron_id, v_patron.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS loans_link_patron ON public.loans;
+CREATE TRIGGER loans_link_patron
+BEFORE INSERT ON public.loans
+FOR EACH ROW
+EXECUTE PROCEDURE public.link_loan_patron();
+
+-- 4. Merging moves loans, holds and ledger entries to the target and removes the duplicate
+CREATE OR REPLACE FUNCTION public.merge_patrons(
+  p_librarian_id uuid,
+  p_target_id uuid,
+  p_source_id uuid
+)
+RETURNS SETOF public.patrons
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_target public.patrons;
+  v_source public.patrons;
+BEGIN
+  SELECT * INTO v_target FROM public.patrons WHERE id = p_target_id FOR UPDATE;
+  SELECT * INTO v_source FROM public.patrons WHERE id = p_source_id FOR UPDATE;
+
+  IF v_target.id IS NULL OR v_source.id IS NULL OR v_target.library_id <> v_source.library_id THEN
+    RAISE EXCEPTION 'Lector no encontrado.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries
+    WHERE librarian_id = p_librarian_id AND library_id = v_target.library_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  UPDATE public.loans
+  SET patron_id = v_target.id, identifier = v_target.identifier, full_name = v_target.full_name
+  WHERE patron_id = v_source.id
+     OR (library_id = v_source.library_id AND lower(identifier) = lower(v_source.identifier));
+
+  UPDATE public.book_holds
+  SET identifier = v_target.identifier, full_name = v_target.full_name
+  WHERE library_id = v_source.library_id AND lower(identifier) = lower(v_source.identifier);
+
+  UPDATE public.patron_ledger
+  SET identifier = v_target.identifier, full_name = v_target.full_name
+  WHERE library_id = v_source.library_id AND lower(identifier) = lower(v_source.identifier);
+
+  DELETE FROM public.patrons WHERE id = v_source.id;
+
+  RETURN QUERY
+  UPDATE public.patrons
+  SET email = coalesce(email, v_source.email),
+      phone = coalesce(phone, v_source.phone),
+      notes = nullif(concat_ws(E'\n', notes, v_source.notes), ''),
+      status = CASE WHEN status = 'blocked' OR v_source.status = 'blocked' THEN 'blocked' ELSE 'active' END,
+      updated_at = now()
+  WHERE id = v_target.id
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,214 @@
+-- Migration: Circulation policies
+-- Each library can set its own loan limits: the longest loan allowed, the period
+-- used when the patron leaves the due date empty, copies per title in one request,
+-- open loans per patron and the duplicate-request window. Libraries without a
+-- policy keep the limits the request form always had. The limits are checked by a
+-- trigger on loans, so requests, carts and transition_loan_status all go through
+-- the same rules; approval and handover check them again in case the policy
+-- tightened after the request came in.
+
+-- 1. Policy column
+ALTER TABLE public.libraries ADD COLUMN IF NOT EXISTS circulation_policy jsonb;
+
+-- 2. Policy with defaults filled in
+CREATE OR REPLACE FUNCTION public.library_circulation_policy(p_library_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'max_loan_days', 90,
+    'default_loan_days', 14,
+    'max_copies_per_request', NULL,
+    'max_active_loans', NULL,
+    'duplicate_window_minutes', 10
+  ) || coalesce((SELECT circulation_policy FROM public.libraries WHERE id = p_library_id), '{}'::jsonb);
+$$;
+
+-- 3. Limits on new loans and on approval or handover
+CREATE OR REPLACE FUNCTION public.enforce_circulation_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_policy jsonb;
+  v_open integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (NEW.status = OLD.status OR NEW.status NOT IN ('approved', 'handled')) THEN
+    RETURN NEW;
+  END IF;
+
+  v_policy := public.library_circulation_policy(NEW.library_id);
+  NEW.due_date := coalesce(NEW.due_date, current_date + (v_policy->>'default_loan_days')::int);
+
+  IF NEW.due_date > current_date + (v_policy->>'max_loan_days')::int THEN
+    RAISE EXCEPTION 'La fecha de devolución supera el máximo de % días de préstamo.', v_policy->>'max_loan_days';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND (v_policy->>'max_copies_per_request')::int IS NOT NULL
+    AND NEW.requested_copies > (v_policy->>'max_copies_per_request')::int THEN
+    RAISE EXCEPTION 'Solo se pueden solicitar % copia(s) por título.', v_policy->>'max_copies_per_request';
+  END IF;
+
+  IF (v_policy->>'max_active_loans')::int IS NOT NULL THEN
+    SELECT count(*) INTO v_open FROM public.loans
+    WHERE library_id = NEW.library_id AND lower(identifier) = lower(NEW.identifier)
+      AND status IN ('pending', 'approved', 'handled')
+      AND id <> NEW.id;
+
+    IF v_open + 1 > (v_policy->>'max_active_loans')::int THEN
+      RAISE EXCEPTION 'El lector ya tiene % préstamo(s) abiertos; el máximo es %.', v_open, v_policy->>'max_active_loans';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS loans_circulation_policy ON public.loans;
+CREATE TRIGGER loans_circulation_policy
+BEFORE INSERT OR UPDATE OF status ON public.loans
+FOR EACH ROW
+EXECUTE PROCEDURE public.enforce_circulation_policy();
+
+-- 4. Requests use the library's duplicate window
+CREATE OR REPLACE FUNCTION public.create_public_loan_request(
+  p_library_id uuid,
+  p_book_id uuid,
+  p_full_name text,
+  p_identifier text,
+  p_requested_copies integer,
+  p_request_ip inet,
+  p_due_date date DEFAULT NULL,
+  p_cancel_code_hash text DEFAULT NULL
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_book public.books;
+  v_count integer;
+  v_duplicate integer;
+  v_window integer;
+  v_loan public.loans;
+BEGIN
+  IF trim(coalesce(p_full_name, '')) = '' OR trim(coalesce(p_identifier, '')) = '' THEN
+    RAISE EXCEPTION 'Required fields cannot be empty';
+  END IF;
+
+  IF p_requested_copies < 1 THEN
+    RAISE EXCEPTION 'requested_copies must be at least 1';
+  END IF;
+
+  -- Rate limit check
+  SELECT count(*) INTO v_count FROM public.loan_request_events
+  WHERE request_ip = p_request_ip AND created_at >= now() - interval '1 minute';
+  IF v_count >= 5 THEN RAISE EXCEPTION 'Rate limit exceeded for this IP'; END IF;
+
+  -- Duplicate check
+  v_window := (public.library_circulation_policy(p_library_id)->>'duplicate_window_minutes')::int;
+  SELECT count(*) INTO v_duplicate FROM public.loans
+  WHERE library_id = p_library_id AND book_id = p_book_id AND lower(identifier) = lower(p_identifier)
+    AND status <> 'cancelled'
+    AND created_at >= now() - make_interval(mins => v_window);
+  IF v_duplicate > 0 THEN RAISE EXCEPTION 'Duplicate loan request detected'; END IF;
+
+  SELECT * INTO v_book FROM public.books WHERE id = p_book_id AND library_id = p_library_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Book not found for this library'; END IF;
+
+  IF v_book.available_copies < p_requested_copies THEN
+    RAISE EXCEPTION 'Requested copies exceed available inventory';
+  END IF;
+
+  INSERT INTO public.loan_request_events (library_id, identifier, book_id, request_ip)
+  VALUES (p_library_id, p_identifier, p_book_id, p_request_ip);
+
+  INSERT INTO public.loans (library_id, book_id, full_name, identifier, requested_copies, due_date, cancel_code_hash)
+  VALUES (p_library_id, p_book_id, p_full_name, p_identifier, p_requested_copies, p_due_date, p_cancel_code_hash)
+  RETURNING * INTO v_loan;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = v_loan.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_public_loan_group(
+  p_library_id uuid,
+  p_full_name text,
+  p_identifier text,
+  p_items jsonb,
+  p_request_ip inet,
+  p_due_date date DEFAULT NULL,
+  p_cancel_code_hash text DEFAULT NULL
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item jsonb;
+  v_book public.books;
+  v_count integer;
+  v_duplicate integer;
+  v_window integer;
+  v_copies integer;
+  v_group public.loan_groups;
+BEGIN
+  IF trim(coalesce(p_full_name, '')) = '' OR trim(coalesce(p_identifier, '')) = '' THEN
+    RAISE EXCEPTION 'Required fields cannot be empty';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'The request needs at least one book';
+  END IF;
+
+  -- Rate limit check
+  SELECT count(*) INTO v_count FROM public.loan_request_events
+  WHERE request_ip = p_request_ip AND created_at >= now() - interval '1 minute';
+  IF v_count >= 5 THEN RAISE EXCEPTION 'Rate limit exceeded for this IP'; END IF;
+
+  -- The group records the due date every line ends up with
+  p_due_date := coalesce(
+    p_due_date,
+    current_date + (public.library_circulation_policy(p_library_id)->>'default_loan_days')::int
+  );
+  v_window := (public.library_circulation_policy(p_library_id)->>'duplicate_window_minutes')::int;
+
+  INSERT INTO public.loan_groups (library_id, full_name, identifier, due_date)
+  VALUES (p_library_id, p_full_name, p_identifier, p_due_date)
+  RETURNING * INTO v_group;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_copies := coalesce((v_item->>'requested_copies')::int, 0);
+    IF v_copies < 1 THEN
+      RAISE EXCEPTION 'requested_copies must be at least 1';
+    END IF;
+
+    -- Duplicate check
+    SELECT count(*) INTO v_duplicate FROM public.loans
+    WHERE library_id = p_library_id AND book_id = (v_item->>'book_id')::uuid AND lower(identifier) = lower(p_identifier)
+      AND status <> 'cancelled'
+      AND created_at >= now() - make_interval(mins => v_window);
+    IF v_duplicate > 0 THEN RAISE EXCEPTION 'Duplicate loan request detected'; END IF;
+
+    SELECT * INTO v_book FROM public.books
+    WHERE id = (v_item->>'book_id')::uuid AND library_id = p_library_id
+    FOR UPDATE;
+    IF NOT FOUND THEN RAISE EXCEPTION 'Book not found for this library'; END IF;
+
+    IF v_book.available_copies < v_copies THEN
+      RAISE EXCEPTION 'Requested copies exceed available inventory: %', v_book.title;
+    END IF;
+
+    INSERT INTO public.loans (library_id, book_id, full_name, identifier, requested_copies, due_date, cancel_code_hash, group_id)
+    VALUES (p_library_id, v_book.id, p_full_name, p_identifier, v_copies, p_due_date, p_cancel_code_hash, v_group.id);
+  END LOOP;
+
+  INSERT INTO public.loan_request_events (library_id, identifier, book_id, request_ip)
+  VALUES (p_library_id, p_identifier, (p_items->0->>'book_id')::uuid, p_request_ip);
+
+  RETURN QUERY SELECT * FROM public.loans WHERE group_id = v_group.id ORDER BY created_at;
+END;
+$$;
@@ -0,0 +1,254 @@
+-- Migration: Opening hours and holiday calendar
+-- Each library can store its weekly hours, time zone and closure dates. Due dates
+-- that land on a closed day move to the next day the library opens, the longest
+-- loan allowed stretches to that day as well, and late fees only count the days
+-- the library was open. Libraries without hours are treated as open every day.
+
+-- 1. Hours column
+-- { "timezone": "America/Tegucigalpa",
+--   "weekly": [null, {"opens": "08:00", "closes": "17:00"}, ...],   -- Sunday first
+--   "closures": [{"date": "2026-12-25", "label": "Navidad"}] }
+ALTER TABLE public.libraries ADD COLUMN IF NOT EXISTS opening_hours jsonb;
+
+-- 2. Calendar helpers
+CREATE OR REPLACE FUNCTION public.library_is_open(p_library_id uuid, p_day date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT CASE
+    WHEN l.opening_hours IS NULL THEN true
+    ELSE jsonb_typeof(l.opening_hours->'weekly'->(extract(dow FROM p_day)::int)) = 'object'
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(coalesce(l.opening_hours->'closures', '[]'::jsonb)) AS c
+        WHERE c->>'date' = p_day::text
+      )
+  END
+  FROM public.libraries l
+  WHERE l.id = p_library_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.next_open_day(p_library_id uuid, p_day date)
+RETURNS date
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Searching further than a year ahead means the calendar has no open day left
+  FOR i IN 0 .. 366 LOOP
+    IF public.library_is_open(p_library_id, p_day + i) THEN
+      RETURN p_day + i;
+    END IF;
+  END LOOP;
+
+  RETURN p_day;
+END;
+$$;
+
+-- Open days after the due date, up to and including p_until
+CREATE OR REPLACE FUNCTION public.library_open_days_between(p_library_id uuid, p_due_date date, p_until date)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT count(*)::int
+  FROM generate_series(p_due_date + 1, p_until, interval '1 day') AS d
+  WHERE public.library_is_open(p_library_id, d::date);
+$$;
+
+CREATE OR REPLACE FUNCTION public.library_today(p_library_id uuid, p_at timestamptz DEFAULT now())
+RETURNS date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT (p_at AT TIME ZONE coalesce(opening_hours->>'timezone', 'UTC'))::date
+  FROM public.libraries
+  WHERE id = p_library_id;
+$$;
+
+-- 3. Due dates move off closed days
+CREATE OR REPLACE FUNCTION public.move_due_date_to_open_day()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.due_date IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.due_date IS DISTINCT FROM OLD.due_date) THEN
+    NEW.due_date := public.next_open_day(NEW.library_id, NEW.due_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fires after loans_circulation_policy, which fills in the default due date
+DROP TRIGGER IF EXISTS loans_due_on_open_day ON public.loans;
+CREATE TRIGGER loans_due_on_open_day
+BEFORE INSERT OR UPDATE ON public.loans
+FOR EACH ROW
+EXECUTE PROCEDURE public.move_due_date_to_open_day();
+
+-- 4. The longest loan allowed reaches the next open day
+CREATE OR REPLACE FUNCTION public.enforce_circulation_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_policy jsonb;
+  v_open integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (NEW.status = OLD.status OR NEW.status NOT IN ('approved', 'handled')) THEN
+    RETURN NEW;
+  END IF;
+
+  v_policy := public.library_circulation_policy(NEW.library_id);
+  NEW.due_date := coalesce(NEW.due_date, current_date + (v_policy->>'default_loan_days')::int);
+
+  IF NEW.due_date > public.next_open_day(NEW.library_id, current_date + (v_policy->>'max_loan_days')::int) THEN
+    RAISE EXCEPTION 'La fecha de devolución supera el máximo de % días de préstamo.', v_policy->>'max_loan_days';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND (v_policy->>'max_copies_per_request')::int IS NOT NULL
+    AND NEW.requested_copies > (v_policy->>'max_copies_per_request')::int THEN
+    RAISE EXCEPTION 'Solo se pueden solicitar % copia(s) por título.', v_policy->>'max_copies_per_request';
+  END IF;
+
+  IF (v_policy->>'max_active_loans')::int IS NOT NULL THEN
+    SELECT count(*) INTO v_open FROM public.loans
+    WHERE library_id = NEW.library_id AND lower(identifier) = lower(NEW.identifier)
+      AND status IN ('pending', 'approved', 'handled')
+      AND id <> NEW.id;
+
+    IF v_open + 1 > (v_policy->>'max_active_loans')::int THEN
+      RAISE EXCEPTION 'El lector ya tiene % préstamo(s) abiertos; el máximo es %.', v_open, v_policy->>'max_active_loans';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 5. Renewals record the due date the loan actually ends up with
+CREATE OR REPLACE FUNCTION public.renew_loan(
+  p_loan_id uuid,
+  p_librarian_id uuid,
+  p_due_date date
+)
+RETURNS SETOF public.loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_loan public.loans;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Loan not found'; END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries
+    WHERE librarian_id = p_librarian_id AND library_id = v_loan.library_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  PERFORM public.assert_loan_renewable(v_loan, p_due_date);
+  p_due_date := public.next_open_day(v_loan.library_id, p_due_date);
+
+  UPDATE public.loans
+  SET renewals = renewals || jsonb_build_array(jsonb_build_object(
+        'at', now(),
+        'previous_due_date', due_date,
+        'new_due_date', p_due_date,
+        'requested_by', CASE WHEN renewal_request IS NULL THEN 'librarian' ELSE 'patron' END,
+        'librarian_id', p_librarian_id
+      )),
+      due_date = p_due_date,
+      renewal_request = NULL
+  WHERE id = v_loan.id;
+
+  RETURN QUERY SELECT * FROM public.loans WHERE id = v_loan.id;
+END;
+$$;
+
+-- 6. Late fees count only the days the library was open
+CREATE OR REPLACE FUNCTION public.assess_loan_fees()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_rules jsonb;
+  v_days_late integer := 0;
+  v_late_fee numeric := 0;
+  v_damage_fee numeric := 0;
+  v_before integer[];
+  v_after integer[];
+  v_key text;
+BEGIN
+  SELECT fee_rules INTO v_rules FROM public.libraries WHERE id = NEW.library_id;
+
+  IF NEW.due_date IS NOT NULL THEN
+    v_days_late := public.library_open_days_between(
+      NEW.library_id,
+      NEW.due_date,
+      public.library_today(NEW.library_id, coalesce(NEW.returned_at, now()))
+    );
+  END IF;
+
+  IF v_rules IS NULL THEN
+    NEW.fees := jsonb_build_object('currency', 'USD', 'days_late', v_days_late, 'late_fee', 0, 'damage_fee', 0);
+    RETURN NEW;
+  END IF;
+
+  -- Days past the due date count in full once the grace period is over
+  IF v_days_late > coalesce((v_rules->>'grace_days')::int, 0) THEN
+    v_late_fee := v_days_late * coalesce((v_rules->>'daily_late_fee')::numeric, 0);
+    IF v_rules->>'max_late_fee' IS NOT NULL THEN
+      v_late_fee := least(v_late_fee, (v_rules->>'max_late_fee')::numeric);
+    END IF;
+  END IF;
+
+  -- Conditions are only stored as counts, so copies are paired best with best
+  -- (0 = good, 1 = fair, 2 = bad) and each downgraded pair is charged
+  v_before := array_fill(0, ARRAY[coalesce((NEW.delivery_condition->>'good')::int, 0)])
+    || array_fill(1, ARRAY[coalesce((NEW.delivery_condition->>'fair')::int, 0)])
+    || array_fill(2, ARRAY[coalesce((NEW.delivery_condition->>'bad')::int, 0)]);
+  v_after := array_fill(0, ARRAY[coalesce((NEW.return_condition->>'good')::int, 0)])
+    || array_fill(1, ARRAY[coalesce((NEW.return_condition->>'fair')::int, 0)])
+    || array_fill(2, ARRAY[coalesce((NEW.return_condition->>'bad')::int, 0)]);
+
+  FOR i IN 1 .. least(coalesce(array_length(v_before, 1), 0), coalesce(array_length(v_after, 1), 0)) LOOP
+    IF v_after[i] > v_before[i] THEN
+      v_key := (ARRAY['good', 'fair', 'bad'])[v_before[i] + 1] || '_to_' || (ARRAY['good', 'fair', 'bad'])[v_after[i] + 1];
+      v_damage_fee := v_damage_fee + coalesce((v_rules->'damage_fees'->>v_key)::numeric, 0);
+    END IF;
+  END LOOP;
+
+  v_late_fee := round(v_late_fee, 2);
+  v_damage_fee := round(v_damage_fee, 2);
+
+  NEW.fees := jsonb_build_object(
+    'currency', coalesce(v_rules->>'currency', 'USD'),
+    'days_late', v_days_late,
+    'late_fee', v_late_fee,
+    'damage_fee', v_damage_fee
+  );
+
+  IF v_late_fee > 0 THEN
+    INSERT INTO public.patron_ledger (library_id, identifier, full_name, kind, amount, loan_id, note)
+    VALUES (NEW.library_id, NEW.identifier, NEW.full_name, 'late_fee', v_late_fee, NEW.id, v_days_late || ' días de atraso');
+  END IF;
+
+  IF v_damage_fee > 0 THEN
+    INSERT INTO public.patron_ledger (library_id, identifier, full_name, kind, amount, loan_id, note)
+    VALUES (NEW.library_id, NEW.identifier, NEW.full_name, 'damage_fee', v_damage_fee, NEW.id, 'Copias devueltas en peor estado');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
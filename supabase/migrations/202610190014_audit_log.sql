@@ -0,0 +1,50 @@
+-- Migration: Audit log
+-- Loan transitions and catalog edits are recorded with the librarian who made
+-- them and a snapshot of the record before and after. The server appends one row
+-- per change; rows can never be updated or deleted, not even with the service key.
+
+-- 1. Audit entries
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  library_id uuid NOT NULL REFERENCES public.libraries(id),
+  librarian_id uuid NOT NULL,
+  librarian_name text NOT NULL,
+  action text NOT NULL,
+  entity_type text NOT NULL CHECK (entity_type IN ('loan', 'book')),
+  entity_id uuid NOT NULL,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_library_idx ON public.audit_log (library_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON public.audit_log (entity_type, entity_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Librarians can view assigned audit entries"
+ON public.audit_log FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.librarian_libraries ll
+    WHERE ll.librarian_id = auth.uid()
+      AND ll.library_id = audit_log.library_id
+  )
+);
+
+-- 2. Append-only
+CREATE OR REPLACE FUNCTION public.reject_audit_log_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit log entries cannot be changed or removed';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON public.audit_log;
+CREATE TRIGGER audit_log_append_only
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW
+EXECUTE PROCEDURE public.reject_audit_log_change();
@@ -0,0 +1,69 @@
+-- Migration: Bulk catalog import
+-- A CSV import creates many books at once. Codes for every copy are allocated and
+-- all books and copies inserted inside one function call, so a failed row (a code
+-- clash, a bad value) rolls the whole import back and no code is left half-used.
+
+-- 1. Import RPC
+CREATE OR REPLACE FUNCTION public.import_library_books(
+  p_library_id uuid,
+  p_librarian_id uuid,
+  p_books jsonb
+)
+RETURNS SETOF public.books
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_total integer;
+  v_codes text[];
+  v_offset integer := 0;
+  v_item jsonb;
+  v_book_id uuid;
+BEGIN
+  SELECT coalesce(sum(jsonb_array_length(item->'conditions')), 0)::integer
+  INTO v_total
+  FROM jsonb_array_elements(p_books) AS item;
+
+  v_codes := public.allocate_library_codes(p_library_id, v_total);
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_books) LOOP
+    INSERT INTO public.books (
+      library_id, title, author, categories, book_code, editorial, edition, cover_type,
+      shelf_location, cost, acquired_at, image_url, total_copies, available_copies, library_codes
+    )
+    VALUES (
+      p_library_id,
+      v_item->'book'->>'title',
+      v_item->'book'->>'author',
+      ARRAY(SELECT jsonb_array_elements_text(v_item->'book'->'categories')),
+      v_item->'book'->>'book_code',
+      v_item->'book'->>'editorial',
+      v_item->'book'->>'edition',
+      v_item->'book'->>'cover_type',
+      v_item->'book'->>'shelf_location',
+      (v_item->'book'->>'cost')::numeric,
+      (v_item->'book'->>'acquired_at')::date,
+      v_item->'book'->>'image_url',
+      0,
+      0,
+      '{}'
+    )
+    RETURNING id INTO v_book_id;
+
+    -- Totals and codes on the book are refreshed by the book_copies trigger
+    INSERT INTO public.book_copies (library_id, book_id, code, condition, shelf_location, history)
+    SELECT
+      p_library_id,
+      v_book_id,
+      v_codes[v_offset + c.n],
+      c.condition,
+      v_item->'book'->>'shelf_location',
+      jsonb_build_array(jsonb_build_object('at', now(), 'action', 'created', 'librarian_id', p_librarian_id))
+    FROM jsonb_array_elements_text(v_item->'conditions') WITH ORDINALITY AS c(condition, n);
+
+    v_offset := v_offset + jsonb_array_length(v_item->'conditions');
+
+    RETURN QUERY SELECT * FROM public.books WHERE id = v_book_id;
+  END LOOP;
+END;
+$$;
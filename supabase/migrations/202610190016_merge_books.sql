@@ -0,0 +1,99 @@
+-- Migration: Merge duplicate books
+-- Two records for the same title are folded into one: the duplicate's copies, loans
+-- and holds move to the kept book, which takes the duplicate's details where its own
+-- are empty. The duplicate is archived rather than deleted so its audit trail stays.
+
+-- 1. Merge RPC
+CREATE OR REPLACE FUNCTION public.merge_books(
+  p_librarian_id uuid,
+  p_target_id uuid,
+  p_source_id uuid
+)
+RETURNS SETOF public.books
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_target public.books;
+  v_source public.books;
+  v_hold public.book_holds;
+  v_position integer;
+BEGIN
+  SELECT * INTO v_target FROM public.books WHERE id = p_target_id AND archived_at IS NULL FOR UPDATE;
+  SELECT * INTO v_source FROM public.books WHERE id = p_source_id AND archived_at IS NULL FOR UPDATE;
+
+  IF v_target.id IS NULL OR v_source.id IS NULL OR v_target.library_id <> v_source.library_id THEN
+    RAISE EXCEPTION 'Libro no encontrado.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.librarian_libraries
+    WHERE librarian_id = p_librarian_id AND library_id = v_target.library_id
+  ) THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  -- Totals and codes on both books are refreshed by the book_copies trigger
+  UPDATE public.book_copies
+  SET book_id = v_target.id,
+      history = history || jsonb_build_array(jsonb_build_object(
+        'at', now(), 'action', 'updated', 'librarian_id', p_librarian_id,
+        'note', format('Fusionada desde «%s».', v_source.title)
+      ))
+  WHERE book_id = v_source.id;
+
+  UPDATE public.loans SET book_id = v_target.id WHERE book_id = v_source.id;
+
+  -- Source holds join the end of the target's queue; a patron already queued for the target keeps that place
+  SELECT coalesce(max(position), 0) INTO v_position FROM public.book_holds WHERE book_id = v_target.id;
+
+  FOR v_hold IN
+    SELECT * FROM public.book_holds
+    WHERE book_id = v_source.id AND status IN ('waiting', 'ready')
+    ORDER BY position, created_at
+    FOR UPDATE
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM public.book_holds
+      WHERE book_id = v_target.id AND status IN ('waiting', 'ready') AND lower(identifier) = lower(v_hold.identifier)
+    ) THEN
+      UPDATE public.book_holds SET book_id = v_target.id, status = 'cancelled' WHERE id = v_hold.id;
+
+      -- Releasing the copy fires book_copies_offer_holds for the next patron in line
+      UPDATE public.book_copies
+      SET status = 'available',
+          history = history || jsonb_build_array(jsonb_build_object(
+            'at', now(), 'action', 'updated', 'librarian_id', p_librarian_id, 'hold_id', v_hold.id,
+            'note', 'Reserva duplicada al fusionar libros.', 'changes', jsonb_build_object('status', 'available')
+          ))
+      WHERE book_id = v_target.id AND code = v_hold.copy_code AND status = 'on_hold';
+    ELSE
+      v_position := v_position + 1;
+      UPDATE public.book_holds SET book_id = v_target.id, position = v_position WHERE id = v_hold.id;
+    END IF;
+  END LOOP;
+
+  UPDATE public.book_holds SET book_id = v_target.id WHERE book_id = v_source.id;
+
+  UPDATE public.books
+  SET archived_at = now()
+  WHERE id = v_source.id;
+
+  UPDATE public.books
+  SET categories = ARRAY(SELECT DISTINCT unnest(categories || v_source.categories)),
+      book_code = coalesce(nullif(book_code, ''), v_source.book_code),
+      editorial = coalesce(nullif(editorial, ''), v_source.editorial),
+      edition = coalesce(nullif(edition, ''), v_source.edition),
+      cover_type = coalesce(cover_type, v_source.cover_type),
+      shelf_location = coalesce(nullif(shelf_location, ''), v_source.shelf_location),
+      cost = coalesce(cost, v_source.cost),
+      acquired_at = coalesce(acquired_at, v_source.acquired_at),
+      image_url = coalesce(nullif(image_url, ''), v_source.image_url)
+  WHERE id = v_target.id;
+
+  -- Shelved source copies may now serve patrons already waiting for the target
+  PERFORM public.offer_copies_to_holds(v_target.id);
+
+  RETURN QUERY SELECT * FROM public.books WHERE id = v_target.id;
+END;
+$$;
@@ -0,0 +1,112 @@
+-- Migration: Transfer copies between libraries
+-- Librarians assigned to several libraries move copies between branches without
+-- archiving and re-creating them. A copy keeps its id and history; it keeps its code
+-- too unless the destination's format or an existing copy there rules it out, in
+-- which case the app allocates a new one and the old code is noted in the history.
+
+-- 1. Transfer RPC
+CREATE OR REPLACE FUNCTION public.transfer_book_copies(
+  p_librarian_id uuid,
+  p_book_id uuid,
+  p_to_library_id uuid,
+  p_target_book_id uuid,
+  p_book jsonb,
+  p_copies jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_source public.books;
+  v_destination public.books;
+  v_from_name text;
+  v_item jsonb;
+  v_copy public.book_copies;
+BEGIN
+  SELECT * INTO v_source FROM public.books WHERE id = p_book_id AND archived_at IS NULL FOR UPDATE;
+
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Libro no encontrado.';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT library_id) FROM public.librarian_libraries
+    WHERE librarian_id = p_librarian_id AND library_id IN (v_source.library_id, p_to_library_id)
+  ) < 2 THEN
+    RAISE EXCEPTION 'Librarian is not assigned to this library';
+  END IF;
+
+  IF p_target_book_id IS NOT NULL THEN
+    SELECT * INTO v_destination FROM public.books
+    WHERE id = p_target_book_id AND library_id = p_to_library_id AND archived_at IS NULL
+    FOR UPDATE;
+
+    IF v_destination.id IS NULL THEN
+      RAISE EXCEPTION 'Libro de destino no encontrado.';
+    END IF;
+  ELSE
+    INSERT INTO public.books (
+      library_id, title, author, categories, book_code, editorial, edition, cover_type,
+      shelf_location, cost, acquired_at, image_url, total_copies, available_copies, library_codes
+    )
+    VALUES (
+      p_to_library_id,
+      p_book->>'title',
+      p_book->>'author',
+      ARRAY(SELECT jsonb_array_elements_text(p_book->'categories')),
+      p_book->>'book_code',
+      p_book->>'editorial',
+      p_book->>'edition',
+      p_book->>'cover_type',
+      p_book->>'shelf_location',
+      (p_book->>'cost')::numeric,
+      (p_book->>'acquired_at')::date,
+      p_book->>'image_url',
+      0,
+      0,
+      '{}'
+    )
+    RETURNING * INTO v_destination;
+  END IF;
+
+  SELECT name INTO v_from_name FROM public.libraries WHERE id = v_source.library_id;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_copies) LOOP
+    SELECT * INTO v_copy FROM public.book_copies
+    WHERE id = (v_item->>'id')::uuid AND book_id = v_source.id
+    FOR UPDATE;
+
+    IF v_copy.id IS NULL THEN
+      RAISE EXCEPTION 'Copia no encontrada.';
+    END IF;
+
+    IF v_copy.status IN ('on_loan', 'on_hold') THEN
+      RAISE EXCEPTION 'La copia % está prestada o reservada y no se puede transferir.', v_copy.code;
+    END IF;
+
+    -- Totals and codes on both books are refreshed by the book_copies trigger
+    UPDATE public.book_copies
+    SET library_id = p_to_library_id,
+        book_id = v_destination.id,
+        code = v_item->>'code',
+        shelf_location = NULL,
+        history = history || jsonb_build_array(jsonb_build_object(
+          'at', now(), 'action', 'transferred', 'librarian_id', p_librarian_id,
+          'note', CASE
+            WHEN v_copy.code = v_item->>'code' THEN format('Transferida desde %s.', v_from_name)
+            ELSE format('Transferida desde %s; código anterior %s.', v_from_name, v_copy.code)
+          END
+        ))
+    WHERE id = v_copy.id;
+  END LOOP;
+
+  -- Copies reaching the shelf in the destination go to its waiting holds first
+  PERFORM public.offer_copies_to_holds(v_destination.id);
+
+  RETURN jsonb_build_object(
+    'source', (SELECT to_jsonb(b) FROM public.books b WHERE b.id = v_source.id),
+    'destination', (SELECT to_jsonb(b) FROM public.books b WHERE b.id = v_destination.id)
+  );
+END;
+$$;
@@ -0,0 +1,10 @@
+-- Migration: Audit patron cancellations and copy changes
+-- Renewals, hold handovers and copy edits are now recorded too. Copies get their
+-- own entity type, and a patron cancelling their own request from the public pages
+-- is recorded without a librarian.
+
+ALTER TABLE public.audit_log ALTER COLUMN librarian_id DROP NOT NULL;
+
+ALTER TABLE public.audit_log DROP CONSTRAINT IF EXISTS audit_log_entity_type_check;
+ALTER TABLE public.audit_log
+  ADD CONSTRAINT audit_log_entity_type_check CHECK (entity_type IN ('loan', 'book', 'copy'));
@@ -0,0 +1,49 @@
+-- Migration: Hand-entered codes advance the library's code sequence
+-- Librarians may type codes from an existing barcode series when adding copies.
+-- Those codes sit in the library's own series, so the copies are inserted and the
+-- library_code_sequences row raised past the highest one in one transaction;
+-- otherwise allocate_library_codes would later hand the same code out again.
+
+-- 1. Add copies RPC
+CREATE OR REPLACE FUNCTION public.add_book_copies(
+  p_book_id uuid,
+  p_librarian_id uuid,
+  p_copies jsonb
+)
+RETURNS SETOF public.book_copies
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_book public.books;
+  v_sequence bigint;
+BEGIN
+  SELECT * INTO v_book FROM public.books WHERE id = p_book_id AND archived_at IS NULL FOR UPDATE;
+
+  IF v_book.id IS NULL THEN
+    RAISE EXCEPTION 'Libro no encontrado.';
+  END IF;
+
+  -- Allocated codes carry no sequence; the allocation already moved past them
+  SELECT max((item->>'sequence')::bigint) INTO v_sequence FROM jsonb_array_elements(p_copies) AS item;
+
+  IF v_sequence IS NOT NULL THEN
+    INSERT INTO public.library_code_sequences AS s (library_id, last_value)
+    VALUES (v_book.library_id, v_sequence)
+    ON CONFLICT (library_id) DO UPDATE SET last_value = greatest(s.last_value, EXCLUDED.last_value);
+  END IF;
+
+  -- Totals, codes and waiting holds are handled by the book_copies triggers
+  RETURN QUERY
+  INSERT INTO public.book_copies (library_id, book_id, code, condition, shelf_location, history)
+  SELECT
+    v_book.library_id,
+    v_book.id,
+    item->>'code',
+    item->>'condition',
+    coalesce(item->>'shelf_location', v_book.shelf_location),
+    jsonb_build_array(jsonb_build_object('at', now(), 'action', 'created', 'librarian_id', p_librarian_id))
+  FROM jsonb_array_elements(p_copies) AS item
+  RETURNING *;
+END;
+$$;
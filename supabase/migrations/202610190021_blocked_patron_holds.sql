@@ -0,0 +1,70 @@
+-- Migration: Blocked patrons cannot join hold queues
+-- A hold turns into a loan when its copy comes back, so joining a queue is as good
+-- as requesting the loan. Blocked patrons are turned away here, as they already
+-- are when they request a loan.
+
+-- 1. Hold RPC
+CREATE OR REPLACE FUNCTION public.create_book_hold(
+  p_library_id uuid,
+  p_book_id uuid,
+  p_full_name text,
+  p_identifier text,
+  p_request_ip inet
+)
+RETURNS SETOF public.book_holds
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_book public.books;
+  v_count integer;
+  v_hold public.book_holds;
+BEGIN
+  IF trim(coalesce(p_full_name, '')) = '' OR trim(coalesce(p_identifier, '')) = '' THEN
+    RAISE EXCEPTION 'Required fields cannot be empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.patrons
+    WHERE library_id = p_library_id AND lower(identifier) = lower(trim(p_identifier)) AND status = 'blocked'
+  ) THEN
+    RAISE EXCEPTION 'Este lector está bloqueado y no puede solicitar préstamos.';
+  END IF;
+
+  -- Rate limit check, shared with loan requests
+  SELECT count(*) INTO v_count FROM public.loan_request_events
+  WHERE request_ip = p_request_ip AND created_at >= now() - interval '1 minute';
+  IF v_count >= 5 THEN RAISE EXCEPTION 'Rate limit exceeded for this IP'; END IF;
+
+  SELECT * INTO v_book FROM public.books
+  WHERE id = p_book_id AND library_id = p_library_id AND archived_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Book not found for this library'; END IF;
+
+  IF v_book.available_copies > 0 THEN
+    RAISE EXCEPTION 'Este título tiene copias disponibles; solicita el préstamo directamente.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.book_holds
+    WHERE book_id = p_book_id AND lower(identifier) = lower(trim(p_identifier)) AND status IN ('waiting', 'ready')
+  ) THEN
+    RAISE EXCEPTION 'Ya estás en la lista de espera de este título.';
+  END IF;
+
+  INSERT INTO public.loan_request_events (library_id, identifier, book_id, request_ip)
+  VALUES (p_library_id, p_identifier, p_book_id, p_request_ip);
+
+  INSERT INTO public.book_holds (library_id, book_id, full_name, identifier, position)
+  VALUES (
+    p_library_id,
+    p_book_id,
+    trim(p_full_name),
+    trim(p_identifier),
+    coalesce((SELECT max(position) FROM public.book_holds WHERE book_id = p_book_id AND status IN ('waiting', 'ready')), 0) + 1
+  )
+  RETURNING * INTO v_hold;
+
+  RETURN QUERY SELECT * FROM public.book_holds WHERE id = v_hold.id;
+END;
+$$;
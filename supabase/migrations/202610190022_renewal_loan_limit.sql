@@ -0,0 +1,48 @@
+-- Migration: Renewals respect the longest loan allowed
+-- The circulation policy trigger only checks due dates when a loan changes status,
+-- so a renewal could move the due date past max_loan_days. The renewal check now
+-- applies the same limit, counted from today, for librarian and patron renewals.
+
+-- 1. Renewal check
+CREATE OR REPLACE FUNCTION public.assert_loan_renewable(p_loan public.loans, p_due_date date)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_max integer;
+  v_policy jsonb;
+BEGIN
+  IF p_loan.status <> 'handled' THEN
+    RAISE EXCEPTION 'Solo los préstamos entregados se pueden renovar.';
+  END IF;
+
+  SELECT max_renewals INTO v_max FROM public.libraries WHERE id = p_loan.library_id;
+  IF jsonb_array_length(p_loan.renewals) >= v_max THEN
+    RAISE EXCEPTION 'Este préstamo ya alcanzó el máximo de % renovaciones.', v_max;
+  END IF;
+
+  IF p_due_date IS NULL OR (p_loan.due_date IS NOT NULL AND p_due_date <= p_loan.due_date) THEN
+    RAISE EXCEPTION 'La nueva fecha debe ser posterior a la fecha de devolución actual.';
+  END IF;
+
+  v_policy := public.library_circulation_policy(p_loan.library_id);
+  IF p_due_date > public.next_open_day(p_loan.library_id, current_date + (v_policy->>'max_loan_days')::int) THEN
+    RAISE EXCEPTION 'La fecha de devolución supera el máximo de % días de préstamo.', v_policy->>'max_loan_days';
+  END IF;
+
+  -- Another patron with an open request or hold for the same title blocks renewals
+  IF EXISTS (
+    SELECT 1 FROM public.loans
+    WHERE book_id = p_loan.book_id
+      AND lower(identifier) <> lower(p_loan.identifier)
+      AND status IN ('pending', 'approved')
+  ) OR EXISTS (
+    SELECT 1 FROM public.book_holds
+    WHERE book_id = p_loan.book_id
+      AND lower(identifier) <> lower(p_loan.identifier)
+      AND status IN ('waiting', 'ready')
+  ) THEN
+    RAISE EXCEPTION 'Otro lector está esperando este título; el préstamo no se puede renovar.';
+  END IF;
+END;
+$$;